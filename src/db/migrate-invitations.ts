@@ -0,0 +1,69 @@
+import { sql } from "drizzle-orm";
+import { getInvitationExpiry } from "../lib/invitations";
+import { db } from "./index";
+import { teamInvitations } from "./schema";
+
+interface LegacyInvitation extends Record<string, unknown> {
+  organization_id: number;
+  invited_by_id: number;
+  email: string;
+  role: string;
+  created_at: Date;
+}
+
+/**
+ * Move pending invitations from the old organization_invitations table to team_invitations
+ * and drop it; run once before `db:push`, which would otherwise drop the table with its rows
+ * Legacy invitations had no token, so they are moved with a new one and their original expiry;
+ * admins resend them from the invitation list
+ */
+async function migrateInvitations() {
+  const [table] = await db.execute<{ name: string | null }>(
+    sql`select to_regclass('organization_invitations')::text as name`,
+  );
+
+  if (!table?.name) {
+    console.log("✅ No organization_invitations table, nothing to migrate");
+    process.exit(0);
+  }
+
+  const moved = await db.transaction(async (tx) => {
+    const legacy = await tx.execute<LegacyInvitation>(sql`
+      select organization_id, invited_by_id, email, role, created_at
+      from organization_invitations
+      where status = 'pending'
+        and not exists (
+          select 1 from team_invitations
+          where team_invitations.organization_id = organization_invitations.organization_id
+            and lower(team_invitations.email) = lower(organization_invitations.email)
+            and team_invitations.status = 'pending'
+        )
+    `);
+
+    if (legacy.length > 0) {
+      await tx.insert(teamInvitations).values(
+        legacy.map((invitation) => ({
+          organizationId: invitation.organization_id,
+          invitedById: invitation.invited_by_id,
+          email: invitation.email,
+          role: invitation.role,
+          status: "pending",
+          expiresAt: getInvitationExpiry(new Date(invitation.created_at)),
+          createdAt: new Date(invitation.created_at),
+        })),
+      );
+    }
+
+    await tx.execute(sql`drop table organization_invitations`);
+
+    return legacy.length;
+  });
+
+  console.log(`✅ Moved ${moved} pending invitations and dropped organization_invitations`);
+  process.exit(0);
+}
+
+migrateInvitations().catch((error) => {
+  console.error("❌ Invitation migration failed:", error);
+  process.exit(1);
+});
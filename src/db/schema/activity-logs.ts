@@ -28,11 +28,12 @@ export const activityLogs = pgTable(
     userId: integer("user_id").references(() => users.id, {
       onDelete: "set null",
     }),
+    // The audit trail outlives deleted organizations and projects
     organizationId: integer("organization_id").references(() => organizations.id, {
-      onDelete: "cascade",
+      onDelete: "set null",
     }),
     projectId: integer("project_id").references(() => projects.id, {
-      onDelete: "cascade",
+      onDelete: "set null",
     }),
 
     // Timestamps
@@ -0,0 +1,56 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  integer,
+  json,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { organizations } from "./organizations";
+import { users } from "./users";
+
+// Organization API keys for machine-to-machine access; only a hash of the secret is stored
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 100 }).notNull(),
+    prefix: varchar("prefix", { length: 20 }).notNull(),
+    keyHash: text("key_hash").notNull().unique(),
+    scopes: json("scopes").$type<string[]>().default([]).notNull(),
+
+    // Foreign keys
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    createdById: integer("created_by_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+
+    // Lifecycle
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index("ix_api_keys_organization_id").on(table.organizationId)],
+);
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [apiKeys.organizationId],
+    references: [organizations.id],
+  }),
+  createdBy: one(users, {
+    fields: [apiKeys.createdById],
+    references: [users.id],
+  }),
+}));
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
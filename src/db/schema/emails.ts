@@ -0,0 +1,47 @@
+import { index, integer, pgTable, serial, text, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// Every outgoing email is persisted first and delivered by the outbox worker, with retries
+export const emailOutbox = pgTable(
+  "email_outbox",
+  {
+    id: serial("id").primaryKey(),
+    to: varchar("to", { length: 255 }).notNull(),
+    template: varchar("template", { length: 50 }),
+    locale: varchar("locale", { length: 10 }),
+    subject: text("subject").notNull(),
+    html: text("html").notNull(),
+    text: text("text").notNull(),
+
+    // Delivery
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, sending, sent, delivered, bounced, complained, failed, suppressed
+    attempts: integer("attempts").default(0).notNull(),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).defaultNow().notNull(),
+    lastError: text("last_error"),
+    transport: varchar("transport", { length: 20 }),
+    providerMessageId: varchar("provider_message_id", { length: 255 }),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("ix_email_outbox_status_next_attempt_at").on(table.status, table.nextAttemptAt),
+    index("ix_email_outbox_provider_message_id").on(table.providerMessageId),
+  ],
+);
+
+// Addresses that hard-bounced or complained; nothing is sent to them until removed
+export const emailSuppressions = pgTable("email_suppressions", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull().unique(), // stored lowercased
+  reason: varchar("reason", { length: 20 }).notNull(), // bounce, complaint
+  details: text("details"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type NewEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+export type EmailSuppression = typeof emailSuppressions.$inferSelect;
+export type NewEmailSuppression = typeof emailSuppressions.$inferInsert;
@@ -0,0 +1,50 @@
+import { relations } from "drizzle-orm";
+import { bigint, index, integer, pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+import { organizations } from "./organizations";
+import { users } from "./users";
+
+// Metadata for every object stored in R2, used for storage quota accounting
+export const files = pgTable(
+  "files",
+  {
+    id: serial("id").primaryKey(),
+    key: varchar("key", { length: 500 }).notNull().unique(),
+    folder: varchar("folder", { length: 50 }).notNull(),
+    filename: varchar("filename", { length: 255 }),
+    contentType: varchar("content_type", { length: 100 }).notNull(),
+    sizeBytes: bigint("size_bytes", { mode: "number" }).default(0).notNull(),
+    status: varchar("status", { length: 20 }).default("uploaded").notNull(), // pending, uploaded
+    expiresAt: timestamp("expires_at", { withTimezone: true }), // when a pending upload stops holding quota
+
+    // Owners
+    userId: integer("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    organizationId: integer("organization_id").references(() => organizations.id, {
+      onDelete: "cascade",
+    }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("ix_files_organization_folder").on(table.organizationId, table.folder),
+    index("ix_files_user_id").on(table.userId),
+    index("ix_files_status_expires_at").on(table.status, table.expiresAt),
+  ],
+);
+
+export const filesRelations = relations(files, ({ one }) => ({
+  user: one(users, {
+    fields: [files.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [files.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export type StoredFile = typeof files.$inferSelect;
+export type NewStoredFile = typeof files.$inferInsert;
@@ -1,8 +1,18 @@
 // Export all schema definitions
 
 export * from "./activity-logs";
+export * from "./api-keys";
+export * from "./emails";
+export * from "./files";
 export * from "./invitations";
+export * from "./jobs";
+export * from "./nfse-invoices";
 export * from "./organizations";
 export * from "./projects";
+export * from "./rate-limits";
+export * from "./sessions";
+export * from "./stripe-events";
 export * from "./subscriptions";
+export * from "./usage-events";
 export * from "./users";
+export * from "./webhooks";
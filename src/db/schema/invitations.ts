@@ -62,7 +62,7 @@ export const teamInvitations = pgTable("team_invitations", {
   message: text("message"),
 
   // Status tracking
-  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, accepted, declined, expired
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, accepted, declined, expired, revoked
 
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
   acceptedAt: timestamp("accepted_at", { withTimezone: true }),
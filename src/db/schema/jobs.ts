@@ -0,0 +1,48 @@
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  json,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+
+// Jobs that still hold their unique key; finished jobs release it so the work can be queued again
+export const ACTIVE_JOB_CONDITION = sql`status IN ('pending', 'running')`;
+
+// Background jobs; workers claim due rows with SKIP LOCKED so several can run side by side
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 100 }).notNull(),
+    payload: json("payload").$type<unknown>().notNull(),
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, running, completed, dead, cancelled
+    uniqueKey: varchar("unique_key", { length: 255 }), // e.g. cron:<name>:<slot>, prevents duplicates while active
+
+    // Scheduling and retries
+    runAt: timestamp("run_at", { withTimezone: true }).defaultNow().notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(5).notNull(),
+    lastError: text("last_error"),
+    lockedBy: varchar("locked_by", { length: 100 }),
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("ix_jobs_status_run_at").on(table.status, table.runAt),
+    index("ix_jobs_name").on(table.name),
+    uniqueIndex("ix_jobs_unique_key").on(table.uniqueKey).where(ACTIVE_JOB_CONDITION),
+  ],
+);
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
@@ -0,0 +1,53 @@
+import { relations } from "drizzle-orm";
+import { index, integer, pgTable, serial, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { organizations } from "./organizations";
+import { billingHistory } from "./subscriptions";
+
+// Brazilian service invoices (NFS-e) issued through the fiscal API for paid BRL invoices
+export const nfseInvoices = pgTable(
+  "nfse_invoices",
+  {
+    id: serial("id").primaryKey(),
+
+    // Foreign keys
+    billingHistoryId: integer("billing_history_id")
+      .references(() => billingHistory.id, { onDelete: "cascade" })
+      .notNull()
+      .unique(), // one note per paid invoice
+    organizationId: integer("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+
+    // Fiscal API record
+    reference: varchar("reference", { length: 100 }).unique(), // set once the fiscal API accepted the note
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, processing, authorized, cancelled, error
+    nfseNumber: varchar("nfse_number", { length: 50 }),
+    amount: integer("amount").notNull(), // in cents (BRL)
+    pdfUrl: text("pdf_url"),
+    xmlUrl: text("xml_url"),
+    errorMessage: text("error_message"),
+
+    // Status polling while the municipality processes the note
+    syncAttempts: integer("sync_attempts").default(0).notNull(),
+
+    // Timestamps
+    issuedAt: timestamp("issued_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [index("ix_nfse_invoices_organization_id").on(table.organizationId)],
+);
+
+export const nfseInvoicesRelations = relations(nfseInvoices, ({ one }) => ({
+  billingHistory: one(billingHistory, {
+    fields: [nfseInvoices.billingHistoryId],
+    references: [billingHistory.id],
+  }),
+  organization: one(organizations, {
+    fields: [nfseInvoices.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export type NfseInvoice = typeof nfseInvoices.$inferSelect;
+export type NewNfseInvoice = typeof nfseInvoices.$inferInsert;
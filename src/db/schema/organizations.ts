@@ -1,5 +1,16 @@
 import { relations } from "drizzle-orm";
-import { integer, pgEnum, pgTable, serial, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  integer,
+  json,
+  pgEnum,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { users } from "./users";
 
 // Organization member roles
@@ -23,11 +34,22 @@ export const organizations = pgTable("organizations", {
   stripeProductId: text("stripe_product_id"),
   planName: varchar("plan_name", { length: 50 }),
   subscriptionStatus: varchar("subscription_status", { length: 20 }),
+  billingCountry: varchar("billing_country", { length: 2 }), // ISO 3166-1 alpha-2, picks the currency
 
   // Limits
   maxProjects: integer("max_projects").default(3).notNull(),
   activeProjects: integer("active_projects").default(0).notNull(),
 
+  // Set when usage exceeds the plan limits (e.g. after a downgrade)
+  readOnly: boolean("read_only").default(false).notNull(),
+  readOnlyReason: varchar("read_only_reason", { length: 100 }),
+
+  // Plan features turned on or off for this organization by a superuser
+  featureOverrides: json("feature_overrides")
+    .$type<Record<string, boolean>>()
+    .default({})
+    .notNull(),
+
   // Timestamps
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
@@ -35,82 +57,133 @@ export const organizations = pgTable("organizations", {
 
 export const organizationsRelations = relations(organizations, ({ many, one }) => ({
   members: many(organizationMembers),
-  invitations: many(organizationInvitations),
+  roles: many(organizationRoles),
+  invitations: many(teamInvitations),
   projects: many(projects),
   activityLogs: many(activityLogs),
   subscription: one(customerSubscriptions, {
     fields: [organizations.id],
     references: [customerSubscriptions.organizationId],
   }),
+  billingProfile: one(organizationBillingProfiles, {
+    fields: [organizations.id],
+    references: [organizationBillingProfiles.organizationId],
+  }),
 }));
 
-export const organizationMembers = pgTable("organization_members", {
+// Who an organization is billed as; kept in sync with its Stripe customer
+// The country is the organization's billingCountry
+export const organizationBillingProfiles = pgTable("organization_billing_profiles", {
   id: serial("id").primaryKey(),
-  role: organizationMemberRoleEnum("role").default("member").notNull(),
-
-  // Foreign keys
-  userId: integer("user_id")
-    .references(() => users.id, { onDelete: "cascade" })
-    .notNull(),
   organizationId: integer("organization_id")
     .references(() => organizations.id, { onDelete: "cascade" })
-    .notNull(),
+    .notNull()
+    .unique(),
+
+  legalName: varchar("legal_name", { length: 255 }),
+  billingEmail: varchar("billing_email", { length: 255 }),
+  taxIds: json("tax_ids")
+    .$type<{ type: "cnpj" | "cpf" | "vat" | "ein"; value: string }[]>()
+    .default([])
+    .notNull(), // values stored in the format Stripe expects
+
+  // Address
+  addressLine1: varchar("address_line1", { length: 255 }),
+  addressLine2: varchar("address_line2", { length: 255 }),
+  addressCity: varchar("address_city", { length: 100 }),
+  addressState: varchar("address_state", { length: 100 }),
+  addressPostalCode: varchar("address_postal_code", { length: 20 }),
+
+  // Last successful sync to the Stripe customer
+  stripeSyncedAt: timestamp("stripe_synced_at", { withTimezone: true }),
 
   // Timestamps
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
 });
 
-export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
-  user: one(users, {
-    fields: [organizationMembers.userId],
-    references: [users.id],
-  }),
-  organization: one(organizations, {
-    fields: [organizationMembers.organizationId],
-    references: [organizations.id],
+export const organizationBillingProfilesRelations = relations(
+  organizationBillingProfiles,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationBillingProfiles.organizationId],
+      references: [organizations.id],
+    }),
   }),
-}));
+);
 
-export const organizationInvitations = pgTable("organization_invitations", {
+// Custom roles defined by an organization; permissions are granted on top of the built-in role
+export const organizationRoles = pgTable("organization_roles", {
   id: serial("id").primaryKey(),
-  email: varchar("email", { length: 255 }).notNull(),
-  role: varchar("role", { length: 50 }).notNull(),
-  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, accepted, declined
+  name: varchar("name", { length: 50 }).notNull(),
+  description: text("description"),
+  permissions: json("permissions").$type<string[]>().default([]).notNull(),
 
   // Foreign keys
   organizationId: integer("organization_id")
     .references(() => organizations.id, { onDelete: "cascade" })
     .notNull(),
-  invitedById: integer("invited_by_id")
-    .references(() => users.id, { onDelete: "cascade" })
-    .notNull(),
-  inviteeId: integer("invitee_id").references(() => users.id, {
-    onDelete: "set null",
-  }),
 
   // Timestamps
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
 });
 
-export const organizationInvitationsRelations = relations(organizationInvitations, ({ one }) => ({
+export const organizationRolesRelations = relations(organizationRoles, ({ one, many }) => ({
   organization: one(organizations, {
-    fields: [organizationInvitations.organizationId],
+    fields: [organizationRoles.organizationId],
     references: [organizations.id],
   }),
-  invitedBy: one(users, {
-    fields: [organizationInvitations.invitedById],
+  members: many(organizationMembers),
+}));
+
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    id: serial("id").primaryKey(),
+    role: organizationMemberRoleEnum("role").default("member").notNull(),
+    customRoleId: integer("custom_role_id").references(() => organizationRoles.id, {
+      onDelete: "set null",
+    }),
+
+    // Foreign keys
+    userId: integer("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    organizationId: integer("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  // A user holds at most one membership per organization
+  (table) => [
+    uniqueIndex("ix_organization_members_user_id_organization_id").on(
+      table.userId,
+      table.organizationId,
+    ),
+  ],
+);
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  user: one(users, {
+    fields: [organizationMembers.userId],
     references: [users.id],
-    relationName: "invitedBy",
   }),
-  invitee: one(users, {
-    fields: [organizationInvitations.inviteeId],
-    references: [users.id],
-    relationName: "invitee",
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  customRole: one(organizationRoles, {
+    fields: [organizationMembers.customRoleId],
+    references: [organizationRoles.id],
   }),
 }));
 
 import { activityLogs } from "./activity-logs";
+import { teamInvitations } from "./invitations";
 // Import related tables for relations
 import { projects } from "./projects";
 import { customerSubscriptions } from "./subscriptions";
@@ -119,5 +192,7 @@ export type Organization = typeof organizations.$inferSelect;
 export type NewOrganization = typeof organizations.$inferInsert;
 export type OrganizationMember = typeof organizationMembers.$inferSelect;
 export type NewOrganizationMember = typeof organizationMembers.$inferInsert;
-export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
-export type NewOrganizationInvitation = typeof organizationInvitations.$inferInsert;
+export type OrganizationRole = typeof organizationRoles.$inferSelect;
+export type NewOrganizationRole = typeof organizationRoles.$inferInsert;
+export type OrganizationBillingProfile = typeof organizationBillingProfiles.$inferSelect;
+export type NewOrganizationBillingProfile = typeof organizationBillingProfiles.$inferInsert;
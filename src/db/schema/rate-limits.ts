@@ -0,0 +1,15 @@
+import { index, integer, pgTable, timestamp, varchar } from "drizzle-orm/pg-core";
+
+// Fixed-window hit counters shared by every API instance
+export const rateLimits = pgTable(
+  "rate_limits",
+  {
+    key: varchar("key", { length: 255 }).primaryKey(), // <limiter>:<user|api_key|ip>:<id>
+    hits: integer("hits").default(0).notNull(),
+    resetAt: timestamp("reset_at", { withTimezone: true }).notNull(),
+  },
+  (table) => [index("ix_rate_limits_reset_at").on(table.resetAt)],
+);
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type NewRateLimit = typeof rateLimits.$inferInsert;
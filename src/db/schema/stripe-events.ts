@@ -0,0 +1,43 @@
+import {
+  index,
+  integer,
+  json,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+
+// Every Stripe webhook event received, so retries are skipped and failures can be re-processed
+export const stripeEvents = pgTable(
+  "stripe_events",
+  {
+    id: serial("id").primaryKey(),
+    stripeEventId: varchar("stripe_event_id", { length: 255 }).notNull().unique(),
+    type: varchar("type", { length: 100 }).notNull(),
+    stripeSubscriptionId: varchar("stripe_subscription_id", { length: 100 }),
+    payload: json("payload").$type<Record<string, unknown>>().notNull(),
+
+    // Processing
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, processing, processed, skipped, failed
+    attempts: integer("attempts").default(0).notNull(),
+    error: text("error"),
+    eventCreatedAt: timestamp("event_created_at", { withTimezone: true }).notNull(),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("ix_stripe_events_stripe_subscription_id").on(
+      table.stripeSubscriptionId,
+      table.eventCreatedAt,
+    ),
+    index("ix_stripe_events_status").on(table.status),
+  ],
+);
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type NewStripeEvent = typeof stripeEvents.$inferInsert;
@@ -1,6 +1,7 @@
 import { relations } from "drizzle-orm";
 import {
   boolean,
+  index,
   integer,
   json,
   pgTable,
@@ -17,9 +18,15 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   displayName: varchar("display_name", { length: 100 }).notNull(),
   description: text("description"),
 
-  // Stripe IDs
+  // Stripe IDs (the unsuffixed prices are in USD)
   stripePriceIdMonthly: varchar("stripe_price_id_monthly", { length: 100 }),
   stripePriceIdYearly: varchar("stripe_price_id_yearly", { length: 100 }),
+  stripePriceIdMonthlyEur: varchar("stripe_price_id_monthly_eur", { length: 100 }),
+  stripePriceIdYearlyEur: varchar("stripe_price_id_yearly_eur", { length: 100 }),
+  stripePriceIdMonthlyGbp: varchar("stripe_price_id_monthly_gbp", { length: 100 }),
+  stripePriceIdYearlyGbp: varchar("stripe_price_id_yearly_gbp", { length: 100 }),
+  stripePriceIdMonthlyBrl: varchar("stripe_price_id_monthly_brl", { length: 100 }),
+  stripePriceIdYearlyBrl: varchar("stripe_price_id_yearly_brl", { length: 100 }),
   stripeProductId: varchar("stripe_product_id", { length: 100 }),
 
   // Pricing (in cents)
@@ -37,9 +44,14 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   maxUsers: integer("max_users").default(1).notNull(),
   maxStorageGb: integer("max_storage_gb").default(1).notNull(),
 
+  // Free trial (0 disables it); trials without a card are started from the API instead of checkout
+  trialDays: integer("trial_days").default(0).notNull(),
+  trialWithoutCard: boolean("trial_without_card").default(false).notNull(),
+
   // AI limits
   maxAiCreditsMonthly: integer("max_ai_credits_monthly").default(0).notNull(),
   aiFeaturesEnabled: json("ai_features_enabled").$type<string[]>().default([]),
+  aiOverageEnabled: boolean("ai_overage_enabled").default(false).notNull(), // bill credits beyond the allowance instead of refusing them
 
   // Features
   features: json("features").$type<Record<string, boolean>>().default({}),
@@ -54,7 +66,7 @@ export const subscriptionPlans = pgTable("subscription_plans", {
 });
 
 export const subscriptionPlansRelations = relations(subscriptionPlans, ({ many }) => ({
-  subscriptions: many(customerSubscriptions),
+  subscriptions: many(customerSubscriptions, { relationName: "plan" }),
 }));
 
 export const customerSubscriptions = pgTable("customer_subscriptions", {
@@ -84,6 +96,20 @@ export const customerSubscriptions = pgTable("customer_subscriptions", {
   canceledAt: timestamp("canceled_at", { withTimezone: true }),
   trialStart: timestamp("trial_start", { withTimezone: true }),
   trialEnd: timestamp("trial_end", { withTimezone: true }),
+  trialUsed: boolean("trial_used").default(false).notNull(), // one trial per organization
+  billingInterval: varchar("billing_interval", { length: 10 }), // monthly, yearly
+  currency: varchar("currency", { length: 3 }), // set by the first subscription; Stripe customers bill in one currency
+
+  // Plan change scheduled for the end of the period (downgrades)
+  scheduledPlanId: integer("scheduled_plan_id").references(() => subscriptionPlans.id, {
+    onDelete: "set null",
+  }),
+  scheduledInterval: varchar("scheduled_interval", { length: 10 }),
+  scheduledChangeAt: timestamp("scheduled_change_at", { withTimezone: true }),
+  stripeScheduleId: varchar("stripe_schedule_id", { length: 100 }),
+
+  // Last time billing history was checked against Stripe
+  billingReconciledAt: timestamp("billing_reconciled_at", { withTimezone: true }),
 
   // Usage tracking
   currentUsersCount: integer("current_users_count").default(0).notNull(),
@@ -106,42 +132,58 @@ export const customerSubscriptionsRelations = relations(customerSubscriptions, (
   plan: one(subscriptionPlans, {
     fields: [customerSubscriptions.planId],
     references: [subscriptionPlans.id],
+    relationName: "plan",
+  }),
+  scheduledPlan: one(subscriptionPlans, {
+    fields: [customerSubscriptions.scheduledPlanId],
+    references: [subscriptionPlans.id],
   }),
   billingHistory: many(billingHistory),
 }));
 
-export const billingHistory = pgTable("billing_history", {
-  id: serial("id").primaryKey(),
-
-  // Foreign key
-  subscriptionId: integer("subscription_id")
-    .references(() => customerSubscriptions.id, { onDelete: "cascade" })
-    .notNull(),
-
-  // Invoice details
-  stripeInvoiceId: varchar("stripe_invoice_id", { length: 100 }).unique(),
-  stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 100 }),
-
-  // Payment information
-  amount: integer("amount").notNull(), // in cents
-  currency: varchar("currency", { length: 3 }).default("usd").notNull(),
-  status: varchar("status", { length: 20 }).notNull(), // paid, failed, pending, refunded
-
-  // Dates
-  invoiceDate: timestamp("invoice_date", { withTimezone: true }).defaultNow().notNull(),
-  paidAt: timestamp("paid_at", { withTimezone: true }),
-
-  // URLs
-  invoiceUrl: text("invoice_url"),
-  invoicePdf: text("invoice_pdf"),
-
-  // Metadata
-  description: text("description"),
-  extraData: json("extra_data").$type<Record<string, unknown>>().default({}),
-
-  // Timestamps
-  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
-});
+export const billingHistory = pgTable(
+  "billing_history",
+  {
+    id: serial("id").primaryKey(),
+
+    // Foreign key
+    subscriptionId: integer("subscription_id")
+      .references(() => customerSubscriptions.id, { onDelete: "cascade" })
+      .notNull(),
+
+    // Invoice details
+    kind: varchar("kind", { length: 20 }).default("invoice").notNull(), // invoice, credit_note
+    stripeInvoiceId: varchar("stripe_invoice_id", { length: 100 }).unique(),
+    stripeCreditNoteId: varchar("stripe_credit_note_id", { length: 100 }).unique(),
+    stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 100 }),
+    invoiceNumber: varchar("invoice_number", { length: 100 }),
+
+    // Payment information
+    amount: integer("amount").notNull(), // in cents; negative for credit notes
+    amountRefunded: integer("amount_refunded").default(0).notNull(),
+    currency: varchar("currency", { length: 3 }).default("USD").notNull(), // ISO code, uppercase
+    status: varchar("status", { length: 20 }).notNull(), // paid, pending, failed, refunded, void, uncollectible, credited
+
+    // Dates
+    invoiceDate: timestamp("invoice_date", { withTimezone: true }).defaultNow().notNull(),
+    paidAt: timestamp("paid_at", { withTimezone: true }),
+
+    // URLs
+    invoiceUrl: text("invoice_url"),
+    invoicePdf: text("invoice_pdf"),
+
+    // Metadata
+    description: text("description"),
+    extraData: json("extra_data").$type<Record<string, unknown>>().default({}),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("ix_billing_history_subscription_id").on(table.subscriptionId, table.invoiceDate),
+  ],
+);
 
 export const billingHistoryRelations = relations(billingHistory, ({ one }) => ({
   subscription: one(customerSubscriptions, {
@@ -0,0 +1,66 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  integer,
+  json,
+  pgTable,
+  serial,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { organizations } from "./organizations";
+import { projects } from "./projects";
+import { users } from "./users";
+
+// AI credits consumed by an organization, one row per metered call
+export const usageEvents = pgTable(
+  "usage_events",
+  {
+    id: serial("id").primaryKey(),
+
+    // Foreign keys
+    organizationId: integer("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+    userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+
+    // Consumption
+    feature: varchar("feature", { length: 50 }).notNull(), // chat, code_completion, image_generation, voice, video
+    quantity: integer("quantity").notNull(), // AI credits
+    overageQuantity: integer("overage_quantity").default(0).notNull(), // credits beyond the monthly allowance
+    idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(), // unique per organization
+
+    // Overage reported to Stripe as a meter event
+    stripeReportedAt: timestamp("stripe_reported_at", { withTimezone: true }),
+
+    // Metadata
+    metadata: json("metadata").$type<Record<string, unknown>>().default({}),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("ix_usage_events_idempotency_key").on(table.organizationId, table.idempotencyKey),
+    index("ix_usage_events_organization_created_at").on(table.organizationId, table.createdAt),
+  ],
+);
+
+export const usageEventsRelations = relations(usageEvents, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [usageEvents.organizationId],
+    references: [organizations.id],
+  }),
+  project: one(projects, {
+    fields: [usageEvents.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [usageEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export type UsageEvent = typeof usageEvents.$inferSelect;
+export type NewUsageEvent = typeof usageEvents.$inferInsert;
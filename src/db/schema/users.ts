@@ -24,6 +24,7 @@ export const users = pgTable("users", {
   jobTitle: varchar("job_title", { length: 100 }),
   country: varchar("country", { length: 100 }),
   timezone: varchar("timezone", { length: 50 }),
+  locale: varchar("locale", { length: 10 }), // preferred email language, e.g. "pt-BR"
   bio: varchar("bio", { length: 500 }),
   website: varchar("website", { length: 200 }),
 
@@ -35,6 +36,17 @@ export const users = pgTable("users", {
   addressPostalCode: varchar("address_postal_code", { length: 20 }),
   companyName: varchar("company_name", { length: 255 }),
 
+  // Two-factor authentication (TOTP)
+  mfaEnabled: boolean("mfa_enabled").default(false).notNull(),
+  mfaSecret: varchar("mfa_secret", { length: 64 }),
+  mfaEnabledAt: timestamp("mfa_enabled_at", { withTimezone: true }),
+  mfaLastUsedStep: integer("mfa_last_used_step"),
+
+  // Brute-force protection
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lastFailedLoginAt: timestamp("last_failed_login_at", { withTimezone: true }),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }),
+
   // Onboarding tracking
   onboardingCompleted: boolean("onboarding_completed").default(false).notNull(),
   onboardingStep: integer("onboarding_step").default(0).notNull(),
@@ -46,12 +58,6 @@ export const users = pgTable("users", {
 
 export const usersRelations = relations(users, ({ many }) => ({
   organizationMemberships: many(organizationMembers),
-  sentInvitations: many(organizationInvitations, {
-    relationName: "invitedBy",
-  }),
-  receivedInvitations: many(organizationInvitations, {
-    relationName: "invitee",
-  }),
   activityLogs: many(activityLogs),
   teamInvitations: many(teamInvitations, { relationName: "invitedBy" }),
 }));
@@ -62,16 +68,30 @@ export const emailTokens = pgTable("email_tokens", {
   userEmail: varchar("user_email", { length: 255 }).notNull(),
   tokenType: varchar("token_type", { length: 50 }).notNull(), // 'verification', 'password_reset', 'otp'
   tokenHash: text("token_hash").notNull(),
+  attempts: integer("attempts").default(0).notNull(), // wrong guesses against this token
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 });
 
+// One-time recovery codes for two-factor authentication
+export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
 import { activityLogs } from "./activity-logs";
 import { teamInvitations } from "./invitations";
 // Import related tables for relations
-import { organizationInvitations, organizationMembers } from "./organizations";
+import { organizationMembers } from "./organizations";
 
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type EmailToken = typeof emailTokens.$inferSelect;
 export type NewEmailToken = typeof emailTokens.$inferInsert;
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
@@ -0,0 +1,100 @@
+import { relations } from "drizzle-orm";
+import {
+  boolean,
+  index,
+  integer,
+  json,
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { organizations } from "./organizations";
+import { users } from "./users";
+
+// Customer endpoints notified about events in their organization
+export const webhookEndpoints = pgTable(
+  "webhook_endpoints",
+  {
+    id: serial("id").primaryKey(),
+    url: varchar("url", { length: 500 }).notNull(),
+    description: varchar("description", { length: 255 }),
+    secret: varchar("secret", { length: 100 }).notNull(), // signing secret, shown to admins
+    events: json("events").$type<string[]>().default([]).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+
+    // Automatic disabling
+    consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+    disabledAt: timestamp("disabled_at", { withTimezone: true }),
+    disabledReason: varchar("disabled_reason", { length: 255 }),
+
+    // Foreign keys
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    createdById: integer("created_by_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [index("ix_webhook_endpoints_organization_id").on(table.organizationId)],
+);
+
+// One row per event sent to an endpoint, with the outcome of the latest attempt
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    endpointId: integer("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    eventId: varchar("event_id", { length: 50 }).notNull(),
+    eventType: varchar("event_type", { length: 100 }).notNull(),
+    payload: json("payload").$type<Record<string, unknown>>().notNull(),
+
+    // Delivery
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, succeeded, failed
+    attempts: integer("attempts").default(0).notNull(),
+    responseStatus: integer("response_status"),
+    durationMs: integer("duration_ms"),
+    error: text("error"),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+
+    // Timestamps
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("ix_webhook_deliveries_endpoint_id").on(table.endpointId),
+    index("ix_webhook_deliveries_event_id").on(table.eventId),
+  ],
+);
+
+export const webhookEndpointsRelations = relations(webhookEndpoints, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [webhookEndpoints.organizationId],
+    references: [organizations.id],
+  }),
+  createdBy: one(users, {
+    fields: [webhookEndpoints.createdById],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  endpoint: one(webhookEndpoints, {
+    fields: [webhookDeliveries.endpointId],
+    references: [webhookEndpoints.id],
+  }),
+}));
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
@@ -55,6 +55,14 @@ async function seed() {
         description: "For professionals and small teams",
         priceMonthlyUsd: 1900, // $19.00
         priceYearlyUsd: 19000, // $190.00 (2 months free)
+        priceMonthlyEur: 1800, // €18.00
+        priceYearlyEur: 18000,
+        priceMonthlyGbp: 1500, // £15.00
+        priceYearlyGbp: 15000,
+        priceMonthlyBrl: 9900, // R$ 99,00
+        priceYearlyBrl: 99000,
+        trialDays: 14,
+        trialWithoutCard: true,
         maxProjects: 10,
         maxUsers: 5,
         maxStorageGb: 10,
@@ -76,11 +84,20 @@ async function seed() {
         description: "For growing businesses",
         priceMonthlyUsd: 4900, // $49.00
         priceYearlyUsd: 49000, // $490.00 (2 months free)
+        priceMonthlyEur: 4500, // €45.00
+        priceYearlyEur: 45000,
+        priceMonthlyGbp: 3900, // £39.00
+        priceYearlyGbp: 39000,
+        priceMonthlyBrl: 24900, // R$ 249,00
+        priceYearlyBrl: 249000,
+        trialDays: 14,
+        trialWithoutCard: false,
         maxProjects: 50,
         maxUsers: 20,
         maxStorageGb: 100,
         maxAiCreditsMonthly: 10000,
         aiFeaturesEnabled: ["chat", "code_completion", "image_generation", "voice", "video"],
+        aiOverageEnabled: true,
         features: {
           api_access: true,
           email_support: true,
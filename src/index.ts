@@ -3,16 +3,19 @@ import { Hono } from "hono";
 import { logger } from "hono/logger";
 import { prettyJSON } from "hono/pretty-json";
 import { secureHeaders } from "hono/secure-headers";
+import { startJobWorker } from "./jobs/worker";
 import { env } from "./lib/env";
 import { openApiSpec } from "./lib/openapi";
 import { captureException } from "./lib/sentry";
 import { corsMiddleware, loggerMiddleware } from "./middleware";
 
 // Import routes
+import adminRouter from "./routes/admin";
 import authRouter from "./routes/auth";
 import onboardingRouter from "./routes/auth/onboarding";
 import otpRouter from "./routes/auth/otp";
 import healthRouter from "./routes/health";
+import invitationsRouter from "./routes/invitations";
 import organizationsRouter from "./routes/organizations";
 import projectsRouter from "./routes/projects";
 import subscriptionsRouter from "./routes/subscriptions";
@@ -77,10 +80,14 @@ apiV1.route("/auth/onboarding", onboardingRouter);
 // Resource routes
 apiV1.route("/users", usersRouter);
 apiV1.route("/organizations", organizationsRouter);
+apiV1.route("/invitations", invitationsRouter);
 apiV1.route("/projects", projectsRouter);
 apiV1.route("/subscriptions", subscriptionsRouter);
 apiV1.route("/uploads", uploadsRouter);
 
+// Admin tooling
+apiV1.route("/admin", adminRouter);
+
 // Mount API v1
 app.route("/api/v1", apiV1);
 
@@ -117,6 +124,18 @@ app.onError((err, c) => {
   );
 });
 
+// Run background jobs in the API process unless a separate worker handles them
+if (env.NODE_ENV !== "test" && env.JOB_WORKER_EMBEDDED) {
+  const worker = startJobWorker({ concurrency: env.JOB_WORKER_CONCURRENCY });
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, async () => {
+      await worker.stop();
+      process.exit(0);
+    });
+  }
+}
+
 // Export for Bun
 export default {
   port: env.PORT,
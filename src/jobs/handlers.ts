@@ -0,0 +1,113 @@
+import { eq, lt } from "drizzle-orm";
+import { db } from "../db";
+import { emailOutbox, emailTokens } from "../db/schema";
+import { claimEmail, deliverEmail, processEmailOutbox } from "../lib/email-outbox";
+import type { JobName, JobPayloads } from "../lib/jobs";
+import { pruneJobs } from "../lib/jobs";
+import { deliverWebhook } from "../lib/webhooks";
+import { reconcileAllBillingHistory } from "../services/billing-history.service";
+import { syncBillingProfileToStripe } from "../services/billing-profile.service";
+import { expireEndedTrials, refreshSeatCount } from "../services/entitlement.service";
+import { expireStaleInvitations } from "../services/invitation.service";
+import { issueNfse, syncNfse } from "../services/nfse.service";
+import { pruneRateLimits } from "../services/rate-limit.service";
+import { expirePendingUploads } from "../services/storage.service";
+import { reportUsageOverage } from "../services/usage.service";
+
+export type JobHandler<K extends JobName> = (payload: JobPayloads[K]) => Promise<void>;
+
+/**
+ * What each job does; a handler that throws is retried with backoff
+ */
+export const jobHandlers: { [K in JobName]: JobHandler<K> } = {
+  "email.send": async ({ messageId }) => {
+    const [message] = await db
+      .select()
+      .from(emailOutbox)
+      .where(eq(emailOutbox.id, messageId))
+      .limit(1);
+
+    // Already picked up by the outbox sweep
+    if (!message || message.status !== "sending") {
+      return;
+    }
+
+    // The sweep re-claims messages whose lease ran out, so only send if the lease is still ours
+    const claimed = await claimEmail(message);
+    if (claimed) {
+      await deliverEmail(claimed);
+    }
+  },
+
+  "email.outbox": async () => {
+    await processEmailOutbox();
+  },
+
+  "tokens.purge": async () => {
+    await db.delete(emailTokens).where(lt(emailTokens.expiresAt, new Date()));
+  },
+
+  "uploads.expire": async () => {
+    await expirePendingUploads();
+  },
+
+  "invitations.expire": async () => {
+    const expired = await expireStaleInvitations();
+
+    // Expired invitations no longer hold a seat
+    const organizationIds = new Set(expired.map((invitation) => invitation.organizationId));
+    for (const organizationId of organizationIds) {
+      await refreshSeatCount(organizationId);
+    }
+  },
+
+  "rate_limits.prune": async () => {
+    await pruneRateLimits();
+  },
+
+  "jobs.prune": async () => {
+    await pruneJobs();
+  },
+
+  "webhook.deliver": async ({ deliveryId }) => {
+    await deliverWebhook(deliveryId);
+  },
+
+  "trials.expire": async () => {
+    await expireEndedTrials();
+  },
+
+  "usage.report": async ({ usageEventId }) => {
+    await reportUsageOverage(usageEventId);
+  },
+
+  "billing.reconcile": async ({ organizationId }) => {
+    await reconcileAllBillingHistory(organizationId);
+  },
+
+  "nfse.issue": async ({ billingHistoryId }) => {
+    await issueNfse(billingHistoryId);
+  },
+
+  "nfse.sync": async ({ nfseInvoiceId }) => {
+    await syncNfse(nfseInvoiceId);
+  },
+
+  "billing_profile.sync": async ({ organizationId }) => {
+    await syncBillingProfileToStripe(organizationId);
+  },
+};
+
+/**
+ * Jobs the worker enqueues on a cron schedule (UTC)
+ */
+export const cronSchedules: { name: JobName; cron: string }[] = [
+  { name: "email.outbox", cron: "* * * * *" },
+  { name: "invitations.expire", cron: "*/15 * * * *" },
+  { name: "rate_limits.prune", cron: "*/10 * * * *" },
+  { name: "tokens.purge", cron: "0 * * * *" },
+  { name: "uploads.expire", cron: "10 * * * *" },
+  { name: "trials.expire", cron: "20 * * * *" },
+  { name: "jobs.prune", cron: "30 3 * * *" },
+  { name: "billing.reconcile", cron: "0 4 * * *" },
+];
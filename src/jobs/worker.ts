@@ -0,0 +1,148 @@
+import { hostname } from "node:os";
+import type { Job } from "../db/schema";
+import { getNextCronTime } from "../lib/cron";
+import type { JobName } from "../lib/jobs";
+import {
+  claimJobs,
+  completeJob,
+  enqueueJob,
+  failJob,
+  heartbeatJobs,
+  JOB_HEARTBEAT_INTERVAL_MS,
+} from "../lib/jobs";
+import { captureException } from "../lib/sentry";
+import { cronSchedules, jobHandlers } from "./handlers";
+
+export interface JobWorkerOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+}
+
+export interface JobWorker {
+  readonly id: string;
+  // Stop claiming jobs and wait for the running ones to finish
+  stop(): Promise<void>;
+}
+
+// Cron slots are enqueued ahead of time; every worker does it and unique keys drop the duplicates
+const SCHEDULE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Enqueue the next run of every cron schedule
+ */
+export async function scheduleCronJobs(now: Date = new Date()): Promise<void> {
+  for (const schedule of cronSchedules) {
+    const runAt = getNextCronTime(schedule.cron, now);
+
+    await enqueueJob(
+      schedule.name,
+      {},
+      { runAt, maxAttempts: 3, uniqueKey: `cron:${schedule.name}:${runAt.toISOString()}` },
+    );
+  }
+}
+
+/**
+ * Run a claimed job and record the outcome
+ */
+export async function runJob(job: Job): Promise<void> {
+  const handler = jobHandlers[job.name as JobName] as
+    | ((payload: unknown) => Promise<void>)
+    | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job "${job.name}"`);
+    }
+
+    await handler(job.payload);
+    await completeJob(job);
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.name}) failed:`, error);
+
+    const dead = await failJob(job, error);
+    if (dead) {
+      captureException(error, { job_id: job.id, job_name: job.name });
+    }
+  }
+}
+
+/**
+ * Poll the queue and run due jobs until stopped
+ */
+export function startJobWorker({
+  concurrency = 5,
+  pollIntervalMs = 1000,
+}: JobWorkerOptions = {}): JobWorker {
+  const id = `${hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  const running = new Map<number, Promise<void>>();
+
+  let stopping = false;
+  let lastScheduledAt = 0;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+
+  async function tick() {
+    if (Date.now() - lastScheduledAt >= SCHEDULE_INTERVAL_MS) {
+      await scheduleCronJobs();
+      lastScheduledAt = Date.now();
+    }
+
+    const available = concurrency - running.size;
+    if (available <= 0) {
+      return;
+    }
+
+    for (const job of await claimJobs(id, available)) {
+      running.set(
+        job.id,
+        runJob(job).finally(() => running.delete(job.id)),
+      );
+    }
+  }
+
+  // Keeps long jobs from being claimed again by another worker, including while stopping
+  const heartbeat = setInterval(() => {
+    heartbeatJobs(id, [...running.keys()]).catch((error) => {
+      console.error("Job heartbeat error:", error);
+    });
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  const loop = (async () => {
+    while (!stopping) {
+      try {
+        await tick();
+      } catch (error) {
+        console.error("Job worker error:", error);
+      }
+
+      if (!stopping) {
+        await sleep(pollIntervalMs);
+      }
+    }
+  })();
+
+  console.log(`Job worker ${id} started`);
+
+  return {
+    id,
+    async stop() {
+      stopping = true;
+      wake?.();
+
+      await loop;
+      await Promise.allSettled(running.values());
+      clearInterval(heartbeat);
+
+      console.log(`Job worker ${id} stopped`);
+    },
+  };
+}
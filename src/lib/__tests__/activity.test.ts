@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { ActivityLog } from "../../db/schema";
+import { activityQuerySchema, formatActivity } from "../activity";
+
+describe("Activity feed", () => {
+  it("should coerce query parameters", () => {
+    expect(
+      activityQuerySchema.parse({
+        actionType: "delete",
+        userId: "7",
+        from: "2026-03-01",
+        cursor: "120",
+      }),
+    ).toEqual({
+      actionType: "delete",
+      userId: 7,
+      from: new Date("2026-03-01"),
+      cursor: 120,
+      limit: 50,
+    });
+  });
+
+  it("should reject unknown action types and oversized pages", () => {
+    expect(activityQuerySchema.safeParse({ actionType: "read" }).success).toBe(false);
+    expect(activityQuerySchema.safeParse({ limit: "500" }).success).toBe(false);
+  });
+
+  const log: ActivityLog = {
+    id: 42,
+    action: "organization.delete",
+    actionType: "delete",
+    description: "Deleted organization Acme",
+    metadata: { organization_id: 3, name: "Acme" },
+    ipAddress: null,
+    userAgent: null,
+    userId: null,
+    organizationId: null,
+    projectId: null,
+    createdAt: new Date("2026-03-10T12:00:00Z"),
+  };
+
+  it("should format entries that outlived their organization and actor", () => {
+    expect(formatActivity(log)).toEqual({
+      id: 42,
+      action: "organization.delete",
+      action_type: "delete",
+      description: "Deleted organization Acme",
+      metadata: { organization_id: 3, name: "Acme" },
+      ip_address: null,
+      user_agent: null,
+      organization_id: null,
+      project_id: null,
+      user: null,
+      created_at: "2026-03-10T12:00:00.000Z",
+    });
+  });
+
+  it("should include the actor when known", () => {
+    expect(
+      formatActivity(
+        { ...log, userId: 5, ipAddress: "203.0.113.9" },
+        { id: 5, email: "ada@example.com", name: "Ada" },
+      ),
+    ).toMatchObject({
+      ip_address: "203.0.113.9",
+      user: { id: 5, email: "ada@example.com", name: "Ada" },
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { API_KEY_SCOPES, hasScope } from "../api-key-scopes";
+import { API_KEY_SCOPE_PERMISSIONS } from "../permissions";
+
+describe("API key scopes", () => {
+  describe("hasScope", () => {
+    it("should grant scopes the key holds", () => {
+      expect(hasScope({ scopes: ["projects:read"] }, "projects:read")).toBe(true);
+      expect(hasScope({ scopes: ["uploads:write"] }, "uploads:write")).toBe(true);
+    });
+
+    it("should include the read scope in the write scope", () => {
+      expect(hasScope({ scopes: ["projects:write"] }, "projects:read")).toBe(true);
+      expect(hasScope({ scopes: ["uploads:write"] }, "uploads:read")).toBe(true);
+    });
+
+    it("should not include the write scope in the read scope", () => {
+      expect(hasScope({ scopes: ["projects:read"] }, "projects:write")).toBe(false);
+      expect(hasScope({ scopes: ["uploads:read"] }, "uploads:write")).toBe(false);
+    });
+
+    it("should not grant scopes of another resource", () => {
+      expect(hasScope({ scopes: ["projects:write"] }, "uploads:read")).toBe(false);
+      expect(hasScope({ scopes: [] }, "projects:read")).toBe(false);
+    });
+  });
+
+  it("should map every scope to at least one permission", () => {
+    for (const scope of API_KEY_SCOPES) {
+      expect(API_KEY_SCOPE_PERMISSIONS[scope].length).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { getBackoffDelayMs } from "../backoff";
+
+describe("Backoff", () => {
+  it("should not wait before the first attempt", () => {
+    expect(getBackoffDelayMs(0)).toBe(0);
+  });
+
+  it("should double the delay after each failure", () => {
+    expect(getBackoffDelayMs(1)).toBe(30 * 1000);
+    expect(getBackoffDelayMs(2)).toBe(60 * 1000);
+    expect(getBackoffDelayMs(3)).toBe(120 * 1000);
+  });
+
+  it("should cap the delay", () => {
+    expect(getBackoffDelayMs(20)).toBe(60 * 60 * 1000);
+    expect(getBackoffDelayMs(5, { baseMs: 1000, maxMs: 5000 })).toBe(5000);
+  });
+});
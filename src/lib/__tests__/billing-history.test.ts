@@ -0,0 +1,146 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+import {
+  billingHistoryCsv,
+  creditNoteToBillingEntry,
+  getInvoiceAmountRefunded,
+  getInvoiceStatus,
+  invoiceToBillingEntry,
+  isStripeFileUrl,
+  toCsv,
+} from "../billing-history";
+
+const invoice = (fields: Partial<Stripe.Invoice>) =>
+  ({
+    id: "in_123",
+    number: "ABC-0001",
+    status: "paid",
+    attempted: true,
+    amount_paid: 1900,
+    amount_due: 1900,
+    currency: "eur",
+    created: 1_773_144_000,
+    status_transitions: { paid_at: 1_773_147_600 },
+    hosted_invoice_url: "https://invoice.stripe.com/i/123",
+    invoice_pdf: "https://pay.stripe.com/invoice/123/pdf",
+    description: null,
+    ...fields,
+  }) as Stripe.Invoice;
+
+const payments = (...paymentIntents: string[]) =>
+  ({
+    data: paymentIntents.map((id) => ({ payment: { type: "payment_intent", payment_intent: id } })),
+  }) as Stripe.ApiList<Stripe.InvoicePayment>;
+
+describe("Billing history", () => {
+  it("should map invoice statuses", () => {
+    expect(getInvoiceStatus(invoice({}))).toBe("paid");
+    expect(getInvoiceStatus(invoice({}), 1900)).toBe("refunded");
+    expect(getInvoiceStatus(invoice({}), 500)).toBe("paid");
+    expect(getInvoiceStatus(invoice({ status: "open", attempted: true }))).toBe("failed");
+    expect(getInvoiceStatus(invoice({ status: "open", attempted: false }))).toBe("pending");
+    expect(getInvoiceStatus(invoice({ status: "void" }))).toBe("void");
+    expect(getInvoiceStatus(invoice({ status: "draft" }))).toBeNull();
+  });
+
+  it("should sum the refunds of the payments of an invoice", () => {
+    const refunds = new Map([
+      ["pi_1", 500],
+      ["pi_other", 900],
+    ]);
+
+    expect(getInvoiceAmountRefunded(invoice({ payments: payments("pi_1", "pi_2") }), refunds)).toBe(
+      500,
+    );
+    expect(getInvoiceAmountRefunded(invoice({}), refunds)).toBe(0);
+  });
+
+  it("should map an invoice to an entry", () => {
+    const entry = invoiceToBillingEntry(invoice({ payments: payments("pi_1") }), 7, 0);
+
+    expect(entry).toMatchObject({
+      subscriptionId: 7,
+      kind: "invoice",
+      stripeInvoiceId: "in_123",
+      stripePaymentIntentId: "pi_1",
+      invoiceNumber: "ABC-0001",
+      amount: 1900,
+      amountRefunded: 0,
+      currency: "EUR",
+      status: "paid",
+      paidAt: new Date(1_773_147_600_000),
+      description: "Invoice for subscription",
+    });
+  });
+
+  it("should keep the stored refund and payment intent when unknown", () => {
+    const entry = invoiceToBillingEntry(invoice({}), 7);
+
+    expect(entry).not.toHaveProperty("amountRefunded");
+    expect(entry).not.toHaveProperty("stripePaymentIntentId");
+  });
+
+  it("should skip draft invoices", () => {
+    expect(invoiceToBillingEntry(invoice({ status: "draft" }), 7)).toBeNull();
+  });
+
+  it("should store credit notes as negative amounts", () => {
+    const entry = creditNoteToBillingEntry(
+      {
+        id: "cn_1",
+        number: "ABC-0001-CN-01",
+        invoice: "in_123",
+        total: 500,
+        currency: "eur",
+        status: "issued",
+        created: 1_773_144_000,
+        pdf: "https://pay.stripe.com/credit_notes/cn_1/pdf",
+        memo: null,
+        reason: "duplicate",
+      } as Stripe.CreditNote,
+      7,
+    );
+
+    expect(entry).toMatchObject({
+      kind: "credit_note",
+      stripeCreditNoteId: "cn_1",
+      amount: -500,
+      status: "credited",
+      description: "Credit note for invoice in_123",
+    });
+  });
+
+  it("should only accept Stripe PDF links", () => {
+    expect(isStripeFileUrl("https://pay.stripe.com/invoice/123/pdf")).toBe(true);
+    expect(isStripeFileUrl("https://files.stripe.com/x.pdf")).toBe(true);
+    expect(isStripeFileUrl("http://pay.stripe.com/invoice/123/pdf")).toBe(false);
+    expect(isStripeFileUrl("https://stripe.com.example.com/x.pdf")).toBe(false);
+    expect(isStripeFileUrl("https://evilstripe.com/x.pdf")).toBe(false);
+    expect(isStripeFileUrl("not a url")).toBe(false);
+  });
+
+  it("should quote CSV fields", () => {
+    expect(toCsv(["a", "b"], [["x,y", 'say "hi"']])).toBe('a,b\r\n"x,y","say ""hi"""\r\n');
+  });
+
+  it("should export entries as CSV", () => {
+    const csv = billingHistoryCsv([
+      {
+        invoiceDate: new Date("2026-03-10T12:00:00Z"),
+        invoiceNumber: "ABC-0001",
+        kind: "credit_note",
+        description: "=HYPERLINK(1)",
+        status: "credited",
+        currency: "EUR",
+        amount: -500,
+        amountRefunded: 0,
+        paidAt: null,
+        nfseNumber: "202600001",
+      },
+    ]);
+
+    expect(csv.split("\r\n")[1]).toBe(
+      "2026-03-10T12:00:00.000Z,ABC-0001,credit_note,'=HYPERLINK(1),credited,EUR,-5.00,0.00,,202600001",
+    );
+  });
+});
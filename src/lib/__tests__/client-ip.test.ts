@@ -0,0 +1,35 @@
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+import { findClientIP, getForwardedClientIP } from "../client-ip";
+
+describe("Client IP", () => {
+  const app = new Hono().get("/", (c) => c.json({ ip: getForwardedClientIP(c) }));
+
+  const request = async (headers: Record<string, string>) => {
+    const res = await app.request("/", { headers });
+    return ((await res.json()) as { ip: string | null }).ip;
+  };
+
+  it("should use the first X-Forwarded-For address", async () => {
+    expect(await request({ "x-forwarded-for": "203.0.113.9, 10.0.0.1" })).toBe("203.0.113.9");
+  });
+
+  it("should fall back to X-Real-IP", async () => {
+    expect(await request({ "x-real-ip": " 198.51.100.4 " })).toBe("198.51.100.4");
+  });
+
+  it("should return null when no proxy reported an address", async () => {
+    expect(await request({})).toBeNull();
+    expect(await request({ "x-forwarded-for": " , 10.0.0.1" })).toBeNull();
+  });
+
+  it("should prefer the forwarded address and have no socket address outside Bun", async () => {
+    const app = new Hono().get("/", (c) => c.json({ ip: findClientIP(c) }));
+
+    const forwarded = await app.request("/", { headers: { "x-real-ip": "198.51.100.4" } });
+    expect(await forwarded.json()).toEqual({ ip: "198.51.100.4" });
+
+    const direct = await app.request("/");
+    expect(await direct.json()).toEqual({ ip: null });
+  });
+});
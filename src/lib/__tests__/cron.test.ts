@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { getNextCronTime, parseCron } from "../cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Cron", () => {
+  describe("parseCron", () => {
+    it("should expand wildcards, ranges, lists and steps", () => {
+      const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should treat 7 as Sunday", () => {
+      expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("should reject invalid expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow();
+      expect(() => parseCron("60 * * * *")).toThrow();
+      expect(() => parseCron("*/0 * * * *")).toThrow();
+      expect(() => parseCron("5-1 * * * *")).toThrow();
+      expect(() => parseCron("a * * * *")).toThrow();
+    });
+  });
+
+  describe("getNextCronTime", () => {
+    it("should return the next minute for every-minute schedules", () => {
+      expect(getNextCronTime("* * * * *", at("2026-03-10T12:34:56Z"))).toEqual(
+        at("2026-03-10T12:35:00Z"),
+      );
+    });
+
+    it("should be strictly after the given time", () => {
+      expect(getNextCronTime("0 * * * *", at("2026-03-10T12:00:00Z"))).toEqual(
+        at("2026-03-10T13:00:00Z"),
+      );
+    });
+
+    it("should roll over days, months and years", () => {
+      expect(getNextCronTime("30 2 * * *", at("2026-03-10T03:00:00Z"))).toEqual(
+        at("2026-03-11T02:30:00Z"),
+      );
+      expect(getNextCronTime("0 0 1 * *", at("2026-12-15T00:00:00Z"))).toEqual(
+        at("2027-01-01T00:00:00Z"),
+      );
+    });
+
+    it("should match weekdays", () => {
+      // 2026-03-14 is a Saturday
+      expect(getNextCronTime("0 9 * * 1", at("2026-03-14T10:00:00Z"))).toEqual(
+        at("2026-03-16T09:00:00Z"),
+      );
+    });
+
+    it("should match either day field when both are restricted", () => {
+      // The 20th comes before the next Monday (the 23rd)
+      expect(getNextCronTime("0 0 20 * 1", at("2026-03-17T00:00:00Z"))).toEqual(
+        at("2026-03-20T00:00:00Z"),
+      );
+    });
+
+    it("should find leap days", () => {
+      expect(getNextCronTime("0 0 29 2 *", at("2026-03-01T00:00:00Z"))).toEqual(
+        at("2028-02-29T00:00:00Z"),
+      );
+    });
+
+    it("should throw for dates that never exist", () => {
+      expect(() => getNextCronTime("0 0 31 2 *", at("2026-01-01T00:00:00Z"))).toThrow();
+    });
+  });
+});
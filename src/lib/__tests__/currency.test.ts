@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { SubscriptionPlan } from "../../db/schema";
+import {
+  currencyForCountry,
+  findPlanPrice,
+  formatAmount,
+  getPlanCurrencies,
+  getPlanPrice,
+  getPriceIdColumns,
+  toCurrency,
+} from "../currency";
+
+const plan = {
+  id: 2,
+  name: "pro",
+  priceMonthlyUsd: 1900,
+  priceYearlyUsd: 19000,
+  stripePriceIdMonthly: "price_usd_m",
+  stripePriceIdYearly: "price_usd_y",
+  priceMonthlyEur: 1800,
+  priceYearlyEur: 18000,
+  stripePriceIdMonthlyEur: "price_eur_m",
+  stripePriceIdYearlyEur: null,
+  priceMonthlyGbp: null,
+  priceYearlyGbp: null,
+  stripePriceIdMonthlyGbp: null,
+  stripePriceIdYearlyGbp: null,
+  priceMonthlyBrl: 9900,
+  priceYearlyBrl: 99000,
+  stripePriceIdMonthlyBrl: "price_brl_m",
+  stripePriceIdYearlyBrl: "price_brl_y",
+} as SubscriptionPlan;
+
+describe("Currency", () => {
+  it("should pick the currency of a country", () => {
+    expect(currencyForCountry("BR")).toBe("brl");
+    expect(currencyForCountry("gb")).toBe("gbp");
+    expect(currencyForCountry("DE")).toBe("eur");
+    expect(currencyForCountry("US")).toBe("usd");
+    expect(currencyForCountry("JP")).toBe("usd");
+    expect(currencyForCountry(null)).toBe("usd");
+  });
+
+  it("should read supported currencies in any case", () => {
+    expect(toCurrency("eur")).toBe("eur");
+    expect(toCurrency("BRL")).toBe("brl");
+    expect(toCurrency("jpy")).toBeNull();
+    expect(toCurrency(undefined)).toBeNull();
+  });
+
+  it("should get the price of a currency and interval", () => {
+    expect(getPlanPrice(plan, "usd", "yearly")).toEqual({
+      currency: "usd",
+      interval: "yearly",
+      amount: 19000,
+      priceId: "price_usd_y",
+    });
+    expect(getPlanPrice(plan, "eur", "yearly")).toMatchObject({ amount: 18000, priceId: null });
+  });
+
+  it("should return null when the plan is not sold in a currency", () => {
+    expect(getPlanPrice(plan, "gbp", "monthly")).toBeNull();
+  });
+
+  it("should list only currencies with a Stripe price", () => {
+    expect(getPlanCurrencies(plan)).toEqual(["usd", "eur", "brl"]);
+    expect(
+      getPlanCurrencies({ ...plan, stripePriceIdMonthlyEur: null, stripePriceIdMonthlyBrl: null }),
+    ).toEqual(["usd", "brl"]);
+    expect(
+      getPlanCurrencies({ ...plan, stripePriceIdMonthly: null, stripePriceIdYearly: null }),
+    ).toEqual(["eur", "brl"]);
+  });
+
+  it("should find the currency and interval of a Stripe price", () => {
+    expect(findPlanPrice(plan, "price_brl_y")).toMatchObject({
+      currency: "brl",
+      interval: "yearly",
+      amount: 99000,
+    });
+    expect(findPlanPrice(plan, "price_other")).toBeNull();
+  });
+
+  it("should list every Stripe price column", () => {
+    expect(getPriceIdColumns()).toHaveLength(8);
+    expect(getPriceIdColumns()).toContain("stripePriceIdMonthly");
+    expect(getPriceIdColumns()).toContain("stripePriceIdYearlyBrl");
+  });
+
+  it("should format amounts in cents", () => {
+    expect(formatAmount(1900, "usd")).toBe("$19.00");
+    expect(formatAmount(1800, "EUR")).toBe("€18.00");
+    expect(formatAmount(9900, "brl", "pt-BR")).toContain("99,00");
+  });
+});
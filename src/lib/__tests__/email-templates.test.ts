@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { SUPPORTED_LOCALES } from "../i18n";
+import {
+  EMAIL_TEMPLATE_NAMES,
+  isEmailTemplateName,
+  renderEmail,
+  renderEmailSample,
+} from "../email-templates";
+
+describe("Email templates", () => {
+  const invitation = {
+    inviterName: `<img src=x onerror="alert(1)">`,
+    organizationName: "Acme & Co",
+    inviteUrl: "https://app.example.com/invitations/accept?token=abc",
+    message: "</p><script>steal()</script>",
+    expiresInDays: 7,
+  };
+
+  it("should escape user-supplied invitation fields", () => {
+    const email = renderEmail("invitation", invitation);
+
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).not.toContain("<img");
+    expect(email.html).toContain("&lt;script&gt;steal()&lt;/script&gt;");
+    expect(email.html).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;");
+    expect(email.html).toContain("Acme &amp; Co");
+  });
+
+  it("should render a plain-text alternative without markup", () => {
+    const email = renderEmail("invitation", invitation);
+
+    expect(email.text).toContain(`${invitation.inviterName} has invited you to join Acme & Co.`);
+    expect(email.text).toContain(`Accept Invitation: ${invitation.inviteUrl}`);
+    expect(email.text).toContain(`"${invitation.message}"`);
+    expect(email.text).not.toContain("<p>");
+  });
+
+  it("should omit optional blocks when data is missing", () => {
+    const email = renderEmail("invitation", { ...invitation, message: null });
+    expect(email.html).not.toContain("font-style: italic");
+  });
+
+  it("should render the OTP code in every locale", () => {
+    for (const locale of SUPPORTED_LOCALES) {
+      const email = renderEmail("otp", { code: "123456", expiresInMinutes: 15 }, locale);
+      expect(email.html).toContain("123456");
+      expect(email.html).toContain(`<html lang="${locale}">`);
+      expect(email.text).toContain("123456");
+    }
+  });
+
+  it("should localize subjects", () => {
+    const data = { name: "Ana", code: "123456", expiresInMinutes: 15 };
+
+    expect(renderEmail("otp", data, "en").subject).toBe("Your verification code");
+    expect(renderEmail("otp", data, "pt-BR").subject).toBe("Seu código de verificação");
+    expect(renderEmail("otp", data, "es").subject).toBe("Tu código de verificación");
+  });
+
+  it("should render every template with sample data", () => {
+    for (const name of EMAIL_TEMPLATE_NAMES) {
+      for (const locale of SUPPORTED_LOCALES) {
+        const email = renderEmailSample(name, locale);
+        expect(email.subject).not.toBe("");
+        expect(email.html).toContain("<!DOCTYPE html>");
+        expect(email.text.trim()).not.toBe("");
+      }
+    }
+  });
+
+  it("should recognize registered template names only", () => {
+    expect(isEmailTemplateName("invitation")).toBe(true);
+    expect(isEmailTemplateName("toString")).toBe(false);
+    expect(isEmailTemplateName("unknown")).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { FileEmailTransport, MemoryEmailTransport } from "../email-transport";
+
+const message = {
+  from: "noreply@example.com",
+  to: "ada@example.com",
+  subject: "Your verification code",
+  html: "<p>123456</p>",
+  text: "123456",
+};
+
+describe("Email transports", () => {
+  it("should keep messages in memory", async () => {
+    const transport = new MemoryEmailTransport();
+
+    const result = await transport.send(message);
+
+    expect(result.messageId).toBe("memory-1");
+    expect(transport.messages).toEqual([message]);
+
+    transport.clear();
+    expect(transport.messages).toHaveLength(0);
+  });
+
+  it("should write messages to files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "emails-"));
+
+    try {
+      const transport = new FileEmailTransport(directory);
+      const { messageId } = await transport.send(message);
+
+      const files = await readdir(directory);
+      expect(files).toEqual([`${messageId}.json`]);
+
+      const written = JSON.parse(await readFile(join(directory, files[0]!), "utf8"));
+      expect(written).toMatchObject({ ...message, messageId });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
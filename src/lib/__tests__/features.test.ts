@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { isPlanFeature, PLAN_FEATURES, resolveFeatures } from "../features";
+
+describe("Plan features", () => {
+  it("should turn off known features the plan does not mention", () => {
+    const features = resolveFeatures({ api_access: true }, {});
+
+    expect(features.api_access).toBe(true);
+    expect(features.analytics).toBe(false);
+    expect(Object.keys(features)).toEqual(expect.arrayContaining([...PLAN_FEATURES]));
+  });
+
+  it("should let overrides win in both directions", () => {
+    const features = resolveFeatures(
+      { analytics: true, custom_domain: false },
+      { analytics: false, custom_domain: true },
+    );
+
+    expect(features.analytics).toBe(false);
+    expect(features.custom_domain).toBe(true);
+  });
+
+  it("should keep features the plan adds beyond the known ones", () => {
+    expect(resolveFeatures({ beta_editor: true }, null).beta_editor).toBe(true);
+  });
+
+  it("should handle a plan without features", () => {
+    expect(resolveFeatures(null, undefined).sso).toBe(false);
+  });
+
+  it("should recognize plan features", () => {
+    expect(isPlanFeature("sso")).toBe(true);
+    expect(isPlanFeature("teleport")).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml, html, unsafeRaw } from "../html";
+
+describe("HTML helpers", () => {
+  it("should escape special characters", () => {
+    expect(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; &#39;Jerry&#39;&lt;/a&gt;",
+    );
+  });
+
+  it("should escape interpolated values", () => {
+    const name = "<script>alert(1)</script>";
+    expect(html`<p>${name}</p>`.value).toBe("<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>");
+  });
+
+  it("should insert nested fragments and arrays as-is", () => {
+    const items = ["a", "<b>"].map((item) => html`<li>${item}</li>`);
+    expect(html`<ul>${items}</ul>`.value).toBe("<ul><li>a</li><li>&lt;b&gt;</li></ul>");
+  });
+
+  it("should skip empty values", () => {
+    expect(html`<p>${null}${undefined}${false}</p>`.value).toBe("<p></p>");
+  });
+
+  it("should keep trusted markup marked as raw", () => {
+    expect(html`<div>${unsafeRaw("<br />")}</div>`.value).toBe("<div><br /></div>");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LOCALE, matchAcceptLanguage, matchLocale, resolveLocale } from "../i18n";
+
+describe("Locales", () => {
+  describe("matchLocale", () => {
+    it("should match supported locales case-insensitively", () => {
+      expect(matchLocale("pt-br")).toBe("pt-BR");
+      expect(matchLocale("es")).toBe("es");
+    });
+
+    it("should fall back to the language of a regional tag", () => {
+      expect(matchLocale("pt-PT")).toBe("pt-BR");
+      expect(matchLocale("es_MX")).toBe("es");
+      expect(matchLocale("en-GB")).toBe("en");
+    });
+
+    it("should return null for unsupported or empty values", () => {
+      expect(matchLocale("fr-FR")).toBeNull();
+      expect(matchLocale("")).toBeNull();
+      expect(matchLocale(null)).toBeNull();
+    });
+  });
+
+  describe("matchAcceptLanguage", () => {
+    it("should pick the first supported language", () => {
+      expect(matchAcceptLanguage("fr-FR,fr;q=0.9,pt-BR;q=0.8,en;q=0.5")).toBe("pt-BR");
+    });
+
+    it("should return null when nothing matches", () => {
+      expect(matchAcceptLanguage("de-DE,fr;q=0.9")).toBeNull();
+      expect(matchAcceptLanguage(undefined)).toBeNull();
+    });
+  });
+
+  describe("resolveLocale", () => {
+    it("should prefer the stored locale", () => {
+      expect(resolveLocale({ locale: "es", country: "Brazil" })).toBe("es");
+    });
+
+    it("should fall back to the country", () => {
+      expect(resolveLocale({ locale: null, country: "BR" })).toBe("pt-BR");
+      expect(resolveLocale({ country: " México " })).toBe("es");
+    });
+
+    it("should default when nothing is known", () => {
+      expect(resolveLocale({ locale: "fr", country: "France" })).toBe(DEFAULT_LOCALE);
+      expect(resolveLocale(null)).toBe(DEFAULT_LOCALE);
+    });
+  });
+});
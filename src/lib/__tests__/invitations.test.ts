@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  getInvitationAcceptError,
+  getInvitationExpiry,
+  INVITATION_EXPIRY_DAYS,
+  isInvitationExpired,
+  isInvitationResendable,
+} from "../invitations";
+
+describe("Invitations", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+  const pending = { status: "pending", expiresAt: getInvitationExpiry(now) };
+
+  it("should expire invitations after a week", () => {
+    expect(INVITATION_EXPIRY_DAYS).toBe(7);
+    expect(getInvitationExpiry(now).toISOString()).toBe("2026-03-17T12:00:00.000Z");
+  });
+
+  it("should treat the expiration instant as expired", () => {
+    expect(isInvitationExpired(pending, now)).toBe(false);
+    expect(isInvitationExpired(pending, pending.expiresAt)).toBe(true);
+    expect(isInvitationExpired(pending, new Date("2026-03-18T00:00:00Z"))).toBe(true);
+  });
+
+  it("should only accept pending invitations that have not expired", () => {
+    expect(getInvitationAcceptError(pending, now)).toBeNull();
+    expect(getInvitationAcceptError(pending, new Date("2026-03-18T00:00:00Z"))).toBe(
+      "invitation_expired",
+    );
+    expect(getInvitationAcceptError({ ...pending, status: "revoked" }, now)).toBe(
+      "invitation_not_pending",
+    );
+    expect(getInvitationAcceptError({ ...pending, status: "accepted" }, now)).toBe(
+      "invitation_not_pending",
+    );
+  });
+
+  it("should only resend pending or expired invitations", () => {
+    expect(isInvitationResendable({ status: "pending" })).toBe(true);
+    expect(isInvitationResendable({ status: "expired" })).toBe(true);
+    expect(isInvitationResendable({ status: "accepted" })).toBe(false);
+    expect(isInvitationResendable({ status: "declined" })).toBe(false);
+    expect(isInvitationResendable({ status: "revoked" })).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { LoginAttemptState } from "../lockout";
+import {
+  checkLoginGate,
+  FAILURE_WINDOW_MINUTES,
+  FREE_ATTEMPTS,
+  getFailureWindowStart,
+  getLockoutUntil,
+  getRetryDelaySeconds,
+  LOCKOUT_DURATION_MINUTES,
+  LOCKOUT_THRESHOLD,
+  MAX_RETRY_DELAY_SECONDS,
+} from "../lockout";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+function secondsAgo(seconds: number): Date {
+  return new Date(NOW.getTime() - seconds * 1000);
+}
+
+const cleanState: LoginAttemptState = {
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+};
+
+describe("Account lockout", () => {
+  describe("getRetryDelaySeconds", () => {
+    it("should not delay the first failures", () => {
+      for (let i = 0; i < FREE_ATTEMPTS; i++) {
+        expect(getRetryDelaySeconds(i)).toBe(0);
+      }
+    });
+
+    it("should grow the delay exponentially", () => {
+      expect(getRetryDelaySeconds(FREE_ATTEMPTS)).toBe(1);
+      expect(getRetryDelaySeconds(FREE_ATTEMPTS + 1)).toBe(2);
+      expect(getRetryDelaySeconds(FREE_ATTEMPTS + 2)).toBe(4);
+    });
+
+    it("should cap the delay", () => {
+      expect(getRetryDelaySeconds(100)).toBe(MAX_RETRY_DELAY_SECONDS);
+    });
+  });
+
+  describe("checkLoginGate", () => {
+    it("should allow accounts without failures", () => {
+      expect(checkLoginGate(cleanState, NOW)).toEqual({ status: "allowed" });
+    });
+
+    it("should delay attempts made too soon after a failure", () => {
+      const gate = checkLoginGate(
+        {
+          failedLoginAttempts: FREE_ATTEMPTS + 2,
+          lastFailedLoginAt: secondsAgo(1),
+          lockedUntil: null,
+        },
+        NOW,
+      );
+      expect(gate).toEqual({ status: "delayed", retryAfter: 3 });
+    });
+
+    it("should allow attempts once the delay has passed", () => {
+      const gate = checkLoginGate(
+        {
+          failedLoginAttempts: FREE_ATTEMPTS + 2,
+          lastFailedLoginAt: secondsAgo(5),
+          lockedUntil: null,
+        },
+        NOW,
+      );
+      expect(gate.status).toBe("allowed");
+    });
+
+    it("should reject locked accounts", () => {
+      const lockedUntil = new Date(NOW.getTime() + 60 * 1000);
+      const gate = checkLoginGate(
+        { failedLoginAttempts: LOCKOUT_THRESHOLD, lastFailedLoginAt: NOW, lockedUntil },
+        NOW,
+      );
+      expect(gate).toEqual({ status: "locked", lockedUntil });
+    });
+
+    it("should allow accounts whose lockout has expired", () => {
+      const gate = checkLoginGate(
+        {
+          failedLoginAttempts: LOCKOUT_THRESHOLD,
+          lastFailedLoginAt: secondsAgo(1),
+          lockedUntil: secondsAgo(0),
+        },
+        NOW,
+      );
+      expect(gate.status).toBe("allowed");
+    });
+  });
+
+  describe("getLockoutUntil", () => {
+    it("should keep the account open below the threshold", () => {
+      expect(getLockoutUntil(1, NOW)).toBeNull();
+      expect(getLockoutUntil(LOCKOUT_THRESHOLD - 1, NOW)).toBeNull();
+    });
+
+    it("should lock the account at the threshold", () => {
+      expect(getLockoutUntil(LOCKOUT_THRESHOLD, NOW)).toEqual(
+        new Date(NOW.getTime() + LOCKOUT_DURATION_MINUTES * 60 * 1000),
+      );
+    });
+
+    it("should lock for failures counted past the threshold", () => {
+      expect(getLockoutUntil(LOCKOUT_THRESHOLD + 2, NOW)).not.toBeNull();
+    });
+  });
+
+  describe("getFailureWindowStart", () => {
+    it("should go back by the failure window", () => {
+      expect(getFailureWindowStart(NOW)).toEqual(secondsAgo(FAILURE_WINDOW_MINUTES * 60));
+    });
+  });
+});
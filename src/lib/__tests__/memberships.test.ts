@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLeaveError,
+  getReauthenticationMethod,
+  getRemovalError,
+  getRoleChangeError,
+} from "../memberships";
+
+describe("Memberships", () => {
+  describe("getRoleChangeError", () => {
+    it("should let owners promote a member to owner", () => {
+      expect(getRoleChangeError("owner", "member", "owner", 1)).toBeNull();
+    });
+
+    it("should not let admins promote to owner", () => {
+      expect(getRoleChangeError("admin", "member", "owner", 1)).toBe("owner_role_required");
+    });
+
+    it("should not let admins change an owner", () => {
+      expect(getRoleChangeError("admin", "owner", "member", 2)).toBe("owner_role_required");
+    });
+
+    it("should let admins move members between other roles", () => {
+      expect(getRoleChangeError("admin", "viewer", "admin", 1)).toBeNull();
+      expect(getRoleChangeError("admin", "member", "viewer", 1)).toBeNull();
+    });
+
+    it("should not demote the last owner", () => {
+      expect(getRoleChangeError("owner", "owner", "admin", 1)).toBe("last_owner");
+    });
+
+    it("should demote an owner when another owner remains", () => {
+      expect(getRoleChangeError("owner", "owner", "admin", 2)).toBeNull();
+    });
+
+    it("should treat keeping the owner role as a no-op", () => {
+      expect(getRoleChangeError("owner", "owner", "owner", 1)).toBeNull();
+    });
+  });
+
+  describe("getRemovalError", () => {
+    it("should only let owners remove owners", () => {
+      expect(getRemovalError("admin", "owner")).toBe("owner_role_required");
+      expect(getRemovalError("owner", "owner")).toBeNull();
+    });
+
+    it("should let admins remove other members", () => {
+      expect(getRemovalError("admin", "admin")).toBeNull();
+      expect(getRemovalError("admin", "viewer")).toBeNull();
+    });
+  });
+
+  describe("getLeaveError", () => {
+    it("should not let the last owner leave", () => {
+      expect(getLeaveError("owner", 1)).toBe("last_owner");
+    });
+
+    it("should let an owner leave when another owner remains", () => {
+      expect(getLeaveError("owner", 2)).toBeNull();
+    });
+
+    it("should let other members leave", () => {
+      expect(getLeaveError("member", 0)).toBeNull();
+    });
+  });
+
+  describe("getReauthenticationMethod", () => {
+    it("should require the password when the account has one", () => {
+      expect(getReauthenticationMethod({ hashedPassword: "$argon2id$hash" })).toBe("password");
+    });
+
+    it("should accept an email code for accounts without a password", () => {
+      expect(getReauthenticationMethod({ hashedPassword: null })).toBe("code");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { createServer, request } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, expect, it } from "vitest";
+import { isPublicAddress, isPublicHostname, pinnedLookup, resolvePublicHost } from "../network";
+
+describe("Network", () => {
+  describe("isPublicAddress", () => {
+    it("should accept public addresses", () => {
+      for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+        expect(isPublicAddress(address)).toBe(true);
+      }
+    });
+
+    it("should reject private, loopback and link-local IPv4 addresses", () => {
+      for (const address of [
+        "10.0.0.1",
+        "127.0.0.1",
+        "169.254.169.254",
+        "172.16.0.1",
+        "172.31.255.255",
+        "192.168.1.1",
+        "100.64.0.1",
+        "0.0.0.0",
+        "224.0.0.1",
+      ]) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+    });
+
+    it("should reject private, loopback and link-local IPv6 addresses", () => {
+      for (const address of ["::", "::1", "fe80::1", "fd00::1", "ff02::1", "2001:db8::1"]) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+    });
+
+    it("should check the IPv4 address embedded in mapped and NAT64 addresses", () => {
+      expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false);
+      expect(isPublicAddress("::ffff:a9fe:a9fe")).toBe(false);
+      expect(isPublicAddress("64:ff9b::10.0.0.1")).toBe(false);
+      expect(isPublicAddress("64:ff9b::8.8.8.8")).toBe(true);
+    });
+
+    it("should check the IPv4 address embedded in 6to4 addresses", () => {
+      expect(isPublicAddress("2002:7f00:1::1")).toBe(false);
+      expect(isPublicAddress("2002:a9fe:a9fe::")).toBe(false);
+      expect(isPublicAddress("2002:c0a8:101::1")).toBe(false);
+      expect(isPublicAddress("2002:808:808::1")).toBe(true);
+    });
+
+    it("should reject values that are not addresses", () => {
+      expect(isPublicAddress("example.com")).toBe(false);
+      expect(isPublicAddress("")).toBe(false);
+    });
+  });
+
+  describe("isPublicHostname", () => {
+    it("should accept names, which are checked when used", () => {
+      expect(isPublicHostname("hooks.example.com")).toBe(true);
+    });
+
+    it("should reject private IP literals and localhost", () => {
+      for (const hostname of [
+        "127.0.0.1",
+        "169.254.169.254",
+        "[::1]",
+        "localhost",
+        "a.localhost",
+      ]) {
+        expect(isPublicHostname(hostname)).toBe(false);
+      }
+    });
+  });
+
+  describe("resolvePublicHost", () => {
+    it("should return the address of public IP literals", async () => {
+      expect(await resolvePublicHost("1.1.1.1")).toEqual({
+        ok: true,
+        address: "1.1.1.1",
+        family: 4,
+      });
+      expect(await resolvePublicHost("[2606:4700::1111]")).toEqual({
+        ok: true,
+        address: "2606:4700::1111",
+        family: 6,
+      });
+    });
+
+    it("should refuse hosts resolving to private addresses", async () => {
+      for (const host of ["localhost", "[::1]", "10.0.0.1"]) {
+        const result = await resolvePublicHost(host);
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.error).toContain("private");
+      }
+    });
+  });
+
+  describe("pinnedLookup", () => {
+    it("should connect to the pinned address while keeping the Host header", async () => {
+      const server = createServer((req, res) => res.end(req.headers.host));
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const host = await new Promise<string>((resolve, reject) => {
+          const req = request(
+            `http://webhooks.invalid:${port}/`,
+            { lookup: pinnedLookup("127.0.0.1", 4) },
+            (res) => {
+              let data = "";
+              res.on("data", (chunk) => {
+                data += chunk;
+              });
+              res.on("end", () => resolve(data));
+            },
+          );
+          req.on("error", reject);
+          req.end();
+        });
+
+        expect(host).toBe(`webhooks.invalid:${port}`);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
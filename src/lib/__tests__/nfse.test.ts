@@ -0,0 +1,232 @@
+import type { IncomingHttpHeaders, Server } from "node:http";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { NfseBillingContact, NfseConfig } from "../nfse";
+import {
+  buildNfseRequest,
+  createNfse,
+  findIbgeCityCode,
+  getMissingNfseFields,
+  getNfse,
+  getNfseSkipReason,
+  parseBrazilianDocument,
+} from "../nfse";
+
+const contact: NfseBillingContact = {
+  name: "Acme Ltda",
+  document: "11.222.333/0001-81",
+  street: "Rua das Flores, 123",
+  city: "Florianópolis",
+  state: "sc",
+  postalCode: "88010-000",
+};
+
+const paid = { kind: "invoice", status: "paid", amount: 9900, currency: "BRL" };
+
+describe("NFS-e rules", () => {
+  it("should accept valid CPF and CNPJ numbers", () => {
+    expect(parseBrazilianDocument("529.982.247-25")).toBe("52998224725");
+    expect(parseBrazilianDocument("11.222.333/0001-81")).toBe("11222333000181");
+  });
+
+  it("should reject invalid documents", () => {
+    expect(parseBrazilianDocument("529.982.247-26")).toBeNull();
+    expect(parseBrazilianDocument("11.222.333/0001-80")).toBeNull();
+    expect(parseBrazilianDocument("111.111.111-11")).toBeNull();
+    expect(parseBrazilianDocument("US-123456789")).toBeNull();
+    expect(parseBrazilianDocument(null)).toBeNull();
+  });
+
+  it("should only issue notes for paid BRL invoices", () => {
+    expect(getNfseSkipReason(paid)).toBeNull();
+    expect(getNfseSkipReason({ ...paid, currency: "brl" })).toBeNull();
+    expect(getNfseSkipReason({ ...paid, amount: 0 })).toBe("zero_amount");
+    expect(getNfseSkipReason({ ...paid, status: "failed" })).toBe("not_paid");
+    expect(getNfseSkipReason({ ...paid, currency: "USD" })).toBe("not_brl");
+    expect(getNfseSkipReason({ ...paid, kind: "credit_note", amount: -9900 })).toBe("not_invoice");
+  });
+
+  it("should list missing billing information", () => {
+    expect(getMissingNfseFields(contact)).toEqual([]);
+    expect(
+      getMissingNfseFields({
+        ...contact,
+        document: "123",
+        state: "Santa Catarina",
+        postalCode: null,
+      }),
+    ).toEqual(["tax_id", "address_state", "address_postal_code"]);
+  });
+
+  it("should build the request for a Brazilian customer", () => {
+    expect(
+      buildNfseRequest({
+        contact,
+        cityCode: 4205407,
+        amount: 9900,
+        serviceDescription: "Assinatura Pro - fatura ABC-0001",
+        externalReference: "in_123",
+        notificationEmail: "fiscal@example.com",
+      }),
+    ).toEqual({
+      customer_name: "Acme Ltda",
+      customer_email: "fiscal@example.com",
+      customer_country: "BR",
+      customer_document: "11222333000181",
+      customer_address: "Rua das Flores, 123",
+      customer_postal_code: "88010-000",
+      customer_state: "SC",
+      customer_city_name: "Florianópolis",
+      customer_city_code: 4205407,
+      service_description: "Assinatura Pro - fatura ABC-0001",
+      amount: 99,
+      external_reference: "in_123",
+    });
+  });
+});
+
+describe("NFS-e API client", () => {
+  let server: Server;
+  let config: NfseConfig;
+  const received: { method?: string; url?: string; headers: IncomingHttpHeaders; body: string }[] =
+    [];
+
+  // Local stand-in for the fiscal API
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => {
+        data += chunk;
+      });
+      req.on("end", () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body: data });
+
+        const send = (status: number, body: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(body));
+        };
+
+        if (req.headers["x-api-key"] !== "nfe_test") {
+          return send(401, { detail: "Invalid API key" });
+        }
+        if (req.url === "/api/v1/ibge/cities?state=SC") {
+          return send(200, [
+            { code: 4209102, name: "Joinville" },
+            { code: 4205407, name: "Florianópolis" },
+          ]);
+        }
+        if (req.method === "POST" && req.url === "/api/v1/external/nfse") {
+          const request = JSON.parse(data);
+          if (request.amount <= 0) {
+            return send(422, {
+              detail: [{ loc: ["body", "amount"], msg: "must be greater than 0" }],
+            });
+          }
+          if (request.external_reference === "in_outage") {
+            return send(503, { detail: "Service unavailable" });
+          }
+          return send(201, {
+            id: "uuid-1",
+            reference: "EXT-20260103120000-A1B2C3D4",
+            status: "processing",
+            nfse_number: null,
+            pdf_url: null,
+            error_message: null,
+          });
+        }
+        if (req.url === "/api/v1/external/nfse/EXT-20260103120000-A1B2C3D4") {
+          return send(200, {
+            id: "uuid-1",
+            reference: "EXT-20260103120000-A1B2C3D4",
+            status: "authorized",
+            nfse_number: "202600001",
+            pdf_url: "https://storage.example.com/nfse/1.pdf",
+            xml_url: "https://storage.example.com/nfse/1.xml",
+            error_message: null,
+            issued_at: "2026-01-03T12:05:00Z",
+          });
+        }
+        return send(404, { detail: "NFS-e not found" });
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    config = {
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      apiKey: "nfe_test",
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const request = buildNfseRequest({
+    contact,
+    cityCode: 4205407,
+    amount: 9900,
+    serviceDescription: "Assinatura Pro",
+    externalReference: "in_123",
+  });
+
+  it("should create a note with the API key", async () => {
+    const result = await createNfse(config, request);
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: { reference: "EXT-20260103120000-A1B2C3D4", status: "processing" },
+    });
+
+    const sent = received.at(-1)!;
+    expect(sent.headers["x-api-key"]).toBe("nfe_test");
+    expect(sent.headers["content-type"]).toBe("application/json");
+    expect(JSON.parse(sent.body)).toEqual(request);
+  });
+
+  it("should get the status of a note", async () => {
+    const result = await getNfse(config, "EXT-20260103120000-A1B2C3D4");
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: { status: "authorized", nfse_number: "202600001" },
+    });
+  });
+
+  it("should report validation errors as not retryable", async () => {
+    const result = await createNfse(config, { ...request, amount: 0 });
+
+    expect(result).toEqual({
+      ok: false,
+      status: 422,
+      error: "amount: must be greater than 0",
+      retryable: false,
+    });
+  });
+
+  it("should report server errors as retryable", async () => {
+    const result = await createNfse(config, { ...request, external_reference: "in_outage" });
+
+    expect(result).toMatchObject({ ok: false, status: 503, retryable: true });
+  });
+
+  it("should report an invalid API key", async () => {
+    const result = await getNfse({ ...config, apiKey: "wrong" }, "EXT-1");
+
+    expect(result).toMatchObject({ ok: false, status: 401, error: "Invalid API key" });
+  });
+
+  it("should report unreachable APIs as retryable without throwing", async () => {
+    const result = await getNfse({ ...config, baseUrl: "http://127.0.0.1:1" }, "EXT-1");
+
+    expect(result).toMatchObject({ ok: false, status: null, retryable: true });
+  });
+
+  it("should find IBGE city codes ignoring accents and case", async () => {
+    expect(await findIbgeCityCode(config, "sc", "florianopolis")).toEqual({
+      ok: true,
+      data: 4205407,
+    });
+    expect(await findIbgeCityCode(config, "SC", "Gotham")).toEqual({ ok: true, data: null });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  getRolePermissions,
+  getScopePermissions,
+  getUngrantablePermissions,
+  isPermission,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+} from "../permissions";
+
+describe("Permissions", () => {
+  describe("getRolePermissions", () => {
+    it("should grant every permission to owners", () => {
+      const permissions = getRolePermissions("owner");
+      for (const permission of PERMISSIONS) {
+        expect(permissions.has(permission)).toBe(true);
+      }
+    });
+
+    it("should not let viewers change projects", () => {
+      const permissions = getRolePermissions("viewer");
+      expect(permissions.has("project:read")).toBe(true);
+      expect(permissions.has("project:create")).toBe(false);
+      expect(permissions.has("project:update")).toBe(false);
+      expect(permissions.has("project:delete")).toBe(false);
+    });
+
+    it("should let members manage projects but not the organization", () => {
+      const permissions = getRolePermissions("member");
+      expect(permissions.has("project:create")).toBe(true);
+      expect(permissions.has("member:invite")).toBe(false);
+      expect(permissions.has("billing:manage")).toBe(false);
+    });
+
+    it("should keep deleting the organization to owners", () => {
+      const permissions = getRolePermissions("admin");
+      expect(permissions.has("member:invite")).toBe(true);
+      expect(permissions.has("billing:manage")).toBe(true);
+      expect(permissions.has("organization:delete")).toBe(false);
+    });
+
+    it("should include lower roles in higher roles", () => {
+      const ranks = ["viewer", "member", "admin", "owner"] as const;
+      for (let i = 1; i < ranks.length; i++) {
+        const lower = ROLE_PERMISSIONS[ranks[i - 1]!];
+        const higher = getRolePermissions(ranks[i]!);
+        for (const permission of lower) {
+          expect(higher.has(permission)).toBe(true);
+        }
+      }
+    });
+
+    it("should add custom role permissions on top of the built-in role", () => {
+      const permissions = getRolePermissions("viewer", ["audit:read", "project:create"]);
+      expect(permissions.has("audit:read")).toBe(true);
+      expect(permissions.has("project:create")).toBe(true);
+      expect(permissions.has("project:read")).toBe(true);
+    });
+
+    it("should ignore unknown custom permissions", () => {
+      const permissions = getRolePermissions("viewer", ["everything:*"]);
+      expect(permissions.size).toBe(ROLE_PERMISSIONS.viewer.length);
+    });
+
+    it("should grant nothing to unknown roles", () => {
+      expect(getRolePermissions("guest").size).toBe(0);
+    });
+  });
+
+  describe("getScopePermissions", () => {
+    it("should map read scopes to read permissions", () => {
+      const permissions = getScopePermissions(["projects:read"]);
+      expect(permissions.has("project:read")).toBe(true);
+      expect(permissions.has("project:create")).toBe(false);
+    });
+
+    it("should map write scopes to read and write permissions", () => {
+      const permissions = getScopePermissions(["projects:write"]);
+      expect(permissions.has("project:read")).toBe(true);
+      expect(permissions.has("project:delete")).toBe(true);
+    });
+
+    it("should map upload scopes to storage permissions", () => {
+      const read = getScopePermissions(["uploads:read"]);
+      expect(read.has("storage:read")).toBe(true);
+      expect(read.has("storage:write")).toBe(false);
+
+      const write = getScopePermissions(["uploads:write"]);
+      expect(write.has("storage:read")).toBe(true);
+      expect(write.has("storage:write")).toBe(true);
+    });
+
+    it("should never grant organization management to API keys", () => {
+      const permissions = getScopePermissions(["projects:write", "uploads:write"]);
+      expect(permissions.has("member:invite")).toBe(false);
+      expect(permissions.has("api_key:manage")).toBe(false);
+    });
+  });
+
+  describe("getUngrantablePermissions", () => {
+    it("should allow granting permissions the principal holds", () => {
+      const held = getRolePermissions("admin");
+      expect(getUngrantablePermissions(held, ["audit:read", "project:create"])).toEqual([]);
+    });
+
+    it("should list permissions the principal does not hold", () => {
+      const held = getRolePermissions("admin");
+      expect(getUngrantablePermissions(held, ["audit:read", "organization:delete"])).toEqual([
+        "organization:delete",
+      ]);
+    });
+
+    it("should reject unknown permissions", () => {
+      const held = getRolePermissions("owner");
+      expect(getUngrantablePermissions(held, ["billing:steal"])).toEqual(["billing:steal"]);
+    });
+  });
+
+  describe("isPermission", () => {
+    it("should recognize known permissions", () => {
+      expect(isPermission("billing:manage")).toBe(true);
+      expect(isPermission("billing:steal")).toBe(false);
+    });
+  });
+});
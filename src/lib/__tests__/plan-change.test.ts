@@ -0,0 +1,225 @@
+import type Stripe from "stripe";
+import { describe, expect, it, vi } from "vitest";
+import type { PlanChangeBilling, PlanChangeRequest } from "../plan-change";
+import {
+  applyPlanChange,
+  cancelPlanChange,
+  getPlanChange,
+  previewPlanChange,
+  toBillingInterval,
+} from "../plan-change";
+
+const free = { id: 1, sortOrder: 1 };
+const pro = { id: 2, sortOrder: 2 };
+const business = { id: 3, sortOrder: 3 };
+
+describe("Plan changes", () => {
+  it("should treat a higher plan as an upgrade", () => {
+    expect(
+      getPlanChange({ plan: pro, interval: "monthly" }, { plan: business, interval: "monthly" }),
+    ).toBe("upgrade");
+  });
+
+  it("should treat a lower plan as a downgrade, whatever the interval", () => {
+    expect(
+      getPlanChange({ plan: business, interval: "monthly" }, { plan: pro, interval: "yearly" }),
+    ).toBe("downgrade");
+    expect(
+      getPlanChange({ plan: pro, interval: "yearly" }, { plan: free, interval: "monthly" }),
+    ).toBe("downgrade");
+  });
+
+  it("should rank yearly billing above monthly on the same plan", () => {
+    expect(
+      getPlanChange({ plan: pro, interval: "monthly" }, { plan: pro, interval: "yearly" }),
+    ).toBe("upgrade");
+    expect(
+      getPlanChange({ plan: pro, interval: "yearly" }, { plan: pro, interval: "monthly" }),
+    ).toBe("downgrade");
+  });
+
+  it("should detect no change", () => {
+    expect(
+      getPlanChange({ plan: pro, interval: "yearly" }, { plan: pro, interval: "yearly" }),
+    ).toBe("none");
+  });
+
+  it("should map Stripe price intervals", () => {
+    expect(toBillingInterval("year")).toBe("yearly");
+    expect(toBillingInterval("month")).toBe("monthly");
+    expect(toBillingInterval(undefined)).toBe("monthly");
+  });
+});
+
+// Stands in for the stripe.service calls
+function stubBilling(overrides: Partial<PlanChangeBilling> = {}) {
+  return {
+    previewSubscriptionChange: vi.fn(
+      async () =>
+        ({
+          amount_due: 1250,
+          currency: "usd",
+          lines: {
+            data: [
+              {
+                description: "Unused time on Pro",
+                amount: -750,
+                parent: { subscription_item_details: { proration: true } },
+              },
+              {
+                description: "Remaining time on Business",
+                amount: 2000,
+                parent: { subscription_item_details: { proration: true } },
+              },
+            ],
+          },
+        }) as unknown as Stripe.Invoice,
+    ),
+    changeSubscriptionPrice: vi.fn(async () => ({ pending_update: null }) as Stripe.Subscription),
+    scheduleSubscriptionPriceChange: vi.fn(
+      async () =>
+        ({
+          id: "sub_sched_1",
+          phases: [{ end_date: 1767225600 }, {}],
+        }) as unknown as Stripe.SubscriptionSchedule,
+    ),
+    releaseSubscriptionSchedule: vi.fn(
+      async () => ({ id: "sub_sched_1" }) as Stripe.SubscriptionSchedule,
+    ),
+    ...overrides,
+  };
+}
+
+const periodEnd = new Date("2026-01-01T00:00:00Z");
+
+function planChange(change: PlanChangeRequest["change"]): PlanChangeRequest {
+  return {
+    subscriptionId: "sub_1",
+    currentPeriodEnd: periodEnd,
+    priceId: "price_target",
+    interval: "monthly",
+    change,
+  };
+}
+
+describe("Plan change flow", () => {
+  describe("previewPlanChange", () => {
+    it("should price upgrades with Stripe's prorated invoice as of now", async () => {
+      const billing = stubBilling();
+      const now = new Date("2025-12-01T12:00:00Z");
+
+      const preview = await previewPlanChange(billing, planChange("upgrade"), now);
+
+      const prorationDate = Math.floor(now.getTime() / 1000);
+      expect(billing.previewSubscriptionChange).toHaveBeenCalledWith({
+        subscriptionId: "sub_1",
+        priceId: "price_target",
+        prorationDate,
+      });
+      expect(preview).toEqual({
+        effectiveAt: now,
+        prorationDate,
+        amountDue: 1250,
+        currency: "usd",
+        lines: [
+          { description: "Unused time on Pro", amount: -750, proration: true },
+          { description: "Remaining time on Business", amount: 2000, proration: true },
+        ],
+      });
+    });
+
+    it("should charge nothing for downgrades until the period ends", async () => {
+      const billing = stubBilling();
+
+      const preview = await previewPlanChange(billing, planChange("downgrade"));
+
+      expect(billing.previewSubscriptionChange).not.toHaveBeenCalled();
+      expect(preview).toMatchObject({ effectiveAt: periodEnd, amountDue: 0, prorationDate: null });
+    });
+  });
+
+  describe("applyPlanChange", () => {
+    it("should switch the price now on upgrades, with the previewed proration date", async () => {
+      const billing = stubBilling();
+
+      const result = await applyPlanChange(billing, planChange("upgrade"), 1764590400);
+
+      expect(billing.changeSubscriptionPrice).toHaveBeenCalledWith({
+        subscriptionId: "sub_1",
+        priceId: "price_target",
+        prorationDate: 1764590400,
+      });
+      expect(billing.scheduleSubscriptionPriceChange).not.toHaveBeenCalled();
+      expect(result?.status).toBe("applied");
+    });
+
+    it("should report upgrades waiting for payment as pending", async () => {
+      const billing = stubBilling({
+        changeSubscriptionPrice: vi.fn(
+          async () => ({ pending_update: { expires_at: 1 } }) as Stripe.Subscription,
+        ),
+      });
+
+      expect(await applyPlanChange(billing, planChange("upgrade"))).toEqual({
+        status: "pending_payment",
+        effectiveAt: null,
+      });
+    });
+
+    it("should schedule downgrades at the end of the current period", async () => {
+      const billing = stubBilling();
+
+      const result = await applyPlanChange(billing, planChange("downgrade"));
+
+      expect(billing.scheduleSubscriptionPriceChange).toHaveBeenCalledWith({
+        subscriptionId: "sub_1",
+        priceId: "price_target",
+        interval: "monthly",
+      });
+      expect(billing.changeSubscriptionPrice).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        status: "scheduled",
+        scheduleId: "sub_sched_1",
+        effectiveAt: new Date(1767225600 * 1000),
+      });
+    });
+
+    it("should fall back to the stored period end when the schedule phase has none", async () => {
+      const billing = stubBilling({
+        scheduleSubscriptionPriceChange: vi.fn(
+          async () => ({ id: "sub_sched_2", phases: [] }) as unknown as Stripe.SubscriptionSchedule,
+        ),
+      });
+
+      expect(await applyPlanChange(billing, planChange("downgrade"))).toMatchObject({
+        scheduleId: "sub_sched_2",
+        effectiveAt: periodEnd,
+      });
+    });
+
+    it("should fail when Stripe is not configured", async () => {
+      const billing = stubBilling({
+        changeSubscriptionPrice: vi.fn(async () => null),
+        scheduleSubscriptionPriceChange: vi.fn(async () => null),
+      });
+
+      expect(await applyPlanChange(billing, planChange("upgrade"))).toBeNull();
+      expect(await applyPlanChange(billing, planChange("downgrade"))).toBeNull();
+    });
+  });
+
+  describe("cancelPlanChange", () => {
+    it("should release the scheduled change", async () => {
+      const billing = stubBilling();
+
+      expect(await cancelPlanChange(billing, "sub_sched_1")).toBe(true);
+      expect(billing.releaseSubscriptionSchedule).toHaveBeenCalledWith("sub_sched_1");
+    });
+
+    it("should fail when Stripe is not configured", async () => {
+      const billing = stubBilling({ releaseSubscriptionSchedule: vi.fn(async () => null) });
+
+      expect(await cancelPlanChange(billing, "sub_sched_1")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  canAcceptInvitation,
+  canInvite,
+  getReadOnlyReason,
+  readOnlyError,
+  seatLimitError,
+  toSeatUsage,
+} from "../plan-limits";
+
+describe("Plan limits", () => {
+  it("should count members and pending invitations as seats", () => {
+    expect(toSeatUsage(5, 3, 1)).toEqual({
+      members: 3,
+      pendingInvitations: 1,
+      used: 4,
+      limit: 5,
+      available: 1,
+    });
+    expect(toSeatUsage(2, 3, 1).available).toBe(0);
+  });
+
+  it("should only invite while a seat is free", () => {
+    expect(canInvite(toSeatUsage(5, 3, 1))).toBe(true);
+    expect(canInvite(toSeatUsage(5, 3, 2))).toBe(false);
+  });
+
+  it("should accept invitations that already hold their seat", () => {
+    expect(canAcceptInvitation(toSeatUsage(5, 4, 1))).toBe(true);
+    // The plan shrank below the current members after the invitation was sent
+    expect(canAcceptInvitation(toSeatUsage(3, 3, 1))).toBe(false);
+  });
+
+  it("should flag organizations over their limits as read-only", () => {
+    const limits = { maxProjects: 3, maxUsers: 5 };
+
+    expect(getReadOnlyReason({ projectsCount: 3, membersCount: 5 }, limits)).toBeNull();
+    expect(getReadOnlyReason({ projectsCount: 4, membersCount: 5 }, limits)).toBe(
+      "project_limit_exceeded",
+    );
+    expect(getReadOnlyReason({ projectsCount: 1, membersCount: 6 }, limits)).toBe(
+      "user_limit_exceeded",
+    );
+  });
+
+  it("should build the error bodies", () => {
+    expect(seatLimitError(toSeatUsage(1, 1, 0))).toMatchObject({
+      error: "upgrade_required",
+      limit: "max_users",
+      max_users: 1,
+      seats_used: 1,
+    });
+    expect(readOnlyError("project_limit_exceeded")).toMatchObject({
+      error: "organization_read_only",
+      reason: "project_limit_exceeded",
+    });
+  });
+});
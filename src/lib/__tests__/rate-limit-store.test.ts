@@ -0,0 +1,151 @@
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import * as schema from "../../db/schema";
+import { PostgresRateLimitStore, RedisRateLimitStore } from "../rate-limit-store";
+
+type RedisCommands = ConstructorParameters<typeof RedisRateLimitStore>[0];
+type Database = ConstructorParameters<typeof PostgresRateLimitStore>[0];
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * In-memory Redis covering the commands the store sends
+ */
+function createFakeRedis() {
+  const counters = new Map<string, number>();
+
+  const client = {
+    async send(command: string, args: string[]) {
+      expect(command).toBe("EVAL");
+      const key = args[2]!;
+      const hits = (counters.get(key) ?? 0) + 1;
+      counters.set(key, hits);
+      return [hits, Number(args[3])];
+    },
+    async decr(key: string) {
+      const hits = (counters.get(key) ?? 0) - 1;
+      counters.set(key, hits);
+      return hits;
+    },
+    async del(key: string) {
+      return counters.delete(key) ? 1 : 0;
+    },
+  };
+
+  return { client: client as unknown as RedisCommands, counters };
+}
+
+// Every call fails, as with an unreachable database or Redis
+const unavailable = new Proxy(
+  {},
+  {
+    get: () => () => {
+      throw new Error("connection refused");
+    },
+  },
+);
+
+describe("Rate limit stores", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("RedisRateLimitStore", () => {
+    it("should count hits under the prefixed key", async () => {
+      const { client, counters } = createFakeRedis();
+      const store = new RedisRateLimitStore(client);
+      store.init({ windowMs: WINDOW_MS } as never);
+
+      await store.increment("auth:ip:1.2.3.4");
+      const info = await store.increment("auth:ip:1.2.3.4");
+
+      expect(info.totalHits).toBe(2);
+      expect(info.resetTime!.getTime()).toBeGreaterThan(Date.now());
+      expect(counters.get("rl:auth:ip:1.2.3.4")).toBe(2);
+    });
+
+    it("should decrement and reset keys", async () => {
+      const { client, counters } = createFakeRedis();
+      const store = new RedisRateLimitStore(client, "test:");
+
+      await store.increment("key");
+      await store.increment("key");
+      await store.decrement("key");
+      expect(counters.get("test:key")).toBe(1);
+
+      await store.resetKey("key");
+      expect(counters.has("test:key")).toBe(false);
+    });
+
+    it("should fail open on every operation", async () => {
+      const store = new RedisRateLimitStore(unavailable as RedisCommands);
+
+      expect((await store.increment("key")).totalHits).toBe(0);
+      await expect(store.decrement("key")).resolves.toBeUndefined();
+      await expect(store.resetKey("key")).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("PostgresRateLimitStore", () => {
+    it("should fail open on every operation", async () => {
+      const store = new PostgresRateLimitStore(unavailable as Database);
+
+      expect(await store.get("key")).toBeUndefined();
+      expect((await store.increment("key")).totalHits).toBe(0);
+      await expect(store.decrement("key")).resolves.toBeUndefined();
+      await expect(store.resetKey("key")).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  // Runs against a real database when TEST_DATABASE_URL is set; the table is a temporary copy
+  describe.skipIf(!process.env.TEST_DATABASE_URL)("PostgresRateLimitStore with a database", () => {
+    const client = postgres(process.env.TEST_DATABASE_URL ?? "", { max: 1 });
+    const store = new PostgresRateLimitStore(drizzle(client, { schema }));
+
+    beforeAll(async () => {
+      await client`CREATE TEMP TABLE rate_limits (
+        key varchar(255) PRIMARY KEY,
+        hits integer NOT NULL DEFAULT 0,
+        reset_at timestamptz NOT NULL
+      )`;
+      store.init({ windowMs: WINDOW_MS } as never);
+    });
+
+    afterAll(async () => {
+      await client.end();
+    });
+
+    it("should count hits within a window", async () => {
+      await store.increment("window");
+      const info = await store.increment("window");
+
+      expect(info.totalHits).toBe(2);
+      expect((await store.get("window"))?.totalHits).toBe(2);
+    });
+
+    it("should start a new window once the stored one expired", async () => {
+      await store.increment("expired");
+      await client`UPDATE rate_limits SET reset_at = now() - interval '1 second' WHERE key = 'expired'`;
+
+      expect(await store.get("expired")).toBeUndefined();
+      expect((await store.increment("expired")).totalHits).toBe(1);
+    });
+
+    it("should decrement without going below zero and reset keys", async () => {
+      await store.increment("decrement");
+      await store.decrement("decrement");
+      await store.decrement("decrement");
+      expect((await store.get("decrement"))?.totalHits).toBe(0);
+
+      await store.resetKey("decrement");
+      expect(await store.get("decrement")).toBeUndefined();
+    });
+  });
+});
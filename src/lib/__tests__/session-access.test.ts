@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  getSessionRejection,
+  SESSION_TOUCH_INTERVAL_SECONDS,
+  shouldTouchSession,
+} from "../session-access";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+function secondsAgo(seconds: number): Date {
+  return new Date(NOW.getTime() - seconds * 1000);
+}
+
+describe("Session access", () => {
+  describe("getSessionRejection", () => {
+    const liveSession = { userId: 1, revokedAt: null };
+
+    it("should accept a token of a live session of the same user", () => {
+      expect(getSessionRejection("jti-1", liveSession, 1)).toBeNull();
+    });
+
+    it("should reject tokens without a jti", () => {
+      expect(getSessionRejection(undefined, liveSession, 1)).toBe("missing_jti");
+      expect(getSessionRejection("", liveSession, 1)).toBe("missing_jti");
+    });
+
+    it("should treat a missing session as revoked", () => {
+      expect(getSessionRejection("jti-1", null, 1)).toBe("unknown_session");
+    });
+
+    it("should reject revoked sessions", () => {
+      expect(getSessionRejection("jti-1", { userId: 1, revokedAt: secondsAgo(5) }, 1)).toBe(
+        "revoked",
+      );
+    });
+
+    it("should reject a session that belongs to another user", () => {
+      expect(getSessionRejection("jti-1", liveSession, 2)).toBe("wrong_user");
+    });
+  });
+
+  describe("shouldTouchSession", () => {
+    it("should skip sessions used within the interval", () => {
+      expect(shouldTouchSession(secondsAgo(SESSION_TOUCH_INTERVAL_SECONDS - 1), NOW)).toBe(false);
+    });
+
+    it("should touch sessions once the interval has passed", () => {
+      expect(shouldTouchSession(secondsAgo(SESSION_TOUCH_INTERVAL_SECONDS), NOW)).toBe(true);
+      expect(shouldTouchSession(secondsAgo(3600), NOW)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+import { getEventSubscriptionId, isOrderedStripeEvent } from "../stripe-events";
+
+function event(type: string, object: Record<string, unknown>): Stripe.Event {
+  return { id: "evt_1", type, created: 1700000000, data: { object } } as unknown as Stripe.Event;
+}
+
+describe("Stripe events", () => {
+  it("should find the subscription of subscription events", () => {
+    expect(
+      getEventSubscriptionId(
+        event("customer.subscription.updated", { object: "subscription", id: "sub_1" }),
+      ),
+    ).toBe("sub_1");
+  });
+
+  it("should find the subscription of invoices", () => {
+    expect(
+      getEventSubscriptionId(
+        event("invoice.paid", {
+          object: "invoice",
+          id: "in_1",
+          parent: { subscription_details: { subscription: "sub_2" } },
+        }),
+      ),
+    ).toBe("sub_2");
+  });
+
+  it("should fall back to the legacy invoice subscription field", () => {
+    expect(
+      getEventSubscriptionId(
+        event("invoice.paid", {
+          object: "invoice",
+          id: "in_1",
+          parent: null,
+          subscription: "sub_3",
+        }),
+      ),
+    ).toBe("sub_3");
+  });
+
+  it("should find the subscription of checkout sessions", () => {
+    expect(
+      getEventSubscriptionId(
+        event("checkout.session.completed", {
+          object: "checkout.session",
+          subscription: { id: "sub_4" },
+        }),
+      ),
+    ).toBe("sub_4");
+  });
+
+  it("should return null for other objects", () => {
+    expect(getEventSubscriptionId(event("charge.refunded", { object: "charge", id: "ch_1" }))).toBe(
+      null,
+    );
+    expect(
+      getEventSubscriptionId(event("checkout.session.completed", { object: "checkout.session" })),
+    ).toBe(null);
+  });
+
+  it("should only order subscription state events", () => {
+    expect(isOrderedStripeEvent("customer.subscription.updated")).toBe(true);
+    expect(isOrderedStripeEvent("customer.subscription.deleted")).toBe(true);
+    expect(isOrderedStripeEvent("customer.subscription.trial_will_end")).toBe(false);
+    expect(isOrderedStripeEvent("invoice.paid")).toBe(false);
+  });
+});
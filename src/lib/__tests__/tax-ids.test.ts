@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { getBrazilianDocument, getStripeTaxIdType, normalizeTaxId } from "../tax-ids";
+
+describe("Tax ids", () => {
+  it("should format valid Brazilian documents", () => {
+    expect(normalizeTaxId("cpf", "52998224725")).toBe("529.982.247-25");
+    expect(normalizeTaxId("cpf", "529.982.247-25")).toBe("529.982.247-25");
+    expect(normalizeTaxId("cnpj", "11222333000181")).toBe("11.222.333/0001-81");
+  });
+
+  it("should reject invalid Brazilian documents", () => {
+    expect(normalizeTaxId("cpf", "529.982.247-26")).toBeNull();
+    expect(normalizeTaxId("cpf", "111.111.111-11")).toBeNull();
+    expect(normalizeTaxId("cnpj", "11.222.333/0001-80")).toBeNull();
+    expect(normalizeTaxId("cnpj", "52998224725")).toBeNull();
+  });
+
+  it("should format EINs", () => {
+    expect(normalizeTaxId("ein", "123456789")).toBe("12-3456789");
+    expect(normalizeTaxId("ein", "12-3456789")).toBe("12-3456789");
+    expect(normalizeTaxId("ein", "00-3456789")).toBeNull();
+    expect(normalizeTaxId("ein", "1234")).toBeNull();
+  });
+
+  it("should accept VAT numbers with a known country prefix", () => {
+    expect(normalizeTaxId("vat", "de 123 456 789")).toBe("DE123456789");
+    expect(normalizeTaxId("vat", "GB123456789")).toBe("GB123456789");
+    expect(normalizeTaxId("vat", "123456789")).toBeNull();
+    expect(normalizeTaxId("vat", "US123456789")).toBeNull();
+  });
+
+  it("should map tax ids to Stripe types", () => {
+    expect(getStripeTaxIdType({ type: "cpf", value: "529.982.247-25" })).toBe("br_cpf");
+    expect(getStripeTaxIdType({ type: "cnpj", value: "11.222.333/0001-81" })).toBe("br_cnpj");
+    expect(getStripeTaxIdType({ type: "ein", value: "12-3456789" })).toBe("us_ein");
+    expect(getStripeTaxIdType({ type: "vat", value: "DE123456789" })).toBe("eu_vat");
+    expect(getStripeTaxIdType({ type: "vat", value: "GB123456789" })).toBe("gb_vat");
+  });
+
+  it("should prefer a CNPJ as the Brazilian document", () => {
+    expect(
+      getBrazilianDocument([
+        { type: "vat", value: "DE123456789" },
+        { type: "cpf", value: "529.982.247-25" },
+        { type: "cnpj", value: "11.222.333/0001-81" },
+      ]),
+    ).toBe("11222333000181");
+    expect(getBrazilianDocument([{ type: "cpf", value: "529.982.247-25" }])).toBe("52998224725");
+    expect(getBrazilianDocument([{ type: "ein", value: "12-3456789" }])).toBeNull();
+  });
+});
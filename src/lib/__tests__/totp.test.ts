@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpCounter,
+  verifyTotp,
+} from "../totp";
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TOTP Utilities", () => {
+  describe("base32", () => {
+    it("should round-trip bytes", () => {
+      const bytes = new TextEncoder().encode("12345678901234567890");
+      expect(base32Encode(bytes)).toBe(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+    });
+
+    it("should ignore case, spaces and padding", () => {
+      expect(base32Decode("mzxw 6===")).toEqual(new TextEncoder().encode("foo"));
+    });
+
+    it("should reject invalid characters", () => {
+      expect(() => base32Decode("ABC1")).toThrow();
+    });
+  });
+
+  describe("generateTotp", () => {
+    it.each([
+      [59, "287082"],
+      [1111111109, "081804"],
+      [1234567890, "005924"],
+      [2000000000, "279037"],
+    ])("should match RFC 6238 vector at %i", async (seconds, expected) => {
+      const code = await generateTotp(RFC_SECRET, getTotpCounter(seconds * 1000));
+      expect(code).toBe(expected);
+    });
+  });
+
+  describe("verifyTotp", () => {
+    const now = 1234567890 * 1000;
+
+    it("should return the counter of a valid code", async () => {
+      const counter = await verifyTotp(RFC_SECRET, "005924", { now });
+      expect(counter).toBe(getTotpCounter(now));
+    });
+
+    it("should accept a code from the previous step", async () => {
+      const counter = await verifyTotp(RFC_SECRET, "005924", { now: now + 30 * 1000 });
+      expect(counter).toBe(getTotpCounter(now));
+    });
+
+    it("should reject a code outside the window", async () => {
+      const counter = await verifyTotp(RFC_SECRET, "005924", { now: now + 90 * 1000 });
+      expect(counter).toBeNull();
+    });
+
+    it("should reject malformed codes", async () => {
+      expect(await verifyTotp(RFC_SECRET, "12345", { now })).toBeNull();
+      expect(await verifyTotp(RFC_SECRET, "abcdef", { now })).toBeNull();
+    });
+  });
+
+  describe("generateTotpSecret", () => {
+    it("should generate a 160-bit base32 secret", () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe("buildOtpauthUri", () => {
+    it("should include issuer, account and secret", () => {
+      const uri = buildOtpauthUri({
+        secret: RFC_SECRET,
+        accountName: "user@example.com",
+        issuer: "example.com",
+      });
+
+      expect(uri.startsWith("otpauth://totp/example.com%3Auser%40example.com?")).toBe(true);
+      expect(uri).toContain(`secret=${RFC_SECRET}`);
+      expect(uri).toContain("issuer=example.com");
+      expect(uri).toContain("period=30");
+    });
+  });
+
+  describe("generateRecoveryCodes", () => {
+    it("should generate ten unique codes by default", () => {
+      const codes = generateRecoveryCodes();
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      for (const code of codes) {
+        expect(code).toMatch(/^[a-z0-9]{5}-[a-z0-9]{5}$/);
+      }
+    });
+  });
+});
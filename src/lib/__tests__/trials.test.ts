@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { getTrialDaysRemaining, getTrialState, isTrialExpired } from "../trials";
+
+const now = new Date("2026-03-10T12:00:00Z");
+const inHours = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+describe("Trials", () => {
+  it("should count a started day as a whole one", () => {
+    expect(getTrialDaysRemaining(inHours(72), now)).toBe(3);
+    expect(getTrialDaysRemaining(inHours(49), now)).toBe(3);
+    expect(getTrialDaysRemaining(inHours(1), now)).toBe(1);
+    expect(getTrialDaysRemaining(inHours(-5), now)).toBe(0);
+  });
+
+  it("should only expire trials still marked as trialing", () => {
+    expect(isTrialExpired({ status: "trialing", trialEnd: inHours(-1) }, now)).toBe(true);
+    expect(isTrialExpired({ status: "trialing", trialEnd: inHours(1) }, now)).toBe(false);
+    expect(isTrialExpired({ status: "active", trialEnd: inHours(-1) }, now)).toBe(false);
+    expect(isTrialExpired({ status: "trialing", trialEnd: null }, now)).toBe(false);
+  });
+
+  it("should describe a running trial", () => {
+    expect(getTrialState({ status: "trialing", trialEnd: inHours(30) }, now)).toEqual({
+      status: "active",
+      endsAt: inHours(30),
+      daysRemaining: 2,
+    });
+  });
+
+  it("should describe an ended trial", () => {
+    expect(getTrialState({ status: "trialing", trialEnd: inHours(-1) }, now)).toMatchObject({
+      status: "ended",
+      daysRemaining: 0,
+    });
+    expect(getTrialState({ status: "canceled", trialEnd: inHours(-24) }, now)).toMatchObject({
+      status: "ended",
+    });
+    expect(getTrialState({ status: "active", trialEnd: inHours(-24) }, now)).toMatchObject({
+      status: "ended",
+    });
+  });
+
+  it("should return null without a trial", () => {
+    expect(getTrialState({ status: "active", trialEnd: null }, now)).toBeNull();
+  });
+});
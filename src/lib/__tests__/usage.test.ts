@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { getUsagePeriod, isAiFeature, splitOverage } from "../usage";
+
+describe("Usage periods", () => {
+  it("should follow calendar months without an anchor", () => {
+    expect(getUsagePeriod(null, new Date("2026-03-10T12:00:00Z"))).toEqual({
+      start: new Date("2026-03-01T00:00:00Z"),
+      end: new Date("2026-04-01T00:00:00Z"),
+    });
+  });
+
+  it("should restart every month on the anchor day", () => {
+    const anchor = new Date("2026-01-15T08:30:00Z");
+
+    expect(getUsagePeriod(anchor, new Date("2026-03-20T00:00:00Z"))).toEqual({
+      start: new Date("2026-03-15T08:30:00Z"),
+      end: new Date("2026-04-15T08:30:00Z"),
+    });
+    expect(getUsagePeriod(anchor, new Date("2026-03-15T08:29:59Z"))).toEqual({
+      start: new Date("2026-02-15T08:30:00Z"),
+      end: new Date("2026-03-15T08:30:00Z"),
+    });
+  });
+
+  it("should keep monthly periods within a yearly subscription", () => {
+    const anchor = new Date("2025-06-01T00:00:00Z");
+
+    expect(getUsagePeriod(anchor, new Date("2026-01-10T00:00:00Z"))).toEqual({
+      start: new Date("2026-01-01T00:00:00Z"),
+      end: new Date("2026-02-01T00:00:00Z"),
+    });
+  });
+
+  it("should clamp anchors at the end of the month", () => {
+    const anchor = new Date("2026-01-31T00:00:00Z");
+
+    expect(getUsagePeriod(anchor, new Date("2026-02-28T12:00:00Z"))).toEqual({
+      start: new Date("2026-02-28T00:00:00Z"),
+      end: new Date("2026-03-31T00:00:00Z"),
+    });
+    expect(getUsagePeriod(anchor, new Date("2026-02-27T12:00:00Z")).start).toEqual(anchor);
+  });
+});
+
+describe("Overage", () => {
+  it("should split a quantity at the allowance", () => {
+    expect(splitOverage(90, 5, 100)).toEqual({ included: 5, overage: 0 });
+    expect(splitOverage(90, 20, 100)).toEqual({ included: 10, overage: 10 });
+    expect(splitOverage(150, 20, 100)).toEqual({ included: 0, overage: 20 });
+    expect(splitOverage(0, 5, 0)).toEqual({ included: 0, overage: 5 });
+  });
+
+  it("should recognize AI features", () => {
+    expect(isAiFeature("chat")).toBe(true);
+    expect(isAiFeature("teleport")).toBe(false);
+  });
+});
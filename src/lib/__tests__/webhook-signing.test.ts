@@ -0,0 +1,150 @@
+import type { IncomingHttpHeaders, Server } from "node:http";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  generateWebhookSecret,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from "../webhook-signing";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ id: "evt_1", type: "project.created", data: {} });
+
+describe("Webhook signing", () => {
+  it("should generate prefixed random secrets", () => {
+    const first = generateWebhookSecret();
+
+    expect(first).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(first);
+  });
+
+  it("should sign with a timestamp and an HMAC", async () => {
+    const header = await signWebhookPayload(secret, body, 1700000000);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(await signWebhookPayload(secret, body, 1700000000)).toBe(header);
+  });
+
+  it("should verify its own signatures", async () => {
+    const header = await signWebhookPayload(secret, body, 1700000000);
+
+    expect(await verifyWebhookSignature(secret, body, header, 1700000010)).toBe(true);
+  });
+
+  it("should reject a tampered body or another secret", async () => {
+    const header = await signWebhookPayload(secret, body, 1700000000);
+
+    expect(await verifyWebhookSignature(secret, `${body} `, header, 1700000000)).toBe(false);
+    expect(await verifyWebhookSignature("whsec_other", body, header, 1700000000)).toBe(false);
+  });
+
+  it("should reject signatures outside the tolerance", async () => {
+    const header = await signWebhookPayload(secret, body, 1700000000);
+    const late = 1700000000 + WEBHOOK_TOLERANCE_SECONDS + 1;
+
+    expect(await verifyWebhookSignature(secret, body, header, late)).toBe(false);
+  });
+
+  it("should reject malformed headers", async () => {
+    expect(await verifyWebhookSignature(secret, body, "", 1700000000)).toBe(false);
+    expect(await verifyWebhookSignature(secret, body, "v1=abc", 1700000000)).toBe(false);
+    expect(await verifyWebhookSignature(secret, body, "t=soon,v1=abc", 1700000000)).toBe(false);
+  });
+});
+
+describe("Webhook delivery", () => {
+  let server: Server;
+  let url: string;
+  let status = 200;
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => {
+        data += chunk;
+      });
+      req.on("end", () => {
+        received.push({ headers: req.headers, body: data });
+        res.writeHead(status, { "Content-Type": "text/plain" });
+        res.end(status < 300 ? "ok" : "nope");
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should POST a payload the receiver can verify", async () => {
+    status = 200;
+
+    const result = await sendWebhook(
+      { url, secret },
+      { id: "evt_1", type: "project.created", body },
+      { allowPrivateNetwork: true },
+    );
+
+    expect(result).toMatchObject({ ok: true, status: 200, error: null });
+    expect(result).not.toHaveProperty("body");
+
+    const request = received.at(-1)!;
+    expect(request.body).toBe(body);
+    expect(request.headers["webhook-id"]).toBe("evt_1");
+    expect(request.headers["webhook-event"]).toBe("project.created");
+    expect(
+      await verifyWebhookSignature(
+        secret,
+        request.body,
+        String(request.headers["webhook-signature"]),
+      ),
+    ).toBe(true);
+  });
+
+  it("should report error responses", async () => {
+    status = 500;
+
+    const result = await sendWebhook(
+      { url, secret },
+      { id: "evt_2", type: "project.created", body },
+      { allowPrivateNetwork: true },
+    );
+
+    expect(result).toMatchObject({ ok: false, status: 500 });
+    expect(result.error).toContain("500");
+  });
+
+  it("should report unreachable endpoints without throwing", async () => {
+    const result = await sendWebhook(
+      { url: "http://127.0.0.1:1/hooks", secret },
+      { id: "evt_3", type: "project.created", body },
+      { allowPrivateNetwork: true },
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBeNull();
+    expect(result.error).toBeTruthy();
+  });
+
+  it("should refuse private addresses without contacting them", async () => {
+    const count = received.length;
+
+    for (const target of [url, url.replace("127.0.0.1", "localhost")]) {
+      const result = await sendWebhook(
+        { url: target, secret },
+        { id: "evt_4", type: "project.created", body },
+      );
+
+      expect(result).toMatchObject({ ok: false, status: null });
+      expect(result.error).toContain("private");
+    }
+
+    expect(received.length).toBe(count);
+  });
+});
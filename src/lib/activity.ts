@@ -0,0 +1,46 @@
+import { z } from "zod/v4";
+import type { ActivityLog } from "../db/schema";
+
+export type ActivityActionType = "create" | "update" | "delete";
+
+/**
+ * Query schema shared by the activity feed endpoints
+ */
+export const activityQuerySchema = z.object({
+  actionType: z.enum(["create", "update", "delete"]).optional(),
+  userId: z.coerce.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.coerce.number().optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+
+/**
+ * Format an activity log for API responses
+ */
+export function formatActivity(
+  log: ActivityLog,
+  user?: { id: number; email: string; name: string | null } | null,
+) {
+  return {
+    id: log.id,
+    action: log.action,
+    action_type: log.actionType,
+    description: log.description,
+    metadata: log.metadata,
+    ip_address: log.ipAddress,
+    user_agent: log.userAgent,
+    organization_id: log.organizationId,
+    project_id: log.projectId,
+    user: user
+      ? {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+        }
+      : null,
+    created_at: log.createdAt.toISOString(),
+  };
+}
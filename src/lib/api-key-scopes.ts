@@ -0,0 +1,23 @@
+import type { ApiKey } from "../db/schema";
+
+export const API_KEY_SCOPES = [
+  "projects:read",
+  "projects:write",
+  "uploads:read",
+  "uploads:write",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Check whether an API key grants a scope
+ * Write scopes include the matching read scope
+ */
+export function hasScope(apiKey: Pick<ApiKey, "scopes">, scope: ApiKeyScope): boolean {
+  if (apiKey.scopes.includes(scope)) {
+    return true;
+  }
+
+  const [resource, action] = scope.split(":");
+  return action === "read" && apiKey.scopes.includes(`${resource}:write`);
+}
@@ -0,0 +1,113 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import type { ApiKey } from "../db/schema";
+import { apiKeys } from "../db/schema";
+import type { ApiKeyScope } from "./api-key-scopes";
+
+export const API_KEY_HEADER = "x-api-key";
+
+// Avoid a write on every request; last used is tracked with minute precision
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Hash an API key using SHA-256
+ */
+async function hashApiKey(key: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return toHex(new Uint8Array(hashBuffer));
+}
+
+/**
+ * Generate a new API key
+ * Keys look like `ak_1a2b3c4d_<secret>`; the prefix identifies the key in listings
+ */
+function generateApiKey(): { key: string; prefix: string } {
+  const prefix = `ak_${toHex(crypto.getRandomValues(new Uint8Array(4)))}`;
+  const secret = toHex(crypto.getRandomValues(new Uint8Array(24)));
+  return { key: `${prefix}_${secret}`, prefix };
+}
+
+/**
+ * Create an API key for an organization
+ * The plain key is returned once and never stored
+ */
+export async function createApiKey(params: {
+  organizationId: number;
+  createdById: number;
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+}): Promise<{ apiKey: ApiKey; key: string }> {
+  const { key, prefix } = generateApiKey();
+
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({
+      organizationId: params.organizationId,
+      createdById: params.createdById,
+      name: params.name,
+      prefix,
+      keyHash: await hashApiKey(key),
+      scopes: params.scopes,
+      expiresAt: params.expiresAt ?? null,
+    })
+    .returning();
+
+  if (!apiKey) {
+    throw new Error("Failed to create API key");
+  }
+
+  return { apiKey, key };
+}
+
+/**
+ * Resolve an API key sent by a client
+ * Returns null for unknown, revoked or expired keys
+ */
+export async function resolveApiKey(key: string): Promise<ApiKey | null> {
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, await hashApiKey(key)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const now = new Date();
+
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+    await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, apiKey.id));
+  }
+
+  return apiKey;
+}
+
+/**
+ * Format an API key for API responses (never includes the secret)
+ */
+export function formatApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    organization_id: apiKey.organizationId,
+    created_by_id: apiKey.createdById,
+    expires_at: apiKey.expiresAt?.toISOString() ?? null,
+    last_used_at: apiKey.lastUsedAt?.toISOString() ?? null,
+    revoked_at: apiKey.revokedAt?.toISOString() ?? null,
+    created_at: apiKey.createdAt.toISOString(),
+  };
+}
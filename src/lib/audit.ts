@@ -0,0 +1,118 @@
+import { and, desc, eq, gte, lt, lte } from "drizzle-orm";
+import type { Context } from "hono";
+import { db } from "../db";
+import { activityLogs, users } from "../db/schema";
+import type { ActivityActionType, ActivityQuery } from "./activity";
+import { formatActivity } from "./activity";
+import { findClientIP } from "./client-ip";
+
+export interface ActivityEntry {
+  action: string;
+  actionType: ActivityActionType;
+  description: string;
+  organizationId?: number | null;
+  projectId?: number | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Record an activity log entry
+ * Failures are logged and swallowed so auditing never breaks the request
+ */
+export async function recordActivity(
+  entry: ActivityEntry & {
+    userId?: number | null;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+  },
+): Promise<void> {
+  try {
+    await db.insert(activityLogs).values({
+      action: entry.action,
+      actionType: entry.actionType,
+      description: entry.description,
+      metadata: entry.metadata,
+      userId: entry.userId ?? null,
+      organizationId: entry.organizationId ?? null,
+      projectId: entry.projectId ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+    });
+  } catch (error) {
+    console.error("Failed to record activity:", error);
+  }
+}
+
+/**
+ * Record an activity log entry for the current request
+ * Actor, IP address and user agent are taken from the context
+ */
+export async function logActivity(c: Context, entry: ActivityEntry): Promise<void> {
+  const apiKey = c.get("apiKey");
+
+  await recordActivity({
+    ...entry,
+    // Service accounts have no user; keep track of the key that acted
+    metadata: apiKey ? { ...entry.metadata, api_key_id: apiKey.id } : entry.metadata,
+    userId: c.get("userId") ?? null,
+    ipAddress: findClientIP(c),
+    userAgent: c.req.header("user-agent") ?? null,
+  });
+}
+
+/**
+ * List activity for an organization or project using cursor pagination
+ * The cursor is the id of the last item of the previous page
+ */
+export async function listActivity(
+  scope: { organizationId?: number; projectId?: number },
+  query: ActivityQuery,
+): Promise<{ items: ReturnType<typeof formatActivity>[]; nextCursor: number | null }> {
+  const conditions = [];
+
+  if (scope.organizationId) {
+    conditions.push(eq(activityLogs.organizationId, scope.organizationId));
+  }
+  if (scope.projectId) {
+    conditions.push(eq(activityLogs.projectId, scope.projectId));
+  }
+  if (query.actionType) {
+    conditions.push(eq(activityLogs.actionType, query.actionType));
+  }
+  if (query.userId) {
+    conditions.push(eq(activityLogs.userId, query.userId));
+  }
+  if (query.from) {
+    conditions.push(gte(activityLogs.createdAt, query.from));
+  }
+  if (query.to) {
+    conditions.push(lte(activityLogs.createdAt, query.to));
+  }
+  if (query.cursor) {
+    conditions.push(lt(activityLogs.id, query.cursor));
+  }
+
+  // Fetch one extra row to know whether there is a next page
+  const rows = await db
+    .select({
+      log: activityLogs,
+      user: {
+        id: users.id,
+        email: users.email,
+        name: users.name,
+      },
+    })
+    .from(activityLogs)
+    .leftJoin(users, eq(activityLogs.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(activityLogs.id))
+    .limit(query.limit + 1);
+
+  const page = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+
+  return {
+    items: page.map((r) => formatActivity(r.log, r.user)),
+    nextCursor: hasMore ? (page[page.length - 1]?.log.id ?? null) : null,
+  };
+}
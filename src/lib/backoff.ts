@@ -0,0 +1,21 @@
+// Exponential backoff shared by everything that retries in the background
+
+export interface BackoffOptions {
+  baseMs?: number;
+  maxMs?: number;
+}
+
+/**
+ * Get the delay before the next retry after a number of failed attempts
+ * The first retry waits `baseMs`, each later one twice as long, capped at `maxMs`
+ */
+export function getBackoffDelayMs(
+  attempts: number,
+  { baseMs = 30 * 1000, maxMs = 60 * 60 * 1000 }: BackoffOptions = {},
+): number {
+  if (attempts < 1) {
+    return 0;
+  }
+
+  return Math.min(baseMs * 2 ** (attempts - 1), maxMs);
+}
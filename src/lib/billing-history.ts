@@ -0,0 +1,213 @@
+import type Stripe from "stripe";
+import type { BillingHistory, NewBillingHistory } from "../db/schema";
+
+// Statuses a billing history entry can have; credit notes are either credited or void
+export const BILLING_STATUSES = [
+  "paid",
+  "pending",
+  "failed",
+  "refunded",
+  "void",
+  "uncollectible",
+  "credited",
+] as const;
+
+export type BillingStatus = (typeof BILLING_STATUSES)[number];
+
+// Stripe serves invoice and credit note PDFs from its own domains only
+const STRIPE_FILE_HOST_SUFFIX = ".stripe.com";
+
+function toDate(timestamp: number | null | undefined): Date | null {
+  return timestamp ? new Date(timestamp * 1000) : null;
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  return typeof value === "string" ? value : (value?.id ?? null);
+}
+
+/**
+ * Get the billing history status of an invoice; null for drafts, which are not billed yet
+ */
+export function getInvoiceStatus(
+  invoice: Pick<Stripe.Invoice, "status" | "attempted" | "amount_paid">,
+  amountRefunded = 0,
+): BillingStatus | null {
+  switch (invoice.status) {
+    case "paid":
+      return invoice.amount_paid > 0 && amountRefunded >= invoice.amount_paid ? "refunded" : "paid";
+    case "open":
+      // Open invoices Stripe already tried to charge are failed payments waiting for a retry
+      return invoice.attempted ? "failed" : "pending";
+    case "void":
+    case "uncollectible":
+      return invoice.status;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sum the refunds of the charges that paid an invoice
+ * Refunds are keyed by payment intent or charge id; the invoice must have `payments` expanded
+ */
+export function getInvoiceAmountRefunded(
+  invoice: Pick<Stripe.Invoice, "payments">,
+  refunds: Map<string, number>,
+): number {
+  let refunded = 0;
+
+  for (const { payment } of invoice.payments?.data ?? []) {
+    const key = idOf(payment.payment_intent) ?? idOf(payment.charge);
+    refunded += (key && refunds.get(key)) || 0;
+  }
+
+  return refunded;
+}
+
+/**
+ * Map a Stripe invoice to a billing history entry (amounts in cents)
+ * The refunded amount is left out when unknown so an upsert keeps the stored one
+ */
+export function invoiceToBillingEntry(
+  invoice: Stripe.Invoice,
+  subscriptionId: number,
+  amountRefunded?: number,
+): NewBillingHistory | null {
+  const status = getInvoiceStatus(invoice, amountRefunded);
+
+  if (!invoice.id || !status) {
+    return null;
+  }
+
+  const paymentIntent = invoice.payments?.data.find((item) => item.payment.payment_intent);
+
+  return {
+    subscriptionId,
+    kind: "invoice",
+    stripeInvoiceId: invoice.id,
+    ...(paymentIntent && {
+      stripePaymentIntentId: idOf(paymentIntent.payment.payment_intent),
+    }),
+    invoiceNumber: invoice.number,
+    amount: invoice.status === "paid" ? invoice.amount_paid : invoice.amount_due,
+    ...(amountRefunded !== undefined && { amountRefunded }),
+    currency: invoice.currency.toUpperCase(),
+    status,
+    invoiceDate: new Date(invoice.created * 1000),
+    paidAt: toDate(invoice.status_transitions?.paid_at),
+    invoiceUrl: invoice.hosted_invoice_url ?? null,
+    invoicePdf: invoice.invoice_pdf ?? null,
+    description:
+      invoice.description ??
+      (status === "failed" ? "Failed payment for subscription" : "Invoice for subscription"),
+  };
+}
+
+/**
+ * Map a Stripe credit note to a billing history entry; credits are stored as negative amounts
+ */
+export function creditNoteToBillingEntry(
+  creditNote: Stripe.CreditNote,
+  subscriptionId: number,
+): NewBillingHistory {
+  const invoiceId = idOf(creditNote.invoice);
+
+  return {
+    subscriptionId,
+    kind: "credit_note",
+    stripeCreditNoteId: creditNote.id,
+    invoiceNumber: creditNote.number,
+    amount: -creditNote.total,
+    currency: creditNote.currency.toUpperCase(),
+    status: creditNote.status === "void" ? "void" : "credited",
+    invoiceDate: new Date(creditNote.created * 1000),
+    invoicePdf: creditNote.pdf,
+    description: creditNote.memo ?? `Credit note for invoice ${invoiceId ?? ""}`.trim(),
+    extraData: { invoice_id: invoiceId, reason: creditNote.reason },
+  };
+}
+
+/**
+ * Check that a PDF link points to Stripe over HTTPS before the server fetches it
+ */
+export function isStripeFileUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" && url.hostname.endsWith(STRIPE_FILE_HOST_SUFFIX);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Quote a CSV field when needed, doubling embedded quotes (RFC 4180)
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Keep spreadsheets from evaluating free text as a formula
+ */
+function sanitizeCsvText(value: string | null): string {
+  if (!value) {
+    return "";
+  }
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Build a CSV document with CRLF line endings
+ */
+export function toCsv(header: string[], rows: string[][]): string {
+  return `${[header, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\r\n")}\r\n`;
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Export billing history entries as CSV for accounting
+ */
+export function billingHistoryCsv(
+  entries: (Pick<
+    BillingHistory,
+    | "invoiceDate"
+    | "invoiceNumber"
+    | "kind"
+    | "description"
+    | "status"
+    | "currency"
+    | "amount"
+    | "amountRefunded"
+    | "paidAt"
+  > & { nfseNumber?: string | null })[],
+): string {
+  return toCsv(
+    [
+      "date",
+      "number",
+      "type",
+      "description",
+      "status",
+      "currency",
+      "amount",
+      "amount_refunded",
+      "paid_at",
+      "nfse_number",
+    ],
+    entries.map((entry) => [
+      entry.invoiceDate.toISOString(),
+      sanitizeCsvText(entry.invoiceNumber),
+      entry.kind,
+      sanitizeCsvText(entry.description),
+      entry.status,
+      entry.currency,
+      formatCents(entry.amount),
+      formatCents(entry.amountRefunded),
+      entry.paidAt?.toISOString() ?? "",
+      entry.nfseNumber ?? "",
+    ]),
+  );
+}
@@ -0,0 +1,41 @@
+import type { Context } from "hono";
+
+// hono/bun reads the Bun global when imported, so only load it when running under Bun
+const bunAdapter = typeof Bun === "undefined" ? null : await import("hono/bun");
+
+/**
+ * Get the client IP address a proxy reported for a request; null when there is none
+ */
+export function getForwardedClientIP(c: Context): string | null {
+  // Check X-Forwarded-For header
+  const forwardedFor = c.req.header("x-forwarded-for");
+  if (forwardedFor) {
+    const firstIP = forwardedFor.split(",")[0]?.trim();
+    if (firstIP) {
+      return firstIP;
+    }
+  }
+
+  // Check X-Real-IP header
+  const realIP = c.req.header("x-real-ip")?.trim();
+  return realIP || null;
+}
+
+/**
+ * Get the real client IP address of a request, considering proxies
+ * Null when the request carries no address at all (e.g. app.request in tests)
+ */
+export function findClientIP(c: Context): string | null {
+  const forwarded = getForwardedClientIP(c);
+  if (forwarded) {
+    return forwarded;
+  }
+
+  // Fallback to the socket address of the Bun server
+  try {
+    return bunAdapter?.getConnInfo(c).remote.address ?? null;
+  } catch {
+    // Not running behind Bun.serve
+    return null;
+  }
+}
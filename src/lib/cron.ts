@@ -0,0 +1,153 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+// Fields accept "*", numbers, ranges ("1-5"), lists ("1,15") and steps ("*/10", "0-30/5")
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 6 }, // day of week, 0 = Sunday (7 is accepted as Sunday too)
+];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted a day matches either of them, like classic cron
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+function parseField(value: string, field: CronField, index: number): Set<number> {
+  const values = new Set<number>();
+  const max = index === 4 ? 7 : field.max;
+
+  for (const part of value.split(",")) {
+    const [range = "", stepValue] = part.split("/");
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(range);
+      end = stepValue === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < field.min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${value}"`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(index === 4 && n === 7 ? 0 : n);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression; throws on invalid input
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i]!, i),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) {
+    return true;
+  }
+  if (schedule.anyDayOfMonth) {
+    return dayOfWeek;
+  }
+  if (schedule.anyDayOfWeek) {
+    return dayOfMonth;
+  }
+
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Get the first time strictly after `after` that matches the expression
+ */
+export function getNextCronTime(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match; four years covers every valid expression
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error("Cron expression never matches");
+}
@@ -0,0 +1,153 @@
+import type { SubscriptionPlan } from "../db/schema";
+import type { BillingInterval } from "./plan-change";
+import { BILLING_INTERVALS } from "./plan-change";
+
+// Stripe currency codes (lowercase); amounts are always in the smallest unit (cents)
+export const SUPPORTED_CURRENCIES = ["usd", "eur", "gbp", "brl"] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: Currency = "usd";
+
+const EURO_COUNTRIES = [
+  "AT",
+  "BE",
+  "CY",
+  "DE",
+  "EE",
+  "ES",
+  "FI",
+  "FR",
+  "GR",
+  "HR",
+  "IE",
+  "IT",
+  "LT",
+  "LU",
+  "LV",
+  "MT",
+  "NL",
+  "PT",
+  "SI",
+  "SK",
+];
+
+const COUNTRY_CURRENCIES: Record<string, Currency> = {
+  BR: "brl",
+  GB: "gbp",
+  ...Object.fromEntries(EURO_COUNTRIES.map((country) => [country, "eur" as const])),
+};
+
+type PriceColumns = {
+  amount: keyof SubscriptionPlan;
+  priceId: keyof SubscriptionPlan;
+};
+
+// Plan columns holding the amount and Stripe price of each currency and interval
+const PRICE_COLUMNS: Record<Currency, Record<BillingInterval, PriceColumns>> = {
+  usd: {
+    monthly: { amount: "priceMonthlyUsd", priceId: "stripePriceIdMonthly" },
+    yearly: { amount: "priceYearlyUsd", priceId: "stripePriceIdYearly" },
+  },
+  eur: {
+    monthly: { amount: "priceMonthlyEur", priceId: "stripePriceIdMonthlyEur" },
+    yearly: { amount: "priceYearlyEur", priceId: "stripePriceIdYearlyEur" },
+  },
+  gbp: {
+    monthly: { amount: "priceMonthlyGbp", priceId: "stripePriceIdMonthlyGbp" },
+    yearly: { amount: "priceYearlyGbp", priceId: "stripePriceIdYearlyGbp" },
+  },
+  brl: {
+    monthly: { amount: "priceMonthlyBrl", priceId: "stripePriceIdMonthlyBrl" },
+    yearly: { amount: "priceYearlyBrl", priceId: "stripePriceIdYearlyBrl" },
+  },
+};
+
+export interface PlanPrice {
+  currency: Currency;
+  interval: BillingInterval;
+  amount: number;
+  priceId: string | null;
+}
+
+/**
+ * Read a currency code in any case; null when it is not supported
+ */
+export function toCurrency(value: string | null | undefined): Currency | null {
+  const code = value?.trim().toLowerCase();
+  return SUPPORTED_CURRENCIES.find((currency) => currency === code) ?? null;
+}
+
+/**
+ * Pick the billing currency of a country (ISO 3166-1 alpha-2), falling back to USD
+ */
+export function currencyForCountry(country: string | null | undefined): Currency {
+  return COUNTRY_CURRENCIES[country?.trim().toUpperCase() ?? ""] ?? DEFAULT_CURRENCY;
+}
+
+/**
+ * Get the price of a plan in a currency; null when the plan is not sold in it
+ */
+export function getPlanPrice(
+  plan: SubscriptionPlan,
+  currency: Currency,
+  interval: BillingInterval,
+): PlanPrice | null {
+  const columns = PRICE_COLUMNS[currency][interval];
+  const amount = plan[columns.amount] as number | null;
+
+  if (amount === null || amount === undefined) {
+    return null;
+  }
+
+  return {
+    currency,
+    interval,
+    amount,
+    priceId: (plan[columns.priceId] as string | null) ?? null,
+  };
+}
+
+/**
+ * List the currencies a plan can be bought in, i.e. with a Stripe price for some interval
+ */
+export function getPlanCurrencies(plan: SubscriptionPlan): Currency[] {
+  return SUPPORTED_CURRENCIES.filter((currency) =>
+    BILLING_INTERVALS.some((interval) => getPlanPrice(plan, currency, interval)?.priceId),
+  );
+}
+
+/**
+ * Find which currency and interval of a plan a Stripe price belongs to
+ */
+export function findPlanPrice(plan: SubscriptionPlan, priceId: string): PlanPrice | null {
+  for (const currency of SUPPORTED_CURRENCIES) {
+    for (const interval of BILLING_INTERVALS) {
+      const price = getPlanPrice(plan, currency, interval);
+      if (price?.priceId === priceId) {
+        return price;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List the Stripe price columns, to look plans up by price
+ */
+export function getPriceIdColumns(): (keyof SubscriptionPlan)[] {
+  return Object.values(PRICE_COLUMNS).flatMap((intervals) =>
+    Object.values(intervals).map((columns) => columns.priceId),
+  );
+}
+
+/**
+ * Format an amount in cents for display, e.g. "$19.00" or "R$ 99,00"
+ */
+export function formatAmount(amount: number, currency: string, locale = "en"): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
@@ -0,0 +1,235 @@
+import { and, eq, inArray, lte } from "drizzle-orm";
+import { db } from "../db";
+import type { EmailOutboxMessage } from "../db/schema";
+import { emailOutbox, emailSuppressions } from "../db/schema";
+import { getBackoffDelayMs } from "./backoff";
+import type { EmailTransport } from "./email-transport";
+import {
+  FileEmailTransport,
+  MemoryEmailTransport,
+  ResendEmailTransport,
+  SmtpEmailTransport,
+} from "./email-transport";
+import { env, isProduction } from "./env";
+
+export const EMAIL_MAX_ATTEMPTS = 8;
+
+// A message being sent is retried by the worker if the sender dies before recording the outcome
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+const fromEmail = env.EMAIL_FROM || env.RESEND_FROM_EMAIL || "noreply@example.com";
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Build the transport selected by EMAIL_TRANSPORT, or the default for the environment
+ */
+export function createEmailTransport(): EmailTransport {
+  const name =
+    env.EMAIL_TRANSPORT ?? (env.RESEND_API_KEY ? "resend" : isProduction ? null : "file");
+
+  switch (name) {
+    case "resend":
+      if (!env.RESEND_API_KEY) {
+        throw new Error("RESEND_API_KEY is required for the resend email transport");
+      }
+      return new ResendEmailTransport(env.RESEND_API_KEY);
+
+    case "smtp":
+      if (!env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required for the smtp email transport");
+      }
+      return new SmtpEmailTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+
+    case "file":
+      return new FileEmailTransport(env.EMAIL_FILE_DIR);
+
+    case "memory":
+      return new MemoryEmailTransport();
+
+    default:
+      throw new Error("No email transport configured; set EMAIL_TRANSPORT or RESEND_API_KEY");
+  }
+}
+
+/**
+ * Get the shared transport, creating it on first use
+ */
+export function getEmailTransport(): EmailTransport {
+  transport ??= createEmailTransport();
+  return transport;
+}
+
+/**
+ * Replace the shared transport, e.g. with a MemoryEmailTransport in tests
+ */
+export function setEmailTransport(value: EmailTransport | null): void {
+  transport = value;
+}
+
+/**
+ * Check whether an address bounced or complained before
+ */
+export async function isEmailSuppressed(email: string): Promise<boolean> {
+  const [suppression] = await db
+    .select({ id: emailSuppressions.id })
+    .from(emailSuppressions)
+    .where(eq(emailSuppressions.email, email.toLowerCase()))
+    .limit(1);
+
+  return !!suppression;
+}
+
+/**
+ * Stop sending to an address
+ */
+export async function suppressEmail(
+  email: string,
+  reason: "bounce" | "complaint",
+  details?: string | null,
+): Promise<void> {
+  await db
+    .insert(emailSuppressions)
+    .values({ email: email.toLowerCase(), reason, details: details ?? null })
+    .onConflictDoUpdate({
+      target: emailSuppressions.email,
+      set: { reason, details: details ?? null },
+    });
+}
+
+/**
+ * Persist a rendered email, claimed for the "email.send" job
+ * If that job never runs, the outbox sweep picks the message up once the claim expires
+ */
+export async function enqueueEmail(message: {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  template?: string;
+  locale?: string;
+}): Promise<EmailOutboxMessage> {
+  const [queued] = await db
+    .insert(emailOutbox)
+    .values({
+      ...message,
+      status: "sending",
+      nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS),
+    })
+    .returning();
+
+  return queued!;
+}
+
+/**
+ * Claim a message for sending by renewing the lease it was read with
+ * Returns null when the outbox sweep or another sender took the message first
+ */
+export async function claimEmail(message: EmailOutboxMessage): Promise<EmailOutboxMessage | null> {
+  const [claimed] = await db
+    .update(emailOutbox)
+    .set({ nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) })
+    .where(
+      and(
+        eq(emailOutbox.id, message.id),
+        eq(emailOutbox.status, "sending"),
+        eq(emailOutbox.nextAttemptAt, message.nextAttemptAt),
+      ),
+    )
+    .returning();
+
+  return claimed ?? null;
+}
+
+/**
+ * Try to deliver a claimed message and record the outcome
+ * Failures are rescheduled with exponential backoff until EMAIL_MAX_ATTEMPTS
+ */
+export async function deliverEmail(message: EmailOutboxMessage): Promise<boolean> {
+  if (await isEmailSuppressed(message.to)) {
+    await db
+      .update(emailOutbox)
+      .set({ status: "suppressed", lastError: "Address is suppressed" })
+      .where(eq(emailOutbox.id, message.id));
+    return false;
+  }
+
+  const attempts = message.attempts + 1;
+
+  try {
+    const sender = getEmailTransport();
+    const { messageId } = await sender.send({
+      from: fromEmail,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      idempotencyKey: `email-outbox-${message.id}`,
+    });
+
+    await db
+      .update(emailOutbox)
+      .set({
+        status: "sent",
+        attempts,
+        transport: sender.name,
+        providerMessageId: messageId,
+        lastError: null,
+        sentAt: new Date(),
+      })
+      .where(eq(emailOutbox.id, message.id));
+
+    return true;
+  } catch (error) {
+    const failed = attempts >= EMAIL_MAX_ATTEMPTS;
+    console.error(`Email ${message.id} delivery error (attempt ${attempts}):`, error);
+
+    await db
+      .update(emailOutbox)
+      .set({
+        status: failed ? "failed" : "pending",
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + getBackoffDelayMs(attempts)),
+      })
+      .where(eq(emailOutbox.id, message.id));
+
+    return false;
+  }
+}
+
+/**
+ * Deliver due messages, including ones whose sender died mid-send
+ * Returns the number of messages attempted
+ */
+export async function processEmailOutbox(limit = 20): Promise<number> {
+  const now = new Date();
+
+  const due = db
+    .select({ id: emailOutbox.id })
+    .from(emailOutbox)
+    .where(
+      and(inArray(emailOutbox.status, ["pending", "sending"]), lte(emailOutbox.nextAttemptAt, now)),
+    )
+    .orderBy(emailOutbox.nextAttemptAt)
+    .limit(limit)
+    .for("update", { skipLocked: true });
+
+  const claimed = await db
+    .update(emailOutbox)
+    .set({ status: "sending", nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) })
+    .where(inArray(emailOutbox.id, due))
+    .returning();
+
+  for (const message of claimed) {
+    await deliverEmail(message);
+  }
+
+  return claimed.length;
+}
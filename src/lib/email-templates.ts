@@ -0,0 +1,464 @@
+import { html } from "./html";
+import type { Locale } from "./i18n";
+import { DEFAULT_LOCALE } from "./i18n";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Localized content of an email; every field is plain text and escaped by the layout
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  code?: string;
+  quote?: string;
+  action?: { label: string; url: string; hint: string };
+  notes: string[];
+}
+
+/**
+ * Data each template expects
+ */
+export interface EmailTemplateData {
+  otp: { name?: string | null; code: string; expiresInMinutes: number };
+  verify_email: { name?: string | null; verifyUrl: string; expiresInHours: number };
+  password_reset: { name?: string | null; resetUrl: string; expiresInHours: number };
+  welcome: { name?: string | null; dashboardUrl: string };
+  invitation: {
+    inviterName: string;
+    organizationName: string;
+    inviteUrl: string;
+    message?: string | null;
+    expiresInDays: number;
+  };
+  account_locked: { name?: string | null; lockedUntil: Date; resetUrl: string };
+  trial_ending: {
+    name?: string | null;
+    organizationName: string;
+    planName: string;
+    trialEnd: Date;
+    hasPaymentMethod: boolean;
+    billingUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+interface EmailTemplate<T> {
+  description: string;
+  sample: T;
+  content: Record<Locale, (data: T) => EmailContent>;
+}
+
+const greetings: Record<Locale, (name?: string | null) => string> = {
+  en: (name) => `Hello${name ? ` ${name}` : ""}!`,
+  "pt-BR": (name) => `Olá${name ? `, ${name}` : ""}!`,
+  es: (name) => `¡Hola${name ? `, ${name}` : ""}!`,
+};
+
+const linkHints: Record<Locale, string> = {
+  en: "Or copy and paste this link:",
+  "pt-BR": "Ou copie e cole este link:",
+  es: "O copia y pega este enlace:",
+};
+
+function formatDateTime(date: Date, locale: Locale): string {
+  return `${date.toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "UTC",
+  })} UTC`;
+}
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> } = {
+  otp: {
+    description: "Passwordless sign-in code",
+    sample: { name: "Ada", code: "482913", expiresInMinutes: 15 },
+    content: {
+      en: (d) => ({
+        subject: "Your verification code",
+        heading: greetings.en(d.name),
+        paragraphs: ["Your verification code is:"],
+        code: d.code,
+        notes: [
+          `This code expires in ${d.expiresInMinutes} minutes.`,
+          "If you didn't request this code, you can safely ignore this email.",
+        ],
+      }),
+      "pt-BR": (d) => ({
+        subject: "Seu código de verificação",
+        heading: greetings["pt-BR"](d.name),
+        paragraphs: ["Seu código de verificação é:"],
+        code: d.code,
+        notes: [
+          `Este código expira em ${d.expiresInMinutes} minutos.`,
+          "Se você não solicitou este código, pode ignorar este e-mail.",
+        ],
+      }),
+      es: (d) => ({
+        subject: "Tu código de verificación",
+        heading: greetings.es(d.name),
+        paragraphs: ["Tu código de verificación es:"],
+        code: d.code,
+        notes: [
+          `Este código caduca en ${d.expiresInMinutes} minutos.`,
+          "Si no solicitaste este código, puedes ignorar este correo.",
+        ],
+      }),
+    },
+  },
+
+  verify_email: {
+    description: "Email address verification link",
+    sample: {
+      name: "Ada",
+      verifyUrl: "https://app.example.com/auth/verify-email?token=sample&email=ada%40example.com",
+      expiresInHours: 24,
+    },
+    content: {
+      en: (d) => ({
+        subject: "Verify your email address",
+        heading: greetings.en(d.name),
+        paragraphs: ["Please verify your email address by clicking the button below:"],
+        action: { label: "Verify Email", url: d.verifyUrl, hint: linkHints.en },
+        notes: [`This link expires in ${d.expiresInHours} hours.`],
+      }),
+      "pt-BR": (d) => ({
+        subject: "Confirme seu endereço de e-mail",
+        heading: greetings["pt-BR"](d.name),
+        paragraphs: ["Confirme seu endereço de e-mail clicando no botão abaixo:"],
+        action: { label: "Confirmar e-mail", url: d.verifyUrl, hint: linkHints["pt-BR"] },
+        notes: [`Este link expira em ${d.expiresInHours} horas.`],
+      }),
+      es: (d) => ({
+        subject: "Verifica tu dirección de correo",
+        heading: greetings.es(d.name),
+        paragraphs: ["Verifica tu dirección de correo haciendo clic en el botón de abajo:"],
+        action: { label: "Verificar correo", url: d.verifyUrl, hint: linkHints.es },
+        notes: [`Este enlace caduca en ${d.expiresInHours} horas.`],
+      }),
+    },
+  },
+
+  password_reset: {
+    description: "Password reset link",
+    sample: {
+      name: "Ada",
+      resetUrl: "https://app.example.com/auth/reset-password?token=sample&email=ada%40example.com",
+      expiresInHours: 1,
+    },
+    content: {
+      en: (d) => ({
+        subject: "Reset your password",
+        heading: greetings.en(d.name),
+        paragraphs: ["You requested to reset your password. Click the button below to proceed:"],
+        action: { label: "Reset Password", url: d.resetUrl, hint: linkHints.en },
+        notes: [
+          `This link expires in ${d.expiresInHours} ${d.expiresInHours === 1 ? "hour" : "hours"}.`,
+          "If you didn't request a password reset, you can safely ignore this email.",
+        ],
+      }),
+      "pt-BR": (d) => ({
+        subject: "Redefina sua senha",
+        heading: greetings["pt-BR"](d.name),
+        paragraphs: [
+          "Você solicitou a redefinição da sua senha. Clique no botão abaixo para continuar:",
+        ],
+        action: { label: "Redefinir senha", url: d.resetUrl, hint: linkHints["pt-BR"] },
+        notes: [
+          `Este link expira em ${d.expiresInHours} ${d.expiresInHours === 1 ? "hora" : "horas"}.`,
+          "Se você não solicitou a redefinição de senha, pode ignorar este e-mail.",
+        ],
+      }),
+      es: (d) => ({
+        subject: "Restablece tu contraseña",
+        heading: greetings.es(d.name),
+        paragraphs: [
+          "Solicitaste restablecer tu contraseña. Haz clic en el botón de abajo para continuar:",
+        ],
+        action: { label: "Restablecer contraseña", url: d.resetUrl, hint: linkHints.es },
+        notes: [
+          `Este enlace caduca en ${d.expiresInHours} ${d.expiresInHours === 1 ? "hora" : "horas"}.`,
+          "Si no solicitaste restablecer tu contraseña, puedes ignorar este correo.",
+        ],
+      }),
+    },
+  },
+
+  welcome: {
+    description: "Welcome message after registration",
+    sample: { name: "Ada", dashboardUrl: "https://app.example.com/dashboard" },
+    content: {
+      en: (d) => ({
+        subject: "Welcome to our platform!",
+        heading: `Welcome${d.name ? ` ${d.name}` : ""}!`,
+        paragraphs: [
+          "Thank you for joining our platform. We're excited to have you on board!",
+          "Here are some things you can do to get started: complete your profile, create or join an organization and start your first project.",
+        ],
+        action: { label: "Go to Dashboard", url: d.dashboardUrl, hint: linkHints.en },
+        notes: ["If you have any questions, feel free to reach out to our support team."],
+      }),
+      "pt-BR": (d) => ({
+        subject: "Boas-vindas à nossa plataforma!",
+        heading: `Boas-vindas${d.name ? `, ${d.name}` : ""}!`,
+        paragraphs: [
+          "Obrigado por se juntar à nossa plataforma. Estamos muito felizes em ter você conosco!",
+          "Para começar, você pode completar seu perfil, criar ou entrar em uma organização e iniciar seu primeiro projeto.",
+        ],
+        action: { label: "Ir para o painel", url: d.dashboardUrl, hint: linkHints["pt-BR"] },
+        notes: ["Se tiver alguma dúvida, fale com nossa equipe de suporte."],
+      }),
+      es: (d) => ({
+        subject: "¡Bienvenido a nuestra plataforma!",
+        heading: `¡Bienvenido${d.name ? `, ${d.name}` : ""}!`,
+        paragraphs: [
+          "Gracias por unirte a nuestra plataforma. ¡Nos alegra tenerte con nosotros!",
+          "Para empezar, puedes completar tu perfil, crear o unirte a una organización e iniciar tu primer proyecto.",
+        ],
+        action: { label: "Ir al panel", url: d.dashboardUrl, hint: linkHints.es },
+        notes: ["Si tienes alguna pregunta, contacta a nuestro equipo de soporte."],
+      }),
+    },
+  },
+
+  invitation: {
+    description: "Invitation to join an organization",
+    sample: {
+      inviterName: "Grace Hopper",
+      organizationName: "Acme Inc",
+      inviteUrl: "https://app.example.com/invitations/accept?token=sample",
+      message: "Looking forward to working with you!",
+      expiresInDays: 7,
+    },
+    content: {
+      en: (d) => ({
+        subject: `You've been invited to join ${d.organizationName}`,
+        heading: "You've been invited!",
+        paragraphs: [`${d.inviterName} has invited you to join ${d.organizationName}.`],
+        quote: d.message ?? undefined,
+        action: { label: "Accept Invitation", url: d.inviteUrl, hint: linkHints.en },
+        notes: [`This invitation expires in ${d.expiresInDays} days.`],
+      }),
+      "pt-BR": (d) => ({
+        subject: `Você foi convidado para ${d.organizationName}`,
+        heading: "Você recebeu um convite!",
+        paragraphs: [`${d.inviterName} convidou você para participar de ${d.organizationName}.`],
+        quote: d.message ?? undefined,
+        action: { label: "Aceitar convite", url: d.inviteUrl, hint: linkHints["pt-BR"] },
+        notes: [`Este convite expira em ${d.expiresInDays} dias.`],
+      }),
+      es: (d) => ({
+        subject: `Te invitaron a unirte a ${d.organizationName}`,
+        heading: "¡Recibiste una invitación!",
+        paragraphs: [`${d.inviterName} te invitó a unirte a ${d.organizationName}.`],
+        quote: d.message ?? undefined,
+        action: { label: "Aceptar invitación", url: d.inviteUrl, hint: linkHints.es },
+        notes: [`Esta invitación caduca en ${d.expiresInDays} días.`],
+      }),
+    },
+  },
+
+  account_locked: {
+    description: "Account locked after repeated failed sign-ins",
+    sample: {
+      name: "Ada",
+      lockedUntil: new Date("2026-01-01T12:15:00Z"),
+      resetUrl: "https://app.example.com/forgot-password",
+    },
+    content: {
+      en: (d) => ({
+        subject: "Your account was temporarily locked",
+        heading: greetings.en(d.name),
+        paragraphs: [
+          `We noticed several failed attempts to sign in to your account, so we locked it until ${formatDateTime(d.lockedUntil, "en")}.`,
+          "If this was you, you can try again after that time. If it wasn't, we recommend resetting your password:",
+        ],
+        action: { label: "Reset Password", url: d.resetUrl, hint: linkHints.en },
+        notes: ["If you need help, contact our support team."],
+      }),
+      "pt-BR": (d) => ({
+        subject: "Sua conta foi bloqueada temporariamente",
+        heading: greetings["pt-BR"](d.name),
+        paragraphs: [
+          `Detectamos várias tentativas de acesso malsucedidas à sua conta, por isso ela ficará bloqueada até ${formatDateTime(d.lockedUntil, "pt-BR")}.`,
+          "Se foi você, tente novamente após esse horário. Caso contrário, recomendamos redefinir sua senha:",
+        ],
+        action: { label: "Redefinir senha", url: d.resetUrl, hint: linkHints["pt-BR"] },
+        notes: ["Se precisar de ajuda, fale com nossa equipe de suporte."],
+      }),
+      es: (d) => ({
+        subject: "Tu cuenta fue bloqueada temporalmente",
+        heading: greetings.es(d.name),
+        paragraphs: [
+          `Detectamos varios intentos fallidos de iniciar sesión en tu cuenta, así que la bloqueamos hasta ${formatDateTime(d.lockedUntil, "es")}.`,
+          "Si fuiste tú, puedes volver a intentarlo después de esa hora. Si no, te recomendamos restablecer tu contraseña:",
+        ],
+        action: { label: "Restablecer contraseña", url: d.resetUrl, hint: linkHints.es },
+        notes: ["Si necesitas ayuda, contacta a nuestro equipo de soporte."],
+      }),
+    },
+  },
+
+  trial_ending: {
+    description: "Reminder that an organization's free trial ends soon",
+    sample: {
+      name: "Ada",
+      organizationName: "Acme Inc",
+      planName: "Pro",
+      trialEnd: new Date("2026-01-15T12:00:00Z"),
+      hasPaymentMethod: false,
+      billingUrl: "https://app.example.com/settings/billing",
+    },
+    content: {
+      en: (d) => ({
+        subject: `Your ${d.planName} trial ends soon`,
+        heading: greetings.en(d.name),
+        paragraphs: [
+          `The ${d.planName} trial of ${d.organizationName} ends on ${formatDateTime(d.trialEnd, "en")}.`,
+          d.hasPaymentMethod
+            ? "Your subscription will continue and your payment method will be charged then."
+            : "Add a payment method to keep your plan. Otherwise, the organization moves to the Free plan and its limits.",
+        ],
+        action: {
+          label: d.hasPaymentMethod ? "Manage Billing" : "Add Payment Method",
+          url: d.billingUrl,
+          hint: linkHints.en,
+        },
+        notes: ["If you have any questions, contact our support team."],
+      }),
+      "pt-BR": (d) => ({
+        subject: `Seu teste do ${d.planName} termina em breve`,
+        heading: greetings["pt-BR"](d.name),
+        paragraphs: [
+          `O período de teste do ${d.planName} de ${d.organizationName} termina em ${formatDateTime(d.trialEnd, "pt-BR")}.`,
+          d.hasPaymentMethod
+            ? "Sua assinatura continuará e a cobrança será feita na sua forma de pagamento nessa data."
+            : "Adicione uma forma de pagamento para manter seu plano. Caso contrário, a organização passará para o plano Free e seus limites.",
+        ],
+        action: {
+          label: d.hasPaymentMethod ? "Gerenciar cobrança" : "Adicionar forma de pagamento",
+          url: d.billingUrl,
+          hint: linkHints["pt-BR"],
+        },
+        notes: ["Se tiver alguma dúvida, fale com nossa equipe de suporte."],
+      }),
+      es: (d) => ({
+        subject: `Tu prueba de ${d.planName} termina pronto`,
+        heading: greetings.es(d.name),
+        paragraphs: [
+          `La prueba de ${d.planName} de ${d.organizationName} termina el ${formatDateTime(d.trialEnd, "es")}.`,
+          d.hasPaymentMethod
+            ? "Tu suscripción continuará y se cobrará a tu método de pago en esa fecha."
+            : "Agrega un método de pago para conservar tu plan. De lo contrario, la organización pasará al plan Free y sus límites.",
+        ],
+        action: {
+          label: d.hasPaymentMethod ? "Gestionar facturación" : "Agregar método de pago",
+          url: d.billingUrl,
+          hint: linkHints.es,
+        },
+        notes: ["Si tienes alguna pregunta, contacta a nuestro equipo de soporte."],
+      }),
+    },
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(templates) as EmailTemplateName[];
+
+export function isEmailTemplateName(value: string): value is EmailTemplateName {
+  return Object.hasOwn(templates, value);
+}
+
+/**
+ * Wrap email content in the shared HTML layout
+ */
+function renderLayout(content: EmailContent, locale: Locale): string {
+  const { action } = content;
+
+  return html`<!DOCTYPE html>
+<html lang="${locale}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${content.subject}</title>
+  </head>
+  <body style="margin: 0; padding: 0;">
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2>${content.heading}</h2>
+      ${content.paragraphs.map((paragraph) => html`<p>${paragraph}</p>`)}
+      ${
+        content.code &&
+        html`<div style="background: #f4f4f4; padding: 20px; text-align: center; font-size: 32px; font-weight: bold; letter-spacing: 8px; margin: 20px 0;">${content.code}</div>`
+      }
+      ${
+        content.quote &&
+        html`<p style="background: #f4f4f4; padding: 15px; border-radius: 6px; font-style: italic;">"${content.quote}"</p>`
+      }
+      ${
+        action &&
+        html`<div style="text-align: center; margin: 30px 0;">
+        <a href="${action.url}" style="background: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">${action.label}</a>
+      </div>
+      <p>${action.hint}</p>
+      <p style="word-break: break-all; color: #666;">${action.url}</p>`
+      }
+      ${content.notes.map((note) => html`<p>${note}</p>`)}
+    </div>
+  </body>
+</html>
+`.value;
+}
+
+/**
+ * Render the plain-text alternative of an email
+ */
+function renderText(content: EmailContent): string {
+  const blocks = [
+    content.heading,
+    ...content.paragraphs,
+    content.code,
+    content.quote && `"${content.quote}"`,
+    content.action && `${content.action.label}: ${content.action.url}`,
+    ...content.notes,
+  ];
+
+  return `${blocks.filter(Boolean).join("\n\n")}\n`;
+}
+
+/**
+ * Render a template in a locale
+ */
+export function renderEmail<K extends EmailTemplateName>(
+  name: K,
+  data: EmailTemplateData[K],
+  locale: Locale = DEFAULT_LOCALE,
+): RenderedEmail {
+  const template = templates[name] as EmailTemplate<EmailTemplateData[K]>;
+  const content = template.content[locale](data);
+
+  return {
+    subject: content.subject,
+    html: renderLayout(content, locale),
+    text: renderText(content),
+  };
+}
+
+/**
+ * Render a template with its sample data, for previews
+ */
+export function renderEmailSample(name: EmailTemplateName, locale: Locale = DEFAULT_LOCALE) {
+  return renderEmail(name, templates[name].sample, locale);
+}
+
+/**
+ * Describe the registered templates
+ */
+export function listEmailTemplates() {
+  return EMAIL_TEMPLATE_NAMES.map((name) => ({
+    name,
+    description: templates[name].description,
+  }));
+}
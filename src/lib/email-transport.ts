@@ -0,0 +1,113 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Transporter } from "nodemailer";
+import nodemailer from "nodemailer";
+import { Resend } from "resend";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  idempotencyKey?: string; // stable across retries so a provider can drop duplicates
+}
+
+export interface EmailSendResult {
+  messageId: string | null;
+}
+
+/**
+ * Delivers a rendered email; throws when the provider rejects it so the caller can retry
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export class ResendEmailTransport implements EmailTransport {
+  readonly name = "resend";
+  private client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { idempotencyKey, ...email } = message;
+    const { data, error } = await this.client.emails.send(email, { idempotencyKey });
+
+    if (error) {
+      throw new Error(`Resend error (${error.name}): ${error.message}`);
+    }
+
+    return { messageId: data?.id ?? null };
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { idempotencyKey: _, ...email } = message;
+    const info = await this.transporter.sendMail(email);
+
+    return { messageId: info.messageId ?? null };
+  }
+}
+
+/**
+ * Writes each email to a JSON file instead of sending it, for local development
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `${Date.now()}-${crypto.randomUUID()}`;
+    const path = join(this.directory, `${messageId}.json`);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path, JSON.stringify({ ...message, messageId }, null, 2));
+
+    console.log(`[email] "${message.subject}" to ${message.to} written to ${path}`);
+
+    return { messageId };
+  }
+}
+
+/**
+ * Keeps sent emails in memory, for tests
+ */
+export class MemoryEmailTransport implements EmailTransport {
+  readonly name = "memory";
+  readonly messages: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    this.messages.push(message);
+    return { messageId: `memory-${this.messages.length}` };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -1,58 +1,99 @@
 import { z } from "zod/v4";
 
-const envSchema = z.object({
-  // Application
-  NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
-  PORT: z.coerce.number().default(3000),
-
-  // Database
-  DATABASE_URL: z.url(),
-
-  // Authentication
-  BETTER_AUTH_SECRET: z.string().min(32),
-  BETTER_AUTH_URL: z.url(),
-  JWT_SECRET: z.string().min(16),
-  JWT_LIFETIME_SECONDS: z.coerce.number().default(3600),
-
-  // Frontend
-  FRONTEND_URL: z.url().default("http://localhost:5173"),
-
-  // Email (Resend) - accepts "Name <email>" format or plain email
-  RESEND_API_KEY: z.string().optional(),
-  RESEND_FROM_EMAIL: z
-    .string()
-    .transform((val) => (val === "" ? undefined : val))
-    .pipe(
-      z
-        .string()
-        .regex(/^(.+\s)?<?[\w.-]+@[\w.-]+\.\w+>?$/, "Invalid email format")
-        .optional(),
-    ),
-
-  // Stripe
-  STRIPE_SECRET_KEY: z.string().optional(),
-  STRIPE_WEBHOOK_SECRET: z.string().optional(),
-  STRIPE_PUBLIC_KEY: z.string().optional(),
-
-  // Cloudflare R2
-  R2_ENDPOINT_URL: z.string().optional(),
-  R2_ACCESS_KEY_ID: z.string().optional(),
-  R2_SECRET_ACCESS_KEY: z.string().optional(),
-  R2_BUCKET_NAME: z.string().optional(),
-  R2_PUBLIC_URL: z.string().optional(),
-
-  // OAuth
-  GOOGLE_CLIENT_ID: z.string().optional(),
-  GOOGLE_CLIENT_SECRET: z.string().optional(),
-  GITHUB_CLIENT_ID: z.string().optional(),
-  GITHUB_CLIENT_SECRET: z.string().optional(),
-
-  // Sentry
-  SENTRY_DSN: z
-    .string()
-    .transform((val) => (val === "" ? undefined : val))
-    .pipe(z.url().optional()),
-});
+// Accepts "Name <email>" format or plain email; empty strings count as unset
+const emailAddressSchema = z
+  .string()
+  .transform((val) => (val === "" ? undefined : val))
+  .pipe(
+    z
+      .string()
+      .regex(/^(.+\s)?<?[\w.-]+@[\w.-]+\.\w+>?$/, "Invalid email format")
+      .optional(),
+  );
+
+const envSchema = z
+  .object({
+    // Application
+    NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+    PORT: z.coerce.number().default(3000),
+
+    // Database
+    DATABASE_URL: z.url(),
+
+    // Authentication
+    BETTER_AUTH_SECRET: z.string().min(32),
+    BETTER_AUTH_URL: z.url(),
+    JWT_SECRET: z.string().min(16),
+    JWT_LIFETIME_SECONDS: z.coerce.number().default(900),
+    REFRESH_TOKEN_LIFETIME_SECONDS: z.coerce.number().default(30 * 24 * 60 * 60),
+
+    // Rate limiting - counters are shared across instances unless "memory" is used
+    RATE_LIMIT_STORE: z.enum(["memory", "postgres", "redis"]).default("postgres"),
+    REDIS_URL: z.string().optional(),
+
+    // Background jobs - disable the embedded worker when running `bun run worker` separately
+    JOB_WORKER_EMBEDDED: z.stringbool().default(true),
+    JOB_WORKER_CONCURRENCY: z.coerce.number().min(1).default(5),
+
+    // Webhooks - lets endpoints on private networks receive events; local development only
+    WEBHOOK_ALLOW_PRIVATE_URLS: z.stringbool().default(false),
+
+    // Frontend
+    FRONTEND_URL: z.url().default("http://localhost:5173"),
+
+    // Email - the transport defaults to Resend when RESEND_API_KEY is set, otherwise to
+    // "file" outside production; production refuses to send without a configured transport
+    EMAIL_TRANSPORT: z.enum(["resend", "smtp", "file", "memory"]).optional(),
+    EMAIL_FROM: emailAddressSchema,
+    EMAIL_FILE_DIR: z.string().default(".emails"),
+
+    // Email (Resend)
+    RESEND_API_KEY: z.string().optional(),
+    RESEND_FROM_EMAIL: emailAddressSchema, // used when EMAIL_FROM is not set
+    RESEND_WEBHOOK_SECRET: z.string().optional(),
+
+    // Email (SMTP)
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().default(587),
+    SMTP_SECURE: z.stringbool().default(false), // implicit TLS, usually port 465
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+
+    // Stripe
+    STRIPE_SECRET_KEY: z.string().optional(),
+    STRIPE_WEBHOOK_SECRET: z.string().optional(),
+    STRIPE_PUBLIC_KEY: z.string().optional(),
+    STRIPE_API_URL: z.url().optional(), // e.g. http://localhost:12111 for stripe-mock
+    STRIPE_AI_CREDITS_METER: z.string().optional(), // meter event name AI credit overage is reported to
+
+    // NFS-e (Brazilian service invoices) - issued for paid BRL invoices when NFSE_API_KEY is set
+    NFSE_API_URL: z.url().default("https://api.fiscalnacional.com.br"),
+    NFSE_API_KEY: z.string().optional(),
+    NFSE_ADMIN_EMAIL: z.email().optional(), // receives the fiscal API's emails instead of customers
+
+    // Cloudflare R2
+    R2_ENDPOINT_URL: z.string().optional(),
+    R2_ACCESS_KEY_ID: z.string().optional(),
+    R2_SECRET_ACCESS_KEY: z.string().optional(),
+    R2_BUCKET_NAME: z.string().optional(),
+    R2_PUBLIC_URL: z.string().optional(),
+
+    // OAuth
+    GOOGLE_CLIENT_ID: z.string().optional(),
+    GOOGLE_CLIENT_SECRET: z.string().optional(),
+    GITHUB_CLIENT_ID: z.string().optional(),
+    GITHUB_CLIENT_SECRET: z.string().optional(),
+
+    // Sentry
+    SENTRY_DSN: z
+      .string()
+      .transform((val) => (val === "" ? undefined : val))
+      .pipe(z.url().optional()),
+  })
+  .refine((env) => env.RATE_LIMIT_STORE !== "redis" || !!env.REDIS_URL, {
+    message: "REDIS_URL is required when RATE_LIMIT_STORE is redis",
+    path: ["REDIS_URL"],
+  });
 
 export type Env = z.infer<typeof envSchema>;
 
@@ -0,0 +1,37 @@
+// Feature flags a plan can grant in its `features`; superusers can override them per organization
+export const PLAN_FEATURES = [
+  "api_access",
+  "email_support",
+  "priority_support",
+  "custom_domain",
+  "analytics",
+  "sso",
+  "audit_logs",
+] as const;
+
+export type PlanFeature = (typeof PLAN_FEATURES)[number];
+
+export type FeatureFlags = Record<string, boolean>;
+
+export function isPlanFeature(value: string): value is PlanFeature {
+  return (PLAN_FEATURES as readonly string[]).includes(value);
+}
+
+/**
+ * Merge a plan's features with an organization's overrides
+ * Known features missing from the plan are off; an override wins either way
+ */
+export function resolveFeatures(
+  planFeatures: FeatureFlags | null | undefined,
+  overrides: FeatureFlags | null | undefined,
+): FeatureFlags {
+  const features: FeatureFlags = Object.fromEntries(
+    PLAN_FEATURES.map((feature) => [feature, false]),
+  );
+
+  for (const [feature, enabled] of Object.entries({ ...planFeatures, ...overrides })) {
+    features[feature] = enabled === true;
+  }
+
+  return features;
+}
@@ -0,0 +1,64 @@
+// HTML string helpers; everything interpolated into `html` is escaped unless marked safe
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape text for use in HTML content or attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char);
+}
+
+/**
+ * HTML that has already been escaped or built with `html`
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Mark trusted markup as safe; never use with user input
+ */
+export function unsafeRaw(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+function renderValue(value: unknown): string {
+  if (value === null || value === undefined || value === false) {
+    return "";
+  }
+
+  if (value instanceof SafeHtml) {
+    return value.value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(renderValue).join("");
+  }
+
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes interpolated values
+ * Nested `html` fragments and arrays of fragments are inserted as-is
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  let result = strings[0] ?? "";
+
+  values.forEach((value, i) => {
+    result += renderValue(value) + (strings[i + 1] ?? "");
+  });
+
+  return new SafeHtml(result);
+}
@@ -0,0 +1,75 @@
+export const SUPPORTED_LOCALES = ["en", "pt-BR", "es"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Countries are stored as free text, so both ISO codes and common names are matched
+const COUNTRY_LOCALES: Record<string, Locale> = {
+  br: "pt-BR",
+  brazil: "pt-BR",
+  brasil: "pt-BR",
+  pt: "pt-BR",
+  portugal: "pt-BR",
+  es: "es",
+  spain: "es",
+  españa: "es",
+  mx: "es",
+  mexico: "es",
+  méxico: "es",
+  ar: "es",
+  argentina: "es",
+  co: "es",
+  colombia: "es",
+  cl: "es",
+  chile: "es",
+  pe: "es",
+  peru: "es",
+  perú: "es",
+  uy: "es",
+  uruguay: "es",
+};
+
+/**
+ * Match a locale tag to a supported locale ("pt" and "pt-PT" map to "pt-BR", "es-MX" to "es")
+ */
+export function matchLocale(value: string | null | undefined): Locale | null {
+  if (!value) {
+    return null;
+  }
+
+  const exact = SUPPORTED_LOCALES.find((locale) => locale.toLowerCase() === value.toLowerCase());
+  if (exact) {
+    return exact;
+  }
+
+  const language = value.split(/[-_]/)[0]?.toLowerCase();
+  return SUPPORTED_LOCALES.find((locale) => locale.split("-")[0] === language) ?? null;
+}
+
+/**
+ * Pick the first supported locale from an Accept-Language header
+ */
+export function matchAcceptLanguage(header: string | null | undefined): Locale | null {
+  for (const tag of header?.split(",") ?? []) {
+    const locale = matchLocale(tag.split(";")[0]?.trim());
+    if (locale) {
+      return locale;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick the locale of a user from their stored locale, falling back to their country
+ */
+export function resolveLocale(
+  user?: { locale?: string | null; country?: string | null } | null,
+): Locale {
+  return (
+    matchLocale(user?.locale) ??
+    COUNTRY_LOCALES[user?.country?.trim().toLowerCase() ?? ""] ??
+    DEFAULT_LOCALE
+  );
+}
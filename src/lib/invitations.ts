@@ -0,0 +1,41 @@
+import type { TeamInvitation } from "../db/schema";
+
+export const INVITATION_EXPIRY_DAYS = 7;
+
+/**
+ * Get the expiration date for an invitation created now
+ */
+export function getInvitationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Check if an invitation is past its expiration date
+ */
+export function isInvitationExpired(
+  invitation: Pick<TeamInvitation, "expiresAt">,
+  now: Date = new Date(),
+): boolean {
+  return invitation.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Check if an invitation can be sent again; accepted, declined and revoked ones are final
+ */
+export function isInvitationResendable(invitation: Pick<TeamInvitation, "status">): boolean {
+  return invitation.status === "pending" || invitation.status === "expired";
+}
+
+/**
+ * Get why an invitation can no longer be accepted; null when it can
+ */
+export function getInvitationAcceptError(
+  invitation: Pick<TeamInvitation, "status" | "expiresAt">,
+  now: Date = new Date(),
+): "invitation_not_pending" | "invitation_expired" | null {
+  if (invitation.status !== "pending") {
+    return "invitation_not_pending";
+  }
+
+  return isInvitationExpired(invitation, now) ? "invitation_expired" : null;
+}
@@ -0,0 +1,233 @@
+import { and, eq, inArray, isNull, lt, lte, ne, notExists, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "../db";
+import type { Job } from "../db/schema";
+import { ACTIVE_JOB_CONDITION, jobs } from "../db/schema";
+import { getBackoffDelayMs } from "./backoff";
+
+/**
+ * Payload of each job, by name
+ */
+export interface JobPayloads {
+  "email.send": { messageId: number };
+  "email.outbox": Record<string, never>;
+  "tokens.purge": Record<string, never>;
+  "uploads.expire": Record<string, never>;
+  "invitations.expire": Record<string, never>;
+  "rate_limits.prune": Record<string, never>;
+  "jobs.prune": Record<string, never>;
+  "webhook.deliver": { deliveryId: number };
+  "trials.expire": Record<string, never>;
+  "usage.report": { usageEventId: number };
+  "billing.reconcile": { organizationId?: number };
+  "nfse.issue": { billingHistoryId: number };
+  "nfse.sync": { nfseInvoiceId: number };
+  "billing_profile.sync": { organizationId: number };
+}
+
+export type JobName = keyof JobPayloads;
+
+export const JOB_STATUSES = ["pending", "running", "completed", "dead", "cancelled"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// A running job whose worker stopped reporting for this long is picked up again
+export const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Workers refresh the lock of their running jobs this often, well within JOB_TIMEOUT_MS
+export const JOB_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Finished jobs are kept this long for inspection
+export const JOB_RETENTION_DAYS = 7;
+
+export interface EnqueueJobOptions {
+  runAt?: Date;
+  delayMs?: number;
+  maxAttempts?: number;
+  uniqueKey?: string; // a second job with the same key is ignored while the first is pending or running
+}
+
+/**
+ * Queue a job, optionally delayed
+ * Returns null when a pending or running job with the same unique key already exists
+ */
+export async function enqueueJob<K extends JobName>(
+  name: K,
+  payload: JobPayloads[K],
+  options: EnqueueJobOptions = {},
+): Promise<Job | null> {
+  const runAt = options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0));
+
+  const [job] = await db
+    .insert(jobs)
+    .values({
+      name,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts,
+      uniqueKey: options.uniqueKey,
+    })
+    .onConflictDoNothing({ target: jobs.uniqueKey, where: ACTIVE_JOB_CONDITION })
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Lock due jobs for a worker, including running jobs that timed out
+ */
+export async function claimJobs(workerId: string, limit: number): Promise<Job[]> {
+  const now = new Date();
+
+  const due = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      or(
+        and(eq(jobs.status, "pending"), lte(jobs.runAt, now)),
+        and(
+          eq(jobs.status, "running"),
+          lt(jobs.lockedAt, new Date(now.getTime() - JOB_TIMEOUT_MS)),
+        ),
+      ),
+    )
+    .orderBy(jobs.runAt)
+    .limit(limit)
+    .for("update", { skipLocked: true });
+
+  return db
+    .update(jobs)
+    .set({ status: "running", lockedBy: workerId, lockedAt: now })
+    .where(inArray(jobs.id, due))
+    .returning();
+}
+
+/**
+ * Refresh the lock of the jobs a worker is still running so they are not picked up again
+ */
+export async function heartbeatJobs(workerId: string, ids: number[]): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+
+  await db
+    .update(jobs)
+    .set({ lockedAt: new Date() })
+    .where(and(inArray(jobs.id, ids), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)));
+}
+
+/**
+ * Helper to match a job only while the claim it was run under still holds
+ * A job that timed out and was claimed again is left to its new worker
+ */
+function isClaimedAs(job: Job) {
+  return and(
+    eq(jobs.id, job.id),
+    eq(jobs.status, "running"),
+    job.lockedBy ? eq(jobs.lockedBy, job.lockedBy) : isNull(jobs.lockedBy),
+  );
+}
+
+/**
+ * Mark a job as done
+ */
+export async function completeJob(job: Job): Promise<void> {
+  await db
+    .update(jobs)
+    .set({
+      status: "completed",
+      attempts: job.attempts + 1,
+      lastError: null,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    })
+    .where(isClaimedAs(job));
+}
+
+/**
+ * Record a failed run; the job is retried with backoff until it runs out of attempts
+ * Returns whether the job moved to the dead-letter state
+ */
+export async function failJob(job: Job, error: unknown): Promise<boolean> {
+  const attempts = job.attempts + 1;
+  const dead = attempts >= job.maxAttempts;
+
+  await db
+    .update(jobs)
+    .set({
+      status: dead ? "dead" : "pending",
+      attempts,
+      lastError: error instanceof Error ? (error.stack ?? error.message) : String(error),
+      runAt: dead ? job.runAt : new Date(Date.now() + getBackoffDelayMs(attempts)),
+      lockedBy: null,
+      lockedAt: null,
+    })
+    .where(isClaimedAs(job));
+
+  return dead;
+}
+
+/**
+ * Run a dead, cancelled or pending job again now, with a fresh set of attempts
+ * Returns null when the job is running or completed, or another active job holds its unique key
+ */
+export async function retryJob(id: number): Promise<Job | null> {
+  const other = alias(jobs, "other");
+
+  const [job] = await db
+    .update(jobs)
+    .set({ status: "pending", attempts: 0, runAt: new Date(), lastError: null })
+    .where(
+      and(
+        eq(jobs.id, id),
+        inArray(jobs.status, ["pending", "dead", "cancelled"]),
+        or(
+          isNull(jobs.uniqueKey),
+          notExists(
+            db
+              .select({ id: other.id })
+              .from(other)
+              .where(
+                and(
+                  eq(other.uniqueKey, jobs.uniqueKey),
+                  inArray(other.status, ["pending", "running"]),
+                  ne(other.id, jobs.id),
+                ),
+              ),
+          ),
+        ),
+      ),
+    )
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Cancel a job that has not started yet
+ * Returns null when the job is not pending
+ */
+export async function cancelJob(id: number): Promise<Job | null> {
+  const [job] = await db
+    .update(jobs)
+    .set({ status: "cancelled" })
+    .where(and(eq(jobs.id, id), eq(jobs.status, "pending")))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Delete completed and cancelled jobs past the retention period
+ */
+export async function pruneJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const deleted = await db
+    .delete(jobs)
+    .where(and(inArray(jobs.status, ["completed", "cancelled"]), lt(jobs.updatedAt, cutoff)))
+    .returning({ id: jobs.id });
+
+  return deleted.length;
+}
@@ -3,11 +3,15 @@ import { env } from "./env";
 
 const secret = new TextEncoder().encode(env.JWT_SECRET);
 
+export const MFA_CHALLENGE_LIFETIME_SECONDS = 5 * 60;
+
 export interface JWTPayload {
   sub: string;
   email: string;
   name?: string;
   role?: string;
+  jti?: string;
+  purpose?: string;
   iat?: number;
   exp?: number;
   aud?: string[];
@@ -21,6 +25,7 @@ export async function createJWT(payload: {
   email: string;
   name?: string;
   role?: string;
+  jti?: string;
 }): Promise<string> {
   const now = Math.floor(Date.now() / 1000);
 
@@ -31,6 +36,7 @@ export async function createJWT(payload: {
     role: payload.role || "member",
   })
     .setProtectedHeader({ alg: "HS256" })
+    .setJti(payload.jti ?? crypto.randomUUID())
     .setIssuedAt(now)
     .setExpirationTime(now + env.JWT_LIFETIME_SECONDS)
     .sign(secret);
@@ -44,12 +50,51 @@ export async function verifyJWT(token: string): Promise<JWTPayload | null> {
     const { payload } = await jwtVerify(token, secret, {
       algorithms: ["HS256"],
     });
+
+    // Purpose-bound tokens (e.g. MFA challenges) are not access tokens
+    if (payload.purpose) {
+      return null;
+    }
+
     return payload as unknown as JWTPayload;
   } catch {
     return null;
   }
 }
 
+/**
+ * Create a short-lived token proving the password step of an MFA login
+ */
+export async function createMfaChallengeToken(userId: number): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+
+  return new SignJWT({ sub: String(userId), purpose: "mfa_challenge" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setExpirationTime(now + MFA_CHALLENGE_LIFETIME_SECONDS)
+    .sign(secret);
+}
+
+/**
+ * Verify an MFA challenge token
+ * Returns the user id if valid, null otherwise
+ */
+export async function verifyMfaChallengeToken(token: string): Promise<number | null> {
+  try {
+    const { payload } = await jwtVerify(token, secret, {
+      algorithms: ["HS256"],
+    });
+
+    if (payload.purpose !== "mfa_challenge" || !payload.sub) {
+      return null;
+    }
+
+    return parseInt(payload.sub, 10);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Extract token from Authorization header or cookie
  */
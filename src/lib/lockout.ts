@@ -0,0 +1,88 @@
+// Account lockout policy for password, OTP and MFA sign-ins: the first failures are free,
+// then each attempt waits an exponentially growing delay until the account is locked
+
+export const FREE_ATTEMPTS = 3;
+export const MAX_RETRY_DELAY_SECONDS = 60;
+export const LOCKOUT_THRESHOLD = 10;
+export const LOCKOUT_DURATION_MINUTES = 15;
+
+// Failures older than this no longer count
+export const FAILURE_WINDOW_MINUTES = 60;
+
+export interface LoginAttemptState {
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export type LoginGate =
+  | { status: "allowed" }
+  | { status: "delayed"; retryAfter: number }
+  | { status: "locked"; lockedUntil: Date };
+
+/**
+ * Get the delay required before the next attempt after a number of failures
+ */
+export function getRetryDelaySeconds(failedAttempts: number): number {
+  if (failedAttempts < FREE_ATTEMPTS) {
+    return 0;
+  }
+
+  return Math.min(2 ** (failedAttempts - FREE_ATTEMPTS), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Get the oldest failure time that still counts at a moment in time
+ */
+export function getFailureWindowStart(now: Date = new Date()): Date {
+  return new Date(now.getTime() - FAILURE_WINDOW_MINUTES * 60 * 1000);
+}
+
+/**
+ * Count the failures that still apply at a moment in time
+ * Expired lockouts and failures outside the window start over
+ */
+function getActiveFailures(state: LoginAttemptState, now: Date): number {
+  if (state.lockedUntil && state.lockedUntil <= now) {
+    return 0;
+  }
+
+  if (!state.lastFailedLoginAt || state.lastFailedLoginAt < getFailureWindowStart(now)) {
+    return 0;
+  }
+
+  return state.failedLoginAttempts;
+}
+
+/**
+ * Check whether an account may attempt to sign in now
+ */
+export function checkLoginGate(state: LoginAttemptState, now: Date = new Date()): LoginGate {
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return { status: "locked", lockedUntil: state.lockedUntil };
+  }
+
+  const failures = getActiveFailures(state, now);
+  const delay = getRetryDelaySeconds(failures);
+
+  if (delay > 0 && state.lastFailedLoginAt) {
+    const elapsed = (now.getTime() - state.lastFailedLoginAt.getTime()) / 1000;
+    if (elapsed < delay) {
+      return { status: "delayed", retryAfter: Math.ceil(delay - elapsed) };
+    }
+  }
+
+  return { status: "allowed" };
+}
+
+/**
+ * Get when an account that has just reached a number of failures is locked until
+ * Returns null while the account stays open
+ */
+export function getLockoutUntil(failedAttempts: number, now: Date = new Date()): Date | null {
+  if (failedAttempts < LOCKOUT_THRESHOLD) {
+    return null;
+  }
+
+  return new Date(now.getTime() + LOCKOUT_DURATION_MINUTES * 60 * 1000);
+}
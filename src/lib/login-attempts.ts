@@ -0,0 +1,101 @@
+import { and, eq, isNull, lte, or, sql } from "drizzle-orm";
+import type { Context } from "hono";
+import { db } from "../db";
+import type { User } from "../db/schema";
+import { users } from "../db/schema";
+import { sendAccountLockedEmail } from "../services/email.service";
+import { resolveLocale } from "./i18n";
+import { checkLoginGate, getFailureWindowStart, getLockoutUntil } from "./lockout";
+
+/**
+ * Reject a sign-in attempt while the account is locked or throttled
+ * Returns an error response, or null when the attempt may proceed
+ */
+export function enforceLoginGate(c: Context, user: User): Response | null {
+  const gate = checkLoginGate(user);
+
+  if (gate.status === "locked") {
+    return c.json(
+      {
+        detail: "Account temporarily locked after too many failed attempts",
+        error: "account_locked",
+        locked_until: gate.lockedUntil.toISOString(),
+      },
+      423,
+    );
+  }
+
+  if (gate.status === "delayed") {
+    return c.json(
+      {
+        detail: "Too many failed attempts. Please wait before trying again.",
+        error: "login_delayed",
+        retry_after: gate.retryAfter,
+      },
+      429,
+      { "Retry-After": String(gate.retryAfter) },
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Record a failed sign-in attempt and lock the account when the threshold is reached
+ * The counter is incremented in the database so concurrent failures are all counted
+ */
+export async function recordFailedLogin(user: User): Promise<void> {
+  const now = new Date();
+
+  // Expired lockouts and failures outside the window start over
+  const startsOver = sql`(${users.lockedUntil} IS NOT NULL AND ${users.lockedUntil} <= ${now})
+    OR ${users.lastFailedLoginAt} IS NULL
+    OR ${users.lastFailedLoginAt} < ${getFailureWindowStart(now)}`;
+
+  const [counted] = await db
+    .update(users)
+    .set({
+      failedLoginAttempts: sql`CASE WHEN ${startsOver} THEN 1 ELSE ${users.failedLoginAttempts} + 1 END`,
+      lockedUntil: sql`CASE WHEN ${users.lockedUntil} <= ${now} THEN NULL ELSE ${users.lockedUntil} END`,
+      lastFailedLoginAt: now,
+    })
+    .where(eq(users.id, user.id))
+    .returning({ failedLoginAttempts: users.failedLoginAttempts });
+
+  const lockedUntil = counted ? getLockoutUntil(counted.failedLoginAttempts, now) : null;
+  if (!lockedUntil) {
+    return;
+  }
+
+  // Only the failure that actually locks the account sends the email
+  const [locked] = await db
+    .update(users)
+    .set({ lockedUntil })
+    .where(and(eq(users.id, user.id), or(isNull(users.lockedUntil), lte(users.lockedUntil, now))))
+    .returning({ id: users.id });
+
+  if (locked) {
+    await sendAccountLockedEmail(user.email, lockedUntil, user.name, resolveLocale(user));
+  }
+}
+
+/**
+ * Forget previous failures after a successful sign-in
+ */
+export async function clearFailedLogins(user: User): Promise<void> {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+    return;
+  }
+
+  await unlockUser(user.id);
+}
+
+/**
+ * Clear failures and any lockout of a user
+ */
+export async function unlockUser(userId: number): Promise<void> {
+  await db
+    .update(users)
+    .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+    .where(eq(users.id, userId));
+}
@@ -0,0 +1,65 @@
+import type { User } from "../db/schema";
+
+export type MemberRole = "owner" | "admin" | "member" | "viewer";
+
+export type MembershipError = "owner_role_required" | "last_owner";
+
+export const lastOwnerError = {
+  detail: "An organization must keep at least one owner",
+  error: "last_owner",
+};
+
+export const ownerRoleRequiredError = {
+  detail: "Only owners can grant or change the owner role",
+  error: "owner_role_required",
+};
+
+/**
+ * Check whether a principal may move a member from one role to another
+ * Admins can neither promote to owner nor change an owner, and the last owner cannot be demoted
+ */
+export function getRoleChangeError(
+  actorRole: string | null | undefined,
+  fromRole: MemberRole,
+  toRole: MemberRole,
+  ownerCount: number,
+): MembershipError | null {
+  if ((toRole === "owner" || fromRole === "owner") && actorRole !== "owner") {
+    return "owner_role_required";
+  }
+
+  if (fromRole === "owner" && toRole !== "owner" && ownerCount <= 1) {
+    return "last_owner";
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a principal may remove another member
+ * Only owners remove owners; the caller stays, so one owner always remains
+ */
+export function getRemovalError(
+  actorRole: string | null | undefined,
+  memberRole: MemberRole,
+): MembershipError | null {
+  return memberRole === "owner" && actorRole !== "owner" ? "owner_role_required" : null;
+}
+
+/**
+ * Check whether a member may leave; the last owner has to transfer ownership first
+ */
+export function getLeaveError(
+  role: string | null | undefined,
+  ownerCount: number,
+): MembershipError | null {
+  return role === "owner" && ownerCount <= 1 ? "last_owner" : null;
+}
+
+/**
+ * Pick how a user re-authenticates before a sensitive change
+ * Accounts with a password must use it; an emailed code is only accepted for accounts without one
+ */
+export function getReauthenticationMethod(user: Pick<User, "hashedPassword">): "password" | "code" {
+  return user.hashedPassword ? "password" : "code";
+}
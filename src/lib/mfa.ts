@@ -0,0 +1,136 @@
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import type { User } from "../db/schema";
+import { mfaRecoveryCodes, users } from "../db/schema";
+import { env } from "./env";
+import { generateRecoveryCodes, verifyTotp } from "./totp";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export type MfaMethod = "totp" | "recovery_code";
+
+/**
+ * Issuer shown in authenticator apps
+ */
+export function getMfaIssuer(): string {
+  return new URL(env.FRONTEND_URL).hostname;
+}
+
+/**
+ * Hash a recovery code using SHA-256
+ * Codes are normalized so dashes and case don't matter
+ */
+async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.trim().toLowerCase().replace(/-/g, "");
+  const data = new TextEncoder().encode(normalized);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Replace the recovery codes of a user
+ * Returns the plain codes, which are only shown once
+ */
+export async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  const hashes = await Promise.all(codes.map(hashRecoveryCode));
+
+  await db.transaction(async (tx) => {
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+    await tx.insert(mfaRecoveryCodes).values(hashes.map((codeHash) => ({ userId, codeHash })));
+  });
+
+  return codes;
+}
+
+/**
+ * Count unused recovery codes of a user
+ */
+export async function countRemainingRecoveryCodes(userId: number): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(mfaRecoveryCodes)
+    .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+
+  return Number(result?.count ?? 0);
+}
+
+/**
+ * Verify a TOTP code against a secret and consume its time step
+ * A code can only be used once, even inside its validity window
+ */
+export async function consumeTotpCode(
+  userId: number,
+  secret: string,
+  code: string,
+): Promise<boolean> {
+  const counter = await verifyTotp(secret, code);
+
+  if (counter === null) {
+    return false;
+  }
+
+  const [updated] = await db
+    .update(users)
+    .set({ mfaLastUsedStep: counter })
+    .where(
+      and(
+        eq(users.id, userId),
+        or(isNull(users.mfaLastUsedStep), lt(users.mfaLastUsedStep, counter)),
+      ),
+    )
+    .returning({ id: users.id });
+
+  return !!updated;
+}
+
+/**
+ * Verify a second factor for a user with MFA enabled
+ * Accepts a TOTP code or an unused recovery code
+ */
+export async function verifyMfaCode(user: User, code: string): Promise<MfaMethod | null> {
+  if (!user.mfaEnabled || !user.mfaSecret) {
+    return null;
+  }
+
+  if (/^\d{6}$/.test(code.trim())) {
+    return (await consumeTotpCode(user.id, user.mfaSecret, code.trim())) ? "totp" : null;
+  }
+
+  const codeHash = await hashRecoveryCode(code);
+
+  const [used] = await db
+    .update(mfaRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(mfaRecoveryCodes.userId, user.id),
+        eq(mfaRecoveryCodes.codeHash, codeHash),
+        isNull(mfaRecoveryCodes.usedAt),
+      ),
+    )
+    .returning({ id: mfaRecoveryCodes.id });
+
+  return used ? "recovery_code" : null;
+}
+
+/**
+ * Turn off MFA for a user and drop their secret and recovery codes
+ */
+export async function disableMfa(userId: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaLastUsedStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+  });
+}
@@ -0,0 +1,168 @@
+import { lookup } from "node:dns/promises";
+import type { LookupFunction } from "node:net";
+import { isIP } from "node:net";
+
+// Outgoing requests to customer URLs (webhooks) must not reach the internal network
+
+type Ipv4Range = [base: number, prefixLength: number];
+
+export type PublicHostResult =
+  | { ok: true; address: string; family: 4 | 6 }
+  | { ok: false; error: string };
+
+// Private, loopback, link-local (incl. cloud metadata), shared, reserved and documentation ranges
+const BLOCKED_IPV4_RANGES: Ipv4Range[] = [
+  [ipv4ToNumber("0.0.0.0"), 8],
+  [ipv4ToNumber("10.0.0.0"), 8],
+  [ipv4ToNumber("100.64.0.0"), 10],
+  [ipv4ToNumber("127.0.0.0"), 8],
+  [ipv4ToNumber("169.254.0.0"), 16],
+  [ipv4ToNumber("172.16.0.0"), 12],
+  [ipv4ToNumber("192.0.0.0"), 24],
+  [ipv4ToNumber("192.0.2.0"), 24],
+  [ipv4ToNumber("192.168.0.0"), 16],
+  [ipv4ToNumber("198.18.0.0"), 15],
+  [ipv4ToNumber("198.51.100.0"), 24],
+  [ipv4ToNumber("203.0.113.0"), 24],
+  [ipv4ToNumber("224.0.0.0"), 4],
+  [ipv4ToNumber("240.0.0.0"), 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPublicIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+
+  return !BLOCKED_IPV4_RANGES.some(([base, prefixLength]) => {
+    const size = 2 ** (32 - prefixLength);
+    return value >= base && value < base + size;
+  });
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function parseIpv6(address: string): number[] {
+  // A trailing dotted IPv4 part is written as the last two groups
+  const text = address
+    .split("%")[0]!
+    .toLowerCase()
+    .replace(/(\d+\.\d+\.\d+\.\d+)$/, (ipv4) => {
+      const value = ipv4ToNumber(ipv4);
+      return `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+    });
+
+  const [head = "", tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros =
+    tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill("0");
+
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+/**
+ * Write two 16-bit groups as a dotted IPv4 address
+ */
+function groupsToIpv4(high: number, low: number): string {
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+}
+
+function isPublicIpv6(address: string): boolean {
+  const groups = parseIpv6(address);
+  const [first = 0] = groups;
+
+  // Unspecified and loopback
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7]! <= 1) {
+    return false;
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach an IPv4 host
+  const isMapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const isNat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => !g);
+  if (isMapped || isNat64) {
+    return isPublicIpv4(groupsToIpv4(groups[6]!, groups[7]!));
+  }
+
+  // 6to4 (2002:aabb:ccdd::/48) addresses are relayed to the IPv4 host a.b.c.d
+  if (first === 0x2002) {
+    return isPublicIpv4(groupsToIpv4(groups[1]!, groups[2]!));
+  }
+
+  return !(
+    (
+      (first & 0xfe00) === 0xfc00 || // unique local
+      (first & 0xffc0) === 0xfe80 || // link-local
+      (first & 0xff00) === 0xff00 || // multicast
+      (first === 0x2001 && groups[1] === 0x0db8)
+    ) // documentation
+  );
+}
+
+/**
+ * Check whether an IP address belongs to the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address.split("%")[0]!)) {
+    case 4:
+      return isPublicIpv4(address);
+    case 6:
+      return isPublicIpv6(address);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a URL host before it is saved, without resolving it
+ * IP literals must be public and localhost names are rejected; other names are checked when used
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  return host !== "localhost" && !host.endsWith(".localhost");
+}
+
+/**
+ * Resolve a host and check that every address it points to is public
+ * Returns the address to connect to, so the request cannot be sent to a different one resolved later
+ */
+export async function resolvePublicHost(hostname: string): Promise<PublicHostResult> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return { ok: false, error: `Could not resolve ${host}` };
+  }
+
+  const [first] = addresses;
+  if (!first || !addresses.every((entry) => isPublicAddress(entry.address))) {
+    return { ok: false, error: `${host} resolves to a private or reserved address` };
+  }
+
+  return { ok: true, address: first.address, family: first.family === 6 ? 6 : 4 };
+}
+
+/**
+ * Build a lookup for node:http that always answers with the given address
+ * The request still sends the URL's host in its Host header and TLS server name
+ */
+export function pinnedLookup(address: string, family: 4 | 6): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+}
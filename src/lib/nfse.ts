@@ -0,0 +1,262 @@
+// Client for the fiscal API that issues Brazilian service invoices (NFS-e)
+// See docs/nfse-api-integration.md for the endpoints and when a note must not be issued
+
+import type { BillingHistory } from "../db/schema";
+import { isValidCnpj, isValidCpf } from "./tax-ids";
+
+export const NFSE_STATUSES = ["pending", "processing", "authorized", "cancelled", "error"] as const;
+
+export type NfseStatus = (typeof NFSE_STATUSES)[number];
+
+const NFSE_TIMEOUT_MS = 15 * 1000;
+
+export interface NfseConfig {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface NfseRequest {
+  customer_name: string;
+  customer_email?: string;
+  customer_country: "BR";
+  customer_document: string;
+  customer_address: string;
+  customer_postal_code: string;
+  customer_state: string;
+  customer_city_name: string;
+  customer_city_code: number;
+  service_description: string;
+  amount: number; // BRL
+  external_reference: string;
+}
+
+export interface NfseRecord {
+  id: string;
+  reference: string;
+  status: NfseStatus;
+  nfse_number: string | null;
+  pdf_url: string | null;
+  xml_url?: string | null;
+  error_message: string | null;
+  issued_at?: string | null;
+}
+
+export interface IbgeCity {
+  code: number;
+  name: string;
+}
+
+// Network errors, rate limits and server errors are worth retrying; other errors need new input
+export type NfseApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number | null; error: string; retryable: boolean };
+
+export type NfseSkipReason = "not_paid" | "zero_amount" | "not_brl" | "not_invoice";
+
+// Who the note is issued to, from the organization's billing profile
+export interface NfseBillingContact {
+  name: string | null;
+  document: string | null; // CPF or CNPJ
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+}
+
+/**
+ * Check whether a note is still waiting on the municipality
+ */
+export function isNfseInProgress(status: string): boolean {
+  return status === "pending" || status === "processing";
+}
+
+function describeApiError(body: unknown, status: number): string {
+  const detail = (body as { detail?: unknown } | null)?.detail;
+
+  if (typeof detail === "string") {
+    return detail;
+  }
+  if (Array.isArray(detail)) {
+    return detail
+      .map((item: { loc?: unknown[]; msg?: string }) =>
+        [item.loc?.slice(1).join("."), item.msg].filter(Boolean).join(": "),
+      )
+      .join("; ");
+  }
+  return `Fiscal API responded with ${status}`;
+}
+
+async function callNfseApi<T>(
+  config: NfseConfig,
+  path: string,
+  init: { method?: string; body?: unknown } = {},
+): Promise<NfseApiResult<T>> {
+  try {
+    const response = await fetch(new URL(path, config.baseUrl), {
+      method: init.method ?? "GET",
+      headers: {
+        "X-API-Key": config.apiKey,
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(NFSE_TIMEOUT_MS),
+    });
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: response.status,
+        error: describeApiError(body, response.status),
+        retryable: response.status === 429 || response.status >= 500,
+      };
+    }
+
+    return { ok: true, data: body as T };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: error instanceof Error ? error.message : String(error),
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Ask the fiscal API to issue a note; it is processed by the municipality asynchronously
+ */
+export function createNfse(
+  config: NfseConfig,
+  request: NfseRequest,
+): Promise<NfseApiResult<NfseRecord>> {
+  return callNfseApi(config, "/api/v1/external/nfse", { method: "POST", body: request });
+}
+
+/**
+ * Get the processing status of a note
+ */
+export function getNfse(config: NfseConfig, reference: string): Promise<NfseApiResult<NfseRecord>> {
+  return callNfseApi(config, `/api/v1/external/nfse/${encodeURIComponent(reference)}`);
+}
+
+function normalizeName(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Find the IBGE code of a Brazilian city; null when the state has no city with that name
+ */
+export async function findIbgeCityCode(
+  config: NfseConfig,
+  state: string,
+  city: string,
+): Promise<NfseApiResult<number | null>> {
+  const result = await callNfseApi<IbgeCity[]>(
+    config,
+    `/api/v1/ibge/cities?state=${encodeURIComponent(state.toUpperCase())}`,
+  );
+
+  if (!result.ok) {
+    return result;
+  }
+
+  const name = normalizeName(city);
+  const match = result.data.find((item) => normalizeName(item.name) === name);
+
+  return { ok: true, data: match?.code ?? null };
+}
+
+/**
+ * Get the digits of a valid CPF (11 digits) or CNPJ (14 digits); null for anything else
+ */
+export function parseBrazilianDocument(value: string | null): string | null {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return isValidCpf(digits) || isValidCnpj(digits) ? digits : null;
+}
+
+/**
+ * Get why a billing history entry must not get a note; null when one must be issued
+ * Only real payments are taxable: trials, 100% discounts and failed payments are skipped
+ */
+export function getNfseSkipReason(
+  entry: Pick<BillingHistory, "kind" | "status" | "amount" | "currency">,
+): NfseSkipReason | null {
+  if (entry.kind !== "invoice") {
+    return "not_invoice";
+  }
+  if (entry.status !== "paid") {
+    return "not_paid";
+  }
+  if (entry.amount <= 0) {
+    return "zero_amount";
+  }
+  if (entry.currency.toUpperCase() !== "BRL") {
+    return "not_brl";
+  }
+  return null;
+}
+
+/**
+ * List the billing fields a note cannot be issued without
+ */
+export function getMissingNfseFields(contact: NfseBillingContact): string[] {
+  const missing: string[] = [];
+
+  if (!contact.name) {
+    missing.push("legal_name");
+  }
+  if (!parseBrazilianDocument(contact.document)) {
+    missing.push("tax_id");
+  }
+  if (!contact.street) {
+    missing.push("address_line1");
+  }
+  if (!contact.city) {
+    missing.push("address_city");
+  }
+  // Municipalities expect the two-letter state code (UF)
+  if (!/^[A-Za-z]{2}$/.test(contact.state ?? "")) {
+    missing.push("address_state");
+  }
+  if (!contact.postalCode) {
+    missing.push("address_postal_code");
+  }
+
+  return missing;
+}
+
+/**
+ * Build the request issuing a note for a paid BRL invoice
+ * The contact must have passed getMissingNfseFields
+ */
+export function buildNfseRequest(params: {
+  contact: NfseBillingContact;
+  cityCode: number;
+  amount: number; // in cents
+  serviceDescription: string;
+  externalReference: string;
+  notificationEmail?: string;
+}): NfseRequest {
+  const { contact } = params;
+
+  return {
+    customer_name: contact.name!,
+    ...(params.notificationEmail && { customer_email: params.notificationEmail }),
+    customer_country: "BR",
+    customer_document: parseBrazilianDocument(contact.document)!,
+    customer_address: contact.street!,
+    customer_postal_code: contact.postalCode!,
+    customer_state: contact.state!.toUpperCase(),
+    customer_city_name: contact.city!,
+    customer_city_code: params.cityCode,
+    service_description: params.serviceDescription,
+    amount: params.amount / 100,
+    external_reference: params.externalReference,
+  };
+}
@@ -300,6 +300,7 @@ export const openApiSpec = {
                   phone: { type: "string" },
                   language: { type: "string" },
                   timezone: { type: "string" },
+                  locale: { type: "string", enum: ["en", "pt-BR", "es"] },
                   theme: { type: "string", enum: ["light", "dark", "system"] },
                   taxId: { type: "string" },
                   addressStreet: { type: "string" },
@@ -418,6 +419,7 @@ export const openApiSpec = {
                 properties: {
                   name: { type: "string" },
                   description: { type: "string" },
+                  billingCountry: { type: "string", nullable: true, example: "BR" },
                 },
               },
             },
@@ -642,6 +644,7 @@ export const openApiSpec = {
           is_verified: { type: "boolean" },
           language: { type: "string" },
           timezone: { type: "string" },
+          locale: { type: "string", enum: ["en", "pt-BR", "es"] },
           theme: { type: "string" },
           tax_id: { type: "string" },
           address_street: { type: "string" },
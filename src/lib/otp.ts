@@ -1,14 +1,28 @@
-import { and, eq, gt } from "drizzle-orm";
+import { and, eq, gt, lt, sql } from "drizzle-orm";
 import { db } from "../db";
 import { emailTokens } from "../db/schema";
 
 const OTP_EXPIRY_MINUTES = 15;
 
+// An OTP is invalidated after this many wrong codes
+export const OTP_MAX_ATTEMPTS = 5;
+
+// Largest multiple of 10^6 below 2^32, to draw codes without modulo bias
+const OTP_RANDOM_LIMIT = Math.floor(2 ** 32 / 1_000_000) * 1_000_000;
+
 /**
- * Generate a 6-digit OTP code
+ * Generate a 6-digit OTP code with a CSPRNG
  */
 function generateOTPCode(): string {
-  return String(Math.floor(Math.random() * 1000000)).padStart(6, "0");
+  const buffer = new Uint32Array(1);
+  let value: number;
+
+  do {
+    crypto.getRandomValues(buffer);
+    value = buffer[0]!;
+  } while (value >= OTP_RANDOM_LIMIT);
+
+  return String(value % 1_000_000).padStart(6, "0");
 }
 
 /**
@@ -50,13 +64,14 @@ export async function createOTPToken(email: string): Promise<string> {
 
 /**
  * Verify an OTP code for an email
+ * Wrong codes count against the token, which is deleted after OTP_MAX_ATTEMPTS
  * Returns the email if valid, null otherwise
  */
 export async function verifyOTPToken(email: string, code: string): Promise<string | null> {
   const tokenHash = await hashOTP(code);
   const now = new Date();
 
-  // Find valid token
+  // Find the active token
   const [token] = await db
     .select()
     .from(emailTokens)
@@ -64,7 +79,6 @@ export async function verifyOTPToken(email: string, code: string): Promise<strin
       and(
         eq(emailTokens.userEmail, email),
         eq(emailTokens.tokenType, "otp"),
-        eq(emailTokens.tokenHash, tokenHash),
         gt(emailTokens.expiresAt, now),
       ),
     )
@@ -74,10 +88,34 @@ export async function verifyOTPToken(email: string, code: string): Promise<strin
     return null;
   }
 
-  // Delete used token
-  await db.delete(emailTokens).where(eq(emailTokens.id, token.id));
+  // Take an attempt in the same statement that checks the limit, so concurrent guesses
+  // cannot all pass a stale count; only a correct code consumes the token
+  const [attempt] = await db
+    .update(emailTokens)
+    .set({ attempts: sql`${emailTokens.attempts} + 1` })
+    .where(and(eq(emailTokens.id, token.id), lt(emailTokens.attempts, OTP_MAX_ATTEMPTS)))
+    .returning({ attempts: emailTokens.attempts });
+
+  if (!attempt) {
+    await db.delete(emailTokens).where(eq(emailTokens.id, token.id));
+    return null;
+  }
+
+  if (token.tokenHash !== tokenHash) {
+    if (attempt.attempts >= OTP_MAX_ATTEMPTS) {
+      await db.delete(emailTokens).where(eq(emailTokens.id, token.id));
+    }
+
+    return null;
+  }
+
+  // Delete used token; a concurrent request that already consumed it wins
+  const [used] = await db
+    .delete(emailTokens)
+    .where(eq(emailTokens.id, token.id))
+    .returning({ id: emailTokens.id });
 
-  return token.userEmail;
+  return used ? token.userEmail : null;
 }
 
 /**
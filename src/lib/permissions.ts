@@ -0,0 +1,119 @@
+import type { ApiKeyScope } from "./api-key-scopes";
+
+/**
+ * Actions that can be performed inside an organization
+ */
+export const PERMISSIONS = [
+  "organization:read",
+  "organization:update",
+  "organization:delete",
+  "member:read",
+  "member:invite",
+  "member:update",
+  "member:remove",
+  "project:read",
+  "project:create",
+  "project:update",
+  "project:delete",
+  "billing:read",
+  "billing:manage",
+  "audit:read",
+  "api_key:manage",
+  "webhook:manage",
+  "storage:read",
+  "storage:write",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export type BuiltInRole = "owner" | "admin" | "member" | "viewer";
+
+const VIEWER_PERMISSIONS: Permission[] = [
+  "organization:read",
+  "member:read",
+  "project:read",
+  "billing:read",
+  "storage:read",
+];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  "project:create",
+  "project:update",
+  "project:delete",
+  "storage:write",
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  "organization:update",
+  "member:invite",
+  "member:update",
+  "member:remove",
+  "billing:manage",
+  "audit:read",
+  "api_key:manage",
+  "webhook:manage",
+];
+
+/**
+ * Permissions granted by each built-in role
+ */
+export const ROLE_PERMISSIONS: Record<BuiltInRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  viewer: VIEWER_PERMISSIONS,
+};
+
+/**
+ * Permissions granted by each API key scope
+ */
+export const API_KEY_SCOPE_PERMISSIONS: Record<ApiKeyScope, readonly Permission[]> = {
+  "projects:read": ["project:read"],
+  "projects:write": ["project:read", "project:create", "project:update", "project:delete"],
+  "uploads:read": ["storage:read"],
+  "uploads:write": ["storage:read", "storage:write"],
+};
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the permissions of a member
+ * Custom role permissions are granted on top of the built-in role
+ */
+export function getRolePermissions(
+  role: string,
+  customRolePermissions: readonly string[] = [],
+): Set<Permission> {
+  const base = ROLE_PERMISSIONS[role as BuiltInRole] ?? [];
+  return new Set([...base, ...customRolePermissions.filter(isPermission)]);
+}
+
+/**
+ * Find the permissions a principal would hand out without holding them
+ * Custom roles may only grant permissions their creator or assigner already has
+ */
+export function getUngrantablePermissions(
+  held: ReadonlySet<Permission>,
+  requested: readonly string[],
+): string[] {
+  return requested.filter((permission) => !isPermission(permission) || !held.has(permission));
+}
+
+/**
+ * Resolve the permissions of an API key from its scopes
+ */
+export function getScopePermissions(scopes: readonly string[]): Set<Permission> {
+  const permissions = new Set<Permission>();
+
+  for (const scope of scopes) {
+    for (const permission of API_KEY_SCOPE_PERMISSIONS[scope as ApiKeyScope] ?? []) {
+      permissions.add(permission);
+    }
+  }
+
+  return permissions;
+}
@@ -0,0 +1,179 @@
+import type Stripe from "stripe";
+import type { SubscriptionPlan } from "../db/schema";
+
+export const BILLING_INTERVALS = ["monthly", "yearly"] as const;
+
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+// Upgrades apply now with a prorated charge; downgrades wait for the end of the paid period
+export type PlanChange = "upgrade" | "downgrade" | "none";
+
+type PlanRank = Pick<SubscriptionPlan, "id" | "sortOrder">;
+
+// The stripe.service calls a plan change goes through
+export interface PlanChangeBilling {
+  previewSubscriptionChange(params: {
+    subscriptionId: string;
+    priceId: string;
+    prorationDate: number;
+  }): Promise<Stripe.Invoice | null>;
+  changeSubscriptionPrice(params: {
+    subscriptionId: string;
+    priceId: string;
+    prorationDate?: number;
+  }): Promise<Stripe.Subscription | null>;
+  scheduleSubscriptionPriceChange(params: {
+    subscriptionId: string;
+    priceId: string;
+    interval: BillingInterval;
+  }): Promise<Stripe.SubscriptionSchedule | null>;
+  releaseSubscriptionSchedule(scheduleId: string): Promise<Stripe.SubscriptionSchedule | null>;
+}
+
+// A validated move of a Stripe subscription to another price
+export interface PlanChangeRequest {
+  subscriptionId: string;
+  currentPeriodEnd: Date | null;
+  priceId: string;
+  interval: BillingInterval;
+  change: "upgrade" | "downgrade";
+}
+
+export interface PlanChangePreview {
+  effectiveAt: Date | null;
+  prorationDate: number | null;
+  amountDue: number;
+  currency: string | null;
+  lines: { description: string | null; amount: number; proration: boolean }[];
+}
+
+// A change applied now also drops any scheduled change of the subscription
+export type PlanChangeResult =
+  | { status: "scheduled"; scheduleId: string; effectiveAt: Date | null }
+  | { status: "applied"; effectiveAt: Date }
+  | { status: "pending_payment"; effectiveAt: null };
+
+/**
+ * Tell whether moving between plans and intervals is an upgrade or a downgrade
+ * Plans are ranked by their sort order; on the same plan, yearly billing ranks above monthly
+ */
+export function getPlanChange(
+  current: { plan: PlanRank; interval: BillingInterval },
+  target: { plan: PlanRank; interval: BillingInterval },
+): PlanChange {
+  if (current.plan.id === target.plan.id) {
+    if (current.interval === target.interval) {
+      return "none";
+    }
+    return target.interval === "yearly" ? "upgrade" : "downgrade";
+  }
+
+  return target.plan.sortOrder > current.plan.sortOrder ? "upgrade" : "downgrade";
+}
+
+/**
+ * Get the billing interval of a Stripe recurring price interval
+ */
+export function toBillingInterval(interval: string | null | undefined): BillingInterval {
+  return interval === "year" ? "yearly" : "monthly";
+}
+
+/**
+ * Preview what a plan change costs and when it takes effect
+ * Downgrades cost nothing until the period ends; upgrades are priced by Stripe as of now
+ * Null when Stripe is not configured
+ */
+export async function previewPlanChange(
+  billing: PlanChangeBilling,
+  request: PlanChangeRequest,
+  now: Date = new Date(),
+): Promise<PlanChangePreview | null> {
+  if (request.change === "downgrade") {
+    return {
+      effectiveAt: request.currentPeriodEnd,
+      prorationDate: null,
+      amountDue: 0,
+      currency: null,
+      lines: [],
+    };
+  }
+
+  const prorationDate = Math.floor(now.getTime() / 1000);
+  const invoice = await billing.previewSubscriptionChange({
+    subscriptionId: request.subscriptionId,
+    priceId: request.priceId,
+    prorationDate,
+  });
+
+  if (!invoice) {
+    return null;
+  }
+
+  return {
+    effectiveAt: new Date(prorationDate * 1000),
+    prorationDate,
+    amountDue: invoice.amount_due,
+    currency: invoice.currency,
+    lines: invoice.lines.data.map((line) => ({
+      description: line.description,
+      amount: line.amount,
+      proration: line.parent?.subscription_item_details?.proration ?? false,
+    })),
+  };
+}
+
+/**
+ * Apply a plan change: upgrades switch the price now, downgrades are scheduled at period end
+ * Pass the proration date of the preview to be charged the previewed amount
+ * Null when Stripe is not configured
+ */
+export async function applyPlanChange(
+  billing: PlanChangeBilling,
+  request: PlanChangeRequest,
+  prorationDate?: number,
+): Promise<PlanChangeResult | null> {
+  if (request.change === "downgrade") {
+    const schedule = await billing.scheduleSubscriptionPriceChange({
+      subscriptionId: request.subscriptionId,
+      priceId: request.priceId,
+      interval: request.interval,
+    });
+
+    if (!schedule) {
+      return null;
+    }
+
+    const endDate = schedule.phases[0]?.end_date;
+    return {
+      status: "scheduled",
+      scheduleId: schedule.id,
+      effectiveAt: endDate ? new Date(endDate * 1000) : request.currentPeriodEnd,
+    };
+  }
+
+  const updated = await billing.changeSubscriptionPrice({
+    subscriptionId: request.subscriptionId,
+    priceId: request.priceId,
+    prorationDate,
+  });
+
+  if (!updated) {
+    return null;
+  }
+
+  // With a failed payment Stripe keeps the current price until the invoice is paid
+  return updated.pending_update
+    ? { status: "pending_payment", effectiveAt: null }
+    : { status: "applied", effectiveAt: new Date() };
+}
+
+/**
+ * Cancel a scheduled plan change, keeping the subscription as it is
+ * Returns false when Stripe is not configured
+ */
+export async function cancelPlanChange(
+  billing: PlanChangeBilling,
+  scheduleId: string,
+): Promise<boolean> {
+  return !!(await billing.releaseSubscriptionSchedule(scheduleId));
+}
@@ -0,0 +1,83 @@
+export interface SeatUsage {
+  members: number;
+  pendingInvitations: number;
+  used: number;
+  limit: number;
+  available: number;
+}
+
+/**
+ * Build the seat usage of an organization
+ * Members and pending invitations both count against the plan's maxUsers
+ */
+export function toSeatUsage(
+  maxUsers: number,
+  members: number,
+  pendingInvitations: number,
+): SeatUsage {
+  const used = members + pendingInvitations;
+
+  return {
+    members,
+    pendingInvitations,
+    used,
+    limit: maxUsers,
+    available: Math.max(maxUsers - used, 0),
+  };
+}
+
+/**
+ * Check if a new invitation fits in the plan; it takes a seat until it is answered
+ */
+export function canInvite(usage: SeatUsage): boolean {
+  return usage.used < usage.limit;
+}
+
+/**
+ * Check if an invitation can be accepted; it already holds its seat, but the plan may have shrunk
+ */
+export function canAcceptInvitation(usage: SeatUsage): boolean {
+  return usage.members < usage.limit;
+}
+
+/**
+ * Get why an organization must be read-only, or null when it is within its plan limits
+ */
+export function getReadOnlyReason(
+  usage: { projectsCount: number; membersCount: number },
+  limits: { maxProjects: number; maxUsers: number },
+): "project_limit_exceeded" | "user_limit_exceeded" | null {
+  if (usage.projectsCount > limits.maxProjects) {
+    return "project_limit_exceeded";
+  }
+  if (usage.membersCount > limits.maxUsers) {
+    return "user_limit_exceeded";
+  }
+  return null;
+}
+
+/**
+ * Build the error body returned when an action needs more seats than the plan allows
+ */
+export function seatLimitError(usage: SeatUsage) {
+  return {
+    detail: `Your plan allows ${usage.limit} seat(s). Upgrade your plan to add more members.`,
+    error: "upgrade_required",
+    limit: "max_users",
+    max_users: usage.limit,
+    seats_used: usage.used,
+    members: usage.members,
+    pending_invitations: usage.pendingInvitations,
+  };
+}
+
+/**
+ * Build the error body returned for writes to an organization over its plan limits
+ */
+export function readOnlyError(reason?: string | null) {
+  return {
+    detail: "Organization is read-only because it exceeds its plan limits",
+    error: "organization_read_only",
+    reason: reason ?? null,
+  };
+}
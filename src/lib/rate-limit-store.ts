@@ -0,0 +1,149 @@
+import type { RedisClient } from "bun";
+import { eq, sql } from "drizzle-orm";
+import type { ClientRateLimitInfo, ConfigType, Store } from "hono-rate-limiter";
+import type { db } from "../db";
+import { rateLimits } from "../db/schema";
+
+type Database = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+type RedisCommands = Pick<RedisClient, "send" | "decr" | "del">;
+
+// Every store method fails open: an unavailable store must not take the API down
+function logStoreError(error: unknown) {
+  console.error("Rate limit store error:", error);
+}
+
+/**
+ * Postgres-backed store so limits survive deploys and are shared across replicas
+ * Takes the database to use, so tests can run it against a test database
+ */
+export class PostgresRateLimitStore implements Store {
+  private windowMs = 60 * 1000;
+
+  constructor(private readonly database: Database) {}
+
+  init(options: ConfigType) {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    try {
+      const [row] = await this.database
+        .select()
+        .from(rateLimits)
+        .where(eq(rateLimits.key, key))
+        .limit(1);
+
+      if (!row || row.resetAt <= new Date()) {
+        return undefined;
+      }
+
+      return { totalHits: row.hits, resetTime: row.resetAt };
+    } catch (error) {
+      logStoreError(error);
+      return undefined;
+    }
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const resetAt = new Date(Date.now() + this.windowMs);
+
+    try {
+      // Start a new window when the stored one has expired, otherwise count the hit
+      const [row] = await this.database
+        .insert(rateLimits)
+        .values({ key, hits: 1, resetAt })
+        .onConflictDoUpdate({
+          target: rateLimits.key,
+          set: {
+            hits: sql`CASE WHEN ${rateLimits.resetAt} <= now() THEN 1 ELSE ${rateLimits.hits} + 1 END`,
+            resetAt: sql`CASE WHEN ${rateLimits.resetAt} <= now() THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+          },
+        })
+        .returning();
+
+      return { totalHits: row?.hits ?? 1, resetTime: row?.resetAt ?? resetAt };
+    } catch (error) {
+      logStoreError(error);
+      return { totalHits: 0, resetTime: resetAt };
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    try {
+      await this.database
+        .update(rateLimits)
+        .set({ hits: sql`GREATEST(${rateLimits.hits} - 1, 0)` })
+        .where(eq(rateLimits.key, key));
+    } catch (error) {
+      logStoreError(error);
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    try {
+      await this.database.delete(rateLimits).where(eq(rateLimits.key, key));
+    } catch (error) {
+      logStoreError(error);
+    }
+  }
+}
+
+// Increment and set the window expiry atomically; returns [hits, ttl in ms]
+const REDIS_INCREMENT_SCRIPT = `
+local hits = redis.call("INCR", KEYS[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+/**
+ * Redis-backed store for deployments that already run Redis
+ */
+export class RedisRateLimitStore implements Store {
+  private windowMs = 60 * 1000;
+
+  constructor(
+    private readonly client: RedisCommands,
+    readonly prefix = "rl:",
+  ) {}
+
+  init(options: ConfigType) {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    try {
+      const [hits, ttl] = (await this.client.send("EVAL", [
+        REDIS_INCREMENT_SCRIPT,
+        "1",
+        this.prefix + key,
+        String(this.windowMs),
+      ])) as [number, number];
+
+      return { totalHits: hits, resetTime: new Date(Date.now() + ttl) };
+    } catch (error) {
+      logStoreError(error);
+      return { totalHits: 0, resetTime: new Date(Date.now() + this.windowMs) };
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    try {
+      await this.client.decr(this.prefix + key);
+    } catch (error) {
+      logStoreError(error);
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    try {
+      await this.client.del(this.prefix + key);
+    } catch (error) {
+      logStoreError(error);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { Session } from "../db/schema";
+
+// How often a session's last_used_at is refreshed while its tokens are in use
+export const SESSION_TOUCH_INTERVAL_SECONDS = 60;
+
+export type SessionRejection = "missing_jti" | "unknown_session" | "revoked" | "wrong_user";
+
+type SessionAccess = Pick<Session, "userId" | "revokedAt">;
+
+/**
+ * Decide whether an access token may be used with the session it was issued for
+ * Tokens without a jti or without a session row are treated as revoked
+ */
+export function getSessionRejection(
+  jti: string | undefined,
+  session: SessionAccess | null,
+  userId: number,
+): SessionRejection | null {
+  if (!jti) {
+    return "missing_jti";
+  }
+
+  if (!session) {
+    return "unknown_session";
+  }
+
+  if (session.revokedAt) {
+    return "revoked";
+  }
+
+  if (session.userId !== userId) {
+    return "wrong_user";
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a session's last use is old enough to be written again
+ */
+export function shouldTouchSession(lastUsedAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - lastUsedAt.getTime() >= SESSION_TOUCH_INTERVAL_SECONDS * 1000;
+}
@@ -0,0 +1,243 @@
+import { and, desc, eq, gt, isNull, lt, ne } from "drizzle-orm";
+import { db } from "../db";
+import type { Session, User } from "../db/schema";
+import { sessions, users } from "../db/schema";
+import { env } from "./env";
+import { createJWT } from "./jwt";
+import { SESSION_TOUCH_INTERVAL_SECONDS } from "./session-access";
+
+export const REFRESH_TOKEN_COOKIE = "ba_refresh";
+
+export interface IssuedSession {
+  sessionId: string;
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export type RefreshResult =
+  | { status: "rotated"; user: User; session: IssuedSession }
+  | { status: "invalid" }
+  | { status: "reused" };
+
+interface ClientInfo {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Generate an opaque refresh token
+ */
+function generateRefreshToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Hash a refresh token using SHA-256
+ */
+async function hashToken(token: string): Promise<string> {
+  const data = new TextEncoder().encode(token);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Issue an access token and a refresh token within a session family
+ */
+async function issueTokens(
+  user: User,
+  familyId: string,
+  client: ClientInfo,
+): Promise<IssuedSession> {
+  const jti = crypto.randomUUID();
+  const refreshToken = generateRefreshToken();
+  const now = Date.now();
+
+  const accessToken = await createJWT({
+    userId: user.id,
+    email: user.email,
+    name: user.name || undefined,
+    role: user.role,
+    jti,
+  });
+
+  const refreshTokenExpiresAt = new Date(now + env.REFRESH_TOKEN_LIFETIME_SECONDS * 1000);
+
+  await db.insert(sessions).values({
+    id: crypto.randomUUID(),
+    familyId,
+    userId: user.id,
+    refreshTokenHash: await hashToken(refreshToken),
+    accessTokenJti: jti,
+    ipAddress: client.ipAddress ?? null,
+    userAgent: client.userAgent ?? null,
+    expiresAt: refreshTokenExpiresAt,
+  });
+
+  return {
+    sessionId: familyId,
+    accessToken,
+    accessTokenExpiresAt: new Date(now + env.JWT_LIFETIME_SECONDS * 1000),
+    refreshToken,
+    refreshTokenExpiresAt,
+  };
+}
+
+/**
+ * Start a new session for a user after login
+ */
+export async function createSession(user: User, client: ClientInfo = {}): Promise<IssuedSession> {
+  return issueTokens(user, crypto.randomUUID(), client);
+}
+
+/**
+ * Exchange a refresh token for a new token pair
+ * Presenting an already rotated token revokes the whole session family
+ */
+export async function rotateSession(
+  refreshToken: string,
+  client: ClientInfo = {},
+): Promise<RefreshResult> {
+  const refreshTokenHash = await hashToken(refreshToken);
+
+  const [current] = await db
+    .select()
+    .from(sessions)
+    .where(eq(sessions.refreshTokenHash, refreshTokenHash))
+    .limit(1);
+
+  if (!current || current.revokedAt) {
+    return { status: "invalid" };
+  }
+
+  if (current.rotatedAt) {
+    await revokeSessionFamily(current.familyId, "reuse_detected");
+    return { status: "reused" };
+  }
+
+  if (current.expiresAt <= new Date()) {
+    return { status: "invalid" };
+  }
+
+  const [user] = await db.select().from(users).where(eq(users.id, current.userId)).limit(1);
+
+  if (!user || !user.isActive) {
+    return { status: "invalid" };
+  }
+
+  // Guard against two concurrent refreshes with the same token
+  const [rotated] = await db
+    .update(sessions)
+    .set({ rotatedAt: new Date() })
+    .where(and(eq(sessions.id, current.id), isNull(sessions.rotatedAt)))
+    .returning();
+
+  if (!rotated) {
+    await revokeSessionFamily(current.familyId, "reuse_detected");
+    return { status: "reused" };
+  }
+
+  const session = await issueTokens(user, current.familyId, client);
+
+  return { status: "rotated", user, session };
+}
+
+/**
+ * Find the session an access token was issued for
+ */
+export async function findSessionByJti(jti: string): Promise<Session | null> {
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(eq(sessions.accessTokenJti, jti))
+    .limit(1);
+
+  return session ?? null;
+}
+
+/**
+ * Record that a session was just used
+ * Skipped when another request already did so within the touch interval
+ */
+export async function touchSession(id: string): Promise<void> {
+  const now = new Date();
+  const threshold = new Date(now.getTime() - SESSION_TOUCH_INTERVAL_SECONDS * 1000);
+
+  await db
+    .update(sessions)
+    .set({ lastUsedAt: now })
+    .where(and(eq(sessions.id, id), lt(sessions.lastUsedAt, threshold)));
+}
+
+/**
+ * Revoke every token of a session family
+ */
+export async function revokeSessionFamily(familyId: string, reason: string): Promise<number> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.familyId, familyId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+}
+
+/**
+ * Revoke all sessions of a user, optionally keeping one
+ */
+export async function revokeUserSessions(
+  userId: number,
+  reason: string,
+  exceptFamilyId?: string | null,
+): Promise<number> {
+  const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+  if (exceptFamilyId) {
+    conditions.push(ne(sessions.familyId, exceptFamilyId));
+  }
+
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(...conditions))
+    .returning({ familyId: sessions.familyId });
+
+  return new Set(revoked.map((r) => r.familyId)).size;
+}
+
+/**
+ * List the active sessions (one per device) of a user
+ */
+export async function listActiveSessions(userId: number): Promise<Session[]> {
+  return db
+    .select()
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        isNull(sessions.rotatedAt),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+      ),
+    )
+    .orderBy(desc(sessions.lastUsedAt));
+}
+
+/**
+ * Format a session for API responses
+ */
+export function formatSession(session: Session, currentSessionId?: string | null) {
+  return {
+    id: session.familyId,
+    ip_address: session.ipAddress,
+    user_agent: session.userAgent,
+    current: session.familyId === currentSessionId,
+    last_used_at: session.lastUsedAt.toISOString(),
+    expires_at: session.expiresAt.toISOString(),
+  };
+}
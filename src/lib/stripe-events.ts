@@ -0,0 +1,59 @@
+import type Stripe from "stripe";
+
+export const STRIPE_EVENT_STATUSES = [
+  "pending",
+  "processing",
+  "processed",
+  "skipped",
+  "failed",
+] as const;
+
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUSES)[number];
+
+// Events that overwrite the subscription state; an older one must not undo a newer one
+export const ORDERED_STRIPE_EVENT_TYPES = [
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+];
+
+// A claimed event whose processing did not finish within this time can be claimed again
+export const STRIPE_EVENT_LEASE_MS = 5 * 60 * 1000;
+
+function idOf(value: string | { id?: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === "string" ? value : (value.id ?? null);
+}
+
+/**
+ * Get the id of the Stripe subscription an event is about, if any
+ */
+export function getEventSubscriptionId(event: Stripe.Event): string | null {
+  const object = event.data.object as unknown as { object?: string; id?: string };
+
+  switch (object.object) {
+    case "subscription":
+      return object.id ?? null;
+
+    case "invoice": {
+      const invoice = object as Stripe.Invoice & { subscription?: string | { id: string } | null };
+      // Older API versions put the subscription on the invoice itself
+      return idOf(invoice.parent?.subscription_details?.subscription) ?? idOf(invoice.subscription);
+    }
+
+    case "checkout.session":
+      return idOf((object as Stripe.Checkout.Session).subscription);
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether an event type is applied in `created` order per subscription
+ */
+export function isOrderedStripeEvent(type: string): boolean {
+  return ORDERED_STRIPE_EVENT_TYPES.includes(type);
+}
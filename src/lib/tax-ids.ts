@@ -0,0 +1,139 @@
+// Tax ids of an organization's billing profile, validated and stored in the format Stripe expects
+
+export const TAX_ID_TYPES = ["cnpj", "cpf", "vat", "ein"] as const;
+
+export type TaxIdType = (typeof TAX_ID_TYPES)[number];
+
+export interface TaxId {
+  type: TaxIdType;
+  value: string;
+}
+
+// Country prefixes of EU VAT numbers ("EL" is Greece, "XI" Northern Ireland) plus the UK
+const VAT_PREFIXES = [
+  "AT",
+  "BE",
+  "BG",
+  "CY",
+  "CZ",
+  "DE",
+  "DK",
+  "EE",
+  "EL",
+  "ES",
+  "FI",
+  "FR",
+  "GB",
+  "HR",
+  "HU",
+  "IE",
+  "IT",
+  "LT",
+  "LU",
+  "LV",
+  "MT",
+  "NL",
+  "PL",
+  "PT",
+  "RO",
+  "SE",
+  "SI",
+  "SK",
+  "XI",
+];
+
+/**
+ * Check the two mod-11 check digits of a CPF or CNPJ
+ */
+function hasValidCheckDigits(digits: string, weights: number[]): boolean {
+  for (let position = 0; position < 2; position++) {
+    const length = digits.length - 2 + position;
+    const usedWeights = weights.slice(weights.length - length);
+    const sum = usedWeights.reduce((total, weight, i) => total + weight * Number(digits[i]), 0);
+    const remainder = sum % 11;
+    const expected = remainder < 2 ? 0 : 11 - remainder;
+
+    if (Number(digits[length]) !== expected) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Repeated digits pass the check digit test but are never issued
+function isRepeatedDigit(digits: string): boolean {
+  return /^(\d)\1*$/.test(digits);
+}
+
+export function isValidCpf(digits: string): boolean {
+  return (
+    /^\d{11}$/.test(digits) &&
+    !isRepeatedDigit(digits) &&
+    hasValidCheckDigits(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2])
+  );
+}
+
+export function isValidCnpj(digits: string): boolean {
+  return (
+    /^\d{14}$/.test(digits) &&
+    !isRepeatedDigit(digits) &&
+    hasValidCheckDigits(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+  );
+}
+
+/**
+ * Validate a tax id and format it the way Stripe expects; null when invalid
+ * CPF 000.000.000-00, CNPJ 00.000.000/0000-00, EIN 00-0000000, VAT uppercase with its country prefix
+ */
+export function normalizeTaxId(type: TaxIdType, value: string): string | null {
+  const digits = value.replace(/\D/g, "");
+
+  switch (type) {
+    case "cpf":
+      return isValidCpf(digits)
+        ? digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4")
+        : null;
+    case "cnpj":
+      return isValidCnpj(digits)
+        ? digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5")
+        : null;
+    case "ein":
+      // Employer Identification Numbers never start with 00
+      return /^\d{9}$/.test(digits) && !digits.startsWith("00")
+        ? `${digits.slice(0, 2)}-${digits.slice(2)}`
+        : null;
+    case "vat": {
+      const vat = value.replace(/[\s.-]/g, "").toUpperCase();
+      return /^[A-Z]{2}[0-9A-Z]{2,13}$/.test(vat) && VAT_PREFIXES.includes(vat.slice(0, 2))
+        ? vat
+        : null;
+    }
+  }
+}
+
+/**
+ * Get the Stripe tax id type of a tax id
+ */
+export function getStripeTaxIdType(
+  taxId: TaxId,
+): "br_cnpj" | "br_cpf" | "eu_vat" | "gb_vat" | "us_ein" {
+  switch (taxId.type) {
+    case "cpf":
+      return "br_cpf";
+    case "cnpj":
+      return "br_cnpj";
+    case "ein":
+      return "us_ein";
+    case "vat":
+      return taxId.value.startsWith("GB") ? "gb_vat" : "eu_vat";
+  }
+}
+
+/**
+ * Get the Brazilian document (CPF or CNPJ digits) among tax ids, preferring a CNPJ
+ */
+export function getBrazilianDocument(taxIds: TaxId[]): string | null {
+  const taxId =
+    taxIds.find((item) => item.type === "cnpj") ?? taxIds.find((item) => item.type === "cpf");
+  return taxId ? taxId.value.replace(/\D/g, "") : null;
+}
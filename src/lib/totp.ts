@@ -0,0 +1,163 @@
+// TOTP (RFC 6238) helpers using HMAC-SHA1, 30 second steps and 6 digits
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encode bytes as base32 (RFC 4648, no padding)
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode a base32 string, ignoring case, spaces and padding
+ */
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Generate a random base32 TOTP secret (160 bits)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Get the time step counter for a moment in time
+ */
+export function getTotpCounter(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Generate the TOTP code for a counter
+ */
+export async function generateTotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+  const offset = (hmac[hmac.length - 1] ?? 0) & 0xf;
+  const binary =
+    (((hmac[offset] ?? 0) & 0x7f) << 24) |
+    ((hmac[offset + 1] ?? 0) << 16) |
+    ((hmac[offset + 2] ?? 0) << 8) |
+    (hmac[offset + 3] ?? 0);
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift of `window` steps
+ * Returns the matching counter so callers can reject replays, or null
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; window?: number } = {},
+): Promise<number | null> {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const current = getTotpCounter(options.now);
+  const window = options.window ?? 1;
+
+  for (let drift = -window; drift <= window; drift++) {
+    const counter = current + drift;
+    if ((await generateTotp(secret, counter)) === code) {
+      return counter;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI used by authenticator apps (usually shown as a QR code)
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
+
+/**
+ * Generate human friendly one-time recovery codes (e.g. "k3j9d-x7m2p")
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  // 32 unambiguous characters so every random byte maps without bias
+  const alphabet = "abcdefghjkmnpqrstuvwxyz023456789";
+  const codes: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const bytes = crypto.getRandomValues(new Uint8Array(10));
+    const chars = Array.from(bytes, (b) => alphabet[b & 31]).join("");
+    codes.push(`${chars.slice(0, 5)}-${chars.slice(5)}`);
+  }
+
+  return codes;
+}
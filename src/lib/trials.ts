@@ -0,0 +1,51 @@
+import type { CustomerSubscription } from "../db/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A trial is "active" until its end date, then "ended" whether or not it was paid for
+export type TrialStatus = "active" | "ended";
+
+export interface TrialState {
+  status: TrialStatus;
+  endsAt: Date;
+  daysRemaining: number;
+}
+
+type TrialFields = Pick<CustomerSubscription, "status" | "trialEnd">;
+
+/**
+ * Check whether a subscription is still marked as trialing after its trial ended
+ * Stripe cancels trials that end without a payment method, but the event may not have arrived yet
+ */
+export function isTrialExpired(subscription: TrialFields, now = new Date()): boolean {
+  return (
+    subscription.status === "trialing" &&
+    subscription.trialEnd !== null &&
+    subscription.trialEnd.getTime() <= now.getTime()
+  );
+}
+
+/**
+ * Get the days left in a trial, counting a started day as a whole one
+ */
+export function getTrialDaysRemaining(trialEnd: Date, now = new Date()): number {
+  return Math.max(Math.ceil((trialEnd.getTime() - now.getTime()) / DAY_MS), 0);
+}
+
+/**
+ * Describe the trial of a subscription; null when it never had one
+ */
+export function getTrialState(subscription: TrialFields, now = new Date()): TrialState | null {
+  if (!subscription.trialEnd) {
+    return null;
+  }
+
+  const status: TrialStatus =
+    subscription.status === "trialing" && !isTrialExpired(subscription, now) ? "active" : "ended";
+
+  return {
+    status,
+    endsAt: subscription.trialEnd,
+    daysRemaining: status === "active" ? getTrialDaysRemaining(subscription.trialEnd, now) : 0,
+  };
+}
@@ -0,0 +1,77 @@
+// Features AI credits can be spent on; a plan enables a subset in aiFeaturesEnabled
+export const AI_FEATURES = [
+  "chat",
+  "code_completion",
+  "image_generation",
+  "voice",
+  "video",
+] as const;
+
+export type AiFeature = (typeof AI_FEATURES)[number];
+
+export interface UsagePeriod {
+  start: Date;
+  end: Date;
+}
+
+export function isAiFeature(value: string): value is AiFeature {
+  return (AI_FEATURES as readonly string[]).includes(value);
+}
+
+/**
+ * Add calendar months in UTC, clamping to the last day of shorter months (Jan 31 + 1 month = Feb 28)
+ */
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), lastDay),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds(),
+    ),
+  );
+}
+
+/**
+ * Get the monthly usage period containing `now`
+ * Periods restart every month on the day of the anchor (the subscription's current period start),
+ * so yearly subscriptions still get a monthly allowance; without an anchor they follow calendar months
+ */
+export function getUsagePeriod(anchor: Date | null, now = new Date()): UsagePeriod {
+  if (!anchor) {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  let months =
+    (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+    (now.getUTCMonth() - anchor.getUTCMonth());
+
+  // Before the anchor day of this month, the period started in an earlier one
+  while (addMonths(anchor, months) > now) {
+    months -= 1;
+  }
+
+  return { start: addMonths(anchor, months), end: addMonths(anchor, months + 1) };
+}
+
+/**
+ * Split a quantity into the part covered by the monthly allowance and the overage beyond it
+ */
+export function splitOverage(
+  used: number,
+  quantity: number,
+  limit: number,
+): { included: number; overage: number } {
+  const included = Math.min(Math.max(limit - used, 0), quantity);
+  return { included, overage: quantity - included };
+}
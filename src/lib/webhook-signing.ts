@@ -0,0 +1,205 @@
+// Signing and sending of outgoing webhooks
+// Receivers check `Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import type { LookupFunction } from "node:net";
+import { pinnedLookup, resolvePublicHost } from "./network";
+
+export const WEBHOOK_SIGNATURE_HEADER = "Webhook-Signature";
+
+// Receivers should reject signatures older than this to prevent replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function hmacSha256(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return toHex(new Uint8Array(signature));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+}
+
+/**
+ * Build the signature header value for a payload
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Check a signature header the way a receiver would
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now: number = Math.floor(Date.now() / 1000),
+): Promise<boolean> {
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const [key = "", ...value] = part.split("=");
+      return [key.trim(), value.join("=")] as const;
+    }),
+  );
+
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+
+  if (Math.abs(now - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  return timingSafeEqual(signature, await hmacSha256(secret, `${timestamp}.${body}`));
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface SendWebhookOptions {
+  allowPrivateNetwork?: boolean; // local development only
+}
+
+/**
+ * Helper to POST a body and get the response status, discarding the response body
+ * Without redirects; a lookup pins the address connected to
+ */
+function postWebhook(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  lookup?: LookupFunction,
+): Promise<number> {
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POST a signed event to an endpoint
+ * The host is resolved first and private, loopback and link-local addresses are refused;
+ * the request then connects to the checked address so a second DNS answer cannot redirect it.
+ * Response bodies are discarded so endpoints cannot be used to read internal services.
+ * Network errors and timeouts are reported in the result instead of thrown
+ */
+export async function sendWebhook(
+  endpoint: { url: string; secret: string },
+  event: { id: string; type: string; body: string },
+  options: SendWebhookOptions = {},
+): Promise<WebhookResponse> {
+  const startedAt = Date.now();
+
+  try {
+    const url = new URL(endpoint.url);
+
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return {
+        ok: false,
+        status: null,
+        error: `Unsupported protocol ${url.protocol}`,
+        durationMs: Date.now() - startedAt,
+      };
+    }
+
+    let lookup: LookupFunction | undefined;
+    if (!options.allowPrivateNetwork) {
+      const resolved = await resolvePublicHost(url.hostname);
+      if (!resolved.ok) {
+        return {
+          ok: false,
+          status: null,
+          error: resolved.error,
+          durationMs: Date.now() - startedAt,
+        };
+      }
+      lookup = pinnedLookup(resolved.address, resolved.family);
+    }
+
+    const status = await postWebhook(
+      url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "Webhooks/1.0",
+        "Webhook-Id": event.id,
+        "Webhook-Event": event.type,
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(endpoint.secret, event.body),
+      },
+      event.body,
+      lookup,
+    );
+    const ok = status >= 200 && status < 300;
+
+    return {
+      ok,
+      status,
+      error: ok ? null : `Endpoint responded with ${status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
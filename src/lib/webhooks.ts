@@ -0,0 +1,264 @@
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import type { WebhookDelivery, WebhookEndpoint } from "../db/schema";
+import { webhookDeliveries, webhookEndpoints } from "../db/schema";
+import { recordActivity } from "./audit";
+import { getBackoffDelayMs } from "./backoff";
+import { env } from "./env";
+import { enqueueJob } from "./jobs";
+import { sendWebhook } from "./webhook-signing";
+
+/**
+ * Events customers can subscribe to; "*" subscribes to all of them
+ */
+export const WEBHOOK_EVENTS = [
+  "organization.updated",
+  "member.added",
+  "member.updated",
+  "member.removed",
+  "project.created",
+  "project.updated",
+  "project.deleted",
+  "subscription.created",
+  "subscription.updated",
+  "subscription.canceled",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+// Consecutive failed attempts, across deliveries, before an endpoint is disabled
+export const WEBHOOK_DISABLE_THRESHOLD = 20;
+
+const RETRY_BACKOFF = { baseMs: 60 * 1000, maxMs: 6 * 60 * 60 * 1000 };
+
+function generateEventId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return `evt_${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Check whether an endpoint is subscribed to an event type
+ */
+export function isSubscribed(endpoint: Pick<WebhookEndpoint, "events">, type: string): boolean {
+  return endpoint.events.includes("*") || endpoint.events.includes(type);
+}
+
+/**
+ * Notify the organization's endpoints about an event
+ * Failures are logged and swallowed so webhooks never break the request
+ */
+export async function dispatchWebhookEvent(
+  organizationId: number,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(
+        and(
+          eq(webhookEndpoints.organizationId, organizationId),
+          eq(webhookEndpoints.isActive, true),
+        ),
+      );
+
+    const subscribed = endpoints.filter((endpoint) => isSubscribed(endpoint, type));
+    if (subscribed.length === 0) {
+      return;
+    }
+
+    const eventId = generateEventId();
+    const payload = {
+      id: eventId,
+      type,
+      created_at: new Date().toISOString(),
+      organization_id: organizationId,
+      data,
+    };
+
+    const deliveries = await db
+      .insert(webhookDeliveries)
+      .values(
+        subscribed.map((endpoint) => ({
+          endpointId: endpoint.id,
+          eventId,
+          eventType: type,
+          payload,
+          nextAttemptAt: new Date(),
+        })),
+      )
+      .returning();
+
+    for (const delivery of deliveries) {
+      await enqueueJob("webhook.deliver", { deliveryId: delivery.id });
+    }
+  } catch (error) {
+    console.error(`Failed to dispatch ${type} webhook:`, error);
+  }
+}
+
+/**
+ * Send a pending delivery and record the outcome
+ * Failed attempts are retried with backoff; the endpoint is disabled after repeated failures
+ */
+export async function deliverWebhook(deliveryId: number): Promise<void> {
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+
+  if (!row || row.delivery.status !== "pending") {
+    return;
+  }
+
+  const { delivery, endpoint } = row;
+
+  if (!endpoint.isActive) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: "failed", error: "Endpoint is disabled", nextAttemptAt: null })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return;
+  }
+
+  const result = await sendWebhook(
+    endpoint,
+    { id: delivery.eventId, type: delivery.eventType, body: JSON.stringify(delivery.payload) },
+    { allowPrivateNetwork: env.WEBHOOK_ALLOW_PRIVATE_URLS },
+  );
+
+  const attempts = delivery.attempts + 1;
+  const response = {
+    attempts,
+    responseStatus: result.status,
+    durationMs: result.durationMs,
+    error: result.error,
+  };
+
+  if (result.ok) {
+    await db
+      .update(webhookDeliveries)
+      .set({ ...response, status: "succeeded", nextAttemptAt: null, deliveredAt: new Date() })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    if (endpoint.consecutiveFailures > 0) {
+      await db
+        .update(webhookEndpoints)
+        .set({ consecutiveFailures: 0 })
+        .where(eq(webhookEndpoints.id, endpoint.id));
+    }
+    return;
+  }
+
+  const retry = attempts < WEBHOOK_MAX_ATTEMPTS;
+  const nextAttemptAt = retry
+    ? new Date(Date.now() + getBackoffDelayMs(attempts, RETRY_BACKOFF))
+    : null;
+
+  await db
+    .update(webhookDeliveries)
+    .set({ ...response, status: retry ? "pending" : "failed", nextAttemptAt })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  if (nextAttemptAt) {
+    await enqueueJob("webhook.deliver", { deliveryId: delivery.id }, { runAt: nextAttemptAt });
+  }
+
+  await recordEndpointFailure(endpoint);
+}
+
+/**
+ * Count a failed attempt against an endpoint and disable it past the threshold
+ */
+async function recordEndpointFailure(endpoint: WebhookEndpoint): Promise<void> {
+  const [updated] = await db
+    .update(webhookEndpoints)
+    .set({ consecutiveFailures: sql`${webhookEndpoints.consecutiveFailures} + 1` })
+    .where(eq(webhookEndpoints.id, endpoint.id))
+    .returning();
+
+  if (!updated || !updated.isActive || updated.consecutiveFailures < WEBHOOK_DISABLE_THRESHOLD) {
+    return;
+  }
+
+  const reason = `Disabled after ${updated.consecutiveFailures} consecutive failed deliveries`;
+
+  await db
+    .update(webhookEndpoints)
+    .set({ isActive: false, disabledAt: new Date(), disabledReason: reason })
+    .where(eq(webhookEndpoints.id, endpoint.id));
+
+  await recordActivity({
+    action: "webhook.disable",
+    actionType: "update",
+    description: `Webhook endpoint ${endpoint.url} was disabled: ${reason}`,
+    organizationId: endpoint.organizationId,
+    metadata: { webhook_id: endpoint.id, url: endpoint.url },
+  });
+}
+
+/**
+ * Send a past event again as a new delivery
+ */
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [copy] = await db
+    .insert(webhookDeliveries)
+    .values({
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      nextAttemptAt: new Date(),
+    })
+    .returning();
+
+  await enqueueJob("webhook.deliver", { deliveryId: copy!.id });
+
+  return copy!;
+}
+
+/**
+ * Format an endpoint for API responses; the secret is only included when asked for
+ */
+export function formatWebhookEndpoint(endpoint: WebhookEndpoint, includeSecret = false) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events,
+    is_active: endpoint.isActive,
+    consecutive_failures: endpoint.consecutiveFailures,
+    disabled_at: endpoint.disabledAt?.toISOString() ?? null,
+    disabled_reason: endpoint.disabledReason,
+    ...(includeSecret && { secret: endpoint.secret }),
+    created_by_id: endpoint.createdById,
+    created_at: endpoint.createdAt.toISOString(),
+    updated_at: endpoint.updatedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Format a delivery for the delivery log
+ */
+export function formatWebhookDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    endpoint_id: delivery.endpointId,
+    event_id: delivery.eventId,
+    event_type: delivery.eventType,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    response_status: delivery.responseStatus,
+    duration_ms: delivery.durationMs,
+    error: delivery.error,
+    next_attempt_at: delivery.nextAttemptAt?.toISOString() ?? null,
+    delivered_at: delivery.deliveredAt?.toISOString() ?? null,
+    created_at: delivery.createdAt.toISOString(),
+  };
+}
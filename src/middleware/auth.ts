@@ -1,27 +1,52 @@
 import { eq } from "drizzle-orm";
 import type { Context, MiddlewareHandler, Next } from "hono";
 import { db } from "../db";
-import type { User } from "../db/schema";
+import type { ApiKey, User } from "../db/schema";
 import { users } from "../db/schema";
+import type { ApiKeyScope } from "../lib/api-key-scopes";
+import { hasScope } from "../lib/api-key-scopes";
+import { API_KEY_HEADER, resolveApiKey } from "../lib/api-keys";
 import { extractToken, verifyJWT } from "../lib/jwt";
+import { getSessionRejection, shouldTouchSession } from "../lib/session-access";
+import { findSessionByJti, touchSession } from "../lib/sessions";
 
 // Extend Hono context to include user
 declare module "hono" {
   interface ContextVariableMap {
     user: User | null;
     userId: number | null;
+    sessionId: string | null;
+    apiKey: ApiKey | null;
   }
 }
 
 /**
  * Auth middleware that extracts and validates JWT token
  * Sets user and userId in context if valid
+ * Requests with an X-API-Key header get an org-scoped apiKey principal instead
  */
 export const authMiddleware: MiddlewareHandler = async (c: Context, next: Next) => {
   const authHeader = c.req.header("authorization");
   const cookie = c.req.header("cookie");
   const token = extractToken(authHeader, cookie);
 
+  c.set("sessionId", null);
+  c.set("apiKey", null);
+
+  const apiKeyHeader = c.req.header(API_KEY_HEADER);
+  if (apiKeyHeader) {
+    c.set("user", null);
+    c.set("userId", null);
+
+    try {
+      c.set("apiKey", await resolveApiKey(apiKeyHeader));
+    } catch (error) {
+      console.error("API key lookup error:", error);
+    }
+
+    return next();
+  }
+
   if (!token) {
     c.set("user", null);
     c.set("userId", null);
@@ -37,6 +62,15 @@ export const authMiddleware: MiddlewareHandler = async (c: Context, next: Next)
     }
 
     const userId = parseInt(payload.sub, 10);
+
+    // Every access token must belong to a live session, so revoked tokens stop working before they expire
+    const session = payload.jti ? await findSessionByJti(payload.jti) : null;
+    if (!session || getSessionRejection(payload.jti, session, userId)) {
+      c.set("user", null);
+      c.set("userId", null);
+      return next();
+    }
+
     const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
 
     if (!user || !user.isActive) {
@@ -47,6 +81,13 @@ export const authMiddleware: MiddlewareHandler = async (c: Context, next: Next)
 
     c.set("user", user);
     c.set("userId", user.id);
+    c.set("sessionId", session.familyId);
+
+    if (shouldTouchSession(session.lastUsedAt)) {
+      await touchSession(session.id).catch((error) => {
+        console.error("Session touch error:", error);
+      });
+    }
   } catch {
     c.set("user", null);
     c.set("userId", null);
@@ -61,6 +102,16 @@ export const authMiddleware: MiddlewareHandler = async (c: Context, next: Next)
 export const requireAuth: MiddlewareHandler = async (c: Context, next: Next) => {
   const user = c.get("user");
 
+  if (c.get("apiKey")) {
+    return c.json(
+      {
+        detail: "This endpoint requires a user session",
+        error: "api_key_not_allowed",
+      },
+      403,
+    );
+  }
+
   if (!user) {
     return c.json(
       {
@@ -74,6 +125,44 @@ export const requireAuth: MiddlewareHandler = async (c: Context, next: Next) =>
   return next();
 };
 
+/**
+ * Require a user session or a valid organization API key
+ */
+export const requireAuthOrApiKey: MiddlewareHandler = async (c: Context, next: Next) => {
+  if (c.get("apiKey") || c.get("user")) {
+    return next();
+  }
+
+  if (c.req.header(API_KEY_HEADER)) {
+    return c.json({ detail: "Invalid or expired API key", error: "invalid_api_key" }, 401);
+  }
+
+  return c.json({ detail: "Not authenticated", error: "unauthorized" }, 401);
+};
+
+/**
+ * Require an API key scope
+ * User sessions are not restricted by scopes
+ */
+export function requireScope(scope: ApiKeyScope): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const apiKey = c.get("apiKey");
+
+    if (apiKey && !hasScope(apiKey, scope)) {
+      return c.json(
+        {
+          detail: `API key is missing the ${scope} scope`,
+          error: "insufficient_scope",
+          scope,
+        },
+        403,
+      );
+    }
+
+    return next();
+  };
+}
+
 /**
  * Require verified email
  */
@@ -107,3 +196,20 @@ export const requireAdmin: MiddlewareHandler = async (c: Context, next: Next) =>
 
   return next();
 };
+
+/**
+ * Require a superuser (admins without the superuser flag are rejected)
+ */
+export const requireSuperuser: MiddlewareHandler = async (c: Context, next: Next) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ detail: "Not authenticated", error: "unauthorized" }, 401);
+  }
+
+  if (!user.isSuperuser) {
+    return c.json({ detail: "Superuser access required", error: "forbidden" }, 403);
+  }
+
+  return next();
+};
@@ -0,0 +1,81 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import type { PlanFeature } from "../lib/features";
+import { readOnlyError } from "../lib/plan-limits";
+import { getReadOnlyState, hasFeature } from "../services/entitlement.service";
+
+export function featureNotInPlanError(feature: PlanFeature) {
+  return {
+    detail: `Your plan does not include ${feature}. Upgrade your plan to use it.`,
+    error: "feature_not_in_plan",
+    feature,
+  };
+}
+
+/**
+ * Check a plan feature inside a handler, for routes where the organization comes from a record
+ * Returns an error response when the feature is off, null otherwise
+ */
+export async function checkFeature(
+  c: Context,
+  orgId: number,
+  feature: PlanFeature,
+): Promise<Response | null> {
+  if (Number.isNaN(orgId) || !(await hasFeature(orgId, feature))) {
+    return c.json(featureNotInPlanError(feature), 403);
+  }
+
+  return null;
+}
+
+/**
+ * Require a plan feature in the organization named by the route
+ * Use after requirePermission, which checks membership first
+ * Reads the :organizationId or :id route param unless getOrgId is given
+ */
+export function requireFeature(
+  feature: PlanFeature,
+  getOrgId: (c: Context) => number = (c) =>
+    parseInt(c.req.param("organizationId") ?? c.req.param("id") ?? "", 10),
+): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const denied = await checkFeature(c, getOrgId(c), feature);
+    if (denied) {
+      return denied;
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Check that an organization is not read-only, inside a handler
+ * Organizations over their plan limits can only delete until they are back within them
+ * Returns an error response when it is read-only, null otherwise
+ */
+export async function checkWritable(c: Context, orgId: number): Promise<Response | null> {
+  const { readOnly, reason } = await getReadOnlyState(orgId);
+
+  if (readOnly) {
+    return c.json(readOnlyError(reason), 403);
+  }
+
+  return null;
+}
+
+/**
+ * Reject writes to a read-only organization named by the route
+ * Use after requirePermission; reads the :organizationId or :id route param unless getOrgId is given
+ */
+export function requireWritable(
+  getOrgId: (c: Context) => number = (c) =>
+    parseInt(c.req.param("organizationId") ?? c.req.param("id") ?? "", 10),
+): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const denied = await checkWritable(c, getOrgId(c));
+    if (denied) {
+      return denied;
+    }
+
+    return next();
+  };
+}
@@ -2,17 +2,36 @@ export {
   authMiddleware,
   requireAdmin,
   requireAuth,
+  requireAuthOrApiKey,
+  requireScope,
+  requireSuperuser,
   requireVerified,
 } from "./auth";
 export { corsMiddleware } from "./cors";
+export {
+  checkFeature,
+  checkWritable,
+  featureNotInPlanError,
+  requireFeature,
+  requireWritable,
+} from "./features";
 export { loggerMiddleware } from "./logger";
+export {
+  authorize,
+  permissionDeniedError,
+  requirePermission,
+  resolveOrgAccess,
+} from "./permissions";
 export {
   apiRateLimiter,
   authRateLimiter,
   createRateLimiter,
   emailRateLimiter,
+  getClientIP,
+  getRateLimitKey,
   orgRateLimiter,
   passwordResetRateLimiter,
   publicRateLimiter,
   RATE_LIMITS,
+  stackRateLimiters,
 } from "./rate-limiter";
@@ -0,0 +1,120 @@
+import { and, eq } from "drizzle-orm";
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { db } from "../db";
+import { organizationMembers, organizationRoles } from "../db/schema";
+import type { Permission } from "../lib/permissions";
+import { getRolePermissions, getScopePermissions } from "../lib/permissions";
+
+export interface OrgAccess {
+  organizationId: number;
+  role: string | null;
+  permissions: Set<Permission>;
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    orgAccess: OrgAccess | null;
+  }
+}
+
+/**
+ * Resolve what the current principal may do in an organization
+ * Returns null when the user is not a member or the API key belongs to another organization
+ */
+export async function resolveOrgAccess(c: Context, orgId: number): Promise<OrgAccess | null> {
+  if (Number.isNaN(orgId)) {
+    return null;
+  }
+
+  const apiKey = c.get("apiKey");
+  if (apiKey) {
+    if (apiKey.organizationId !== orgId) {
+      return null;
+    }
+
+    return {
+      organizationId: orgId,
+      role: null,
+      permissions: getScopePermissions(apiKey.scopes),
+    };
+  }
+
+  const userId = c.get("userId");
+  if (!userId) {
+    return null;
+  }
+
+  const [membership] = await db
+    .select({
+      role: organizationMembers.role,
+      customPermissions: organizationRoles.permissions,
+    })
+    .from(organizationMembers)
+    .leftJoin(
+      organizationRoles,
+      and(
+        eq(organizationMembers.customRoleId, organizationRoles.id),
+        eq(organizationRoles.organizationId, orgId),
+      ),
+    )
+    .where(
+      and(eq(organizationMembers.userId, userId), eq(organizationMembers.organizationId, orgId)),
+    )
+    .limit(1);
+
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    organizationId: orgId,
+    role: membership.role,
+    permissions: getRolePermissions(membership.role, membership.customPermissions ?? []),
+  };
+}
+
+export function permissionDeniedError(permission: Permission) {
+  return {
+    detail: `Missing permission: ${permission}`,
+    error: "permission_denied",
+    permission,
+  };
+}
+
+/**
+ * Check a permission inside a handler, for routes where the organization comes from a record
+ * Returns an error response when denied, null otherwise
+ */
+export async function authorize(
+  c: Context,
+  orgId: number,
+  permission: Permission,
+): Promise<Response | null> {
+  const access = await resolveOrgAccess(c, orgId);
+
+  if (!access?.permissions.has(permission)) {
+    return c.json(permissionDeniedError(permission), 403);
+  }
+
+  c.set("orgAccess", access);
+  return null;
+}
+
+/**
+ * Require a permission in the organization named by the route
+ * Reads the :organizationId or :id route param unless getOrgId is given
+ */
+export function requirePermission(
+  permission: Permission,
+  getOrgId: (c: Context) => number = (c) =>
+    parseInt(c.req.param("organizationId") ?? c.req.param("id") ?? "", 10),
+): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const denied = await authorize(c, getOrgId(c), permission);
+    if (denied) {
+      return denied;
+    }
+
+    return next();
+  };
+}
@@ -1,27 +1,42 @@
-import type { Context } from "hono";
+import type { Context, MiddlewareHandler } from "hono";
+import { every } from "hono/combine";
+import type { RateLimitInfo } from "hono-rate-limiter";
 import { rateLimiter } from "hono-rate-limiter";
+import { findClientIP } from "../lib/client-ip";
+import { createRateLimitStore } from "../services/rate-limit.service";
+
+// Set by hono-rate-limiter on every limited request
+declare module "hono" {
+  interface ContextVariableMap {
+    rateLimit: RateLimitInfo | undefined;
+    rateLimitedBy: string | undefined;
+  }
+}
+
+/**
+ * Get the client IP address a request is rate limited by
+ * Requests without one share a single bucket; use findClientIP to record addresses
+ */
+export function getClientIP(c: Context): string {
+  return findClientIP(c) ?? "127.0.0.1";
+}
 
 /**
- * Get real client IP address considering proxies
+ * Identify the client a request counts against
+ * Authenticated requests are keyed by user or API key, anonymous ones by IP
  */
-function getClientIP(c: Context): string {
-  // Check X-Forwarded-For header
-  const forwardedFor = c.req.header("x-forwarded-for");
-  if (forwardedFor) {
-    const firstIP = forwardedFor.split(",")[0];
-    if (firstIP) {
-      return firstIP.trim();
-    }
+export function getRateLimitKey(c: Context): string {
+  const apiKey = c.get("apiKey");
+  if (apiKey) {
+    return `api_key:${apiKey.id}`;
   }
 
-  // Check X-Real-IP header
-  const realIP = c.req.header("x-real-ip");
-  if (realIP) {
-    return realIP.trim();
+  const userId = c.get("userId");
+  if (userId) {
+    return `user:${userId}`;
   }
 
-  // Fallback to connection info
-  return "127.0.0.1";
+  return `ip:${getClientIP(c)}`;
 }
 
 // Rate limit presets matching FastAPI backend
@@ -39,32 +54,66 @@ export const RATE_LIMITS = {
 
 /**
  * Create a rate limiter with specified limits
+ * The name keeps counters of different limiters apart in shared stores
  */
-export function createRateLimiter(config: { limit: number; window: number }) {
+export function createRateLimiter(name: string, config: { limit: number; window: number }) {
   return rateLimiter({
     windowMs: config.window * 1000,
     limit: config.limit,
-    keyGenerator: (c) => getClientIP(c),
+    standardHeaders: "draft-6",
+    store: createRateLimitStore(),
+    keyGenerator: (c) => `${name}:${getRateLimitKey(c)}`,
+    // Give the hit back when a limiter stacked after this one rejects the request
+    skipFailedRequests: true,
+    requestWasSuccessful: (c) => {
+      const rejectedBy = c.get("rateLimitedBy");
+      return !rejectedBy || rejectedBy === name;
+    },
     handler: (c) => {
+      c.set("rateLimitedBy", name);
+      const info = c.get("rateLimit");
+      const retryAfter = info?.resetTime
+        ? Math.max(1, Math.ceil((info.resetTime.getTime() - Date.now()) / 1000))
+        : config.window;
+
       return c.json(
         {
           detail: "Too many requests. Please slow down and try again later.",
           error: "rate_limit_exceeded",
-          retry_after: `${config.window} seconds`,
+          retry_after: `${retryAfter} seconds`,
         },
         429,
         {
-          "Retry-After": String(config.window),
+          "Retry-After": String(retryAfter),
         },
       );
     },
   });
 }
 
+/**
+ * Apply several limits to the same requests, e.g. per minute and per hour
+ * Limits run from the longest window to the shortest so the headers of the
+ * shortest window are the ones left on successful responses; a request rejected
+ * by one limit is not counted by the others
+ */
+export function stackRateLimiters(...limiters: MiddlewareHandler[]): MiddlewareHandler {
+  return every(...limiters);
+}
+
 // Pre-configured rate limiters
-export const authRateLimiter = createRateLimiter(RATE_LIMITS.AUTH);
-export const passwordResetRateLimiter = createRateLimiter(RATE_LIMITS.PASSWORD_RESET);
-export const emailRateLimiter = createRateLimiter(RATE_LIMITS.EMAIL);
-export const orgRateLimiter = createRateLimiter(RATE_LIMITS.ORG);
-export const apiRateLimiter = createRateLimiter(RATE_LIMITS.API);
-export const publicRateLimiter = createRateLimiter(RATE_LIMITS.PUBLIC);
+export const authRateLimiter = stackRateLimiters(
+  createRateLimiter("auth_hourly", RATE_LIMITS.AUTH_HOURLY),
+  createRateLimiter("auth", RATE_LIMITS.AUTH),
+);
+export const passwordResetRateLimiter = stackRateLimiters(
+  createRateLimiter("password_reset_daily", RATE_LIMITS.PASSWORD_RESET_DAILY),
+  createRateLimiter("password_reset", RATE_LIMITS.PASSWORD_RESET),
+);
+export const emailRateLimiter = createRateLimiter("email", RATE_LIMITS.EMAIL);
+export const orgRateLimiter = createRateLimiter("org", RATE_LIMITS.ORG);
+export const apiRateLimiter = stackRateLimiters(
+  createRateLimiter("api_hourly", RATE_LIMITS.API_HOURLY),
+  createRateLimiter("api", RATE_LIMITS.API),
+);
+export const publicRateLimiter = createRateLimiter("public", RATE_LIMITS.PUBLIC);
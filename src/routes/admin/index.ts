@@ -0,0 +1,586 @@
+import { zValidator } from "@hono/zod-validator";
+import { desc, eq, sql } from "drizzle-orm";
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { z } from "zod/v4";
+import { db } from "../../db";
+import type { EmailOutboxMessage, Job, StripeEvent } from "../../db/schema";
+import { emailOutbox, emailSuppressions, jobs, organizations, stripeEvents } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import {
+  isEmailTemplateName,
+  listEmailTemplates,
+  renderEmailSample,
+} from "../../lib/email-templates";
+import { isPlanFeature, PLAN_FEATURES } from "../../lib/features";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "../../lib/i18n";
+import { cancelJob, JOB_STATUSES, retryJob } from "../../lib/jobs";
+import { STRIPE_EVENT_STATUSES } from "../../lib/stripe-events";
+import { authMiddleware, requireAdmin, requireSuperuser } from "../../middleware";
+import { getOrganizationEntitlements } from "../../services/entitlement.service";
+import { requeueNfseIssues } from "../../services/nfse.service";
+import { processStripeEvent } from "../../services/stripe-events.service";
+
+const adminRouter = new Hono();
+
+// Apply auth middleware to all routes
+adminRouter.use("*", authMiddleware);
+adminRouter.use("*", requireAdmin);
+
+// Schemas
+const emailPreviewSchema = z.object({
+  locale: z.enum(SUPPORTED_LOCALES).default(DEFAULT_LOCALE),
+  format: z.enum(["html", "text", "json"]).default("html"),
+});
+
+const outboxQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  size: z.coerce.number().min(1).max(100).default(30),
+  status: z.string().optional(),
+  to: z.string().optional(),
+});
+
+const jobsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  size: z.coerce.number().min(1).max(100).default(30),
+  status: z.enum(JOB_STATUSES).optional(),
+  name: z.string().optional(),
+});
+
+const stripeEventsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  size: z.coerce.number().min(1).max(100).default(30),
+  status: z.enum(STRIPE_EVENT_STATUSES).optional(),
+  type: z.string().optional(),
+  subscription: z.string().optional(),
+});
+
+const featureOverrideSchema = z.object({
+  enabled: z.boolean(),
+});
+
+function formatJob(job: Job) {
+  return {
+    id: job.id,
+    name: job.name,
+    payload: job.payload,
+    status: job.status,
+    unique_key: job.uniqueKey,
+    run_at: job.runAt.toISOString(),
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    last_error: job.lastError,
+    locked_by: job.lockedBy,
+    locked_at: job.lockedAt?.toISOString() ?? null,
+    completed_at: job.completedAt?.toISOString() ?? null,
+    created_at: job.createdAt.toISOString(),
+    updated_at: job.updatedAt?.toISOString() ?? null,
+  };
+}
+
+function formatStripeEvent(event: StripeEvent) {
+  return {
+    id: event.id,
+    stripe_event_id: event.stripeEventId,
+    type: event.type,
+    stripe_subscription_id: event.stripeSubscriptionId,
+    status: event.status,
+    attempts: event.attempts,
+    error: event.error,
+    event_created_at: event.eventCreatedAt.toISOString(),
+    processed_at: event.processedAt?.toISOString() ?? null,
+    created_at: event.createdAt.toISOString(),
+    updated_at: event.updatedAt?.toISOString() ?? null,
+  };
+}
+
+function formatOutboxMessage(message: EmailOutboxMessage) {
+  return {
+    id: message.id,
+    to: message.to,
+    template: message.template,
+    locale: message.locale,
+    subject: message.subject,
+    status: message.status,
+    attempts: message.attempts,
+    next_attempt_at: message.nextAttemptAt.toISOString(),
+    last_error: message.lastError,
+    transport: message.transport,
+    provider_message_id: message.providerMessageId,
+    sent_at: message.sentAt?.toISOString() ?? null,
+    delivered_at: message.deliveredAt?.toISOString() ?? null,
+    created_at: message.createdAt.toISOString(),
+  };
+}
+
+/**
+ * List email templates
+ * GET /admin/emails/templates
+ */
+adminRouter.get("/emails/templates", (c) => {
+  return c.json({ templates: listEmailTemplates(), locales: SUPPORTED_LOCALES });
+});
+
+/**
+ * Render an email template with sample data
+ * GET /admin/emails/preview/:template
+ */
+adminRouter.get("/emails/preview/:template", zValidator("query", emailPreviewSchema), async (c) => {
+  const template = c.req.param("template");
+  const { locale, format } = c.req.valid("query");
+
+  if (!isEmailTemplateName(template)) {
+    return c.json({ detail: "Email template not found", error: "template_not_found" }, 404);
+  }
+
+  const email = renderEmailSample(template, locale);
+
+  if (format === "text") {
+    return c.text(email.text);
+  }
+
+  if (format === "json") {
+    return c.json({ template, locale, ...email });
+  }
+
+  return c.html(email.html);
+});
+
+/**
+ * List queued and sent emails
+ * GET /admin/emails/outbox
+ */
+adminRouter.get("/emails/outbox", zValidator("query", outboxQuerySchema), async (c) => {
+  const { page, size, status, to } = c.req.valid("query");
+
+  try {
+    const conditions = [];
+    if (status) {
+      conditions.push(eq(emailOutbox.status, status));
+    }
+    if (to) {
+      conditions.push(eq(emailOutbox.to, to));
+    }
+
+    const whereClause =
+      conditions.length > 0 ? sql`${sql.join(conditions, sql` AND `)}` : undefined;
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(emailOutbox)
+      .where(whereClause);
+
+    const count = Number(countResult?.count ?? 0);
+
+    const items = await db
+      .select()
+      .from(emailOutbox)
+      .where(whereClause)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(size)
+      .offset((page - 1) * size);
+
+    return c.json({
+      items: items.map(formatOutboxMessage),
+      total: count,
+      page,
+      size,
+      pages: Math.ceil(count / size),
+    });
+  } catch (error) {
+    console.error("List email outbox error:", error);
+    return c.json({ detail: "Failed to list emails" }, 500);
+  }
+});
+
+/**
+ * List suppressed addresses
+ * GET /admin/emails/suppressions
+ */
+adminRouter.get("/emails/suppressions", async (c) => {
+  try {
+    const suppressions = await db
+      .select()
+      .from(emailSuppressions)
+      .orderBy(desc(emailSuppressions.createdAt));
+
+    return c.json({
+      suppressions: suppressions.map((suppression) => ({
+        email: suppression.email,
+        reason: suppression.reason,
+        details: suppression.details,
+        created_at: suppression.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("List email suppressions error:", error);
+    return c.json({ detail: "Failed to list suppressions" }, 500);
+  }
+});
+
+/**
+ * Allow sending to a suppressed address again
+ * DELETE /admin/emails/suppressions/:email
+ */
+adminRouter.delete("/emails/suppressions/:email", async (c) => {
+  const email = c.req.param("email").toLowerCase();
+
+  try {
+    const [deleted] = await db
+      .delete(emailSuppressions)
+      .where(eq(emailSuppressions.email, email))
+      .returning();
+
+    if (!deleted) {
+      return c.json({ detail: "Suppression not found" }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete email suppression error:", error);
+    return c.json({ detail: "Failed to delete suppression" }, 500);
+  }
+});
+
+/**
+ * List background jobs
+ * GET /admin/jobs
+ */
+adminRouter.get("/jobs", zValidator("query", jobsQuerySchema), async (c) => {
+  const { page, size, status, name } = c.req.valid("query");
+
+  try {
+    const conditions = [];
+    if (status) {
+      conditions.push(eq(jobs.status, status));
+    }
+    if (name) {
+      conditions.push(eq(jobs.name, name));
+    }
+
+    const whereClause =
+      conditions.length > 0 ? sql`${sql.join(conditions, sql` AND `)}` : undefined;
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(jobs)
+      .where(whereClause);
+
+    const count = Number(countResult?.count ?? 0);
+
+    const items = await db
+      .select()
+      .from(jobs)
+      .where(whereClause)
+      .orderBy(desc(jobs.runAt))
+      .limit(size)
+      .offset((page - 1) * size);
+
+    return c.json({
+      items: items.map(formatJob),
+      total: count,
+      page,
+      size,
+      pages: Math.ceil(count / size),
+    });
+  } catch (error) {
+    console.error("List jobs error:", error);
+    return c.json({ detail: "Failed to list jobs" }, 500);
+  }
+});
+
+/**
+ * Get a background job
+ * GET /admin/jobs/:id
+ */
+adminRouter.get("/jobs/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+
+    if (!job) {
+      return c.json({ detail: "Job not found" }, 404);
+    }
+
+    return c.json(formatJob(job));
+  } catch (error) {
+    console.error("Get job error:", error);
+    return c.json({ detail: "Failed to get job" }, 500);
+  }
+});
+
+/**
+ * Run a dead, cancelled or pending job again now
+ * POST /admin/jobs/:id/retry
+ */
+adminRouter.post("/jobs/:id/retry", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const job = await retryJob(id);
+
+    if (!job) {
+      return c.json(
+        {
+          detail:
+            "Only pending, dead or cancelled jobs can be retried, and not while another active job has the same unique key",
+          error: "job_not_retryable",
+        },
+        400,
+      );
+    }
+
+    return c.json(formatJob(job));
+  } catch (error) {
+    console.error("Retry job error:", error);
+    return c.json({ detail: "Failed to retry job" }, 500);
+  }
+});
+
+/**
+ * Cancel a job that has not started yet
+ * POST /admin/jobs/:id/cancel
+ */
+adminRouter.post("/jobs/:id/cancel", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const job = await cancelJob(id);
+
+    if (!job) {
+      return c.json(
+        { detail: "Only pending jobs can be cancelled", error: "job_not_cancellable" },
+        400,
+      );
+    }
+
+    return c.json(formatJob(job));
+  } catch (error) {
+    console.error("Cancel job error:", error);
+    return c.json({ detail: "Failed to cancel job" }, 500);
+  }
+});
+
+/**
+ * List received Stripe webhook events
+ * GET /admin/stripe-events
+ */
+adminRouter.get("/stripe-events", zValidator("query", stripeEventsQuerySchema), async (c) => {
+  const { page, size, status, type, subscription } = c.req.valid("query");
+
+  try {
+    const conditions = [];
+    if (status) {
+      conditions.push(eq(stripeEvents.status, status));
+    }
+    if (type) {
+      conditions.push(eq(stripeEvents.type, type));
+    }
+    if (subscription) {
+      conditions.push(eq(stripeEvents.stripeSubscriptionId, subscription));
+    }
+
+    const whereClause =
+      conditions.length > 0 ? sql`${sql.join(conditions, sql` AND `)}` : undefined;
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(stripeEvents)
+      .where(whereClause);
+
+    const count = Number(countResult?.count ?? 0);
+
+    const items = await db
+      .select()
+      .from(stripeEvents)
+      .where(whereClause)
+      .orderBy(desc(stripeEvents.eventCreatedAt))
+      .limit(size)
+      .offset((page - 1) * size);
+
+    return c.json({
+      items: items.map(formatStripeEvent),
+      total: count,
+      page,
+      size,
+      pages: Math.ceil(count / size),
+    });
+  } catch (error) {
+    console.error("List Stripe events error:", error);
+    return c.json({ detail: "Failed to list Stripe events" }, 500);
+  }
+});
+
+/**
+ * Get a Stripe webhook event with its payload
+ * GET /admin/stripe-events/:id
+ */
+adminRouter.get("/stripe-events/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id)).limit(1);
+
+    if (!event) {
+      return c.json({ detail: "Stripe event not found" }, 404);
+    }
+
+    return c.json({ ...formatStripeEvent(event), payload: event.payload });
+  } catch (error) {
+    console.error("Get Stripe event error:", error);
+    return c.json({ detail: "Failed to get Stripe event" }, 500);
+  }
+});
+
+/**
+ * Process a failed Stripe webhook event again
+ * POST /admin/stripe-events/:id/reprocess
+ */
+adminRouter.post("/stripe-events/:id/reprocess", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id)).limit(1);
+
+    if (!event) {
+      return c.json({ detail: "Stripe event not found" }, 404);
+    }
+
+    if (event.status !== "failed") {
+      return c.json(
+        { detail: "Only failed events can be re-processed", error: "event_not_reprocessable" },
+        400,
+      );
+    }
+
+    return c.json(formatStripeEvent(await processStripeEvent(event.id)));
+  } catch (error) {
+    console.error("Reprocess Stripe event error:", error);
+    return c.json({ detail: "Failed to re-process Stripe event" }, 500);
+  }
+});
+
+/**
+ * Issue again the NFS-e notes of an organization that failed or were never issued
+ * POST /admin/organizations/:id/nfse/reissue
+ */
+adminRouter.post("/organizations/:id/nfse/reissue", async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [org] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    if (!org) {
+      return c.json({ detail: "Organization not found" }, 404);
+    }
+
+    const queued = await requeueNfseIssues(orgId);
+
+    await logActivity(c, {
+      action: "billing.nfse_reissue",
+      actionType: "update",
+      description: `Queued ${queued} NFS-e notes to be issued again`,
+      organizationId: orgId,
+      metadata: { queued },
+    });
+
+    return c.json({ queued });
+  } catch (error) {
+    console.error("Reissue NFS-e error:", error);
+    return c.json({ detail: "Failed to reissue NFS-e notes" }, 500);
+  }
+});
+
+/**
+ * Turn a plan feature on or off for one organization, whatever its plan (superuser)
+ * PUT /admin/organizations/:id/features/:feature
+ */
+adminRouter.put(
+  "/organizations/:id/features/:feature",
+  requireSuperuser,
+  zValidator("json", featureOverrideSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const feature = c.req.param("feature");
+    const { enabled } = c.req.valid("json");
+
+    if (!isPlanFeature(feature)) {
+      return c.json(
+        {
+          detail: `Unknown feature: ${feature}`,
+          error: "unknown_feature",
+          features: PLAN_FEATURES,
+        },
+        400,
+      );
+    }
+
+    return setFeatureOverride(c, orgId, feature, enabled);
+  },
+);
+
+/**
+ * Remove a feature override, going back to what the plan grants (superuser)
+ * DELETE /admin/organizations/:id/features/:feature
+ */
+adminRouter.delete("/organizations/:id/features/:feature", requireSuperuser, async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+  return setFeatureOverride(c, orgId, c.req.param("feature"), null);
+});
+
+/**
+ * Helper to store a feature override and respond with the resulting features
+ */
+async function setFeatureOverride(
+  c: Context,
+  orgId: number,
+  feature: string,
+  enabled: boolean | null,
+) {
+  try {
+    const [org] = await db
+      .select({ featureOverrides: organizations.featureOverrides })
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    if (!org) {
+      return c.json({ detail: "Organization not found" }, 404);
+    }
+
+    const { [feature]: previous, ...overrides } = org.featureOverrides;
+    if (enabled !== null) {
+      overrides[feature] = enabled;
+    }
+
+    await db
+      .update(organizations)
+      .set({ featureOverrides: overrides, updatedAt: new Date() })
+      .where(eq(organizations.id, orgId));
+
+    await logActivity(c, {
+      action: "organization.feature_override",
+      actionType: enabled === null ? "delete" : "update",
+      description:
+        enabled === null
+          ? `Removed the ${feature} override`
+          : `${enabled ? "Enabled" : "Disabled"} ${feature} regardless of plan`,
+      organizationId: orgId,
+      metadata: { feature, enabled, previous: previous ?? null },
+    });
+
+    const entitlements = await getOrganizationEntitlements(orgId);
+
+    return c.json({ features: entitlements?.features ?? {}, overrides });
+  } catch (error) {
+    console.error("Set feature override error:", error);
+    return c.json({ detail: "Failed to update feature override" }, 500);
+  }
+}
+
+export default adminRouter;
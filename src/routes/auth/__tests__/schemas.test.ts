@@ -4,6 +4,7 @@ import {
   loginSchema,
   otpSendSchema,
   otpVerifySchema,
+  refreshTokenSchema,
   registerSchema,
   resetPasswordSchema,
   userCreateSchema,
@@ -151,4 +152,21 @@ describe("Auth Schemas", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("refreshTokenSchema", () => {
+    it("should accept a refresh token", () => {
+      const result = refreshTokenSchema.safeParse({ refresh_token: "a".repeat(64) });
+      expect(result.success).toBe(true);
+    });
+
+    it("should allow omitting the refresh token", () => {
+      const result = refreshTokenSchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an empty refresh token", () => {
+      const result = refreshTokenSchema.safeParse({ refresh_token: "" });
+      expect(result.success).toBe(false);
+    });
+  });
 });
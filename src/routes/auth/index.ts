@@ -1,17 +1,24 @@
 import { zValidator } from "@hono/zod-validator";
 import { eq } from "drizzle-orm";
-import type { Context } from "hono";
 import { Hono } from "hono";
+import { getCookie } from "hono/cookie";
 import { db } from "../../db";
 import { users } from "../../db/schema";
-import { env } from "../../lib/env";
-import { createJWT } from "../../lib/jwt";
+import { findClientIP } from "../../lib/client-ip";
+import { matchAcceptLanguage, resolveLocale } from "../../lib/i18n";
+import { clearFailedLogins, enforceLoginGate, recordFailedLogin } from "../../lib/login-attempts";
 import {
   createPasswordResetToken,
   createVerificationToken,
   verifyEmailToken,
   verifyPasswordResetToken,
 } from "../../lib/otp";
+import {
+  REFRESH_TOKEN_COOKIE,
+  revokeSessionFamily,
+  revokeUserSessions,
+  rotateSession,
+} from "../../lib/sessions";
 import {
   authMiddleware,
   authRateLimiter,
@@ -23,39 +30,28 @@ import {
   sendVerificationEmail,
   sendWelcomeEmail,
 } from "../../services/email.service";
+import mfaRoutes from "./mfa";
 import onboardingRoutes from "./onboarding";
 import otpRoutes from "./otp";
 import {
   forgotPasswordSchema,
   loginSchema,
+  refreshTokenSchema,
   registerSchema,
   resetPasswordSchema,
   verifyEmailSchema,
 } from "./schemas";
+import {
+  clearSessionCookie,
+  createMfaChallenge,
+  formatAuthResponse,
+  formatTokenResponse,
+  setSessionCookie,
+  startSession,
+} from "./session";
 
 const auth = new Hono();
 
-/**
- * Helper to set session cookie
- */
-function setSessionCookie(c: Context, token: string): void {
-  const isSecure = env.FRONTEND_URL.startsWith("https");
-
-  c.header(
-    "Set-Cookie",
-    `ba_session=${token}; HttpOnly; ${isSecure ? "Secure; " : ""}SameSite=${
-      isSecure ? "None" : "Lax"
-    }; Path=/; Max-Age=${env.JWT_LIFETIME_SECONDS}`,
-  );
-}
-
-/**
- * Clear session cookie
- */
-function clearSessionCookie(c: Context): void {
-  c.header("Set-Cookie", "ba_session=; HttpOnly; Path=/; Max-Age=0");
-}
-
 /**
  * Login with email and password
  * POST /auth/jwt/login
@@ -71,9 +67,16 @@ auth.post("/jwt/login", authRateLimiter, zValidator("json", loginSchema), async
       return c.json({ detail: "Invalid email or password" }, 400);
     }
 
+    // Locked or throttled accounts are rejected before the password is checked
+    const blocked = enforceLoginGate(c, user);
+    if (blocked) {
+      return blocked;
+    }
+
     // Verify password
     const isValid = await Bun.password.verify(password, user.hashedPassword);
     if (!isValid) {
+      await recordFailedLogin(user);
       return c.json({ detail: "Invalid email or password" }, 400);
     }
 
@@ -82,40 +85,18 @@ auth.post("/jwt/login", authRateLimiter, zValidator("json", loginSchema), async
       return c.json({ detail: "Account is disabled" }, 400);
     }
 
-    // Create JWT token
-    const token = await createJWT({
-      userId: user.id,
-      email: user.email,
-      name: user.name || undefined,
-      role: user.role,
-    });
+    // Password is only the first factor when MFA is enabled
+    // Failures are cleared once the second factor succeeds
+    if (user.mfaEnabled) {
+      return c.json(await createMfaChallenge(user));
+    }
 
-    // Set session cookie
-    setSessionCookie(c, token);
+    await clearFailedLogins(user);
 
-    const expiresAt = new Date(Date.now() + env.JWT_LIFETIME_SECONDS * 1000).toISOString();
+    // Start a session with a short-lived access token and a refresh token
+    const session = await startSession(c, user);
 
-    return c.json({
-      access_token: token,
-      token_type: "bearer",
-      user: {
-        id: String(user.id),
-        email: user.email,
-        name: user.name,
-        emailVerified: user.isVerified,
-        role: user.role,
-        is_verified: user.isVerified,
-        is_superuser: user.isSuperuser,
-        onboarding_completed: user.onboardingCompleted,
-        onboarding_step: user.onboardingStep,
-        createdAt: user.createdAt?.toISOString() || null,
-        updatedAt: user.updatedAt?.toISOString() || null,
-      },
-      session: {
-        token,
-        expiresAt,
-      },
-    });
+    return c.json(formatAuthResponse(user, session));
   } catch (error) {
     console.error("Login error:", error);
     return c.json({ detail: "Login failed" }, 500);
@@ -127,10 +108,63 @@ auth.post("/jwt/login", authRateLimiter, zValidator("json", loginSchema), async
  * POST /auth/jwt/logout
  */
 auth.post("/jwt/logout", authMiddleware, requireAuth, async (c) => {
+  const sessionId = c.get("sessionId");
+
+  try {
+    if (sessionId) {
+      await revokeSessionFamily(sessionId, "logout");
+    }
+  } catch (error) {
+    console.error("Logout error:", error);
+  }
+
   clearSessionCookie(c);
   return c.json({ success: true });
 });
 
+/**
+ * Exchange a refresh token for a new token pair
+ * POST /auth/jwt/refresh
+ */
+auth.post("/jwt/refresh", authRateLimiter, zValidator("json", refreshTokenSchema), async (c) => {
+  const body = c.req.valid("json");
+  const refreshToken = body.refresh_token ?? getCookie(c, REFRESH_TOKEN_COOKIE);
+
+  if (!refreshToken) {
+    return c.json({ detail: "Refresh token required", error: "invalid_refresh_token" }, 401);
+  }
+
+  try {
+    const result = await rotateSession(refreshToken, {
+      ipAddress: findClientIP(c),
+      userAgent: c.req.header("user-agent"),
+    });
+
+    if (result.status === "reused") {
+      clearSessionCookie(c);
+      return c.json(
+        {
+          detail: "Refresh token was already used. The session has been revoked.",
+          error: "refresh_token_reused",
+        },
+        401,
+      );
+    }
+
+    if (result.status === "invalid") {
+      clearSessionCookie(c);
+      return c.json({ detail: "Invalid refresh token", error: "invalid_refresh_token" }, 401);
+    }
+
+    setSessionCookie(c, result.session);
+
+    return c.json(formatTokenResponse(result.session));
+  } catch (error) {
+    console.error("Refresh token error:", error);
+    return c.json({ detail: "Failed to refresh session" }, 500);
+  }
+});
+
 /**
  * Register new user
  * POST /auth/register
@@ -160,6 +194,7 @@ auth.post("/register", authRateLimiter, zValidator("json", registerSchema), asyn
         email,
         hashedPassword,
         name: name || null,
+        locale: matchAcceptLanguage(c.req.header("Accept-Language")),
         isActive: true,
         isSuperuser: false,
         isVerified: false,
@@ -170,10 +205,10 @@ auth.post("/register", authRateLimiter, zValidator("json", registerSchema), asyn
 
     // Send verification email
     const verifyToken = await createVerificationToken(email);
-    await sendVerificationEmail(email, verifyToken, name);
+    await sendVerificationEmail(email, verifyToken, name, resolveLocale(user));
 
     // Send welcome email
-    await sendWelcomeEmail(email, name);
+    await sendWelcomeEmail(email, name, resolveLocale(user));
 
     if (!user) {
       return c.json({ detail: "Registration failed" }, 500);
@@ -215,7 +250,7 @@ auth.post(
 
       // Create and send password reset token
       const token = await createPasswordResetToken(email);
-      await sendPasswordResetEmail(email, token, user.name);
+      await sendPasswordResetEmail(email, token, user.name, resolveLocale(user));
 
       return c.json({ success: true });
     } catch (error) {
@@ -264,6 +299,9 @@ auth.post(
         .set({ hashedPassword, updatedAt: new Date() })
         .where(eq(users.id, user.id));
 
+      // Sign out every device that may have been using the old password
+      await revokeUserSessions(user.id, "password_reset");
+
       return c.json({ success: true });
     } catch (error) {
       console.error("Reset password error:", error);
@@ -295,7 +333,7 @@ auth.post(
       }
 
       const token = await createVerificationToken(email);
-      await sendVerificationEmail(email, token, user.name);
+      await sendVerificationEmail(email, token, user.name, resolveLocale(user));
 
       return c.json({ success: true });
     } catch (error) {
@@ -335,6 +373,9 @@ auth.post("/verify", zValidator("json", verifyEmailSchema), async (c) => {
 // Mount OTP routes
 auth.route("/otp", otpRoutes);
 
+// Mount MFA routes
+auth.route("/mfa", mfaRoutes);
+
 // Mount onboarding routes (requires auth)
 auth.use("/onboarding/*", authMiddleware, requireAuth);
 auth.route("/onboarding", onboardingRoutes);
@@ -0,0 +1,279 @@
+import { zValidator } from "@hono/zod-validator";
+import { eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { db } from "../../db";
+import { users } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import { verifyMfaChallengeToken } from "../../lib/jwt";
+import { clearFailedLogins, enforceLoginGate, recordFailedLogin } from "../../lib/login-attempts";
+import {
+  consumeTotpCode,
+  countRemainingRecoveryCodes,
+  disableMfa,
+  getMfaIssuer,
+  replaceRecoveryCodes,
+  verifyMfaCode,
+} from "../../lib/mfa";
+import { buildOtpauthUri, generateTotpSecret } from "../../lib/totp";
+import { authMiddleware, authRateLimiter, requireAuth } from "../../middleware";
+import { mfaCodeSchema, mfaVerifySchema } from "./schemas";
+import { formatAuthResponse, startSession } from "./session";
+
+const mfa = new Hono();
+
+const invalidCodeError = {
+  detail: "Invalid authentication code",
+  error: "invalid_mfa_code",
+};
+
+/**
+ * Get MFA status of the current user
+ * GET /auth/mfa/status
+ */
+mfa.get("/status", authMiddleware, requireAuth, async (c) => {
+  const user = c.get("user");
+
+  try {
+    return c.json({
+      enabled: user!.mfaEnabled,
+      enabled_at: user!.mfaEnabledAt?.toISOString() ?? null,
+      recovery_codes_remaining: user!.mfaEnabled ? await countRemainingRecoveryCodes(user!.id) : 0,
+    });
+  } catch (error) {
+    console.error("MFA status error:", error);
+    return c.json({ detail: "Failed to get MFA status" }, 500);
+  }
+});
+
+/**
+ * Start TOTP enrollment
+ * POST /auth/mfa/setup
+ */
+mfa.post("/setup", authMiddleware, requireAuth, async (c) => {
+  const user = c.get("user");
+
+  try {
+    if (user!.mfaEnabled) {
+      return c.json({ detail: "MFA is already enabled", error: "mfa_already_enabled" }, 400);
+    }
+
+    // The secret stays pending until confirmed with a first code
+    const secret = generateTotpSecret();
+
+    await db
+      .update(users)
+      .set({ mfaSecret: secret, mfaLastUsedStep: null, updatedAt: new Date() })
+      .where(eq(users.id, user!.id));
+
+    return c.json({
+      secret,
+      otpauth_uri: buildOtpauthUri({
+        secret,
+        accountName: user!.email,
+        issuer: getMfaIssuer(),
+      }),
+    });
+  } catch (error) {
+    console.error("MFA setup error:", error);
+    return c.json({ detail: "Failed to start MFA setup" }, 500);
+  }
+});
+
+/**
+ * Confirm TOTP enrollment with a first code
+ * POST /auth/mfa/confirm
+ */
+mfa.post("/confirm", authMiddleware, requireAuth, zValidator("json", mfaCodeSchema), async (c) => {
+  const user = c.get("user");
+  const { code } = c.req.valid("json");
+
+  try {
+    if (user!.mfaEnabled) {
+      return c.json({ detail: "MFA is already enabled", error: "mfa_already_enabled" }, 400);
+    }
+
+    if (!user!.mfaSecret) {
+      return c.json({ detail: "MFA setup has not been started", error: "mfa_not_setup" }, 400);
+    }
+
+    const isValid = await consumeTotpCode(user!.id, user!.mfaSecret, code);
+    if (!isValid) {
+      return c.json(invalidCodeError, 400);
+    }
+
+    await db
+      .update(users)
+      .set({ mfaEnabled: true, mfaEnabledAt: new Date(), updatedAt: new Date() })
+      .where(eq(users.id, user!.id));
+
+    const recoveryCodes = await replaceRecoveryCodes(user!.id);
+
+    await logActivity(c, {
+      action: "user.mfa_enable",
+      actionType: "update",
+      description: "Enabled two-factor authentication",
+    });
+
+    return c.json({
+      enabled: true,
+      recovery_codes: recoveryCodes,
+    });
+  } catch (error) {
+    console.error("MFA confirm error:", error);
+    return c.json({ detail: "Failed to enable MFA" }, 500);
+  }
+});
+
+/**
+ * Disable MFA with a TOTP or recovery code
+ * POST /auth/mfa/disable
+ */
+mfa.post(
+  "/disable",
+  authRateLimiter,
+  authMiddleware,
+  requireAuth,
+  zValidator("json", mfaCodeSchema),
+  async (c) => {
+    const user = c.get("user");
+    const { code } = c.req.valid("json");
+
+    try {
+      if (!user!.mfaEnabled) {
+        return c.json({ detail: "MFA is not enabled", error: "mfa_not_enabled" }, 400);
+      }
+
+      // Wrong codes count toward the same lockout as failed sign-ins
+      const blocked = enforceLoginGate(c, user!);
+      if (blocked) {
+        return blocked;
+      }
+
+      const method = await verifyMfaCode(user!, code);
+      if (!method) {
+        await recordFailedLogin(user!);
+        return c.json(invalidCodeError, 400);
+      }
+
+      await clearFailedLogins(user!);
+
+      await disableMfa(user!.id);
+
+      await logActivity(c, {
+        action: "user.mfa_disable",
+        actionType: "update",
+        description: "Disabled two-factor authentication",
+        metadata: { method },
+      });
+
+      return c.json({ enabled: false });
+    } catch (error) {
+      console.error("MFA disable error:", error);
+      return c.json({ detail: "Failed to disable MFA" }, 500);
+    }
+  },
+);
+
+/**
+ * Regenerate recovery codes
+ * POST /auth/mfa/recovery-codes
+ */
+mfa.post(
+  "/recovery-codes",
+  authRateLimiter,
+  authMiddleware,
+  requireAuth,
+  zValidator("json", mfaCodeSchema),
+  async (c) => {
+    const user = c.get("user");
+    const { code } = c.req.valid("json");
+
+    try {
+      if (!user!.mfaEnabled) {
+        return c.json({ detail: "MFA is not enabled", error: "mfa_not_enabled" }, 400);
+      }
+
+      // Wrong codes count toward the same lockout as failed sign-ins
+      const blocked = enforceLoginGate(c, user!);
+      if (blocked) {
+        return blocked;
+      }
+
+      const method = await verifyMfaCode(user!, code);
+      if (!method) {
+        await recordFailedLogin(user!);
+        return c.json(invalidCodeError, 400);
+      }
+
+      await clearFailedLogins(user!);
+
+      const recoveryCodes = await replaceRecoveryCodes(user!.id);
+
+      await logActivity(c, {
+        action: "user.mfa_recovery_codes",
+        actionType: "update",
+        description: "Regenerated two-factor recovery codes",
+      });
+
+      return c.json({ recovery_codes: recoveryCodes });
+    } catch (error) {
+      console.error("MFA recovery codes error:", error);
+      return c.json({ detail: "Failed to regenerate recovery codes" }, 500);
+    }
+  },
+);
+
+/**
+ * Complete a login with a TOTP or recovery code
+ * POST /auth/mfa/verify
+ */
+mfa.post("/verify", authRateLimiter, zValidator("json", mfaVerifySchema), async (c) => {
+  const { challenge_token, code } = c.req.valid("json");
+
+  try {
+    const userId = await verifyMfaChallengeToken(challenge_token);
+
+    if (!userId) {
+      return c.json(
+        { detail: "Invalid or expired MFA challenge", error: "invalid_mfa_challenge" },
+        401,
+      );
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+    if (!user || !user.isActive || !user.mfaEnabled) {
+      return c.json(
+        { detail: "Invalid or expired MFA challenge", error: "invalid_mfa_challenge" },
+        401,
+      );
+    }
+
+    const blocked = enforceLoginGate(c, user);
+    if (blocked) {
+      return blocked;
+    }
+
+    const method = await verifyMfaCode(user, code);
+    if (!method) {
+      await recordFailedLogin(user);
+      return c.json(invalidCodeError, 400);
+    }
+
+    await clearFailedLogins(user);
+
+    const session = await startSession(c, user);
+
+    return c.json({
+      ...formatAuthResponse(user, session),
+      mfa_method: method,
+      recovery_codes_remaining:
+        method === "recovery_code" ? await countRemainingRecoveryCodes(user.id) : undefined,
+    });
+  } catch (error) {
+    console.error("MFA verify error:", error);
+    return c.json({ detail: "MFA verification failed" }, 500);
+  }
+});
+
+export default mfa;
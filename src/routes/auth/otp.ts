@@ -1,32 +1,19 @@
 import { zValidator } from "@hono/zod-validator";
 import { eq } from "drizzle-orm";
-import type { Context } from "hono";
 import { Hono } from "hono";
 import { db } from "../../db";
 import { users } from "../../db/schema";
 import { env } from "../../lib/env";
-import { createJWT } from "../../lib/jwt";
+import { matchAcceptLanguage, resolveLocale } from "../../lib/i18n";
+import { clearFailedLogins, enforceLoginGate, recordFailedLogin } from "../../lib/login-attempts";
 import { createOTPToken, verifyOTPToken } from "../../lib/otp";
 import { authRateLimiter } from "../../middleware";
 import { sendOTPEmail } from "../../services/email.service";
 import { otpSendSchema, otpVerifySchema } from "./schemas";
+import { createMfaChallenge, formatAuthResponse, startSession } from "./session";
 
 const otp = new Hono();
 
-/**
- * Helper to set session cookie
- */
-function setSessionCookie(c: Context, token: string): void {
-  const isSecure = env.FRONTEND_URL.startsWith("https");
-
-  c.header(
-    "Set-Cookie",
-    `ba_session=${token}; HttpOnly; ${isSecure ? "Secure; " : ""}SameSite=${
-      isSecure ? "None" : "Lax"
-    }; Path=/; Max-Age=${env.JWT_LIFETIME_SECONDS}`,
-  );
-}
-
 /**
  * Send OTP code to email
  * POST /auth/otp/send
@@ -42,7 +29,10 @@ otp.post("/send", authRateLimiter, zValidator("json", otpSendSchema), async (c)
     const code = await createOTPToken(email);
 
     // Send OTP email
-    await sendOTPEmail(email, code, existingUser?.name);
+    const locale = existingUser
+      ? resolveLocale(existingUser)
+      : (matchAcceptLanguage(c.req.header("Accept-Language")) ?? resolveLocale());
+    await sendOTPEmail(email, code, existingUser?.name, locale);
 
     // In development, log the code
     if (env.NODE_ENV === "development") {
@@ -74,10 +64,25 @@ otp.post("/verify", authRateLimiter, zValidator("json", otpVerifySchema), async
   const { email, code, name } = c.req.valid("json");
 
   try {
+    // Check if user exists
+    let [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+
+    // Existing accounts are protected against guessing across OTP resends
+    if (user) {
+      const blocked = enforceLoginGate(c, user);
+      if (blocked) {
+        return blocked;
+      }
+    }
+
     // Verify OTP
     const verifiedEmail = await verifyOTPToken(email, code);
 
     if (!verifiedEmail) {
+      if (user) {
+        await recordFailedLogin(user);
+      }
+
       return c.json(
         {
           error: "INVALID_OTP",
@@ -87,9 +92,6 @@ otp.post("/verify", authRateLimiter, zValidator("json", otpVerifySchema), async
       );
     }
 
-    // Check if user exists
-    let [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
-
     if (user) {
       // Existing user - update name if provided and not set
       if (name && !user.name) {
@@ -110,6 +112,7 @@ otp.post("/verify", authRateLimiter, zValidator("json", otpVerifySchema), async
           email,
           hashedPassword,
           name: name || null,
+          locale: matchAcceptLanguage(c.req.header("Accept-Language")),
           isActive: true,
           isSuperuser: false,
           isVerified: true, // OTP verification counts as email verification
@@ -126,36 +129,21 @@ otp.post("/verify", authRateLimiter, zValidator("json", otpVerifySchema), async
       return c.json({ error: "USER_CREATE_FAILED", message: "Failed to create user" }, 500);
     }
 
-    const token = await createJWT({
-      userId: user.id,
-      email: user.email,
-      name: user.name || undefined,
-      role: user.role,
-    });
+    // Email OTP counts as the first factor only when MFA is enabled
+    if (user.mfaEnabled) {
+      return c.json(await createMfaChallenge(user));
+    }
 
-    // Set session cookie
-    setSessionCookie(c, token);
+    await clearFailedLogins(user);
 
-    // Calculate expiration
-    const expiresAt = new Date(Date.now() + env.JWT_LIFETIME_SECONDS * 1000).toISOString();
+    const session = await startSession(c, user);
+    const response = formatAuthResponse(user, session);
 
     return c.json({
+      ...response,
       user: {
-        id: String(user.id),
-        email: user.email,
+        ...response.user,
         name: user.name || name || user.email.split("@")[0],
-        emailVerified: user.isVerified,
-        role: user.role,
-        is_verified: user.isVerified,
-        is_superuser: user.isSuperuser,
-        onboarding_completed: user.onboardingCompleted,
-        onboarding_step: user.onboardingStep,
-        createdAt: user.createdAt?.toISOString() || null,
-        updatedAt: user.updatedAt?.toISOString() || null,
-      },
-      session: {
-        token,
-        expiresAt,
       },
     });
   } catch (error) {
@@ -50,6 +50,11 @@ export const loginSchema = z.object({
   password: z.string(),
 });
 
+export const refreshTokenSchema = z.object({
+  // Falls back to the refresh token cookie when omitted
+  refresh_token: z.string().min(1).optional(),
+});
+
 export const registerSchema = z.object({
   email: z.email(),
   password: z.string().min(8),
@@ -88,6 +93,17 @@ export const otpResponseSchema = z.object({
   user_exists: z.boolean().optional(),
 });
 
+// MFA schemas
+export const mfaCodeSchema = z.object({
+  // TOTP code or recovery code
+  code: z.string().trim().min(6).max(20),
+});
+
+export const mfaVerifySchema = z.object({
+  challenge_token: z.string().min(1),
+  code: z.string().trim().min(6).max(20),
+});
+
 // Onboarding schemas
 export const onboardingProfileUpdateSchema = z.object({
   name: z.string().optional(),
@@ -142,3 +158,4 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type OTPSendInput = z.infer<typeof otpSendSchema>;
 export type OTPVerifyInput = z.infer<typeof otpVerifySchema>;
 export type AuthResponse = z.infer<typeof authResponseSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
@@ -0,0 +1,96 @@
+import type { Context } from "hono";
+import type { User } from "../../db/schema";
+import { findClientIP } from "../../lib/client-ip";
+import { env } from "../../lib/env";
+import { createMfaChallengeToken, MFA_CHALLENGE_LIFETIME_SECONDS } from "../../lib/jwt";
+import type { IssuedSession } from "../../lib/sessions";
+import { createSession, REFRESH_TOKEN_COOKIE } from "../../lib/sessions";
+
+/**
+ * Helper to set session and refresh token cookies
+ */
+export function setSessionCookie(c: Context, session: IssuedSession): void {
+  const isSecure = env.FRONTEND_URL.startsWith("https");
+  const attributes = `HttpOnly; ${isSecure ? "Secure; " : ""}SameSite=${isSecure ? "None" : "Lax"}`;
+
+  c.header(
+    "Set-Cookie",
+    `ba_session=${session.accessToken}; ${attributes}; Path=/; Max-Age=${env.JWT_LIFETIME_SECONDS}`,
+  );
+  c.header(
+    "Set-Cookie",
+    `${REFRESH_TOKEN_COOKIE}=${session.refreshToken}; ${attributes}; Path=/api/v1/auth/jwt; Max-Age=${env.REFRESH_TOKEN_LIFETIME_SECONDS}`,
+    { append: true },
+  );
+}
+
+/**
+ * Clear session and refresh token cookies
+ */
+export function clearSessionCookie(c: Context): void {
+  c.header("Set-Cookie", "ba_session=; HttpOnly; Path=/; Max-Age=0");
+  c.header("Set-Cookie", `${REFRESH_TOKEN_COOKIE}=; HttpOnly; Path=/api/v1/auth/jwt; Max-Age=0`, {
+    append: true,
+  });
+}
+
+/**
+ * Start a session for the request's client and set its cookies
+ */
+export async function startSession(c: Context, user: User): Promise<IssuedSession> {
+  const session = await createSession(user, {
+    ipAddress: findClientIP(c),
+    userAgent: c.req.header("user-agent"),
+  });
+
+  setSessionCookie(c, session);
+
+  return session;
+}
+
+export function formatTokenResponse(session: IssuedSession) {
+  return {
+    access_token: session.accessToken,
+    refresh_token: session.refreshToken,
+    token_type: "bearer",
+    expires_in: env.JWT_LIFETIME_SECONDS,
+    session: {
+      token: session.accessToken,
+      expiresAt: session.accessTokenExpiresAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Create the response returned after the first factor when MFA is enabled
+ */
+export async function createMfaChallenge(user: User) {
+  return {
+    mfa_required: true,
+    challenge_token: await createMfaChallengeToken(user.id),
+    expires_in: MFA_CHALLENGE_LIFETIME_SECONDS,
+  };
+}
+
+/**
+ * Format the response of a completed login
+ */
+export function formatAuthResponse(user: User, session: IssuedSession) {
+  return {
+    ...formatTokenResponse(session),
+    user: {
+      id: String(user.id),
+      email: user.email,
+      name: user.name,
+      emailVerified: user.isVerified,
+      role: user.role,
+      is_verified: user.isVerified,
+      is_superuser: user.isSuperuser,
+      mfa_enabled: user.mfaEnabled,
+      onboarding_completed: user.onboardingCompleted,
+      onboarding_step: user.onboardingStep,
+      createdAt: user.createdAt?.toISOString() || null,
+      updatedAt: user.updatedAt?.toISOString() || null,
+    },
+  };
+}
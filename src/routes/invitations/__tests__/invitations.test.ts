@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { invitationListSchema, invitationTokenSchema } from "../schemas";
+
+describe("Invitation Schemas", () => {
+  describe("invitationTokenSchema", () => {
+    it("should validate a token", () => {
+      const result = invitationTokenSchema.safeParse({
+        token: "a".repeat(64),
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject empty token", () => {
+      const result = invitationTokenSchema.safeParse({ token: "" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject missing token", () => {
+      const result = invitationTokenSchema.safeParse({});
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("invitationListSchema", () => {
+    it("should default status to pending", () => {
+      const result = invitationListSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.status).toBe("pending");
+      }
+    });
+
+    it("should accept revoked status", () => {
+      const result = invitationListSchema.safeParse({ status: "revoked" });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unknown status", () => {
+      const result = invitationListSchema.safeParse({ status: "archived" });
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,535 @@
+import { zValidator } from "@hono/zod-validator";
+import { and, desc, eq, gt, sql } from "drizzle-orm";
+import { Hono } from "hono";
+import { db } from "../../db";
+import type { OrganizationMember, TeamInvitation } from "../../db/schema";
+import { organizationMembers, organizations, teamInvitations, users } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import { resolveLocale } from "../../lib/i18n";
+import {
+  getInvitationAcceptError,
+  getInvitationExpiry,
+  isInvitationExpired,
+  isInvitationResendable,
+} from "../../lib/invitations";
+import { canAcceptInvitation, canInvite, seatLimitError } from "../../lib/plan-limits";
+import { dispatchWebhookEvent } from "../../lib/webhooks";
+import {
+  authMiddleware,
+  authorize,
+  checkWritable,
+  orgRateLimiter,
+  requireAuth,
+  requirePermission,
+} from "../../middleware";
+import { sendInvitationEmail } from "../../services/email.service";
+import { refreshSeatCount, withSeatLock } from "../../services/entitlement.service";
+import { expireStaleInvitations } from "../../services/invitation.service";
+import { invitationListSchema, invitationTokenSchema } from "./schemas";
+
+const invitationsRouter = new Hono();
+
+// Apply auth middleware to all routes
+invitationsRouter.use("*", authMiddleware, requireAuth);
+
+const MEMBER_ROLES: OrganizationMember["role"][] = ["admin", "member", "viewer"];
+
+/**
+ * Helper to find an invitation addressed to the given email by token
+ */
+async function findInvitationForEmail(
+  token: string,
+  email: string,
+): Promise<TeamInvitation | undefined> {
+  const [invitation] = await db
+    .select()
+    .from(teamInvitations)
+    .where(
+      and(
+        eq(teamInvitations.token, token),
+        sql`lower(${teamInvitations.email}) = ${email.toLowerCase()}`,
+      ),
+    )
+    .limit(1);
+
+  return invitation;
+}
+
+function formatInvitation(invitation: TeamInvitation) {
+  return {
+    id: invitation.id,
+    organization_id: invitation.organizationId,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status,
+    message: invitation.message,
+    expires_at: invitation.expiresAt.toISOString(),
+    accepted_at: invitation.acceptedAt?.toISOString(),
+    created_at: invitation.createdAt?.toISOString(),
+  };
+}
+
+/**
+ * List pending invitations for the current user
+ * GET /invitations
+ */
+invitationsRouter.get("/", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const invitations = await db
+      .select({
+        invitation: teamInvitations,
+        organization: {
+          id: organizations.id,
+          name: organizations.name,
+          slug: organizations.slug,
+          logoUrl: organizations.logoUrl,
+        },
+        invitedBy: {
+          name: users.name,
+          email: users.email,
+        },
+      })
+      .from(teamInvitations)
+      .innerJoin(organizations, eq(teamInvitations.organizationId, organizations.id))
+      .leftJoin(users, eq(teamInvitations.invitedById, users.id))
+      .where(
+        and(
+          sql`lower(${teamInvitations.email}) = ${user!.email.toLowerCase()}`,
+          eq(teamInvitations.status, "pending"),
+          gt(teamInvitations.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(desc(teamInvitations.createdAt));
+
+    return c.json({
+      items: invitations.map((i) => ({
+        id: i.invitation.id,
+        token: i.invitation.token,
+        role: i.invitation.role,
+        status: i.invitation.status,
+        message: i.invitation.message,
+        expires_at: i.invitation.expiresAt.toISOString(),
+        created_at: i.invitation.createdAt?.toISOString(),
+        organization: {
+          id: i.organization.id,
+          name: i.organization.name,
+          slug: i.organization.slug,
+          logo_url: i.organization.logoUrl,
+        },
+        invited_by: i.invitedBy
+          ? {
+              name: i.invitedBy.name,
+              email: i.invitedBy.email,
+            }
+          : null,
+      })),
+    });
+  } catch (error) {
+    console.error("List invitations error:", error);
+    return c.json({ detail: "Failed to list invitations" }, 500);
+  }
+});
+
+/**
+ * Accept an invitation
+ * POST /invitations/accept
+ */
+invitationsRouter.post("/accept", zValidator("json", invitationTokenSchema), async (c) => {
+  const user = c.get("user");
+  const { token } = c.req.valid("json");
+
+  try {
+    const invitation = await findInvitationForEmail(token, user!.email);
+
+    if (!invitation) {
+      return c.json({ detail: "Invitation not found" }, 404);
+    }
+
+    const acceptError = getInvitationAcceptError(invitation);
+
+    if (acceptError === "invitation_not_pending") {
+      return c.json(
+        { detail: `Invitation is ${invitation.status}`, error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    if (acceptError === "invitation_expired") {
+      await db
+        .update(teamInvitations)
+        .set({ status: "expired", updatedAt: new Date() })
+        .where(eq(teamInvitations.id, invitation.id));
+      await refreshSeatCount(invitation.organizationId);
+
+      return c.json({ detail: "Invitation has expired", error: "invitation_expired" }, 410);
+    }
+
+    const [existingMembership] = await db
+      .select()
+      .from(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.userId, user!.id),
+          eq(organizationMembers.organizationId, invitation.organizationId),
+        ),
+      )
+      .limit(1);
+
+    if (existingMembership) {
+      return c.json({ detail: "You are already a member of this organization" }, 400);
+    }
+
+    const notWritable = await checkWritable(c, invitation.organizationId);
+    if (notWritable) {
+      return notWritable;
+    }
+
+    const role = MEMBER_ROLES.find((r) => r === invitation.role) ?? "member";
+
+    // The invitation already holds a seat, but the plan may have shrunk since it was sent
+    const joined = await withSeatLock(
+      invitation.organizationId,
+      canAcceptInvitation,
+      async (tx) => {
+        // Claim the invitation first so two concurrent accepts can't both join
+        const [accepted] = await tx
+          .update(teamInvitations)
+          .set({
+            status: "accepted",
+            acceptedAt: new Date(),
+            acceptedById: user!.id,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(teamInvitations.id, invitation.id), eq(teamInvitations.status, "pending")))
+          .returning({ id: teamInvitations.id });
+
+        if (!accepted) {
+          return null;
+        }
+
+        const [created] = await tx
+          .insert(organizationMembers)
+          .values({
+            userId: user!.id,
+            organizationId: invitation.organizationId,
+            role,
+          })
+          .returning();
+
+        return created;
+      },
+    );
+
+    if (!joined.ok) {
+      return c.json(seatLimitError(joined.usage), 403);
+    }
+
+    if (!joined.value) {
+      return c.json(
+        { detail: "Invitation is no longer pending", error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    const member = joined.value;
+
+    await logActivity(c, {
+      action: "member.join",
+      actionType: "create",
+      description: `${user!.email} joined as ${role}`,
+      organizationId: invitation.organizationId,
+      metadata: { invitation_id: invitation.id, member_id: member?.id, role },
+    });
+
+    if (member) {
+      await dispatchWebhookEvent(invitation.organizationId, "member.added", {
+        member: {
+          id: member.id,
+          role: member.role,
+          user_id: member.userId,
+          organization_id: member.organizationId,
+          created_at: member.createdAt?.toISOString(),
+        },
+        invitation_id: invitation.id,
+      });
+    }
+
+    await refreshSeatCount(invitation.organizationId);
+
+    const [org] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, invitation.organizationId))
+      .limit(1);
+
+    return c.json({
+      member_id: member?.id,
+      role,
+      organization: org
+        ? {
+            id: org.id,
+            name: org.name,
+            slug: org.slug,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return c.json({ detail: "Failed to accept invitation" }, 500);
+  }
+});
+
+/**
+ * Decline an invitation
+ * POST /invitations/decline
+ */
+invitationsRouter.post("/decline", zValidator("json", invitationTokenSchema), async (c) => {
+  const user = c.get("user");
+  const { token } = c.req.valid("json");
+
+  try {
+    const invitation = await findInvitationForEmail(token, user!.email);
+
+    if (!invitation) {
+      return c.json({ detail: "Invitation not found" }, 404);
+    }
+
+    if (invitation.status !== "pending") {
+      return c.json(
+        { detail: `Invitation is ${invitation.status}`, error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    const [declined] = await db
+      .update(teamInvitations)
+      .set({ status: "declined", updatedAt: new Date() })
+      .where(and(eq(teamInvitations.id, invitation.id), eq(teamInvitations.status, "pending")))
+      .returning({ id: teamInvitations.id });
+
+    if (!declined) {
+      return c.json(
+        { detail: "Invitation is no longer pending", error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    await refreshSeatCount(invitation.organizationId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Decline invitation error:", error);
+    return c.json({ detail: "Failed to decline invitation" }, 500);
+  }
+});
+
+/**
+ * List invitations of an organization
+ * GET /invitations/organizations/:organizationId
+ */
+invitationsRouter.get(
+  "/organizations/:organizationId",
+  requirePermission("member:invite"),
+  zValidator("query", invitationListSchema),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+    const { status } = c.req.valid("query");
+
+    try {
+      // Make sure stale invitations are reported with their real status
+      const expired = await expireStaleInvitations(organizationId);
+      if (expired.length > 0) {
+        await refreshSeatCount(organizationId);
+      }
+
+      const invitations = await db
+        .select()
+        .from(teamInvitations)
+        .where(
+          and(
+            eq(teamInvitations.organizationId, organizationId),
+            eq(teamInvitations.status, status),
+          ),
+        )
+        .orderBy(desc(teamInvitations.createdAt));
+
+      return c.json({
+        items: invitations.map(formatInvitation),
+      });
+    } catch (error) {
+      console.error("List organization invitations error:", error);
+      return c.json({ detail: "Failed to list invitations" }, 500);
+    }
+  },
+);
+
+/**
+ * Resend an invitation with a fresh token and expiration
+ * POST /invitations/:id/resend
+ */
+invitationsRouter.post("/:id/resend", orgRateLimiter, async (c) => {
+  const user = c.get("user");
+  const invitationId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [invitation] = await db
+      .select()
+      .from(teamInvitations)
+      .where(eq(teamInvitations.id, invitationId))
+      .limit(1);
+
+    if (!invitation) {
+      return c.json({ detail: "Invitation not found" }, 404);
+    }
+
+    const denied = await authorize(c, invitation.organizationId, "member:invite");
+    if (denied) {
+      return denied;
+    }
+
+    if (!isInvitationResendable(invitation)) {
+      return c.json(
+        { detail: `Invitation is ${invitation.status}`, error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    const notWritable = await checkWritable(c, invitation.organizationId);
+    if (notWritable) {
+      return notWritable;
+    }
+
+    const renew = async (executor: Pick<typeof db, "update">) => {
+      const [renewed] = await executor
+        .update(teamInvitations)
+        .set({
+          // A fresh token from the column default, so the old link stops working
+          token: teamInvitations.token.defaultFn!(),
+          status: "pending",
+          expiresAt: getInvitationExpiry(),
+          updatedAt: new Date(),
+        })
+        .where(eq(teamInvitations.id, invitation.id))
+        .returning();
+
+      return renewed;
+    };
+
+    let updated: TeamInvitation | undefined;
+
+    // An invitation that is no longer holding a seat needs a free one again
+    if (isInvitationExpired(invitation) || invitation.status === "expired") {
+      const renewed = await withSeatLock(invitation.organizationId, canInvite, renew);
+      if (!renewed.ok) {
+        return c.json(seatLimitError(renewed.usage), 403);
+      }
+      updated = renewed.value;
+    } else {
+      updated = await renew(db);
+    }
+
+    if (!updated) {
+      return c.json({ detail: "Failed to resend invitation" }, 500);
+    }
+
+    const [org] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, updated.organizationId))
+      .limit(1);
+
+    const [invitee] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${updated.email.toLowerCase()}`)
+      .limit(1);
+
+    await sendInvitationEmail(
+      updated.email,
+      user!.name || user!.email,
+      org!.name,
+      updated.token,
+      updated.message,
+      resolveLocale(invitee ?? user),
+    );
+
+    await logActivity(c, {
+      action: "member.invite_resend",
+      actionType: "update",
+      description: `Resent invitation to ${updated.email}`,
+      organizationId: updated.organizationId,
+      metadata: { invitation_id: updated.id, email: updated.email },
+    });
+
+    await refreshSeatCount(updated.organizationId);
+
+    return c.json(formatInvitation(updated));
+  } catch (error) {
+    console.error("Resend invitation error:", error);
+    return c.json({ detail: "Failed to resend invitation" }, 500);
+  }
+});
+
+/**
+ * Revoke an invitation
+ * DELETE /invitations/:id
+ */
+invitationsRouter.delete("/:id", async (c) => {
+  const invitationId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [invitation] = await db
+      .select()
+      .from(teamInvitations)
+      .where(eq(teamInvitations.id, invitationId))
+      .limit(1);
+
+    if (!invitation) {
+      return c.json({ detail: "Invitation not found" }, 404);
+    }
+
+    const denied = await authorize(c, invitation.organizationId, "member:invite");
+    if (denied) {
+      return denied;
+    }
+
+    if (invitation.status !== "pending") {
+      return c.json(
+        { detail: `Invitation is ${invitation.status}`, error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    const [revoked] = await db
+      .update(teamInvitations)
+      .set({ status: "revoked", updatedAt: new Date() })
+      .where(and(eq(teamInvitations.id, invitation.id), eq(teamInvitations.status, "pending")))
+      .returning({ id: teamInvitations.id });
+
+    if (!revoked) {
+      return c.json(
+        { detail: "Invitation is no longer pending", error: "invitation_not_pending" },
+        400,
+      );
+    }
+
+    await refreshSeatCount(invitation.organizationId);
+
+    await logActivity(c, {
+      action: "member.invite_revoke",
+      actionType: "delete",
+      description: `Revoked invitation for ${invitation.email}`,
+      organizationId: invitation.organizationId,
+      metadata: { invitation_id: invitation.id, email: invitation.email },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Revoke invitation error:", error);
+    return c.json({ detail: "Failed to revoke invitation" }, 500);
+  }
+});
+
+export default invitationsRouter;
@@ -0,0 +1,12 @@
+import { z } from "zod/v4";
+
+export const invitationTokenSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const invitationListSchema = z.object({
+  status: z.enum(["pending", "accepted", "declined", "expired", "revoked"]).default("pending"),
+});
+
+export type InvitationTokenInput = z.infer<typeof invitationTokenSchema>;
+export type InvitationListQuery = z.infer<typeof invitationListSchema>;
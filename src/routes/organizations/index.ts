@@ -1,22 +1,74 @@
 import { zValidator } from "@hono/zod-validator";
-import { and, desc, eq, sql } from "drizzle-orm";
+import { and, desc, eq, gt, isNull, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { z } from "zod/v4";
 import { db } from "../../db";
+import type { OrganizationMember, User } from "../../db/schema";
 import {
-  organizationInvitations,
+  apiKeys,
   organizationMembers,
   organizations,
+  teamInvitations,
   users,
 } from "../../db/schema";
-import { authMiddleware, orgRateLimiter, requireAuth } from "../../middleware";
+import { activityQuerySchema } from "../../lib/activity";
+import { API_KEY_SCOPES } from "../../lib/api-key-scopes";
+import { createApiKey, formatApiKey } from "../../lib/api-keys";
+import { listActivity, logActivity } from "../../lib/audit";
+import { resolveLocale } from "../../lib/i18n";
+import { getInvitationExpiry } from "../../lib/invitations";
+import { clearFailedLogins, enforceLoginGate, recordFailedLogin } from "../../lib/login-attempts";
+import {
+  getLeaveError,
+  getReauthenticationMethod,
+  getRemovalError,
+  getRoleChangeError,
+  lastOwnerError,
+  ownerRoleRequiredError,
+} from "../../lib/memberships";
+import { verifyMfaCode } from "../../lib/mfa";
+import { verifyOTPToken } from "../../lib/otp";
+import { canInvite, seatLimitError } from "../../lib/plan-limits";
+import type { TaxId } from "../../lib/tax-ids";
+import { normalizeTaxId, TAX_ID_TYPES } from "../../lib/tax-ids";
+import { dispatchWebhookEvent } from "../../lib/webhooks";
+import {
+  authMiddleware,
+  orgRateLimiter,
+  requireAuth,
+  requireFeature,
+  requirePermission,
+  requireWritable,
+} from "../../middleware";
+import {
+  formatBillingProfile,
+  getBillingProfile,
+  queueBillingProfileSync,
+  saveBillingProfile,
+} from "../../services/billing-profile.service";
 import { sendInvitationEmail } from "../../services/email.service";
+import {
+  getOrganizationEntitlements,
+  refreshSeatCount,
+  syncOrganizationEntitlements,
+  withSeatLock,
+} from "../../services/entitlement.service";
 import {
   ALLOWED_IMAGE_TYPES,
   deleteFile,
+  formatStorageUsage,
+  getStorageUsage,
   isValidFileType,
+  storageQuotaError,
   uploadFile,
 } from "../../services/storage.service";
+import {
+  formatAiCreditUsage,
+  getAiCreditUsage,
+  getUsageBreakdown,
+} from "../../services/usage.service";
+import roleRoutes, { checkGrantable, findRole } from "./roles";
+import webhookRoutes from "./webhooks";
 
 const orgsRouter = new Hono();
 
@@ -29,9 +81,35 @@ const createOrgSchema = z.object({
   description: z.string().optional(),
 });
 
+const countryCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/, "Use a two-letter ISO country code")
+  .transform((value) => value.toUpperCase());
+
 const updateOrgSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().optional(),
+  billingCountry: countryCodeSchema.nullable().optional(),
+});
+
+const billingProfileSchema = z.object({
+  legalName: z.string().trim().min(1).max(255).nullable().optional(),
+  billingEmail: z.email().max(255).nullable().optional(),
+  taxIds: z
+    .array(z.object({ type: z.enum(TAX_ID_TYPES), value: z.string().trim().min(1).max(50) }))
+    .max(5)
+    .optional(),
+  address: z
+    .object({
+      line1: z.string().trim().min(1).max(255),
+      line2: z.string().trim().max(255).nullable().optional(),
+      city: z.string().trim().min(1).max(100),
+      state: z.string().trim().max(100).nullable().optional(),
+      postalCode: z.string().trim().min(1).max(20),
+    })
+    .nullable()
+    .optional(),
+  country: countryCodeSchema.nullable().optional(),
 });
 
 const inviteMemberSchema = z.object({
@@ -45,31 +123,88 @@ const paginationSchema = z.object({
   size: z.coerce.number().min(1).max(100).default(30),
 });
 
+const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  projectId: z.coerce.number().int().optional(),
+});
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresAt: z.coerce.date().optional(),
+});
+
+const updateMemberRoleSchema = z.object({
+  role: z.enum(["owner", "admin", "member", "viewer"]),
+});
+
+const assignCustomRoleSchema = z.object({
+  roleId: z.number().nullable(),
+});
+
+const transferOwnershipSchema = z.object({
+  memberId: z.number(),
+  password: z.string().optional(),
+  code: z.string().optional(),
+  mfaCode: z.string().optional(),
+});
+
 /**
- * Helper to check if user is org member with specific role
+ * Helper to count the owners of an organization
  */
-async function checkOrgAccess(
-  userId: number,
-  orgId: number,
-  allowedRoles?: string[],
-): Promise<{ allowed: boolean; role?: string }> {
-  const [membership] = await db
-    .select()
+async function countOwners(orgId: number): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
     .from(organizationMembers)
     .where(
-      and(eq(organizationMembers.userId, userId), eq(organizationMembers.organizationId, orgId)),
-    )
-    .limit(1);
+      and(eq(organizationMembers.organizationId, orgId), eq(organizationMembers.role, "owner")),
+    );
+
+  return Number(result?.count ?? 0);
+}
 
-  if (!membership) {
-    return { allowed: false };
+/**
+ * Helper to re-authenticate the current user before a sensitive change
+ * Users confirm with their password; only accounts without one may use an email code from
+ * POST /auth/otp/send. MFA users also need an authentication code
+ */
+async function verifyReauthentication(
+  user: User,
+  credentials: { password?: string; code?: string; mfaCode?: string },
+): Promise<boolean> {
+  if (getReauthenticationMethod(user) === "code") {
+    if (!credentials.code || !(await verifyOTPToken(user.email, credentials.code))) {
+      return false;
+    }
+  } else if (
+    !credentials.password ||
+    !user.hashedPassword ||
+    !(await Bun.password.verify(credentials.password, user.hashedPassword))
+  ) {
+    return false;
   }
 
-  if (allowedRoles && !allowedRoles.includes(membership.role)) {
-    return { allowed: false, role: membership.role };
+  if (user.mfaEnabled) {
+    return !!credentials.mfaCode && !!(await verifyMfaCode(user, credentials.mfaCode));
   }
 
-  return { allowed: true, role: membership.role };
+  return true;
+}
+
+/**
+ * Format an organization member for API responses
+ */
+function formatMember(member: OrganizationMember) {
+  return {
+    id: member.id,
+    role: member.role,
+    custom_role_id: member.customRoleId,
+    user_id: member.userId,
+    organization_id: member.organizationId,
+    created_at: member.createdAt?.toISOString(),
+    updated_at: member.updatedAt?.toISOString(),
+  };
 }
 
 /**
@@ -109,6 +244,13 @@ orgsRouter.post("/", orgRateLimiter, zValidator("json", createOrgSchema), async
       role: "owner",
     });
 
+    await logActivity(c, {
+      action: "organization.create",
+      actionType: "create",
+      description: `Created organization ${org.name}`,
+      organizationId: org.id,
+    });
+
     return c.json(
       {
         id: org.id,
@@ -120,6 +262,7 @@ orgsRouter.post("/", orgRateLimiter, zValidator("json", createOrgSchema), async
         subscription_status: org.subscriptionStatus,
         max_projects: org.maxProjects,
         active_projects: org.activeProjects,
+        read_only: org.readOnly,
         created_at: org.createdAt?.toISOString(),
         updated_at: org.updatedAt?.toISOString(),
       },
@@ -174,6 +317,7 @@ orgsRouter.get("/", zValidator("query", paginationSchema), async (c) => {
         subscription_status: m.organization.subscriptionStatus,
         max_projects: m.organization.maxProjects,
         active_projects: m.organization.activeProjects,
+        read_only: m.organization.readOnly,
         created_at: m.organization.createdAt?.toISOString(),
         updated_at: m.organization.updatedAt?.toISOString(),
         my_role: m.role,
@@ -193,17 +337,10 @@ orgsRouter.get("/", zValidator("query", paginationSchema), async (c) => {
  * Get organization by ID
  * GET /organizations/:id
  */
-orgsRouter.get("/:id", async (c) => {
-  const user = c.get("user");
+orgsRouter.get("/:id", requirePermission("organization:read"), async (c) => {
   const orgId = parseInt(c.req.param("id"), 10);
 
   try {
-    // Check access
-    const access = await checkOrgAccess(user!.id, orgId);
-    if (!access.allowed) {
-      return c.json({ detail: "Organization not found" }, 404);
-    }
-
     const [org] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
 
     if (!org) {
@@ -215,6 +352,7 @@ orgsRouter.get("/:id", async (c) => {
       .select({
         id: organizationMembers.id,
         role: organizationMembers.role,
+        customRoleId: organizationMembers.customRoleId,
         user: {
           id: users.id,
           email: users.email,
@@ -235,14 +373,17 @@ orgsRouter.get("/:id", async (c) => {
       logo_url: org.logoUrl,
       plan_name: org.planName,
       subscription_status: org.subscriptionStatus,
+      billing_country: org.billingCountry,
       max_projects: org.maxProjects,
       active_projects: org.activeProjects,
+      read_only: org.readOnly,
       created_at: org.createdAt?.toISOString(),
       updated_at: org.updatedAt?.toISOString(),
-      my_role: access.role,
+      my_role: c.get("orgAccess")?.role,
       members: members.map((m) => ({
         id: m.id,
         role: m.role,
+        custom_role_id: m.customRoleId,
         user: {
           id: m.user.id,
           email: m.user.email,
@@ -262,66 +403,84 @@ orgsRouter.get("/:id", async (c) => {
  * Update organization
  * PUT /organizations/:id
  */
-orgsRouter.put("/:id", zValidator("json", updateOrgSchema), async (c) => {
-  const user = c.get("user");
-  const orgId = parseInt(c.req.param("id"), 10);
-  const data = c.req.valid("json");
-
-  try {
-    // Check access (owner or admin only)
-    const access = await checkOrgAccess(user!.id, orgId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
+orgsRouter.put(
+  "/:id",
+  requirePermission("organization:update"),
+  zValidator("json", updateOrgSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const data = c.req.valid("json");
+
+    try {
+      const [updated] = await db
+        .update(organizations)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+        })
+        .where(eq(organizations.id, orgId))
+        .returning();
+
+      if (!updated) {
+        return c.json({ detail: "Organization not found" }, 404);
+      }
 
-    const [updated] = await db
-      .update(organizations)
-      .set({
-        ...data,
-        updatedAt: new Date(),
-      })
-      .where(eq(organizations.id, orgId))
-      .returning();
+      await logActivity(c, {
+        action: "organization.update",
+        actionType: "update",
+        description: `Updated organization ${updated.name}`,
+        organizationId: orgId,
+        metadata: { changes: data },
+      });
+
+      const organization = {
+        id: updated.id,
+        name: updated.name,
+        slug: updated.slug,
+        description: updated.description,
+        logo_url: updated.logoUrl,
+        plan_name: updated.planName,
+        subscription_status: updated.subscriptionStatus,
+        billing_country: updated.billingCountry,
+        max_projects: updated.maxProjects,
+        active_projects: updated.activeProjects,
+        read_only: updated.readOnly,
+        created_at: updated.createdAt?.toISOString(),
+        updated_at: updated.updatedAt?.toISOString(),
+      };
+
+      await dispatchWebhookEvent(orgId, "organization.updated", { organization, changes: data });
+
+      // The country is part of the Stripe customer's address
+      if (data.billingCountry !== undefined) {
+        await queueBillingProfileSync(orgId);
+      }
 
-    if (!updated) {
-      return c.json({ detail: "Organization not found" }, 404);
+      return c.json(organization);
+    } catch (error) {
+      console.error("Update organization error:", error);
+      return c.json({ detail: "Failed to update organization" }, 500);
     }
-
-    return c.json({
-      id: updated.id,
-      name: updated.name,
-      slug: updated.slug,
-      description: updated.description,
-      logo_url: updated.logoUrl,
-      plan_name: updated.planName,
-      subscription_status: updated.subscriptionStatus,
-      max_projects: updated.maxProjects,
-      active_projects: updated.activeProjects,
-      created_at: updated.createdAt?.toISOString(),
-      updated_at: updated.updatedAt?.toISOString(),
-    });
-  } catch (error) {
-    console.error("Update organization error:", error);
-    return c.json({ detail: "Failed to update organization" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Delete organization
  * DELETE /organizations/:id
  */
-orgsRouter.delete("/:id", async (c) => {
-  const user = c.get("user");
+orgsRouter.delete("/:id", requirePermission("organization:delete"), async (c) => {
   const orgId = parseInt(c.req.param("id"), 10);
 
   try {
-    // Check access (owner only)
-    const access = await checkOrgAccess(user!.id, orgId, ["owner"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
-
-    await db.delete(organizations).where(eq(organizations.id, orgId));
+    const [deleted] = await db.delete(organizations).where(eq(organizations.id, orgId)).returning();
+
+    // Logs lose their organization link once it is deleted, keep the reference in metadata
+    await logActivity(c, {
+      action: "organization.delete",
+      actionType: "delete",
+      description: `Deleted organization ${deleted?.name ?? orgId}`,
+      metadata: { organization_id: orgId, name: deleted?.name },
+    });
 
     return c.json({ success: true });
   } catch (error) {
@@ -334,80 +493,89 @@ orgsRouter.delete("/:id", async (c) => {
  * Upload organization logo
  * POST /organizations/:id/logo
  */
-orgsRouter.post("/:id/logo", async (c) => {
-  const user = c.get("user");
-  const orgId = parseInt(c.req.param("id"), 10);
+orgsRouter.post(
+  "/:id/logo",
+  requirePermission("organization:update"),
+  requireWritable(),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+
+    try {
+      const body = await c.req.parseBody();
+      const file = body.file;
+
+      if (!file || !(file instanceof File)) {
+        return c.json({ detail: "No file provided" }, 400);
+      }
 
-  try {
-    // Check access
-    const access = await checkOrgAccess(user!.id, orgId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
+      if (!isValidFileType(file.type, ALLOWED_IMAGE_TYPES)) {
+        return c.json({ detail: "Invalid file type" }, 400);
+      }
 
-    const body = await c.req.parseBody();
-    const file = body.file;
+      if (file.size > 5 * 1024 * 1024) {
+        return c.json({ detail: "File too large (max 5MB)" }, 400);
+      }
 
-    if (!file || !(file instanceof File)) {
-      return c.json({ detail: "No file provided" }, 400);
-    }
+      // Get org
+      const [org] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, orgId))
+        .limit(1);
 
-    if (!isValidFileType(file.type, ALLOWED_IMAGE_TYPES)) {
-      return c.json({ detail: "Invalid file type" }, 400);
-    }
+      // Upload new logo
+      const result = await uploadFile({
+        file,
+        filename: file.name,
+        folder: "org-logos",
+        contentType: file.type,
+        organizationId: orgId,
+      });
 
-    if (file.size > 5 * 1024 * 1024) {
-      return c.json({ detail: "File too large (max 5MB)" }, 400);
-    }
+      if (!result) {
+        return c.json({ detail: "Upload failed" }, 500);
+      }
 
-    // Get org
-    const [org] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
+      if (!result.ok) {
+        return c.json(storageQuotaError(result.usage, file.size), 413);
+      }
 
-    // Delete old logo if exists
-    if (org?.logoUrl) {
-      const oldKey = org.logoUrl.split("/").slice(-2).join("/");
-      await deleteFile(oldKey);
-    }
+      // Delete old logo once the new one is stored
+      if (org?.logoUrl) {
+        const oldKey = org.logoUrl.split("/").slice(-2).join("/");
+        await deleteFile(oldKey);
+      }
 
-    // Upload new logo
-    const result = await uploadFile({
-      file,
-      filename: file.name,
-      folder: "org-logos",
-      contentType: file.type,
-    });
+      // Update org logo URL
+      await db
+        .update(organizations)
+        .set({ logoUrl: result.url, updatedAt: new Date() })
+        .where(eq(organizations.id, orgId));
+
+      await logActivity(c, {
+        action: "organization.logo_upload",
+        actionType: "update",
+        description: "Uploaded organization logo",
+        organizationId: orgId,
+        metadata: { key: result.key, size: file.size, content_type: file.type },
+      });
 
-    if (!result) {
+      return c.json({ logo_url: result.url });
+    } catch (error) {
+      console.error("Upload logo error:", error);
       return c.json({ detail: "Upload failed" }, 500);
     }
-
-    // Update org logo URL
-    await db
-      .update(organizations)
-      .set({ logoUrl: result.url, updatedAt: new Date() })
-      .where(eq(organizations.id, orgId));
-
-    return c.json({ logo_url: result.url });
-  } catch (error) {
-    console.error("Upload logo error:", error);
-    return c.json({ detail: "Upload failed" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Delete organization logo
  * DELETE /organizations/:id/logo
  */
-orgsRouter.delete("/:id/logo", async (c) => {
-  const user = c.get("user");
+orgsRouter.delete("/:id/logo", requirePermission("organization:update"), async (c) => {
   const orgId = parseInt(c.req.param("id"), 10);
 
   try {
-    const access = await checkOrgAccess(user!.id, orgId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
-
     const [org] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
 
     if (org?.logoUrl) {
@@ -418,6 +586,13 @@ orgsRouter.delete("/:id/logo", async (c) => {
         .update(organizations)
         .set({ logoUrl: null, updatedAt: new Date() })
         .where(eq(organizations.id, orgId));
+
+      await logActivity(c, {
+        action: "organization.logo_delete",
+        actionType: "delete",
+        description: "Deleted organization logo",
+        organizationId: orgId,
+      });
     }
 
     return c.json({ success: true });
@@ -431,115 +606,138 @@ orgsRouter.delete("/:id/logo", async (c) => {
  * Invite member to organization
  * POST /organizations/:id/invite
  */
-orgsRouter.post("/:id/invite", zValidator("json", inviteMemberSchema), async (c) => {
-  const user = c.get("user");
-  const orgId = parseInt(c.req.param("id"), 10);
-  const { email, role, message } = c.req.valid("json");
-
-  try {
-    // Check access (owner or admin only)
-    const access = await checkOrgAccess(user!.id, orgId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
-
-    // Check if already a member
-    const [invitee] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+orgsRouter.post(
+  "/:id/invite",
+  requirePermission("member:invite"),
+  requireWritable(),
+  zValidator("json", inviteMemberSchema),
+  async (c) => {
+    const user = c.get("user");
+    const orgId = parseInt(c.req.param("id"), 10);
+    const { email, role, message } = c.req.valid("json");
+
+    try {
+      // Check if already a member
+      const [invitee] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+
+      if (invitee) {
+        const [existingMembership] = await db
+          .select()
+          .from(organizationMembers)
+          .where(
+            and(
+              eq(organizationMembers.userId, invitee.id),
+              eq(organizationMembers.organizationId, orgId),
+            ),
+          )
+          .limit(1);
+
+        if (existingMembership) {
+          return c.json({ detail: "User is already a member" }, 400);
+        }
+      }
 
-    if (invitee) {
-      const [existingMembership] = await db
+      // Check for existing pending invitation that hasn't expired yet
+      const [existingInvite] = await db
         .select()
-        .from(organizationMembers)
+        .from(teamInvitations)
         .where(
           and(
-            eq(organizationMembers.userId, invitee.id),
-            eq(organizationMembers.organizationId, orgId),
+            sql`lower(${teamInvitations.email}) = ${email.toLowerCase()}`,
+            eq(teamInvitations.organizationId, orgId),
+            eq(teamInvitations.status, "pending"),
+            gt(teamInvitations.expiresAt, new Date()),
           ),
         )
         .limit(1);
 
-      if (existingMembership) {
-        return c.json({ detail: "User is already a member" }, 400);
+      if (existingInvite) {
+        return c.json({ detail: "Invitation already sent" }, 400);
       }
-    }
 
-    // Check for existing pending invitation
-    const [existingInvite] = await db
-      .select()
-      .from(organizationInvitations)
-      .where(
-        and(
-          eq(organizationInvitations.email, email),
-          eq(organizationInvitations.organizationId, orgId),
-          eq(organizationInvitations.status, "pending"),
-        ),
-      )
-      .limit(1);
+      // Get organization
+      const [org] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, orgId))
+        .limit(1);
 
-    if (existingInvite) {
-      return c.json({ detail: "Invitation already sent" }, 400);
-    }
+      // Pending invitations hold a seat until they are accepted, declined or expire
+      const reserved = await withSeatLock(orgId, canInvite, async (tx) => {
+        const [created] = await tx
+          .insert(teamInvitations)
+          .values({
+            organizationId: orgId,
+            invitedById: user!.id,
+            email,
+            role,
+            message: message || null,
+            status: "pending",
+            expiresAt: getInvitationExpiry(),
+          })
+          .returning();
+
+        return created;
+      });
+
+      if (!reserved.ok) {
+        return c.json(seatLimitError(reserved.usage), 403);
+      }
 
-    // Get organization
-    const [org] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
+      const invitation = reserved.value;
 
-    // Create invitation
-    const [invitation] = await db
-      .insert(organizationInvitations)
-      .values({
-        organizationId: orgId,
-        invitedById: user!.id,
-        email,
-        role,
-        status: "pending",
-        inviteeId: invitee?.id || null,
-      })
-      .returning();
+      if (!invitation) {
+        return c.json({ detail: "Failed to create invitation" }, 500);
+      }
 
-    if (!invitation) {
-      return c.json({ detail: "Failed to create invitation" }, 500);
+      // Send invitation email, in the inviter's language when the invitee has no account yet
+      await sendInvitationEmail(
+        email,
+        user!.name || user!.email,
+        org!.name,
+        invitation.token,
+        message,
+        resolveLocale(invitee ?? user),
+      );
+
+      await logActivity(c, {
+        action: "member.invite",
+        actionType: "create",
+        description: `Invited ${email} as ${role}`,
+        organizationId: orgId,
+        metadata: { invitation_id: invitation.id, email, role },
+      });
+
+      await refreshSeatCount(orgId);
+
+      return c.json({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expires_at: invitation.expiresAt.toISOString(),
+        created_at: invitation.createdAt?.toISOString(),
+      });
+    } catch (error) {
+      console.error("Invite member error:", error);
+      return c.json({ detail: "Failed to send invitation" }, 500);
     }
-
-    // Send invitation email
-    await sendInvitationEmail(
-      email,
-      user!.name || user!.email,
-      org!.name,
-      String(invitation.id),
-      message,
-    );
-
-    return c.json({
-      id: invitation.id,
-      email: invitation.email,
-      role: invitation.role,
-      status: invitation.status,
-      created_at: invitation.createdAt?.toISOString(),
-    });
-  } catch (error) {
-    console.error("Invite member error:", error);
-    return c.json({ detail: "Failed to send invitation" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Get organization members
  * GET /organizations/:id/members
  */
-orgsRouter.get("/:id/members", async (c) => {
-  const user = c.get("user");
+orgsRouter.get("/:id/members", requirePermission("member:read"), async (c) => {
   const orgId = parseInt(c.req.param("id"), 10);
 
   try {
-    const access = await checkOrgAccess(user!.id, orgId);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
-
     const members = await db
       .select({
         id: organizationMembers.id,
         role: organizationMembers.role,
+        customRoleId: organizationMembers.customRoleId,
         user: {
           id: users.id,
           email: users.email,
@@ -556,6 +754,7 @@ orgsRouter.get("/:id/members", async (c) => {
       items: members.map((m) => ({
         id: m.id,
         role: m.role,
+        custom_role_id: m.customRoleId,
         user: {
           id: m.user.id,
           email: m.user.email,
@@ -571,22 +770,164 @@ orgsRouter.get("/:id/members", async (c) => {
   }
 });
 
+/**
+ * Update the role of an organization member
+ * PATCH /organizations/:id/members/:memberId
+ */
+orgsRouter.patch(
+  "/:id/members/:memberId",
+  requirePermission("member:update"),
+  zValidator("json", updateMemberRoleSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const memberId = parseInt(c.req.param("memberId"), 10);
+    const { role } = c.req.valid("json");
+
+    try {
+      const [member] = await db
+        .select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.id, memberId))
+        .limit(1);
+
+      if (!member || member.organizationId !== orgId) {
+        return c.json({ detail: "Member not found" }, 404);
+      }
+
+      const ownerCount = member.role === "owner" ? await countOwners(orgId) : 0;
+      const changeError = getRoleChangeError(
+        c.get("orgAccess")?.role,
+        member.role,
+        role,
+        ownerCount,
+      );
+      if (changeError === "owner_role_required") {
+        return c.json(ownerRoleRequiredError, 403);
+      }
+      if (changeError === "last_owner") {
+        return c.json(lastOwnerError, 400);
+      }
+
+      if (member.role === role) {
+        return c.json(formatMember(member));
+      }
+
+      const [updated] = await db
+        .update(organizationMembers)
+        .set({ role, updatedAt: new Date() })
+        .where(eq(organizationMembers.id, memberId))
+        .returning();
+
+      if (!updated) {
+        return c.json({ detail: "Member not found" }, 404);
+      }
+
+      await logActivity(c, {
+        action: "member.role_update",
+        actionType: "update",
+        description: `Changed member role from ${member.role} to ${role}`,
+        organizationId: orgId,
+        metadata: { member_id: memberId, user_id: member.userId, from: member.role, to: role },
+      });
+
+      await dispatchWebhookEvent(orgId, "member.updated", {
+        member: formatMember(updated),
+        previous_role: member.role,
+      });
+
+      return c.json(formatMember(updated));
+    } catch (error) {
+      console.error("Update member role error:", error);
+      return c.json({ detail: "Failed to update member role" }, 500);
+    }
+  },
+);
+
+/**
+ * Assign a custom role to an organization member, or clear it with `roleId: null`
+ * PUT /organizations/:id/members/:memberId/custom-role
+ */
+orgsRouter.put(
+  "/:id/members/:memberId/custom-role",
+  requirePermission("member:update"),
+  zValidator("json", assignCustomRoleSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const memberId = parseInt(c.req.param("memberId"), 10);
+    const { roleId } = c.req.valid("json");
+
+    try {
+      const [member] = await db
+        .select()
+        .from(organizationMembers)
+        .where(
+          and(eq(organizationMembers.id, memberId), eq(organizationMembers.organizationId, orgId)),
+        )
+        .limit(1);
+
+      if (!member) {
+        return c.json({ detail: "Member not found" }, 404);
+      }
+
+      if (member.role === "owner" && c.get("orgAccess")?.role !== "owner") {
+        return c.json(ownerRoleRequiredError, 403);
+      }
+
+      const role = roleId === null ? null : await findRole(orgId, roleId);
+
+      if (roleId !== null && !role) {
+        return c.json({ detail: "Role not found" }, 404);
+      }
+
+      // Both the role being replaced and the new one must be within the caller's own permissions
+      const previous = member.customRoleId ? await findRole(orgId, member.customRoleId) : null;
+      const denied = checkGrantable(c, [
+        ...(previous?.permissions ?? []),
+        ...(role?.permissions ?? []),
+      ]);
+      if (denied) {
+        return denied;
+      }
+
+      const [updated] = await db
+        .update(organizationMembers)
+        .set({ customRoleId: role?.id ?? null, updatedAt: new Date() })
+        .where(eq(organizationMembers.id, member.id))
+        .returning();
+
+      await logActivity(c, {
+        action: "member.custom_role_update",
+        actionType: "update",
+        description: role
+          ? `Assigned custom role ${role.name} to a member`
+          : "Removed the custom role of a member",
+        organizationId: orgId,
+        metadata: {
+          member_id: member.id,
+          user_id: member.userId,
+          from: member.customRoleId,
+          to: role?.id ?? null,
+        },
+      });
+
+      return c.json(formatMember(updated!));
+    } catch (error) {
+      console.error("Assign custom role error:", error);
+      return c.json({ detail: "Failed to assign custom role" }, 500);
+    }
+  },
+);
+
 /**
  * Remove member from organization
  * DELETE /organizations/:id/members/:memberId
  */
-orgsRouter.delete("/:id/members/:memberId", async (c) => {
+orgsRouter.delete("/:id/members/:memberId", requirePermission("member:remove"), async (c) => {
   const user = c.get("user");
   const orgId = parseInt(c.req.param("id"), 10);
   const memberId = parseInt(c.req.param("memberId"), 10);
 
   try {
-    // Check access (owner or admin only)
-    const access = await checkOrgAccess(user!.id, orgId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
-
     // Get member to be removed
     const [member] = await db
       .select()
@@ -598,18 +939,29 @@ orgsRouter.delete("/:id/members/:memberId", async (c) => {
       return c.json({ detail: "Member not found" }, 404);
     }
 
-    // Can't remove owner
-    if (member.role === "owner") {
-      return c.json({ detail: "Cannot remove owner" }, 400);
-    }
-
-    // Can't remove yourself
+    // Members leave through POST /organizations/:id/leave
     if (member.userId === user!.id) {
       return c.json({ detail: "Cannot remove yourself" }, 400);
     }
 
+    if (getRemovalError(c.get("orgAccess")?.role, member.role)) {
+      return c.json(ownerRoleRequiredError, 403);
+    }
+
     await db.delete(organizationMembers).where(eq(organizationMembers.id, memberId));
 
+    await logActivity(c, {
+      action: "member.remove",
+      actionType: "delete",
+      description: "Removed organization member",
+      organizationId: orgId,
+      metadata: { member_id: memberId, user_id: member.userId, role: member.role },
+    });
+
+    await dispatchWebhookEvent(orgId, "member.removed", { member: formatMember(member) });
+
+    await syncOrganizationEntitlements(orgId);
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Remove member error:", error);
@@ -617,4 +969,468 @@ orgsRouter.delete("/:id/members/:memberId", async (c) => {
   }
 });
 
+/**
+ * Transfer ownership to another member
+ * The current owner must re-authenticate and becomes an admin
+ * POST /organizations/:id/transfer-ownership
+ */
+orgsRouter.post(
+  "/:id/transfer-ownership",
+  requirePermission("member:update"),
+  zValidator("json", transferOwnershipSchema),
+  async (c) => {
+    const user = c.get("user");
+    const orgId = parseInt(c.req.param("id"), 10);
+    const { memberId, ...credentials } = c.req.valid("json");
+
+    try {
+      if (c.get("orgAccess")?.role !== "owner") {
+        return c.json(ownerRoleRequiredError, 403);
+      }
+
+      const [member] = await db
+        .select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.id, memberId))
+        .limit(1);
+
+      if (!member || member.organizationId !== orgId) {
+        return c.json({ detail: "Member not found" }, 404);
+      }
+
+      if (member.userId === user!.id) {
+        return c.json({ detail: "You already own this organization" }, 400);
+      }
+
+      // Re-authentication failures count toward the account lockout like failed sign-ins
+      const gated = enforceLoginGate(c, user!);
+      if (gated) {
+        return gated;
+      }
+
+      if (!(await verifyReauthentication(user!, credentials))) {
+        await recordFailedLogin(user!);
+        return c.json(
+          { detail: "Re-authentication failed", error: "reauthentication_failed" },
+          403,
+        );
+      }
+
+      await clearFailedLogins(user!);
+
+      const [newOwner, demoted] = await db.transaction(async (tx) => {
+        const [promoted] = await tx
+          .update(organizationMembers)
+          .set({ role: "owner", updatedAt: new Date() })
+          .where(eq(organizationMembers.id, memberId))
+          .returning();
+
+        const [previousOwner] = await tx
+          .update(organizationMembers)
+          .set({ role: "admin", updatedAt: new Date() })
+          .where(
+            and(
+              eq(organizationMembers.organizationId, orgId),
+              eq(organizationMembers.userId, user!.id),
+            ),
+          )
+          .returning();
+
+        return [promoted, previousOwner] as const;
+      });
+
+      await logActivity(c, {
+        action: "organization.transfer_ownership",
+        actionType: "update",
+        description: "Transferred organization ownership",
+        organizationId: orgId,
+        metadata: { member_id: memberId, user_id: member.userId, previous_role: member.role },
+      });
+
+      if (newOwner) {
+        await dispatchWebhookEvent(orgId, "member.updated", {
+          member: formatMember(newOwner),
+          previous_role: member.role,
+        });
+      }
+      if (demoted) {
+        await dispatchWebhookEvent(orgId, "member.updated", {
+          member: formatMember(demoted),
+          previous_role: "owner",
+        });
+      }
+
+      return c.json({
+        owner: newOwner ? formatMember(newOwner) : null,
+        my_role: "admin",
+      });
+    } catch (error) {
+      console.error("Transfer ownership error:", error);
+      return c.json({ detail: "Failed to transfer ownership" }, 500);
+    }
+  },
+);
+
+/**
+ * Leave an organization
+ * POST /organizations/:id/leave
+ */
+orgsRouter.post("/:id/leave", requirePermission("organization:read"), async (c) => {
+  const user = c.get("user");
+  const orgId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const role = c.get("orgAccess")?.role;
+    if (getLeaveError(role, role === "owner" ? await countOwners(orgId) : 0)) {
+      return c.json(
+        {
+          ...lastOwnerError,
+          detail: "Transfer ownership before leaving the organization",
+        },
+        400,
+      );
+    }
+
+    const [left] = await db
+      .delete(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.organizationId, orgId),
+          eq(organizationMembers.userId, user!.id),
+        ),
+      )
+      .returning();
+
+    await logActivity(c, {
+      action: "member.leave",
+      actionType: "delete",
+      description: "Left organization",
+      organizationId: orgId,
+      metadata: { member_id: left?.id, role: left?.role },
+    });
+
+    if (left) {
+      await dispatchWebhookEvent(orgId, "member.removed", { member: formatMember(left) });
+    }
+
+    await syncOrganizationEntitlements(orgId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Leave organization error:", error);
+    return c.json({ detail: "Failed to leave organization" }, 500);
+  }
+});
+
+/**
+ * Get organization activity feed
+ * GET /organizations/:id/activity
+ */
+orgsRouter.get(
+  "/:id/activity",
+  requirePermission("audit:read"),
+  zValidator("query", activityQuerySchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const query = c.req.valid("query");
+
+    try {
+      const { items, nextCursor } = await listActivity({ organizationId: orgId }, query);
+
+      return c.json({
+        items,
+        next_cursor: nextCursor,
+      });
+    } catch (error) {
+      console.error("List organization activity error:", error);
+      return c.json({ detail: "Failed to list activity" }, 500);
+    }
+  },
+);
+
+/**
+ * Get organization storage usage by folder
+ * GET /organizations/:id/storage
+ */
+orgsRouter.get("/:id/storage", requirePermission("storage:read"), async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const usage = await getStorageUsage(orgId);
+
+    return c.json(formatStorageUsage(usage));
+  } catch (error) {
+    console.error("Get storage usage error:", error);
+    return c.json({ detail: "Failed to get storage usage" }, 500);
+  }
+});
+
+/**
+ * Get the features and limits an organization is entitled to
+ * GET /organizations/:id/entitlements
+ */
+orgsRouter.get("/:id/entitlements", requirePermission("organization:read"), async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const entitlements = await getOrganizationEntitlements(orgId);
+
+    if (!entitlements) {
+      return c.json({ detail: "Organization not found" }, 404);
+    }
+
+    return c.json({
+      plan_name: entitlements.planName,
+      subscription_status: entitlements.subscriptionStatus,
+      features: entitlements.features,
+      overrides: entitlements.overrides,
+      limits: {
+        max_projects: entitlements.maxProjects,
+        max_users: entitlements.maxUsers,
+        max_storage_gb: entitlements.maxStorageGb,
+        max_ai_credits_monthly: entitlements.maxAiCreditsMonthly,
+      },
+      ai_features_enabled: entitlements.aiFeaturesEnabled,
+    });
+  } catch (error) {
+    console.error("Get entitlements error:", error);
+    return c.json({ detail: "Failed to get entitlements" }, 500);
+  }
+});
+
+/**
+ * Get organization billing profile
+ * GET /organizations/:id/billing-profile
+ */
+orgsRouter.get("/:id/billing-profile", requirePermission("billing:read"), async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [org] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
+
+    if (!org) {
+      return c.json({ detail: "Organization not found" }, 404);
+    }
+
+    return c.json(formatBillingProfile(org, await getBillingProfile(orgId)));
+  } catch (error) {
+    console.error("Get billing profile error:", error);
+    return c.json({ detail: "Failed to get billing profile" }, 500);
+  }
+});
+
+/**
+ * Update organization billing profile; changes are pushed to the Stripe customer
+ * PUT /organizations/:id/billing-profile
+ */
+orgsRouter.put(
+  "/:id/billing-profile",
+  requirePermission("billing:manage"),
+  zValidator("json", billingProfileSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const { country, taxIds, ...data } = c.req.valid("json");
+
+    // Stored in the format Stripe expects, without duplicates
+    const normalizedTaxIds: TaxId[] = [];
+    for (const taxId of taxIds ?? []) {
+      const value = normalizeTaxId(taxId.type, taxId.value);
+
+      if (!value) {
+        return c.json(
+          {
+            detail: `Invalid ${taxId.type.toUpperCase()}: ${taxId.value}`,
+            error: "invalid_tax_id",
+            tax_id: taxId,
+          },
+          400,
+        );
+      }
+      if (!normalizedTaxIds.some((item) => item.type === taxId.type && item.value === value)) {
+        normalizedTaxIds.push({ type: taxId.type, value });
+      }
+    }
+
+    try {
+      const [org] =
+        country !== undefined
+          ? await db
+              .update(organizations)
+              .set({ billingCountry: country, updatedAt: new Date() })
+              .where(eq(organizations.id, orgId))
+              .returning()
+          : await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
+
+      if (!org) {
+        return c.json({ detail: "Organization not found" }, 404);
+      }
+
+      const profile = await saveBillingProfile(orgId, {
+        ...data,
+        ...(taxIds !== undefined && { taxIds: normalizedTaxIds }),
+      });
+
+      await logActivity(c, {
+        action: "organization.billing_profile.update",
+        actionType: "update",
+        description: `Updated billing profile of ${org.name}`,
+        organizationId: orgId,
+        metadata: {
+          fields: Object.keys(c.req.valid("json")),
+        },
+      });
+
+      return c.json(formatBillingProfile(org, profile));
+    } catch (error) {
+      console.error("Update billing profile error:", error);
+      return c.json({ detail: "Failed to update billing profile" }, 500);
+    }
+  },
+);
+
+/**
+ * Get organization AI credit usage, broken down by feature and day
+ * Defaults to the current period; `from` and `to` pick another range
+ * GET /organizations/:id/usage
+ */
+orgsRouter.get(
+  "/:id/usage",
+  requirePermission("billing:read"),
+  zValidator("query", usageQuerySchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id"), 10);
+    const { from, to, projectId } = c.req.valid("query");
+
+    try {
+      const credits = await getAiCreditUsage(orgId);
+      const range = { start: from ?? credits.period.start, end: to ?? credits.period.end };
+
+      if (range.start >= range.end) {
+        return c.json({ detail: "`from` must be before `to`" }, 400);
+      }
+
+      const breakdown = await getUsageBreakdown(orgId, range, projectId);
+
+      return c.json({
+        credits: formatAiCreditUsage(credits),
+        from: range.start.toISOString(),
+        to: range.end.toISOString(),
+        by_feature: breakdown.byFeature,
+        by_day: breakdown.byDay,
+      });
+    } catch (error) {
+      console.error("Get usage error:", error);
+      return c.json({ detail: "Failed to get usage" }, 500);
+    }
+  },
+);
+
+/**
+ * List organization API keys
+ * GET /organizations/:id/api-keys
+ */
+orgsRouter.get("/:id/api-keys", requirePermission("api_key:manage"), async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+
+  try {
+    const keys = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.organizationId, orgId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return c.json({
+      items: keys.map(formatApiKey),
+    });
+  } catch (error) {
+    console.error("List API keys error:", error);
+    return c.json({ detail: "Failed to list API keys" }, 500);
+  }
+});
+
+/**
+ * Create organization API key
+ * The secret is only returned in this response
+ * POST /organizations/:id/api-keys
+ */
+orgsRouter.post(
+  "/:id/api-keys",
+  requirePermission("api_key:manage"),
+  requireFeature("api_access"),
+  requireWritable(),
+  zValidator("json", createApiKeySchema),
+  async (c) => {
+    const user = c.get("user");
+    const orgId = parseInt(c.req.param("id"), 10);
+    const { name, scopes, expiresAt } = c.req.valid("json");
+
+    try {
+      if (expiresAt && expiresAt <= new Date()) {
+        return c.json({ detail: "Expiration must be in the future" }, 400);
+      }
+
+      const { apiKey, key } = await createApiKey({
+        organizationId: orgId,
+        createdById: user!.id,
+        name,
+        scopes,
+        expiresAt,
+      });
+
+      await logActivity(c, {
+        action: "api_key.create",
+        actionType: "create",
+        description: `Created API key ${name}`,
+        organizationId: orgId,
+        metadata: { api_key_id: apiKey.id, prefix: apiKey.prefix, scopes },
+      });
+
+      return c.json({ ...formatApiKey(apiKey), key }, 201);
+    } catch (error) {
+      console.error("Create API key error:", error);
+      return c.json({ detail: "Failed to create API key" }, 500);
+    }
+  },
+);
+
+/**
+ * Revoke organization API key
+ * DELETE /organizations/:id/api-keys/:keyId
+ */
+orgsRouter.delete("/:id/api-keys/:keyId", requirePermission("api_key:manage"), async (c) => {
+  const orgId = parseInt(c.req.param("id"), 10);
+  const keyId = parseInt(c.req.param("keyId"), 10);
+
+  try {
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(apiKeys.id, keyId), eq(apiKeys.organizationId, orgId), isNull(apiKeys.revokedAt)),
+      )
+      .returning();
+
+    if (!revoked) {
+      return c.json({ detail: "API key not found" }, 404);
+    }
+
+    await logActivity(c, {
+      action: "api_key.revoke",
+      actionType: "delete",
+      description: `Revoked API key ${revoked.name}`,
+      organizationId: orgId,
+      metadata: { api_key_id: revoked.id, prefix: revoked.prefix },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Revoke API key error:", error);
+    return c.json({ detail: "Failed to revoke API key" }, 500);
+  }
+});
+
+// Mount custom role and webhook routes
+orgsRouter.route("/:id/roles", roleRoutes);
+orgsRouter.route("/:id/webhooks", webhookRoutes);
+
 export default orgsRouter;
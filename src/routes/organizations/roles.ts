@@ -0,0 +1,226 @@
+import { zValidator } from "@hono/zod-validator";
+import { and, asc, eq } from "drizzle-orm";
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { z } from "zod/v4";
+import { db } from "../../db";
+import type { OrganizationRole } from "../../db/schema";
+import { organizationRoles } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import { getUngrantablePermissions, PERMISSIONS } from "../../lib/permissions";
+import { requirePermission, requireWritable } from "../../middleware";
+
+const roles = new Hono();
+
+// Schemas
+const createRoleSchema = z.object({
+  name: z.string().min(1).max(50),
+  description: z.string().max(255).optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1),
+});
+
+const updateRoleSchema = z.object({
+  name: z.string().min(1).max(50).optional(),
+  description: z.string().max(255).nullable().optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1).optional(),
+});
+
+/**
+ * Format a custom role for API responses
+ */
+export function formatRole(role: OrganizationRole) {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions,
+    organization_id: role.organizationId,
+    created_at: role.createdAt.toISOString(),
+    updated_at: role.updatedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Helper to load a custom role of the organization
+ */
+export async function findRole(orgId: number, roleId: number) {
+  const [role] = await db
+    .select()
+    .from(organizationRoles)
+    .where(and(eq(organizationRoles.id, roleId), eq(organizationRoles.organizationId, orgId)))
+    .limit(1);
+
+  return role ?? null;
+}
+
+/**
+ * Helper to reject granting permissions the current principal does not hold
+ * Returns an error response, or null when every permission may be granted
+ */
+export function checkGrantable(c: Context, permissions: readonly string[]): Response | null {
+  const held = c.get("orgAccess")?.permissions ?? new Set();
+  const ungrantable = getUngrantablePermissions(held, permissions);
+
+  if (ungrantable.length > 0) {
+    return c.json(
+      {
+        detail: "You cannot grant permissions you do not have",
+        error: "permission_not_grantable",
+        permissions: ungrantable,
+      },
+      403,
+    );
+  }
+
+  return null;
+}
+
+/**
+ * List custom roles
+ * GET /organizations/:id/roles
+ */
+roles.get("/", requirePermission("member:read"), async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+
+  try {
+    const items = await db
+      .select()
+      .from(organizationRoles)
+      .where(eq(organizationRoles.organizationId, orgId))
+      .orderBy(asc(organizationRoles.name));
+
+    return c.json({ items: items.map(formatRole), permissions: PERMISSIONS });
+  } catch (error) {
+    console.error("List roles error:", error);
+    return c.json({ detail: "Failed to list roles" }, 500);
+  }
+});
+
+/**
+ * Create a custom role
+ * POST /organizations/:id/roles
+ */
+roles.post(
+  "/",
+  requirePermission("member:update"),
+  requireWritable(),
+  zValidator("json", createRoleSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id")!, 10);
+    const { name, description, permissions } = c.req.valid("json");
+
+    const denied = checkGrantable(c, permissions);
+    if (denied) {
+      return denied;
+    }
+
+    try {
+      const [role] = await db
+        .insert(organizationRoles)
+        .values({ organizationId: orgId, name, description: description || null, permissions })
+        .returning();
+
+      await logActivity(c, {
+        action: "role.create",
+        actionType: "create",
+        description: `Created custom role ${name}`,
+        organizationId: orgId,
+        metadata: { role_id: role!.id, permissions },
+      });
+
+      return c.json(formatRole(role!), 201);
+    } catch (error) {
+      console.error("Create role error:", error);
+      return c.json({ detail: "Failed to create role" }, 500);
+    }
+  },
+);
+
+/**
+ * Update a custom role
+ * Both the current and the new permissions must be held by the caller
+ * PATCH /organizations/:id/roles/:roleId
+ */
+roles.patch(
+  "/:roleId",
+  requirePermission("member:update"),
+  requireWritable(),
+  zValidator("json", updateRoleSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id")!, 10);
+    const roleId = parseInt(c.req.param("roleId"), 10);
+    const data = c.req.valid("json");
+
+    try {
+      const role = await findRole(orgId, roleId);
+
+      if (!role) {
+        return c.json({ detail: "Role not found" }, 404);
+      }
+
+      const denied = checkGrantable(c, [...role.permissions, ...(data.permissions ?? [])]);
+      if (denied) {
+        return denied;
+      }
+
+      const [updated] = await db
+        .update(organizationRoles)
+        .set(data)
+        .where(eq(organizationRoles.id, role.id))
+        .returning();
+
+      await logActivity(c, {
+        action: "role.update",
+        actionType: "update",
+        description: `Updated custom role ${updated!.name}`,
+        organizationId: orgId,
+        metadata: { role_id: role.id, changes: data },
+      });
+
+      return c.json(formatRole(updated!));
+    } catch (error) {
+      console.error("Update role error:", error);
+      return c.json({ detail: "Failed to update role" }, 500);
+    }
+  },
+);
+
+/**
+ * Delete a custom role
+ * Members holding it keep their built-in role
+ * DELETE /organizations/:id/roles/:roleId
+ */
+roles.delete("/:roleId", requirePermission("member:update"), async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const roleId = parseInt(c.req.param("roleId"), 10);
+
+  try {
+    const role = await findRole(orgId, roleId);
+
+    if (!role) {
+      return c.json({ detail: "Role not found" }, 404);
+    }
+
+    const denied = checkGrantable(c, role.permissions);
+    if (denied) {
+      return denied;
+    }
+
+    await db.delete(organizationRoles).where(eq(organizationRoles.id, role.id));
+
+    await logActivity(c, {
+      action: "role.delete",
+      actionType: "delete",
+      description: `Deleted custom role ${role.name}`,
+      organizationId: orgId,
+      metadata: { role_id: role.id, permissions: role.permissions },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete role error:", error);
+    return c.json({ detail: "Failed to delete role" }, 500);
+  }
+});
+
+export default roles;
@@ -0,0 +1,359 @@
+import { zValidator } from "@hono/zod-validator";
+import { and, desc, eq, lt } from "drizzle-orm";
+import { Hono } from "hono";
+import { z } from "zod/v4";
+import { db } from "../../db";
+import { webhookDeliveries, webhookEndpoints } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import { env, isProduction } from "../../lib/env";
+import { isPublicHostname } from "../../lib/network";
+import { generateWebhookSecret } from "../../lib/webhook-signing";
+import {
+  formatWebhookDelivery,
+  formatWebhookEndpoint,
+  redeliverWebhook,
+  WEBHOOK_EVENTS,
+} from "../../lib/webhooks";
+import { requirePermission, requireWritable } from "../../middleware";
+
+const webhooks = new Hono();
+
+webhooks.use("*", requirePermission("webhook:manage"));
+
+// Schemas
+const webhookUrlSchema = z
+  .url()
+  .max(500)
+  .refine((url) => !isProduction || url.startsWith("https://"), "Webhook URLs must use HTTPS")
+  .refine(
+    (url) => env.WEBHOOK_ALLOW_PRIVATE_URLS || isPublicHostname(new URL(url).hostname),
+    "Webhook URLs must point to a public host",
+  );
+
+const webhookEventsSchema = z.array(z.enum([...WEBHOOK_EVENTS, "*"])).min(1);
+
+const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().max(255).optional(),
+  events: webhookEventsSchema,
+});
+
+const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().max(255).nullable().optional(),
+  events: webhookEventsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+const deliveryQuerySchema = z.object({
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  cursor: z.coerce.number().optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+/**
+ * Helper to load an endpoint of the organization
+ */
+async function findEndpoint(orgId: number, webhookId: number) {
+  const [endpoint] = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, webhookId), eq(webhookEndpoints.organizationId, orgId)))
+    .limit(1);
+
+  return endpoint ?? null;
+}
+
+/**
+ * List webhook endpoints
+ * GET /organizations/:id/webhooks
+ */
+webhooks.get("/", async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+
+  try {
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.organizationId, orgId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+
+    return c.json({
+      items: endpoints.map((endpoint) => formatWebhookEndpoint(endpoint)),
+      events: WEBHOOK_EVENTS,
+    });
+  } catch (error) {
+    console.error("List webhooks error:", error);
+    return c.json({ detail: "Failed to list webhooks" }, 500);
+  }
+});
+
+/**
+ * Create a webhook endpoint
+ * The signing secret is returned in this response and when it is rotated
+ * POST /organizations/:id/webhooks
+ */
+webhooks.post("/", requireWritable(), zValidator("json", createWebhookSchema), async (c) => {
+  const user = c.get("user");
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const { url, description, events } = c.req.valid("json");
+
+  try {
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values({
+        organizationId: orgId,
+        createdById: user!.id,
+        url,
+        description: description || null,
+        events,
+        secret: generateWebhookSecret(),
+      })
+      .returning();
+
+    await logActivity(c, {
+      action: "webhook.create",
+      actionType: "create",
+      description: `Created webhook endpoint ${url}`,
+      organizationId: orgId,
+      metadata: { webhook_id: endpoint!.id, url, events },
+    });
+
+    return c.json(formatWebhookEndpoint(endpoint!, true), 201);
+  } catch (error) {
+    console.error("Create webhook error:", error);
+    return c.json({ detail: "Failed to create webhook" }, 500);
+  }
+});
+
+/**
+ * Get a webhook endpoint
+ * GET /organizations/:id/webhooks/:webhookId
+ */
+webhooks.get("/:webhookId", async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const webhookId = parseInt(c.req.param("webhookId"), 10);
+
+  try {
+    const endpoint = await findEndpoint(orgId, webhookId);
+
+    if (!endpoint) {
+      return c.json({ detail: "Webhook not found" }, 404);
+    }
+
+    return c.json(formatWebhookEndpoint(endpoint));
+  } catch (error) {
+    console.error("Get webhook error:", error);
+    return c.json({ detail: "Failed to get webhook" }, 500);
+  }
+});
+
+/**
+ * Update a webhook endpoint
+ * Re-enabling a disabled endpoint resets its failure count
+ * PATCH /organizations/:id/webhooks/:webhookId
+ */
+webhooks.patch(
+  "/:webhookId",
+  requireWritable(),
+  zValidator("json", updateWebhookSchema),
+  async (c) => {
+    const orgId = parseInt(c.req.param("id")!, 10);
+    const webhookId = parseInt(c.req.param("webhookId"), 10);
+    const { isActive, ...data } = c.req.valid("json");
+
+    try {
+      const endpoint = await findEndpoint(orgId, webhookId);
+
+      if (!endpoint) {
+        return c.json({ detail: "Webhook not found" }, 404);
+      }
+
+      const [updated] = await db
+        .update(webhookEndpoints)
+        .set({
+          ...data,
+          ...(isActive === true &&
+            !endpoint.isActive && {
+              isActive: true,
+              consecutiveFailures: 0,
+              disabledAt: null,
+              disabledReason: null,
+            }),
+          ...(isActive === false && { isActive: false }),
+        })
+        .where(eq(webhookEndpoints.id, endpoint.id))
+        .returning();
+
+      await logActivity(c, {
+        action: "webhook.update",
+        actionType: "update",
+        description: `Updated webhook endpoint ${updated!.url}`,
+        organizationId: orgId,
+        metadata: { webhook_id: endpoint.id, changes: { ...data, isActive } },
+      });
+
+      return c.json(formatWebhookEndpoint(updated!));
+    } catch (error) {
+      console.error("Update webhook error:", error);
+      return c.json({ detail: "Failed to update webhook" }, 500);
+    }
+  },
+);
+
+/**
+ * Delete a webhook endpoint and its delivery log
+ * DELETE /organizations/:id/webhooks/:webhookId
+ */
+webhooks.delete("/:webhookId", async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const webhookId = parseInt(c.req.param("webhookId"), 10);
+
+  try {
+    const [deleted] = await db
+      .delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, webhookId), eq(webhookEndpoints.organizationId, orgId)))
+      .returning();
+
+    if (!deleted) {
+      return c.json({ detail: "Webhook not found" }, 404);
+    }
+
+    await logActivity(c, {
+      action: "webhook.delete",
+      actionType: "delete",
+      description: `Deleted webhook endpoint ${deleted.url}`,
+      organizationId: orgId,
+      metadata: { webhook_id: deleted.id, url: deleted.url },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete webhook error:", error);
+    return c.json({ detail: "Failed to delete webhook" }, 500);
+  }
+});
+
+/**
+ * Replace the signing secret of an endpoint
+ * POST /organizations/:id/webhooks/:webhookId/rotate-secret
+ */
+webhooks.post("/:webhookId/rotate-secret", async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const webhookId = parseInt(c.req.param("webhookId"), 10);
+
+  try {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set({ secret: generateWebhookSecret() })
+      .where(and(eq(webhookEndpoints.id, webhookId), eq(webhookEndpoints.organizationId, orgId)))
+      .returning();
+
+    if (!updated) {
+      return c.json({ detail: "Webhook not found" }, 404);
+    }
+
+    await logActivity(c, {
+      action: "webhook.rotate_secret",
+      actionType: "update",
+      description: `Rotated the secret of webhook endpoint ${updated.url}`,
+      organizationId: orgId,
+      metadata: { webhook_id: updated.id },
+    });
+
+    return c.json(formatWebhookEndpoint(updated, true));
+  } catch (error) {
+    console.error("Rotate webhook secret error:", error);
+    return c.json({ detail: "Failed to rotate webhook secret" }, 500);
+  }
+});
+
+/**
+ * List deliveries of an endpoint, newest first, using cursor pagination
+ * GET /organizations/:id/webhooks/:webhookId/deliveries
+ */
+webhooks.get("/:webhookId/deliveries", zValidator("query", deliveryQuerySchema), async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const webhookId = parseInt(c.req.param("webhookId"), 10);
+  const { status, cursor, limit } = c.req.valid("query");
+
+  try {
+    const endpoint = await findEndpoint(orgId, webhookId);
+
+    if (!endpoint) {
+      return c.json({ detail: "Webhook not found" }, 404);
+    }
+
+    const conditions = [eq(webhookDeliveries.endpointId, endpoint.id)];
+    if (status) {
+      conditions.push(eq(webhookDeliveries.status, status));
+    }
+    if (cursor) {
+      conditions.push(lt(webhookDeliveries.id, cursor));
+    }
+
+    // Fetch one extra row to know whether there is a next page
+    const rows = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit + 1);
+
+    const items = rows.slice(0, limit);
+
+    return c.json({
+      items: items.map(formatWebhookDelivery),
+      next_cursor: rows.length > limit ? (items[items.length - 1]?.id ?? null) : null,
+    });
+  } catch (error) {
+    console.error("List webhook deliveries error:", error);
+    return c.json({ detail: "Failed to list webhook deliveries" }, 500);
+  }
+});
+
+/**
+ * Send a past event to the endpoint again
+ * POST /organizations/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+ */
+webhooks.post("/:webhookId/deliveries/:deliveryId/redeliver", async (c) => {
+  const orgId = parseInt(c.req.param("id")!, 10);
+  const webhookId = parseInt(c.req.param("webhookId"), 10);
+  const deliveryId = parseInt(c.req.param("deliveryId"), 10);
+
+  try {
+    const endpoint = await findEndpoint(orgId, webhookId);
+
+    if (!endpoint) {
+      return c.json({ detail: "Webhook not found" }, 404);
+    }
+
+    if (!endpoint.isActive) {
+      return c.json(
+        { detail: "Enable the webhook before redelivering events", error: "webhook_disabled" },
+        400,
+      );
+    }
+
+    const [delivery] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.endpointId, endpoint.id)),
+      )
+      .limit(1);
+
+    if (!delivery) {
+      return c.json({ detail: "Delivery not found" }, 404);
+    }
+
+    const redelivery = await redeliverWebhook(delivery);
+
+    return c.json(formatWebhookDelivery(redelivery), 202);
+  } catch (error) {
+    console.error("Redeliver webhook error:", error);
+    return c.json({ detail: "Failed to redeliver webhook" }, 500);
+  }
+});
+
+export default webhooks;
@@ -1,15 +1,30 @@
 import { zValidator } from "@hono/zod-validator";
-import { and, desc, eq, sql } from "drizzle-orm";
+import { desc, eq, sql } from "drizzle-orm";
+import type { Context } from "hono";
 import { Hono } from "hono";
 import { z } from "zod/v4";
 import { db } from "../../db";
+import type { Project } from "../../db/schema";
 import { organizationMembers, organizations, projects } from "../../db/schema";
-import { apiRateLimiter, authMiddleware, requireAuth } from "../../middleware";
+import { activityQuerySchema } from "../../lib/activity";
+import { listActivity, logActivity } from "../../lib/audit";
+import type { Permission } from "../../lib/permissions";
+import { readOnlyError } from "../../lib/plan-limits";
+import { dispatchWebhookEvent } from "../../lib/webhooks";
+import {
+  apiRateLimiter,
+  authMiddleware,
+  permissionDeniedError,
+  requireAuthOrApiKey,
+  requireScope,
+  resolveOrgAccess,
+} from "../../middleware";
+import { syncOrganizationEntitlements } from "../../services/entitlement.service";
 
 const projectsRouter = new Hono();
 
-// Apply auth middleware to all routes
-projectsRouter.use("*", authMiddleware, requireAuth);
+// Apply auth middleware to all routes (users or organization API keys)
+projectsRouter.use("*", authMiddleware, requireAuthOrApiKey);
 
 // Schemas
 const createProjectSchema = z.object({
@@ -30,184 +45,227 @@ const paginationSchema = z.object({
 });
 
 /**
- * Helper to check if user has access to organization
+ * Format a project for API responses and webhook payloads
  */
-async function checkOrgAccess(userId: number, orgId: number): Promise<boolean> {
-  const [membership] = await db
-    .select()
-    .from(organizationMembers)
-    .where(
-      and(eq(organizationMembers.userId, userId), eq(organizationMembers.organizationId, orgId)),
-    )
-    .limit(1);
-
-  return !!membership;
+function formatProject(project: Project) {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    organization_id: project.organizationId,
+    created_at: project.createdAt?.toISOString(),
+    updated_at: project.updatedAt?.toISOString(),
+  };
 }
 
 /**
- * Create project
- * POST /projects
+ * Helper to check a permission in the organization of a project
+ * Principals outside the organization get a 404 so that ids are not leaked
  */
-projectsRouter.post("/", apiRateLimiter, zValidator("json", createProjectSchema), async (c) => {
-  const user = c.get("user");
-  const { name, description, organizationId } = c.req.valid("json");
-
-  try {
-    // Check org access
-    const hasAccess = await checkOrgAccess(user!.id, organizationId);
-    if (!hasAccess) {
-      return c.json({ detail: "Organization not found" }, 404);
-    }
+async function checkProjectPermission(
+  c: Context,
+  orgId: number,
+  permission: Permission,
+  notFoundDetail = "Project not found",
+): Promise<Response | null> {
+  const access = await resolveOrgAccess(c, orgId);
+
+  if (!access) {
+    return c.json({ detail: notFoundDetail }, 404);
+  }
 
-    // Check project limit
-    const [org] = await db
-      .select()
-      .from(organizations)
-      .where(eq(organizations.id, organizationId))
-      .limit(1);
+  if (!access.permissions.has(permission)) {
+    return c.json(permissionDeniedError(permission), 403);
+  }
 
-    if (org && org.activeProjects >= org.maxProjects) {
-      return c.json({ detail: "Project limit reached. Please upgrade your plan." }, 403);
-    }
+  return null;
+}
 
-    // Create project
-    const [project] = await db
-      .insert(projects)
-      .values({
-        name,
-        description: description || null,
+/**
+ * Create project
+ * POST /projects
+ */
+projectsRouter.post(
+  "/",
+  apiRateLimiter,
+  requireScope("projects:write"),
+  zValidator("json", createProjectSchema),
+  async (c) => {
+    const { name, description, organizationId } = c.req.valid("json");
+
+    try {
+      const denied = await checkProjectPermission(
+        c,
         organizationId,
-      })
-      .returning();
+        "project:create",
+        "Organization not found",
+      );
+      if (denied) {
+        return denied;
+      }
+
+      // Check project limit
+      const [org] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, organizationId))
+        .limit(1);
+
+      if (org?.readOnly) {
+        return c.json(readOnlyError(org.readOnlyReason), 403);
+      }
+
+      if (org && org.activeProjects >= org.maxProjects) {
+        return c.json({ detail: "Project limit reached. Please upgrade your plan." }, 403);
+      }
+
+      // Create project
+      const [project] = await db
+        .insert(projects)
+        .values({
+          name,
+          description: description || null,
+          organizationId,
+        })
+        .returning();
+
+      if (!project) {
+        return c.json({ detail: "Failed to create project" }, 500);
+      }
+
+      // Increment active projects count
+      await db
+        .update(organizations)
+        .set({
+          activeProjects: sql`${organizations.activeProjects} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(organizations.id, organizationId));
+
+      await logActivity(c, {
+        action: "project.create",
+        actionType: "create",
+        description: `Created project ${project.name}`,
+        organizationId,
+        projectId: project.id,
+      });
 
-    if (!project) {
+      await dispatchWebhookEvent(organizationId, "project.created", {
+        project: formatProject(project),
+      });
+
+      return c.json(formatProject(project), 201);
+    } catch (error) {
+      console.error("Create project error:", error);
       return c.json({ detail: "Failed to create project" }, 500);
     }
-
-    // Increment active projects count
-    await db
-      .update(organizations)
-      .set({
-        activeProjects: sql`${organizations.activeProjects} + 1`,
-        updatedAt: new Date(),
-      })
-      .where(eq(organizations.id, organizationId));
-
-    return c.json(
-      {
-        id: project.id,
-        name: project.name,
-        description: project.description,
-        organization_id: project.organizationId,
-        created_at: project.createdAt?.toISOString(),
-        updated_at: project.updatedAt?.toISOString(),
-      },
-      201,
-    );
-  } catch (error) {
-    console.error("Create project error:", error);
-    return c.json({ detail: "Failed to create project" }, 500);
-  }
-});
+  },
+);
 
 /**
  * List projects
  * GET /projects
  */
-projectsRouter.get("/", zValidator("query", paginationSchema), async (c) => {
-  const user = c.get("user");
-  const { page, size, organizationId } = c.req.valid("query");
-
-  try {
-    const offset = (page - 1) * size;
-
-    // Get user's organizations
-    const userOrgs = await db
-      .select({ orgId: organizationMembers.organizationId })
-      .from(organizationMembers)
-      .where(eq(organizationMembers.userId, user!.id));
-
-    const orgIds = userOrgs.map((o) => o.orgId);
+projectsRouter.get(
+  "/",
+  requireScope("projects:read"),
+  zValidator("query", paginationSchema),
+  async (c) => {
+    const apiKey = c.get("apiKey");
+    const { page, size, organizationId } = c.req.valid("query");
+
+    try {
+      const offset = (page - 1) * size;
+
+      // Get the principal's organizations
+      const orgIds = apiKey
+        ? [apiKey.organizationId]
+        : (
+            await db
+              .select({ orgId: organizationMembers.organizationId })
+              .from(organizationMembers)
+              .where(eq(organizationMembers.userId, c.get("userId")!))
+          ).map((o) => o.orgId);
+
+      if (orgIds.length === 0) {
+        return c.json({
+          items: [],
+          total: 0,
+          page,
+          size,
+          pages: 0,
+        });
+      }
+
+      // Filter by specific org if provided
+      const targetOrgIds = organizationId ? orgIds.filter((id) => id === organizationId) : orgIds;
+
+      if (targetOrgIds.length === 0) {
+        return c.json({
+          items: [],
+          total: 0,
+          page,
+          size,
+          pages: 0,
+        });
+      }
+
+      // Get projects with org info
+      const projectsWithOrg = await db
+        .select({
+          project: projects,
+          organization: {
+            id: organizations.id,
+            name: organizations.name,
+            slug: organizations.slug,
+          },
+        })
+        .from(projects)
+        .innerJoin(organizations, eq(projects.organizationId, organizations.id))
+        .where(sql`${projects.organizationId} IN ${targetOrgIds}`)
+        .orderBy(desc(projects.createdAt))
+        .limit(size)
+        .offset(offset);
+
+      // Get total count
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(projects)
+        .where(sql`${projects.organizationId} IN ${targetOrgIds}`);
+
+      const count = countResult[0]?.count ?? 0;
 
-    if (orgIds.length === 0) {
       return c.json({
-        items: [],
-        total: 0,
+        items: projectsWithOrg.map((p) => ({
+          id: p.project.id,
+          name: p.project.name,
+          description: p.project.description,
+          organization_id: p.project.organizationId,
+          organization: {
+            id: p.organization.id,
+            name: p.organization.name,
+            slug: p.organization.slug,
+          },
+          created_at: p.project.createdAt?.toISOString(),
+          updated_at: p.project.updatedAt?.toISOString(),
+        })),
+        total: Number(count),
         page,
         size,
-        pages: 0,
+        pages: Math.ceil(Number(count) / size),
       });
+    } catch (error) {
+      console.error("List projects error:", error);
+      return c.json({ detail: "Failed to list projects" }, 500);
     }
-
-    // Filter by specific org if provided
-    const targetOrgIds = organizationId ? orgIds.filter((id) => id === organizationId) : orgIds;
-
-    if (targetOrgIds.length === 0) {
-      return c.json({
-        items: [],
-        total: 0,
-        page,
-        size,
-        pages: 0,
-      });
-    }
-
-    // Get projects with org info
-    const projectsWithOrg = await db
-      .select({
-        project: projects,
-        organization: {
-          id: organizations.id,
-          name: organizations.name,
-          slug: organizations.slug,
-        },
-      })
-      .from(projects)
-      .innerJoin(organizations, eq(projects.organizationId, organizations.id))
-      .where(sql`${projects.organizationId} IN ${targetOrgIds}`)
-      .orderBy(desc(projects.createdAt))
-      .limit(size)
-      .offset(offset);
-
-    // Get total count
-    const countResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(projects)
-      .where(sql`${projects.organizationId} IN ${targetOrgIds}`);
-
-    const count = countResult[0]?.count ?? 0;
-
-    return c.json({
-      items: projectsWithOrg.map((p) => ({
-        id: p.project.id,
-        name: p.project.name,
-        description: p.project.description,
-        organization_id: p.project.organizationId,
-        organization: {
-          id: p.organization.id,
-          name: p.organization.name,
-          slug: p.organization.slug,
-        },
-        created_at: p.project.createdAt?.toISOString(),
-        updated_at: p.project.updatedAt?.toISOString(),
-      })),
-      total: Number(count),
-      page,
-      size,
-      pages: Math.ceil(Number(count) / size),
-    });
-  } catch (error) {
-    console.error("List projects error:", error);
-    return c.json({ detail: "Failed to list projects" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Get project by ID
  * GET /projects/:id
  */
-projectsRouter.get("/:id", async (c) => {
-  const user = c.get("user");
+projectsRouter.get("/:id", requireScope("projects:read"), async (c) => {
   const projectId = parseInt(c.req.param("id"), 10);
 
   try {
@@ -217,10 +275,9 @@ projectsRouter.get("/:id", async (c) => {
       return c.json({ detail: "Project not found" }, 404);
     }
 
-    // Check org access
-    const hasAccess = await checkOrgAccess(user!.id, project.organizationId);
-    if (!hasAccess) {
-      return c.json({ detail: "Project not found" }, 404);
+    const denied = await checkProjectPermission(c, project.organizationId, "project:read");
+    if (denied) {
+      return denied;
     }
 
     // Get organization info
@@ -255,59 +312,77 @@ projectsRouter.get("/:id", async (c) => {
  * Update project
  * PUT /projects/:id
  */
-projectsRouter.put("/:id", zValidator("json", updateProjectSchema), async (c) => {
-  const user = c.get("user");
-  const projectId = parseInt(c.req.param("id"), 10);
-  const data = c.req.valid("json");
-
-  try {
-    // Get project
-    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
-
-    if (!project) {
-      return c.json({ detail: "Project not found" }, 404);
-    }
-
-    // Check org access
-    const hasAccess = await checkOrgAccess(user!.id, project.organizationId);
-    if (!hasAccess) {
-      return c.json({ detail: "Project not found" }, 404);
-    }
+projectsRouter.put(
+  "/:id",
+  requireScope("projects:write"),
+  zValidator("json", updateProjectSchema),
+  async (c) => {
+    const projectId = parseInt(c.req.param("id"), 10);
+    const data = c.req.valid("json");
+
+    try {
+      // Get project
+      const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+
+      if (!project) {
+        return c.json({ detail: "Project not found" }, 404);
+      }
+
+      const denied = await checkProjectPermission(c, project.organizationId, "project:update");
+      if (denied) {
+        return denied;
+      }
+
+      const [org] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, project.organizationId))
+        .limit(1);
+
+      if (org?.readOnly) {
+        return c.json(readOnlyError(org.readOnlyReason), 403);
+      }
+
+      // Update project
+      const [updated] = await db
+        .update(projects)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, projectId))
+        .returning();
+
+      if (!updated) {
+        return c.json({ detail: "Failed to update project" }, 500);
+      }
+
+      await logActivity(c, {
+        action: "project.update",
+        actionType: "update",
+        description: `Updated project ${updated.name}`,
+        organizationId: updated.organizationId,
+        projectId: updated.id,
+        metadata: { changes: data },
+      });
 
-    // Update project
-    const [updated] = await db
-      .update(projects)
-      .set({
-        ...data,
-        updatedAt: new Date(),
-      })
-      .where(eq(projects.id, projectId))
-      .returning();
+      await dispatchWebhookEvent(updated.organizationId, "project.updated", {
+        project: formatProject(updated),
+      });
 
-    if (!updated) {
+      return c.json(formatProject(updated));
+    } catch (error) {
+      console.error("Update project error:", error);
       return c.json({ detail: "Failed to update project" }, 500);
     }
-
-    return c.json({
-      id: updated.id,
-      name: updated.name,
-      description: updated.description,
-      organization_id: updated.organizationId,
-      created_at: updated.createdAt?.toISOString(),
-      updated_at: updated.updatedAt?.toISOString(),
-    });
-  } catch (error) {
-    console.error("Update project error:", error);
-    return c.json({ detail: "Failed to update project" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Delete project
  * DELETE /projects/:id
  */
-projectsRouter.delete("/:id", async (c) => {
-  const user = c.get("user");
+projectsRouter.delete("/:id", requireScope("projects:write"), async (c) => {
   const projectId = parseInt(c.req.param("id"), 10);
 
   try {
@@ -318,10 +393,9 @@ projectsRouter.delete("/:id", async (c) => {
       return c.json({ detail: "Project not found" }, 404);
     }
 
-    // Check org access
-    const hasAccess = await checkOrgAccess(user!.id, project.organizationId);
-    if (!hasAccess) {
-      return c.json({ detail: "Project not found" }, 404);
+    const denied = await checkProjectPermission(c, project.organizationId, "project:delete");
+    if (denied) {
+      return denied;
     }
 
     // Delete project
@@ -336,6 +410,22 @@ projectsRouter.delete("/:id", async (c) => {
       })
       .where(eq(organizations.id, project.organizationId));
 
+    // Logs lose their project link once it is deleted, keep the reference in metadata
+    await logActivity(c, {
+      action: "project.delete",
+      actionType: "delete",
+      description: `Deleted project ${project.name}`,
+      organizationId: project.organizationId,
+      metadata: { project_id: project.id, name: project.name },
+    });
+
+    await dispatchWebhookEvent(project.organizationId, "project.deleted", {
+      project: formatProject(project),
+    });
+
+    // Deleting projects may bring a read-only organization back within its limits
+    await syncOrganizationEntitlements(project.organizationId);
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Delete project error:", error);
@@ -343,4 +433,41 @@ projectsRouter.delete("/:id", async (c) => {
   }
 });
 
+/**
+ * Get project activity feed
+ * GET /projects/:id/activity
+ */
+projectsRouter.get(
+  "/:id/activity",
+  requireScope("projects:read"),
+  zValidator("query", activityQuerySchema),
+  async (c) => {
+    const projectId = parseInt(c.req.param("id"), 10);
+    const query = c.req.valid("query");
+
+    try {
+      const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+
+      if (!project) {
+        return c.json({ detail: "Project not found" }, 404);
+      }
+
+      const denied = await checkProjectPermission(c, project.organizationId, "project:read");
+      if (denied) {
+        return denied;
+      }
+
+      const { items, nextCursor } = await listActivity({ projectId }, query);
+
+      return c.json({
+        items,
+        next_cursor: nextCursor,
+      });
+    } catch (error) {
+      console.error("List project activity error:", error);
+      return c.json({ detail: "Failed to list activity" }, 500);
+    }
+  },
+);
+
 export default projectsRouter;
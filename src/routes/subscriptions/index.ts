@@ -1,31 +1,108 @@
 import { zValidator } from "@hono/zod-validator";
-import { and, desc, eq, sql } from "drizzle-orm";
+import { and, desc, eq, getTableColumns, gte, lt, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { z } from "zod/v4";
 import { db } from "../../db";
+import type { CustomerSubscription, Organization, SubscriptionPlan } from "../../db/schema";
 import {
   billingHistory,
   customerSubscriptions,
-  organizationMembers,
+  nfseInvoices,
   organizations,
   subscriptionPlans,
 } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import { BILLING_STATUSES, billingHistoryCsv, isStripeFileUrl } from "../../lib/billing-history";
+import type { Currency } from "../../lib/currency";
+import {
+  currencyForCountry,
+  DEFAULT_CURRENCY,
+  formatAmount,
+  getPlanCurrencies,
+  getPlanPrice,
+  SUPPORTED_CURRENCIES,
+  toCurrency,
+} from "../../lib/currency";
 import { env } from "../../lib/env";
-import { apiRateLimiter, authMiddleware, requireAuth } from "../../middleware";
+import { DEFAULT_LOCALE, matchAcceptLanguage } from "../../lib/i18n";
+import type { BillingInterval, PlanChangeBilling, PlanChangeRequest } from "../../lib/plan-change";
+import {
+  applyPlanChange,
+  BILLING_INTERVALS,
+  cancelPlanChange,
+  getPlanChange,
+  previewPlanChange,
+} from "../../lib/plan-change";
+import { getTrialState } from "../../lib/trials";
+import { dispatchWebhookEvent } from "../../lib/webhooks";
+import {
+  apiRateLimiter,
+  authMiddleware,
+  authorize,
+  requireAuth,
+  requirePermission,
+} from "../../middleware";
+import { queueBillingProfileSync } from "../../services/billing-profile.service";
+import {
+  findPlanByPriceId,
+  syncOrganizationEntitlements,
+} from "../../services/entitlement.service";
+import { formatNfse } from "../../services/nfse.service";
 import {
   cancelSubscription,
+  changeSubscriptionPrice,
   createCheckoutSession,
   createCustomer,
   createPortalSession,
+  createTrialSubscription,
+  previewSubscriptionChange,
+  releaseSubscriptionSchedule,
+  scheduleSubscriptionPriceChange,
 } from "../../services/stripe.service";
 
 const subscriptionsRouter = new Hono();
 
+const planChangeBilling: PlanChangeBilling = {
+  previewSubscriptionChange,
+  changeSubscriptionPrice,
+  scheduleSubscriptionPriceChange,
+  releaseSubscriptionSchedule,
+};
+
 // Schemas
-const checkoutSchema = z.object({
-  organizationId: z.number(),
-  priceId: z.string(),
-  interval: z.enum(["monthly", "yearly"]).default("monthly"),
+const plansQuerySchema = z.object({
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(),
+  country: z.string().length(2).optional(),
+});
+
+const checkoutSchema = z
+  .object({
+    organizationId: z.number(),
+    planId: z.number().optional(),
+    priceId: z.string().optional(), // a Stripe price of a plan, instead of planId
+    interval: z.enum(BILLING_INTERVALS).default("monthly"),
+    currency: z.enum(SUPPORTED_CURRENCIES).optional(), // defaults to the organization's currency
+  })
+  .refine((data) => data.planId !== undefined || data.priceId !== undefined, {
+    message: "Either planId or priceId is required",
+    path: ["planId"],
+  });
+
+const trialSchema = z.object({
+  planId: z.number(),
+  interval: z.enum(BILLING_INTERVALS).default("monthly"),
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(), // defaults to the organization's currency
+});
+
+const changePlanSchema = z.object({
+  planId: z.number(),
+  interval: z.enum(BILLING_INTERVALS).default("monthly"),
+  prorationDate: z.number().int().optional(), // from the preview, to be charged the previewed amount
+});
+
+const changePlanPreviewSchema = z.object({
+  planId: z.coerce.number(),
+  interval: z.enum(BILLING_INTERVALS).default("monthly"),
 });
 
 const paginationSchema = z.object({
@@ -33,38 +110,60 @@ const paginationSchema = z.object({
   size: z.coerce.number().min(1).max(100).default(30),
 });
 
+const billingHistoryFilterSchema = z.object({
+  status: z.enum(BILLING_STATUSES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Largest CSV export; accountants narrow larger histories with `from`/`to`
+const MAX_BILLING_EXPORT_ROWS = 5000;
+
+const INVOICE_PDF_TIMEOUT_MS = 15_000;
+
 /**
- * Helper to check org access
+ * Helper to build the billing history filters of a subscription (`to` is exclusive)
  */
-async function checkOrgAccess(
-  userId: number,
-  orgId: number,
-  allowedRoles?: string[],
-): Promise<{ allowed: boolean; role?: string }> {
-  const [membership] = await db
-    .select()
-    .from(organizationMembers)
-    .where(
-      and(eq(organizationMembers.userId, userId), eq(organizationMembers.organizationId, orgId)),
-    )
-    .limit(1);
+function billingHistoryConditions(
+  subscriptionId: number,
+  filters: z.infer<typeof billingHistoryFilterSchema>,
+) {
+  return and(
+    eq(billingHistory.subscriptionId, subscriptionId),
+    filters.status ? eq(billingHistory.status, filters.status) : undefined,
+    filters.from ? gte(billingHistory.invoiceDate, filters.from) : undefined,
+    filters.to ? lt(billingHistory.invoiceDate, filters.to) : undefined,
+  );
+}
 
-  if (!membership) {
-    return { allowed: false };
-  }
+/**
+ * Helper to download a PDF from Stripe; null when it fails or a redirect leaves Stripe
+ */
+async function fetchStripePdf(url: string): Promise<ReadableStream<Uint8Array> | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(INVOICE_PDF_TIMEOUT_MS) });
 
-  if (allowedRoles && !allowedRoles.includes(membership.role)) {
-    return { allowed: false, role: membership.role };
-  }
+    if (!response.ok || !response.body || !isStripeFileUrl(response.url || url)) {
+      console.error(`Stripe PDF download failed with status ${response.status}`);
+      return null;
+    }
 
-  return { allowed: true, role: membership.role };
+    return response.body;
+  } catch (error) {
+    console.error("Stripe PDF download error:", error);
+    return null;
+  }
 }
 
 /**
- * List subscription plans
+ * List subscription plans with prices in the requested currency
  * GET /subscriptions/plans
  */
-subscriptionsRouter.get("/plans", async (c) => {
+subscriptionsRouter.get("/plans", zValidator("query", plansQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+  const currency = query.currency ?? currencyForCountry(query.country);
+  const locale = matchAcceptLanguage(c.req.header("accept-language")) ?? DEFAULT_LOCALE;
+
   try {
     const plans = await db
       .select()
@@ -72,7 +171,19 @@ subscriptionsRouter.get("/plans", async (c) => {
       .where(eq(subscriptionPlans.isActive, true))
       .orderBy(subscriptionPlans.sortOrder);
 
+    const formatPrice = (plan: SubscriptionPlan, interval: BillingInterval) => {
+      const price = getPlanPrice(plan, currency, interval);
+      return price
+        ? {
+            amount: price.amount,
+            formatted: formatAmount(price.amount, currency, locale),
+            stripe_price_id: price.priceId,
+          }
+        : null;
+    };
+
     return c.json({
+      currency,
       items: plans.map((p) => ({
         id: p.id,
         name: p.name,
@@ -82,6 +193,13 @@ subscriptionsRouter.get("/plans", async (c) => {
         stripe_price_id_yearly: p.stripePriceIdYearly,
         price_monthly_usd: p.priceMonthlyUsd,
         price_yearly_usd: p.priceYearlyUsd,
+        prices: {
+          monthly: formatPrice(p, "monthly"),
+          yearly: formatPrice(p, "yearly"),
+        },
+        currencies: getPlanCurrencies(p),
+        trial_days: p.trialDays,
+        trial_without_card: p.trialWithoutCard,
         max_projects: p.maxProjects,
         max_users: p.maxUsers,
         max_storage_gb: p.maxStorageGb,
@@ -99,8 +217,96 @@ subscriptionsRouter.get("/plans", async (c) => {
 // Protected routes
 subscriptionsRouter.use("*", authMiddleware, requireAuth);
 
+// Subscription statuses that already bill the organization; a second checkout would double-charge it
+const LIVE_STATUSES = ["active", "trialing", "past_due"];
+
+/**
+ * Helper to pick the billing currency of an organization
+ * An explicit choice wins, then the currency it already pays in, then the one of its billing country
+ */
+function resolveBillingCurrency(
+  requested: Currency | undefined,
+  subscription: CustomerSubscription | undefined,
+  org: Organization | undefined,
+): Currency {
+  return requested ?? toCurrency(subscription?.currency) ?? currencyForCountry(org?.billingCountry);
+}
+
+/**
+ * Helper to build the error returned when an organization pays in another currency
+ * Stripe bills a customer in a single currency
+ */
+function currencyMismatchError(
+  subscription: CustomerSubscription | undefined,
+  currency: Currency,
+): { detail: string; error: string; currency: string } | null {
+  if (!subscription?.currency || subscription.currency === currency) {
+    return null;
+  }
+
+  return {
+    detail: `This organization is billed in ${subscription.currency.toUpperCase()}`,
+    error: "currency_mismatch",
+    currency: subscription.currency,
+  };
+}
+
+/**
+ * Helper to get the Stripe customer of an organization
+ * Creates it, and the local subscription record, on first use
+ */
+async function ensureStripeCustomer(
+  organizationId: number,
+  org: Organization | undefined,
+  email: string,
+  subscription: CustomerSubscription | undefined,
+): Promise<{ customerId: string; subscription: CustomerSubscription } | null> {
+  if (subscription?.stripeCustomerId) {
+    return { customerId: subscription.stripeCustomerId, subscription };
+  }
+
+  const customer = await createCustomer({
+    email,
+    name: org?.name,
+    metadata: {
+      organization_id: String(organizationId),
+    },
+  });
+
+  if (!customer) {
+    return null;
+  }
+
+  if (!subscription) {
+    const [created] = await db
+      .insert(customerSubscriptions)
+      .values({
+        organizationId,
+        stripeCustomerId: customer.id,
+        status: "inactive",
+      })
+      .returning();
+
+    // A billing profile saved before the customer existed is pushed now
+    await queueBillingProfileSync(organizationId);
+
+    return { customerId: customer.id, subscription: created! };
+  }
+
+  const [updated] = await db
+    .update(customerSubscriptions)
+    .set({ stripeCustomerId: customer.id })
+    .where(eq(customerSubscriptions.id, subscription.id))
+    .returning();
+
+  await queueBillingProfileSync(organizationId);
+
+  return { customerId: customer.id, subscription: updated! };
+}
+
 /**
  * Create checkout session
+ * Plans with a trial start with it, unless the organization already had one
  * POST /subscriptions/checkout
  */
 subscriptionsRouter.post(
@@ -109,84 +315,104 @@ subscriptionsRouter.post(
   zValidator("json", checkoutSchema),
   async (c) => {
     const user = c.get("user");
-    const { organizationId, priceId, interval } = c.req.valid("json");
+    const { organizationId, planId, currency: requestedCurrency, ...body } = c.req.valid("json");
 
     try {
-      // Check org access (owner or admin only)
-      const access = await checkOrgAccess(user!.id, organizationId, ["owner", "admin"]);
-      if (!access.allowed) {
-        return c.json({ detail: "Access denied" }, 403);
+      const denied = await authorize(c, organizationId, "billing:manage");
+      if (denied) {
+        return denied;
       }
 
-      // Get or create customer subscription
-      let [subscription] = await db
+      const [org] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, organizationId))
+        .limit(1);
+
+      const [subscription] = await db
         .select()
         .from(customerSubscriptions)
         .where(eq(customerSubscriptions.organizationId, organizationId))
         .limit(1);
 
-      let customerId = subscription?.stripeCustomerId;
+      if (subscription?.stripeSubscriptionId && LIVE_STATUSES.includes(subscription.status)) {
+        return c.json(
+          {
+            detail:
+              "This organization already has a subscription; change its plan or add a payment method in the billing portal",
+            error: "subscription_exists",
+          },
+          409,
+        );
+      }
+
+      // Resolve the plan and its Stripe price in the billing currency
+      let plan: SubscriptionPlan | undefined;
+      let priceId: string;
+      let currency: Currency;
+      let interval = body.interval;
 
-      // Create Stripe customer if needed
-      if (!customerId) {
-        const [org] = await db
+      if (planId !== undefined) {
+        [plan] = await db
           .select()
-          .from(organizations)
-          .where(eq(organizations.id, organizationId))
+          .from(subscriptionPlans)
+          .where(and(eq(subscriptionPlans.id, planId), eq(subscriptionPlans.isActive, true)))
           .limit(1);
 
-        const customer = await createCustomer({
-          email: user!.email,
-          name: org?.name,
-          metadata: {
-            organization_id: String(organizationId),
-          },
-        });
+        if (!plan) {
+          return c.json({ detail: "Plan not found", error: "plan_not_found" }, 404);
+        }
 
-        if (!customer) {
-          return c.json({ detail: "Failed to create customer" }, 500);
+        currency = resolveBillingCurrency(requestedCurrency, subscription, org);
+        const planPriceId = getPlanPrice(plan, currency, interval)?.priceId;
+
+        if (!planPriceId) {
+          return c.json(
+            {
+              detail: `${plan.displayName} is not available ${interval} in ${currency.toUpperCase()}`,
+              error: "price_not_available",
+            },
+            400,
+          );
         }
 
-        customerId = customer.id;
-
-        // Create subscription record
-        if (!subscription) {
-          [subscription] = await db
-            .insert(customerSubscriptions)
-            .values({
-              organizationId,
-              stripeCustomerId: customerId,
-              status: "inactive",
-            })
-            .returning();
-        } else {
-          await db
-            .update(customerSubscriptions)
-            .set({ stripeCustomerId: customerId })
-            .where(eq(customerSubscriptions.id, subscription.id));
+        priceId = planPriceId;
+      } else {
+        const match = await findPlanByPriceId(body.priceId!);
+
+        if (!match) {
+          return c.json({ detail: "Unknown price", error: "price_not_found" }, 400);
         }
+
+        plan = match.plan;
+        priceId = body.priceId!;
+        ({ currency, interval } = match.price);
       }
 
-      // Get plan by price ID
-      const [plan] = await db
-        .select()
-        .from(subscriptionPlans)
-        .where(
-          interval === "yearly"
-            ? eq(subscriptionPlans.stripePriceIdYearly, priceId)
-            : eq(subscriptionPlans.stripePriceIdMonthly, priceId),
-        )
-        .limit(1);
+      const mismatch = currencyMismatchError(subscription, currency);
+      if (mismatch) {
+        return c.json(mismatch, 400);
+      }
+
+      const customer = await ensureStripeCustomer(organizationId, org, user!.email, subscription);
+
+      if (!customer) {
+        return c.json({ detail: "Failed to create customer" }, 500);
+      }
+
+      // One trial per organization
+      const trialDays = customer.subscription.trialUsed ? 0 : plan.trialDays;
 
       // Create checkout session
       const session = await createCheckoutSession({
-        customerId,
+        customerId: customer.customerId,
         priceId,
         successUrl: `${env.FRONTEND_URL}/settings/billing?success=true`,
         cancelUrl: `${env.FRONTEND_URL}/settings/billing?canceled=true`,
+        trialDays,
         metadata: {
           organization_id: String(organizationId),
-          plan_id: plan ? String(plan.id) : "",
+          plan_id: String(plan.id),
         },
       });
 
@@ -194,7 +420,22 @@ subscriptionsRouter.post(
         return c.json({ detail: "Failed to create checkout session" }, 500);
       }
 
-      return c.json({ checkout_url: session.url });
+      await logActivity(c, {
+        action: "subscription.checkout",
+        actionType: "create",
+        description: `Started checkout for ${plan.displayName}`,
+        organizationId,
+        metadata: {
+          price_id: priceId,
+          plan_id: plan.id,
+          interval,
+          currency,
+          trial_days: trialDays,
+          session_id: session.id,
+        },
+      });
+
+      return c.json({ checkout_url: session.url, trial_days: trialDays });
     } catch (error) {
       console.error("Create checkout error:", error);
       return c.json({ detail: "Failed to create checkout" }, 500);
@@ -202,20 +443,200 @@ subscriptionsRouter.post(
   },
 );
 
+/**
+ * Start a free trial without a payment method
+ * Stripe cancels it when the trial ends unless a payment method was added through the portal
+ * POST /subscriptions/:organizationId/trial
+ */
+subscriptionsRouter.post(
+  "/:organizationId/trial",
+  requirePermission("billing:manage"),
+  zValidator("json", trialSchema),
+  async (c) => {
+    const user = c.get("user");
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+    const { planId, interval, currency: requestedCurrency } = c.req.valid("json");
+
+    try {
+      const [org] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, organizationId))
+        .limit(1);
+
+      const [subscription] = await db
+        .select()
+        .from(customerSubscriptions)
+        .where(eq(customerSubscriptions.organizationId, organizationId))
+        .limit(1);
+
+      if (subscription?.stripeSubscriptionId && LIVE_STATUSES.includes(subscription.status)) {
+        return c.json(
+          { detail: "This organization already has a subscription", error: "subscription_exists" },
+          409,
+        );
+      }
+
+      if (subscription?.trialUsed) {
+        return c.json(
+          { detail: "This organization already had a free trial", error: "trial_already_used" },
+          400,
+        );
+      }
+
+      const [plan] = await db
+        .select()
+        .from(subscriptionPlans)
+        .where(and(eq(subscriptionPlans.id, planId), eq(subscriptionPlans.isActive, true)))
+        .limit(1);
+
+      if (!plan) {
+        return c.json({ detail: "Plan not found", error: "plan_not_found" }, 404);
+      }
+
+      if (plan.trialDays <= 0 || !plan.trialWithoutCard) {
+        return c.json(
+          {
+            detail: `${plan.displayName} has no trial without a payment method; start it through checkout`,
+            error: "trial_not_available",
+          },
+          400,
+        );
+      }
+
+      const currency = resolveBillingCurrency(requestedCurrency, subscription, org);
+
+      const mismatch = currencyMismatchError(subscription, currency);
+      if (mismatch) {
+        return c.json(mismatch, 400);
+      }
+
+      const priceId = getPlanPrice(plan, currency, interval)?.priceId;
+
+      if (!priceId) {
+        return c.json(
+          {
+            detail: `${plan.displayName} is not available ${interval} in ${currency.toUpperCase()}`,
+            error: "price_not_available",
+          },
+          400,
+        );
+      }
+
+      const customer = await ensureStripeCustomer(organizationId, org, user!.email, subscription);
+
+      if (!customer) {
+        return c.json({ detail: "Failed to create customer" }, 500);
+      }
+
+      const trial = await createTrialSubscription({
+        customerId: customer.customerId,
+        priceId,
+        trialDays: plan.trialDays,
+        metadata: {
+          organization_id: String(organizationId),
+          plan_id: String(plan.id),
+        },
+      });
+
+      if (!trial) {
+        return c.json({ detail: "Failed to start trial" }, 500);
+      }
+
+      const trialStart = trial.trial_start ? new Date(trial.trial_start * 1000) : new Date();
+      const trialEnd = trial.trial_end
+        ? new Date(trial.trial_end * 1000)
+        : new Date(trialStart.getTime() + plan.trialDays * 24 * 60 * 60 * 1000);
+
+      // Stripe's subscription events follow; store the trial now so its limits apply right away
+      const [updated] = await db
+        .update(customerSubscriptions)
+        .set({
+          stripeSubscriptionId: trial.id,
+          planId: plan.id,
+          status: trial.status,
+          trialStart,
+          trialEnd,
+          trialUsed: true,
+          cancelAtPeriodEnd: false,
+          canceledAt: null,
+          billingInterval: interval,
+          currency,
+          updatedAt: new Date(),
+        })
+        .where(eq(customerSubscriptions.id, customer.subscription.id))
+        .returning();
+
+      await syncOrganizationEntitlements(organizationId);
+
+      await logActivity(c, {
+        action: "subscription.trial_start",
+        actionType: "create",
+        description: `Started a ${plan.trialDays}-day ${plan.displayName} trial`,
+        organizationId,
+        metadata: {
+          stripe_subscription_id: trial.id,
+          plan_id: plan.id,
+          interval,
+          currency,
+          trial_end: trialEnd.toISOString(),
+        },
+      });
+
+      await dispatchWebhookEvent(organizationId, "subscription.created", {
+        subscription: {
+          id: trial.id,
+          plan_id: plan.id,
+          status: trial.status,
+          current_period_end: null,
+          cancel_at_period_end: false,
+          trial_end: trialEnd.toISOString(),
+        },
+      });
+
+      return c.json(
+        {
+          subscription: {
+            id: updated!.id,
+            status: updated!.status,
+            plan_id: plan.id,
+            billing_interval: interval,
+            currency,
+          },
+          trial: formatTrial(updated!),
+        },
+        201,
+      );
+    } catch (error) {
+      console.error("Start trial error:", error);
+      return c.json({ detail: "Failed to start trial" }, 500);
+    }
+  },
+);
+
+/**
+ * Helper to format the trial of a subscription
+ */
+function formatTrial(subscription: CustomerSubscription) {
+  const trial = getTrialState(subscription);
+
+  return trial
+    ? {
+        status: trial.status,
+        ends_at: trial.endsAt.toISOString(),
+        days_remaining: trial.daysRemaining,
+      }
+    : null;
+}
+
 /**
  * Get subscription for organization
  * GET /subscriptions/:organizationId
  */
-subscriptionsRouter.get("/:organizationId", async (c) => {
-  const user = c.get("user");
+subscriptionsRouter.get("/:organizationId", requirePermission("billing:read"), async (c) => {
   const organizationId = parseInt(c.req.param("organizationId"), 10);
 
   try {
-    const access = await checkOrgAccess(user!.id, organizationId);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
-
     const [subscription] = await db
       .select({
         subscription: customerSubscriptions,
@@ -243,6 +664,16 @@ subscriptionsRouter.get("/:organizationId", async (c) => {
         canceled_at: subscription.subscription.canceledAt?.toISOString(),
         trial_start: subscription.subscription.trialStart?.toISOString(),
         trial_end: subscription.subscription.trialEnd?.toISOString(),
+        trial: formatTrial(subscription.subscription),
+        trial_used: subscription.subscription.trialUsed,
+        billing_interval: subscription.subscription.billingInterval,
+        scheduled_change: subscription.subscription.scheduledPlanId
+          ? {
+              plan_id: subscription.subscription.scheduledPlanId,
+              interval: subscription.subscription.scheduledInterval,
+              effective_at: subscription.subscription.scheduledChangeAt?.toISOString() ?? null,
+            }
+          : null,
         current_users_count: subscription.subscription.currentUsersCount,
         current_projects_count: subscription.subscription.currentProjectsCount,
       },
@@ -267,85 +698,396 @@ subscriptionsRouter.get("/:organizationId", async (c) => {
  * Get billing portal URL
  * POST /subscriptions/:organizationId/portal
  */
-subscriptionsRouter.post("/:organizationId/portal", async (c) => {
-  const user = c.get("user");
-  const organizationId = parseInt(c.req.param("organizationId"), 10);
+subscriptionsRouter.post(
+  "/:organizationId/portal",
+  requirePermission("billing:manage"),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
 
-  try {
-    const access = await checkOrgAccess(user!.id, organizationId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
+    try {
+      const [subscription] = await db
+        .select()
+        .from(customerSubscriptions)
+        .where(eq(customerSubscriptions.organizationId, organizationId))
+        .limit(1);
 
-    const [subscription] = await db
-      .select()
-      .from(customerSubscriptions)
-      .where(eq(customerSubscriptions.organizationId, organizationId))
-      .limit(1);
+      if (!subscription?.stripeCustomerId) {
+        return c.json({ detail: "No subscription found" }, 404);
+      }
 
-    if (!subscription?.stripeCustomerId) {
-      return c.json({ detail: "No subscription found" }, 404);
+      const session = await createPortalSession({
+        customerId: subscription.stripeCustomerId,
+        returnUrl: `${env.FRONTEND_URL}/settings/billing`,
+      });
+
+      if (!session) {
+        return c.json({ detail: "Failed to create portal session" }, 500);
+      }
+
+      return c.json({ portal_url: session.url });
+    } catch (error) {
+      console.error("Create portal error:", error);
+      return c.json({ detail: "Failed to create portal" }, 500);
     }
+  },
+);
 
-    const session = await createPortalSession({
-      customerId: subscription.stripeCustomerId,
-      returnUrl: `${env.FRONTEND_URL}/settings/billing`,
-    });
+/**
+ * Cancel subscription
+ * POST /subscriptions/:organizationId/cancel
+ */
+subscriptionsRouter.post(
+  "/:organizationId/cancel",
+  requirePermission("billing:manage"),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+
+    try {
+      const [subscription] = await db
+        .select()
+        .from(customerSubscriptions)
+        .where(eq(customerSubscriptions.organizationId, organizationId))
+        .limit(1);
+
+      if (!subscription?.stripeSubscriptionId) {
+        return c.json({ detail: "No active subscription" }, 404);
+      }
+
+      // A scheduled plan change would outlive the cancellation
+      if (subscription.stripeScheduleId) {
+        await releaseSubscriptionSchedule(subscription.stripeScheduleId);
+      }
 
-    if (!session) {
-      return c.json({ detail: "Failed to create portal session" }, 500);
+      // Cancel at period end
+      await cancelSubscription(subscription.stripeSubscriptionId, false);
+
+      // Update local record
+      await db
+        .update(customerSubscriptions)
+        .set({
+          scheduledPlanId: null,
+          scheduledInterval: null,
+          scheduledChangeAt: null,
+          stripeScheduleId: null,
+          cancelAtPeriodEnd: true,
+          canceledAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(customerSubscriptions.id, subscription.id));
+
+      await logActivity(c, {
+        action: "subscription.cancel",
+        actionType: "update",
+        description: "Canceled subscription at period end",
+        organizationId,
+        metadata: { stripe_subscription_id: subscription.stripeSubscriptionId },
+      });
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.error("Cancel subscription error:", error);
+      return c.json({ detail: "Failed to cancel subscription" }, 500);
     }
+  },
+);
 
-    return c.json({ portal_url: session.url });
-  } catch (error) {
-    console.error("Create portal error:", error);
-    return c.json({ detail: "Failed to create portal" }, 500);
+// Subscription statuses whose plan can be changed in place
+const CHANGEABLE_STATUSES = ["active", "trialing", "past_due"];
+
+interface PlanChangeTarget {
+  subscription: CustomerSubscription;
+  currentPlan: SubscriptionPlan;
+  plan: SubscriptionPlan;
+  request: PlanChangeRequest;
+}
+
+/**
+ * Helper to validate a plan change for an organization
+ * Returns the error response to send when the change is not possible
+ */
+async function resolvePlanChange(
+  organizationId: number,
+  planId: number,
+  interval: BillingInterval,
+): Promise<PlanChangeTarget | { error: { detail: string; error: string }; status: 400 | 404 }> {
+  const [current] = await db
+    .select({ subscription: customerSubscriptions, plan: subscriptionPlans })
+    .from(customerSubscriptions)
+    .innerJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id))
+    .where(eq(customerSubscriptions.organizationId, organizationId))
+    .limit(1);
+
+  const stripeSubscriptionId = current?.subscription.stripeSubscriptionId;
+
+  if (
+    !current ||
+    !stripeSubscriptionId ||
+    !CHANGEABLE_STATUSES.includes(current.subscription.status)
+  ) {
+    return {
+      error: {
+        detail: "No active subscription; start one through checkout",
+        error: "no_active_subscription",
+      },
+      status: 400,
+    };
+  }
+
+  const [plan] = await db
+    .select()
+    .from(subscriptionPlans)
+    .where(and(eq(subscriptionPlans.id, planId), eq(subscriptionPlans.isActive, true)))
+    .limit(1);
+
+  if (!plan) {
+    return { error: { detail: "Plan not found", error: "plan_not_found" }, status: 404 };
+  }
+
+  // Stay in the subscription's currency; free plans have no price, moving to one means canceling
+  const currency = toCurrency(current.subscription.currency) ?? DEFAULT_CURRENCY;
+  const priceId = getPlanPrice(plan, currency, interval)?.priceId;
+  if (!priceId) {
+    return {
+      error: {
+        detail: `${plan.displayName} has no ${interval} price in ${currency.toUpperCase()}; cancel the subscription to move to a free plan`,
+        error: "price_not_available",
+      },
+      status: 400,
+    };
   }
-});
+
+  const change = getPlanChange(
+    {
+      plan: current.plan,
+      interval: (current.subscription.billingInterval ?? "monthly") as BillingInterval,
+    },
+    { plan, interval },
+  );
+
+  if (change === "none") {
+    return {
+      error: { detail: "The subscription is already on this plan", error: "plan_unchanged" },
+      status: 400,
+    };
+  }
+
+  return {
+    subscription: current.subscription,
+    currentPlan: current.plan,
+    plan,
+    request: {
+      subscriptionId: stripeSubscriptionId,
+      currentPeriodEnd: current.subscription.currentPeriodEnd,
+      priceId,
+      interval,
+      change,
+    },
+  };
+}
 
 /**
- * Cancel subscription
- * POST /subscriptions/:organizationId/cancel
+ * Preview a plan change
+ * Upgrades return the prorated amount charged now; downgrades apply at the end of the period
+ * GET /subscriptions/:organizationId/change-plan/preview
  */
-subscriptionsRouter.post("/:organizationId/cancel", async (c) => {
-  const user = c.get("user");
-  const organizationId = parseInt(c.req.param("organizationId"), 10);
+subscriptionsRouter.get(
+  "/:organizationId/change-plan/preview",
+  requirePermission("billing:manage"),
+  zValidator("query", changePlanPreviewSchema),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+    const { planId, interval } = c.req.valid("query");
 
-  try {
-    const access = await checkOrgAccess(user!.id, organizationId, ["owner", "admin"]);
-    if (!access.allowed) {
-      return c.json({ detail: "Access denied" }, 403);
+    try {
+      const target = await resolvePlanChange(organizationId, planId, interval);
+      if ("error" in target) {
+        return c.json(target.error, target.status);
+      }
+
+      const preview = await previewPlanChange(planChangeBilling, target.request);
+
+      if (!preview) {
+        return c.json({ detail: "Failed to preview plan change" }, 500);
+      }
+
+      return c.json({
+        change: target.request.change,
+        plan: { id: target.plan.id, name: target.plan.name, display_name: target.plan.displayName },
+        interval,
+        effective_at: preview.effectiveAt?.toISOString() ?? null,
+        proration_date: preview.prorationDate,
+        amount_due: preview.amountDue,
+        currency: preview.currency,
+        lines: preview.lines,
+      });
+    } catch (error) {
+      console.error("Preview plan change error:", error);
+      return c.json({ detail: "Failed to preview plan change" }, 500);
     }
+  },
+);
 
-    const [subscription] = await db
-      .select()
-      .from(customerSubscriptions)
-      .where(eq(customerSubscriptions.organizationId, organizationId))
-      .limit(1);
+/**
+ * Change the plan or billing interval of a subscription
+ * Upgrades apply now and invoice the prorated difference; downgrades are scheduled at period end
+ * POST /subscriptions/:organizationId/change-plan
+ */
+subscriptionsRouter.post(
+  "/:organizationId/change-plan",
+  requirePermission("billing:manage"),
+  zValidator("json", changePlanSchema),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+    const { planId, interval, prorationDate } = c.req.valid("json");
+
+    try {
+      const target = await resolvePlanChange(organizationId, planId, interval);
+      if ("error" in target) {
+        return c.json(target.error, target.status);
+      }
+
+      const { subscription, currentPlan, plan, request } = target;
+      const { change } = request;
+
+      const result = await applyPlanChange(planChangeBilling, request, prorationDate);
+
+      if (!result) {
+        return c.json({ detail: "Failed to change plan" }, 500);
+      }
+
+      if (result.status === "scheduled") {
+        await db
+          .update(customerSubscriptions)
+          .set({
+            scheduledPlanId: plan.id,
+            scheduledInterval: interval,
+            scheduledChangeAt: result.effectiveAt,
+            stripeScheduleId: result.scheduleId,
+            updatedAt: new Date(),
+          })
+          .where(eq(customerSubscriptions.id, subscription.id));
+
+        await logActivity(c, {
+          action: "subscription.change_plan",
+          actionType: "update",
+          description: `Scheduled a change from ${currentPlan.displayName} to ${plan.displayName} (${interval})`,
+          organizationId,
+          metadata: {
+            change,
+            from_plan_id: currentPlan.id,
+            plan_id: plan.id,
+            interval,
+            effective_at: result.effectiveAt?.toISOString(),
+          },
+        });
+
+        return c.json({
+          change,
+          status: result.status,
+          plan: { id: plan.id, name: plan.name, display_name: plan.displayName },
+          interval,
+          effective_at: result.effectiveAt?.toISOString() ?? null,
+        });
+      }
+
+      const pending = result.status === "pending_payment";
+
+      // Stripe released any scheduled change along with the update, even when payment is pending
+      await db
+        .update(customerSubscriptions)
+        .set({
+          ...(pending ? {} : { planId: plan.id, billingInterval: interval }),
+          scheduledPlanId: null,
+          scheduledInterval: null,
+          scheduledChangeAt: null,
+          stripeScheduleId: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(customerSubscriptions.id, subscription.id));
+
+      if (!pending) {
+        await syncOrganizationEntitlements(organizationId);
+      }
+
+      await logActivity(c, {
+        action: "subscription.change_plan",
+        actionType: "update",
+        description: `Changed plan from ${currentPlan.displayName} to ${plan.displayName} (${interval})`,
+        organizationId,
+        metadata: {
+          change,
+          from_plan_id: currentPlan.id,
+          plan_id: plan.id,
+          interval,
+          pending_payment: pending,
+        },
+      });
 
-    if (!subscription?.stripeSubscriptionId) {
-      return c.json({ detail: "No active subscription" }, 404);
+      return c.json({
+        change,
+        status: result.status,
+        plan: { id: plan.id, name: plan.name, display_name: plan.displayName },
+        interval,
+        effective_at: result.effectiveAt?.toISOString() ?? null,
+      });
+    } catch (error) {
+      console.error("Change plan error:", error);
+      return c.json({ detail: "Failed to change plan" }, 500);
     }
+  },
+);
 
-    // Cancel at period end
-    await cancelSubscription(subscription.stripeSubscriptionId, false);
+/**
+ * Cancel a scheduled plan change
+ * DELETE /subscriptions/:organizationId/change-plan
+ */
+subscriptionsRouter.delete(
+  "/:organizationId/change-plan",
+  requirePermission("billing:manage"),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
 
-    // Update local record
-    await db
-      .update(customerSubscriptions)
-      .set({
-        cancelAtPeriodEnd: true,
-        canceledAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(customerSubscriptions.id, subscription.id));
+    try {
+      const [subscription] = await db
+        .select()
+        .from(customerSubscriptions)
+        .where(eq(customerSubscriptions.organizationId, organizationId))
+        .limit(1);
 
-    return c.json({ success: true });
-  } catch (error) {
-    console.error("Cancel subscription error:", error);
-    return c.json({ detail: "Failed to cancel subscription" }, 500);
-  }
-});
+      if (!subscription?.stripeScheduleId) {
+        return c.json({ detail: "No scheduled plan change" }, 404);
+      }
+
+      if (!(await cancelPlanChange(planChangeBilling, subscription.stripeScheduleId))) {
+        return c.json({ detail: "Failed to cancel plan change" }, 500);
+      }
+
+      await db
+        .update(customerSubscriptions)
+        .set({
+          scheduledPlanId: null,
+          scheduledInterval: null,
+          scheduledChangeAt: null,
+          stripeScheduleId: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(customerSubscriptions.id, subscription.id));
+
+      await logActivity(c, {
+        action: "subscription.change_plan_cancel",
+        actionType: "update",
+        description: "Canceled the scheduled plan change",
+        organizationId,
+        metadata: { plan_id: subscription.scheduledPlanId },
+      });
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.error("Cancel plan change error:", error);
+      return c.json({ detail: "Failed to cancel plan change" }, 500);
+    }
+  },
+);
 
 /**
  * Get billing history
@@ -353,18 +1095,13 @@ subscriptionsRouter.post("/:organizationId/cancel", async (c) => {
  */
 subscriptionsRouter.get(
   "/:organizationId/billing-history",
-  zValidator("query", paginationSchema),
+  requirePermission("billing:read"),
+  zValidator("query", paginationSchema.extend(billingHistoryFilterSchema.shape)),
   async (c) => {
-    const user = c.get("user");
     const organizationId = parseInt(c.req.param("organizationId"), 10);
-    const { page, size } = c.req.valid("query");
+    const { page, size, ...filters } = c.req.valid("query");
 
     try {
-      const access = await checkOrgAccess(user!.id, organizationId);
-      if (!access.allowed) {
-        return c.json({ detail: "Access denied" }, 403);
-      }
-
       // Get subscription
       const [subscription] = await db
         .select()
@@ -383,12 +1120,14 @@ subscriptionsRouter.get(
       }
 
       const offset = (page - 1) * size;
+      const where = billingHistoryConditions(subscription.id, filters);
 
-      // Get billing history
+      // Get billing history with its Brazilian service invoices
       const history = await db
-        .select()
+        .select({ entry: billingHistory, nfse: nfseInvoices })
         .from(billingHistory)
-        .where(eq(billingHistory.subscriptionId, subscription.id))
+        .leftJoin(nfseInvoices, eq(nfseInvoices.billingHistoryId, billingHistory.id))
+        .where(where)
         .orderBy(desc(billingHistory.invoiceDate))
         .limit(size)
         .offset(offset);
@@ -396,13 +1135,16 @@ subscriptionsRouter.get(
       const countResult = await db
         .select({ count: sql<number>`count(*)` })
         .from(billingHistory)
-        .where(eq(billingHistory.subscriptionId, subscription.id));
+        .where(where);
       const count = countResult[0]?.count ?? 0;
 
       return c.json({
-        items: history.map((h) => ({
+        items: history.map(({ entry: h, nfse }) => ({
           id: h.id,
+          kind: h.kind,
+          number: h.invoiceNumber,
           amount: h.amount,
+          amount_refunded: h.amountRefunded,
           currency: h.currency,
           status: h.status,
           invoice_date: h.invoiceDate?.toISOString(),
@@ -410,6 +1152,7 @@ subscriptionsRouter.get(
           invoice_url: h.invoiceUrl,
           invoice_pdf: h.invoicePdf,
           description: h.description,
+          nfse: nfse ? formatNfse(nfse) : null,
         })),
         total: Number(count),
         page,
@@ -423,4 +1166,104 @@ subscriptionsRouter.get(
   },
 );
 
+/**
+ * Export billing history as CSV
+ * GET /subscriptions/:organizationId/billing-history/export
+ */
+subscriptionsRouter.get(
+  "/:organizationId/billing-history/export",
+  requirePermission("billing:read"),
+  zValidator("query", billingHistoryFilterSchema),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+    const filters = c.req.valid("query");
+
+    try {
+      const [subscription] = await db
+        .select()
+        .from(customerSubscriptions)
+        .where(eq(customerSubscriptions.organizationId, organizationId))
+        .limit(1);
+
+      const history = subscription
+        ? await db
+            .select({ ...getTableColumns(billingHistory), nfseNumber: nfseInvoices.nfseNumber })
+            .from(billingHistory)
+            .leftJoin(nfseInvoices, eq(nfseInvoices.billingHistoryId, billingHistory.id))
+            .where(billingHistoryConditions(subscription.id, filters))
+            .orderBy(desc(billingHistory.invoiceDate))
+            .limit(MAX_BILLING_EXPORT_ROWS)
+        : [];
+
+      return c.body(billingHistoryCsv(history), 200, {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="billing-history-${organizationId}.csv"`,
+      });
+    } catch (error) {
+      console.error("Export billing history error:", error);
+      return c.json({ detail: "Failed to export billing history" }, 500);
+    }
+  },
+);
+
+/**
+ * Download the PDF of an invoice or credit note through the API
+ * GET /subscriptions/:organizationId/billing-history/:entryId/pdf
+ */
+subscriptionsRouter.get(
+  "/:organizationId/billing-history/:entryId/pdf",
+  requirePermission("billing:read"),
+  async (c) => {
+    const organizationId = parseInt(c.req.param("organizationId"), 10);
+    const entryId = parseInt(c.req.param("entryId"), 10);
+
+    try {
+      const [entry] = await db
+        .select({ entry: billingHistory })
+        .from(billingHistory)
+        .innerJoin(
+          customerSubscriptions,
+          eq(billingHistory.subscriptionId, customerSubscriptions.id),
+        )
+        .where(
+          and(
+            eq(billingHistory.id, entryId),
+            eq(customerSubscriptions.organizationId, organizationId),
+          ),
+        )
+        .limit(1);
+
+      if (!entry) {
+        return c.json({ detail: "Billing history entry not found" }, 404);
+      }
+
+      const pdfUrl = entry.entry.invoicePdf;
+
+      if (!pdfUrl || !isStripeFileUrl(pdfUrl)) {
+        return c.json(
+          { detail: "No PDF is available for this entry", error: "invoice_pdf_not_available" },
+          404,
+        );
+      }
+
+      const pdf = await fetchStripePdf(pdfUrl);
+
+      if (!pdf) {
+        return c.json({ detail: "Failed to download the PDF from Stripe" }, 502);
+      }
+
+      const filename = `${entry.entry.kind === "credit_note" ? "credit-note" : "invoice"}-${entry.entry.invoiceNumber ?? entry.entry.id}.pdf`;
+
+      return c.body(pdf, 200, {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"`,
+        "Cache-Control": "private, no-store",
+      });
+    } catch (error) {
+      console.error("Download invoice PDF error:", error);
+      return c.json({ detail: "Failed to download PDF" }, 500);
+    }
+  },
+);
+
 export default subscriptionsRouter;
@@ -1,15 +1,29 @@
 import { zValidator } from "@hono/zod-validator";
 import { eq } from "drizzle-orm";
+import type { Context } from "hono";
 import { Hono } from "hono";
 import { z } from "zod";
 import { db } from "../../db";
+import type { StoredFile } from "../../db/schema";
 import { users } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
 import { env } from "../../lib/env";
-import { apiRateLimiter, authMiddleware, requireAuth } from "../../middleware";
 import {
+  apiRateLimiter,
+  authMiddleware,
+  authorize,
+  checkWritable,
+  requireAuth,
+  requireAuthOrApiKey,
+  requireScope,
+} from "../../middleware";
+import {
+  confirmUpload,
   deleteFile,
+  getFileByKey,
   getPresignedUrl,
   getUploadPresignedUrl,
+  storageQuotaError,
   uploadFile,
 } from "../../services/storage.service";
 
@@ -21,6 +35,59 @@ function getPublicUrl(key: string): string {
   return `${env.R2_ENDPOINT_URL}/${env.R2_BUCKET_NAME || "uploads"}/${key}`;
 }
 
+/**
+ * Helper to resolve and authorize the organization an upload is charged to
+ * API keys upload to their own organization; users name it. Both need storage:write in it
+ * Returns an error response when the upload is not allowed
+ */
+async function resolveUploadOrganization(
+  c: Context,
+  organizationId?: number,
+): Promise<{ organizationId: number; denied: null } | { organizationId: null; denied: Response }> {
+  const apiKey = c.get("apiKey");
+  const targetId = apiKey ? (organizationId ?? apiKey.organizationId) : organizationId;
+
+  if (!targetId) {
+    return {
+      organizationId: null,
+      denied: c.json({ detail: "organizationId is required", error: "organization_required" }, 400),
+    };
+  }
+
+  if (apiKey && targetId !== apiKey.organizationId) {
+    return { organizationId: null, denied: c.json({ detail: "Access denied" }, 403) };
+  }
+
+  const denied = await authorize(c, targetId, "storage:write");
+  const notWritable = denied ?? (await checkWritable(c, targetId));
+
+  return notWritable
+    ? { organizationId: null, denied: notWritable }
+    : { organizationId: targetId, denied: null };
+}
+
+/**
+ * Helper to check access to a stored file
+ * Organization files need the permission in their organization; personal files belong to their uploader
+ * Returns an error response when access is denied
+ */
+async function authorizeFile(
+  c: Context,
+  file: StoredFile,
+  permission: "storage:read" | "storage:write",
+): Promise<Response | null> {
+  if (file.organizationId) {
+    return authorize(c, file.organizationId, permission);
+  }
+
+  const userId = c.get("userId");
+  if (!userId || file.userId !== userId) {
+    return c.json({ detail: "File not found" }, 404);
+  }
+
+  return null;
+}
+
 const uploadsRouter = new Hono();
 
 // Schemas
@@ -28,6 +95,16 @@ const presignedUrlSchema = z.object({
   filename: z.string().min(1),
   contentType: z.string().min(1),
   folder: z.enum(["avatars", "logos", "attachments", "documents"]).default("attachments"),
+  size: z
+    .number()
+    .int()
+    .min(1)
+    .max(10 * 1024 * 1024),
+  organizationId: z.number().optional(),
+});
+
+const confirmUploadSchema = z.object({
+  key: z.string().min(1),
 });
 
 const deleteFileSchema = z.object({
@@ -39,78 +116,169 @@ const downloadUrlSchema = z.object({
   expiresIn: z.coerce.number().min(60).max(3600).default(3600),
 });
 
-// Protected routes
-uploadsRouter.use("*", authMiddleware, requireAuth, apiRateLimiter);
+// Protected routes (users or organization API keys)
+uploadsRouter.use("*", authMiddleware, requireAuthOrApiKey, apiRateLimiter);
 
 /**
  * Get presigned upload URL
  * POST /uploads/presigned-url
  */
-uploadsRouter.post("/presigned-url", zValidator("json", presignedUrlSchema), async (c) => {
-  const user = c.get("user");
-  const { filename, contentType, folder } = c.req.valid("json");
+uploadsRouter.post(
+  "/presigned-url",
+  requireScope("uploads:write"),
+  zValidator("json", presignedUrlSchema),
+  async (c) => {
+    const userId = c.get("userId");
+    const { filename, contentType, folder, size, organizationId } = c.req.valid("json");
+
+    try {
+      const target = await resolveUploadOrganization(c, organizationId);
+      if (target.denied) {
+        return target.denied;
+      }
 
-  try {
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, "_");
+      const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, "_");
 
-    const result = await getUploadPresignedUrl({
-      filename: sanitizedFilename,
-      folder,
-      contentType,
-      userId: user!.id,
-    });
+      const result = await getUploadPresignedUrl({
+        filename: sanitizedFilename,
+        folder,
+        contentType,
+        size,
+        userId: userId ?? undefined,
+        organizationId: target.organizationId,
+      });
 
-    if (!result) {
+      if (!result) {
+        return c.json({ detail: "Failed to generate upload URL" }, 500);
+      }
+
+      if (!result.ok) {
+        return c.json(storageQuotaError(result.usage, size), 413);
+      }
+
+      return c.json({
+        upload_url: result.uploadUrl,
+        key: result.key,
+        public_url: getPublicUrl(result.key),
+        expires_in: 3600,
+      });
+    } catch (error) {
+      console.error("Generate presigned URL error:", error);
       return c.json({ detail: "Failed to generate upload URL" }, 500);
     }
+  },
+);
 
-    return c.json({
-      upload_url: result.uploadUrl,
-      key: result.key,
-      public_url: getPublicUrl(result.key),
-      expires_in: 3600,
-    });
-  } catch (error) {
-    console.error("Generate presigned URL error:", error);
-    return c.json({ detail: "Failed to generate upload URL" }, 500);
-  }
-});
+/**
+ * Confirm a presigned upload once the file has been uploaded
+ * POST /uploads/complete
+ */
+uploadsRouter.post(
+  "/complete",
+  requireScope("uploads:write"),
+  zValidator("json", confirmUploadSchema),
+  async (c) => {
+    const apiKey = c.get("apiKey");
+    const { key } = c.req.valid("json");
+
+    try {
+      const file = await getFileByKey(key);
+      const isOwner = apiKey
+        ? file?.organizationId === apiKey.organizationId
+        : file?.userId === c.get("userId");
+
+      if (!file || !isOwner) {
+        return c.json({ detail: "File not found" }, 404);
+      }
+
+      const result = await confirmUpload(key);
+
+      if (!result) {
+        return c.json({ detail: "Failed to confirm upload" }, 500);
+      }
+
+      if (!result.ok) {
+        if (result.reason === "expired") {
+          return c.json(
+            { detail: "Upload URL expired, request a new one", error: "upload_expired" },
+            410,
+          );
+        }
+        if (result.reason === "not_uploaded") {
+          return c.json(
+            { detail: "File has not been uploaded yet", error: "upload_not_found" },
+            400,
+          );
+        }
+        return c.json({ detail: "File not found" }, 404);
+      }
+
+      return c.json({
+        key: result.file.key,
+        size: result.file.sizeBytes,
+        content_type: result.file.contentType,
+        status: result.file.status,
+      });
+    } catch (error) {
+      console.error("Confirm upload error:", error);
+      return c.json({ detail: "Failed to confirm upload" }, 500);
+    }
+  },
+);
 
 /**
  * Get presigned download URL
  * POST /uploads/download-url
  */
-uploadsRouter.post("/download-url", zValidator("json", downloadUrlSchema), async (c) => {
-  const { key, expiresIn } = c.req.valid("json");
+uploadsRouter.post(
+  "/download-url",
+  requireScope("uploads:read"),
+  zValidator("json", downloadUrlSchema),
+  async (c) => {
+    const { key, expiresIn } = c.req.valid("json");
+
+    try {
+      const file = await getFileByKey(key);
+      if (!file) {
+        return c.json({ detail: "File not found" }, 404);
+      }
 
-  try {
-    const url = await getPresignedUrl(key, expiresIn);
+      const denied = await authorizeFile(c, file, "storage:read");
+      if (denied) {
+        return denied;
+      }
 
-    if (!url) {
+      const url = await getPresignedUrl(key, expiresIn);
+
+      if (!url) {
+        return c.json({ detail: "Failed to generate download URL" }, 500);
+      }
+
+      return c.json({
+        download_url: url,
+        expires_in: expiresIn,
+      });
+    } catch (error) {
+      console.error("Generate download URL error:", error);
       return c.json({ detail: "Failed to generate download URL" }, 500);
     }
-
-    return c.json({
-      download_url: url,
-      expires_in: expiresIn,
-    });
-  } catch (error) {
-    console.error("Generate download URL error:", error);
-    return c.json({ detail: "Failed to generate download URL" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Upload file directly
  * POST /uploads/file
  */
-uploadsRouter.post("/file", async (c) => {
-  const user = c.get("user");
+uploadsRouter.post("/file", requireScope("uploads:write"), async (c) => {
+  const userId = c.get("userId");
 
   try {
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
     const folder = (formData.get("folder") as string) || "attachments";
+    const organizationId = formData.get("organization_id")
+      ? parseInt(formData.get("organization_id") as string, 10)
+      : undefined;
 
     if (!file) {
       return c.json({ detail: "No file provided" }, 400);
@@ -135,6 +303,11 @@ uploadsRouter.post("/file", async (c) => {
       return c.json({ detail: "File type not allowed" }, 400);
     }
 
+    const target = await resolveUploadOrganization(c, organizationId);
+    if (target.denied) {
+      return target.denied;
+    }
+
     const sanitizedFilename = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
 
     // Upload file
@@ -144,19 +317,25 @@ uploadsRouter.post("/file", async (c) => {
       filename: sanitizedFilename,
       folder,
       contentType: file.type,
-      userId: user!.id,
+      userId: userId ?? undefined,
+      organizationId: target.organizationId,
     });
 
     if (!result) {
       return c.json({ detail: "Failed to upload file" }, 500);
     }
 
+    if (!result.ok) {
+      return c.json(storageQuotaError(result.usage, file.size), 413);
+    }
+
     return c.json({
       key: result.key,
       url: result.url,
       size: file.size,
       content_type: file.type,
       filename: file.name,
+      organization_id: target.organizationId,
     });
   } catch (error) {
     console.error("Upload file error:", error);
@@ -168,38 +347,45 @@ uploadsRouter.post("/file", async (c) => {
  * Delete file
  * DELETE /uploads/file
  */
-uploadsRouter.delete("/file", zValidator("json", deleteFileSchema), async (c) => {
-  const user = c.get("user");
-  const { key } = c.req.valid("json");
+uploadsRouter.delete(
+  "/file",
+  requireScope("uploads:write"),
+  zValidator("json", deleteFileSchema),
+  async (c) => {
+    const user = c.get("user");
+    const { key } = c.req.valid("json");
+
+    try {
+      const file = await getFileByKey(key);
+      if (!file) {
+        return c.json({ detail: "File not found" }, 404);
+      }
 
-  try {
-    // Security: ensure user can only delete their own files
-    // Admin can delete any file
-    const isAdmin = user!.isSuperuser;
-    const isOwner = key.includes(`/${user!.id}/`);
+      // Admin can delete any file; organization members with storage:write any file of theirs
+      const denied = user?.isSuperuser ? null : await authorizeFile(c, file, "storage:write");
+      if (denied) {
+        return denied;
+      }
 
-    if (!isAdmin && !isOwner) {
-      return c.json({ detail: "Access denied" }, 403);
-    }
+      const success = await deleteFile(key);
 
-    const success = await deleteFile(key);
+      if (!success) {
+        return c.json({ detail: "Failed to delete file" }, 500);
+      }
 
-    if (!success) {
+      return c.json({ success: true });
+    } catch (error) {
+      console.error("Delete file error:", error);
       return c.json({ detail: "Failed to delete file" }, 500);
     }
-
-    return c.json({ success: true });
-  } catch (error) {
-    console.error("Delete file error:", error);
-    return c.json({ detail: "Failed to delete file" }, 500);
-  }
-});
+  },
+);
 
 /**
  * Upload user avatar
  * POST /uploads/avatar
  */
-uploadsRouter.post("/avatar", async (c) => {
+uploadsRouter.post("/avatar", requireAuth, async (c) => {
   const user = c.get("user");
 
   try {
@@ -248,7 +434,8 @@ uploadsRouter.post("/avatar", async (c) => {
       userId: user!.id,
     });
 
-    if (!result) {
+    // Avatars belong to no organization, so they are never over quota
+    if (!result?.ok) {
       return c.json({ detail: "Failed to upload avatar" }, 500);
     }
 
@@ -257,6 +444,13 @@ uploadsRouter.post("/avatar", async (c) => {
     // Update user
     await db.update(users).set({ avatarUrl, updatedAt: new Date() }).where(eq(users.id, user!.id));
 
+    await logActivity(c, {
+      action: "user.avatar_upload",
+      actionType: "update",
+      description: "Uploaded profile image",
+      metadata: { key: result.key, size: file.size, content_type: file.type },
+    });
+
     return c.json({
       avatar_url: avatarUrl,
     });
@@ -270,7 +464,7 @@ uploadsRouter.post("/avatar", async (c) => {
  * Delete user avatar
  * DELETE /uploads/avatar
  */
-uploadsRouter.delete("/avatar", async (c) => {
+uploadsRouter.delete("/avatar", requireAuth, async (c) => {
   const user = c.get("user");
 
   try {
@@ -294,6 +488,12 @@ uploadsRouter.delete("/avatar", async (c) => {
       .set({ avatarUrl: null, updatedAt: new Date() })
       .where(eq(users.id, user!.id));
 
+    await logActivity(c, {
+      action: "user.avatar_delete",
+      actionType: "delete",
+      description: "Deleted profile image",
+    });
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Delete avatar error:", error);
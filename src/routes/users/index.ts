@@ -3,7 +3,17 @@ import { asc, desc, eq, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { z } from "zod/v4";
 import { db } from "../../db";
-import { customerSubscriptions, users } from "../../db/schema";
+import { users } from "../../db/schema";
+import { logActivity } from "../../lib/audit";
+import { SUPPORTED_LOCALES } from "../../lib/i18n";
+import { unlockUser } from "../../lib/login-attempts";
+import { disableMfa } from "../../lib/mfa";
+import {
+  formatSession,
+  listActiveSessions,
+  revokeSessionFamily,
+  revokeUserSessions,
+} from "../../lib/sessions";
 import { apiRateLimiter, authMiddleware, requireAdmin, requireAuth } from "../../middleware";
 import {
   ALLOWED_IMAGE_TYPES,
@@ -11,7 +21,6 @@ import {
   isValidFileType,
   uploadFile,
 } from "../../services/storage.service";
-import { updateCustomerBillingInfo } from "../../services/stripe.service";
 
 const usersRouter = new Hono();
 
@@ -26,8 +35,10 @@ const updateProfileSchema = z.object({
   jobTitle: z.string().optional(),
   country: z.string().optional(),
   timezone: z.string().optional(),
+  locale: z.enum(SUPPORTED_LOCALES).optional(),
   bio: z.string().optional(),
   website: z.string().optional(),
+  // Personal billing details; organizations are billed with their billing profile
   taxId: z.string().optional(),
   addressStreet: z.string().optional(),
   addressCity: z.string().optional(),
@@ -67,6 +78,7 @@ usersRouter.get("/me", requireAuth, async (c) => {
     is_active: user!.isActive,
     is_superuser: user!.isSuperuser,
     is_verified: user!.isVerified,
+    mfa_enabled: user!.mfaEnabled,
     max_teams: user!.maxTeams,
     avatar_url: user!.avatarUrl,
     phone: user!.phone,
@@ -74,6 +86,7 @@ usersRouter.get("/me", requireAuth, async (c) => {
     job_title: user!.jobTitle,
     country: user!.country,
     timezone: user!.timezone,
+    locale: user!.locale,
     bio: user!.bio,
     website: user!.website,
     tax_id: user!.taxId,
@@ -111,52 +124,6 @@ usersRouter.patch("/me", requireAuth, zValidator("json", updateProfileSchema), a
       return c.json({ detail: "Failed to update user" }, 500);
     }
 
-    // Sync billing info to Stripe customer metadata if billing fields were updated
-    const hasBillingUpdate =
-      data.taxId ||
-      data.addressStreet ||
-      data.addressCity ||
-      data.addressState ||
-      data.addressPostalCode ||
-      data.country ||
-      data.companyName;
-
-    if (hasBillingUpdate) {
-      // Find user's Stripe customer ID from their subscription
-      const [subscription] = await db
-        .select({ stripeCustomerId: customerSubscriptions.stripeCustomerId })
-        .from(customerSubscriptions)
-        .innerJoin(
-          db.select().from(users).where(eq(users.id, updated.id)).as("u"),
-          sql`true`, // We'll filter by org membership in a real implementation
-        )
-        .limit(1);
-
-      if (subscription?.stripeCustomerId) {
-        // Sync to Stripe for NFSE/invoice compliance
-        await updateCustomerBillingInfo({
-          customerId: subscription.stripeCustomerId,
-          name: updated.companyName || updated.name || undefined,
-          email: updated.email,
-          taxId: updated.taxId || undefined,
-          address: {
-            line1: updated.addressStreet || undefined,
-            city: updated.addressCity || undefined,
-            state: updated.addressState || undefined,
-            postal_code: updated.addressPostalCode || undefined,
-            country: updated.country || undefined,
-          },
-          metadata: {
-            company_name: updated.companyName || "",
-            user_id: String(updated.id),
-          },
-        }).catch((err) => {
-          console.warn("Failed to sync billing info to Stripe:", err);
-          // Don't fail the request if Stripe sync fails
-        });
-      }
-    }
-
     return c.json({
       id: updated.id,
       email: updated.email,
@@ -173,6 +140,7 @@ usersRouter.patch("/me", requireAuth, zValidator("json", updateProfileSchema), a
       job_title: updated.jobTitle,
       country: updated.country,
       timezone: updated.timezone,
+      locale: updated.locale,
       bio: updated.bio,
       website: updated.website,
       tax_id: updated.taxId,
@@ -230,7 +198,8 @@ usersRouter.post("/profile/image", requireAuth, async (c) => {
       userId: user!.id,
     });
 
-    if (!result) {
+    // Avatars belong to no organization, so they are never over quota
+    if (!result?.ok) {
       return c.json({ detail: "Upload failed" }, 500);
     }
 
@@ -240,6 +209,13 @@ usersRouter.post("/profile/image", requireAuth, async (c) => {
       .set({ avatarUrl: result.url, updatedAt: new Date() })
       .where(eq(users.id, user!.id));
 
+    await logActivity(c, {
+      action: "user.avatar_upload",
+      actionType: "update",
+      description: "Uploaded profile image",
+      metadata: { key: result.key, size: file.size, content_type: file.type },
+    });
+
     return c.json({ avatar_url: result.url });
   } catch (error) {
     console.error("Upload avatar error:", error);
@@ -263,6 +239,12 @@ usersRouter.delete("/profile/image", requireAuth, async (c) => {
         .update(users)
         .set({ avatarUrl: null, updatedAt: new Date() })
         .where(eq(users.id, user!.id));
+
+      await logActivity(c, {
+        action: "user.avatar_delete",
+        actionType: "delete",
+        description: "Deleted profile image",
+      });
     }
 
     return c.json({ success: true });
@@ -272,6 +254,80 @@ usersRouter.delete("/profile/image", requireAuth, async (c) => {
   }
 });
 
+/**
+ * List active sessions of the current user
+ * GET /users/me/sessions
+ */
+usersRouter.get("/me/sessions", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  try {
+    const sessions = await listActiveSessions(user!.id);
+
+    return c.json({
+      items: sessions.map((s) => formatSession(s, c.get("sessionId"))),
+    });
+  } catch (error) {
+    console.error("List sessions error:", error);
+    return c.json({ detail: "Failed to list sessions" }, 500);
+  }
+});
+
+/**
+ * Revoke all sessions of the current user except the current one
+ * DELETE /users/me/sessions
+ */
+usersRouter.delete("/me/sessions", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  try {
+    const revoked = await revokeUserSessions(user!.id, "user_revoked", c.get("sessionId"));
+
+    await logActivity(c, {
+      action: "user.sessions_revoke",
+      actionType: "delete",
+      description: "Signed out all other sessions",
+      metadata: { revoked },
+    });
+
+    return c.json({ success: true, revoked });
+  } catch (error) {
+    console.error("Revoke sessions error:", error);
+    return c.json({ detail: "Failed to revoke sessions" }, 500);
+  }
+});
+
+/**
+ * Revoke a session of the current user
+ * DELETE /users/me/sessions/:id
+ */
+usersRouter.delete("/me/sessions/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+  const sessionId = c.req.param("id");
+
+  try {
+    const sessions = await listActiveSessions(user!.id);
+
+    if (!sessions.some((s) => s.familyId === sessionId)) {
+      return c.json({ detail: "Session not found" }, 404);
+    }
+
+    await revokeSessionFamily(sessionId, "user_revoked");
+
+    await logActivity(c, {
+      action: "user.session_revoke",
+      actionType: "delete",
+      description: "Signed out a session",
+      metadata: { session_id: sessionId },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return c.json({ detail: "Failed to revoke session" }, 500);
+  }
+});
+
 // ============= Admin Routes =============
 
 /**
@@ -384,6 +440,9 @@ usersRouter.get("/admin/users/:id", requireAdmin, async (c) => {
       is_active: user.isActive,
       is_superuser: user.isSuperuser,
       is_verified: user.isVerified,
+      mfa_enabled: user.mfaEnabled,
+      failed_login_attempts: user.failedLoginAttempts,
+      locked_until: user.lockedUntil?.toISOString() ?? null,
       max_teams: user.maxTeams,
       avatar_url: user.avatarUrl,
       phone: user.phone,
@@ -391,6 +450,7 @@ usersRouter.get("/admin/users/:id", requireAdmin, async (c) => {
       job_title: user.jobTitle,
       country: user.country,
       timezone: user.timezone,
+      locale: user.locale,
       bio: user.bio,
       website: user.website,
       tax_id: user.taxId,
@@ -436,6 +496,13 @@ usersRouter.patch(
         return c.json({ detail: "User not found" }, 404);
       }
 
+      await logActivity(c, {
+        action: "user.admin_update",
+        actionType: "update",
+        description: `Admin updated user ${updated.email}`,
+        metadata: { target_user_id: updated.id, changes: data },
+      });
+
       return c.json({
         id: updated.id,
         email: updated.email,
@@ -474,6 +541,13 @@ usersRouter.delete("/admin/users/:id", requireAdmin, async (c) => {
       return c.json({ detail: "User not found" }, 404);
     }
 
+    await logActivity(c, {
+      action: "user.admin_delete",
+      actionType: "delete",
+      description: `Admin deleted user ${deleted.email}`,
+      metadata: { target_user_id: deleted.id },
+    });
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Delete user error:", error);
@@ -481,4 +555,68 @@ usersRouter.delete("/admin/users/:id", requireAdmin, async (c) => {
   }
 });
 
+/**
+ * Reset two-factor authentication of a user (admin)
+ * DELETE /users/admin/users/:id/mfa
+ */
+usersRouter.delete("/admin/users/:id/mfa", requireAdmin, async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
+
+    if (!user) {
+      return c.json({ detail: "User not found" }, 404);
+    }
+
+    await disableMfa(user.id);
+
+    await logActivity(c, {
+      action: "user.admin_mfa_reset",
+      actionType: "update",
+      description: `Admin reset two-factor authentication for ${user.email}`,
+      metadata: { target_user_id: user.id },
+    });
+
+    return c.json({ success: true, mfa_enabled: false });
+  } catch (error) {
+    console.error("Reset MFA error:", error);
+    return c.json({ detail: "Failed to reset MFA" }, 500);
+  }
+});
+
+/**
+ * Unlock a user locked out by failed sign-in attempts (admin)
+ * POST /users/admin/users/:id/unlock
+ */
+usersRouter.post("/admin/users/:id/unlock", requireAdmin, async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+
+  try {
+    const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
+
+    if (!user) {
+      return c.json({ detail: "User not found" }, 404);
+    }
+
+    await unlockUser(user.id);
+
+    await logActivity(c, {
+      action: "user.admin_unlock",
+      actionType: "update",
+      description: `Admin unlocked ${user.email}`,
+      metadata: {
+        target_user_id: user.id,
+        failed_login_attempts: user.failedLoginAttempts,
+        locked_until: user.lockedUntil?.toISOString() ?? null,
+      },
+    });
+
+    return c.json({ success: true, failed_login_attempts: 0, locked_until: null });
+  } catch (error) {
+    console.error("Unlock user error:", error);
+    return c.json({ detail: "Failed to unlock user" }, 500);
+  }
+});
+
 export default usersRouter;
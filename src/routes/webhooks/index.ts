@@ -1,9 +1,13 @@
 import { eq } from "drizzle-orm";
 import { Hono } from "hono";
+import type { WebhookEventPayload } from "resend";
+import { Resend } from "resend";
 import Stripe from "stripe";
 import { db } from "../../db";
-import { billingHistory, customerSubscriptions, subscriptionPlans } from "../../db/schema";
+import { emailOutbox } from "../../db/schema";
+import { suppressEmail } from "../../lib/email-outbox";
 import { env } from "../../lib/env";
+import { processStripeEvent, recordStripeEvent } from "../../services/stripe-events.service";
 
 const webhooksRouter = new Hono();
 
@@ -13,6 +17,8 @@ const stripe = env.STRIPE_SECRET_KEY
     })
   : null;
 
+const resend = env.RESEND_API_KEY ? new Resend(env.RESEND_API_KEY) : null;
+
 /**
  * Stripe webhook handler
  * POST /webhooks/stripe
@@ -39,239 +45,122 @@ webhooksRouter.post("/stripe", async (c) => {
   }
 
   try {
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        await handleCheckoutComplete(session);
-        break;
-      }
+    const { record, duplicate } = await recordStripeEvent(event);
 
-      case "customer.subscription.created":
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as Stripe.Subscription;
-        await handleSubscriptionUpdate(subscription);
-        break;
-      }
-
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        await handleSubscriptionDeleted(subscription);
-        break;
-      }
+    // Stripe retries until it gets a 2xx; events already handled are acknowledged as is
+    const processed = await processStripeEvent(record.id);
 
-      case "invoice.paid": {
-        const invoice = event.data.object as Stripe.Invoice;
-        await handleInvoicePaid(invoice);
-        break;
-      }
-
-      case "invoice.payment_failed": {
-        const invoice = event.data.object as Stripe.Invoice;
-        await handleInvoiceFailed(invoice);
-        break;
-      }
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+    if (processed.status === "failed") {
+      return c.json({ error: "Webhook handler failed" }, 500);
     }
 
-    return c.json({ received: true });
+    return c.json({ received: true, duplicate });
   } catch (error) {
     console.error("Webhook handler error:", error);
     return c.json({ error: "Webhook handler failed" }, 500);
   }
 });
 
-async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
-  if (!stripe) return;
-
-  const organizationId = session.metadata?.organization_id;
-  const planId = session.metadata?.plan_id;
-
-  if (!organizationId || !session.subscription) {
-    return;
+/**
+ * Resend delivery webhook handler
+ * POST /webhooks/resend
+ */
+webhooksRouter.post("/resend", async (c) => {
+  if (!resend || !env.RESEND_WEBHOOK_SECRET) {
+    return c.json({ error: "Resend not configured" }, 500);
   }
 
-  // Get subscription details from Stripe
-  const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
-
-  // Get period dates safely using type assertion for older API versions
-  const subData = subscription as any;
-  const periodStart = subData.current_period_start
-    ? new Date(subData.current_period_start * 1000)
-    : null;
-  const periodEnd = subData.current_period_end ? new Date(subData.current_period_end * 1000) : null;
-
-  // Update local subscription record
-  await db
-    .update(customerSubscriptions)
-    .set({
-      stripeSubscriptionId: subscription.id,
-      planId: planId ? parseInt(planId, 10) : null,
-      status: subscription.status,
-      currentPeriodStart: periodStart,
-      currentPeriodEnd: periodEnd,
-      updatedAt: new Date(),
-    })
-    .where(eq(customerSubscriptions.organizationId, parseInt(organizationId, 10)));
-
-  console.log(`Checkout complete for org ${organizationId}`);
-}
-
-async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
-  const customerId = subscription.customer as string;
-
-  // Find subscription by customer ID
-  const [existing] = await db
-    .select()
-    .from(customerSubscriptions)
-    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
-    .limit(1);
+  const id = c.req.header("svix-id");
+  const timestamp = c.req.header("svix-timestamp");
+  const signature = c.req.header("svix-signature");
 
-  if (!existing) {
-    console.log(`No subscription found for customer ${customerId}`);
-    return;
+  if (!id || !timestamp || !signature) {
+    return c.json({ error: "No signature" }, 400);
   }
 
-  // Get plan from price ID
-  const priceId = subscription.items.data[0]?.price.id;
-  let planId: number | null = null;
-
-  if (priceId) {
-    const [plan] = await db
-      .select()
-      .from(subscriptionPlans)
-      .where(eq(subscriptionPlans.stripePriceIdMonthly, priceId))
-      .limit(1);
+  let event: WebhookEventPayload;
 
-    if (plan) {
-      planId = plan.id;
-    } else {
-      const [yearlyPlan] = await db
-        .select()
-        .from(subscriptionPlans)
-        .where(eq(subscriptionPlans.stripePriceIdYearly, priceId))
-        .limit(1);
-      if (yearlyPlan) {
-        planId = yearlyPlan.id;
-      }
-    }
+  try {
+    const payload = await c.req.text();
+    event = resend.webhooks.verify({
+      payload,
+      headers: { id, timestamp, signature },
+      webhookSecret: env.RESEND_WEBHOOK_SECRET,
+    });
+  } catch (err) {
+    console.error("Resend webhook signature verification failed:", err);
+    return c.json({ error: "Invalid signature" }, 400);
   }
 
-  // Get period dates safely
-  const subData = subscription as any;
-  const periodStart = subData.current_period_start
-    ? new Date(subData.current_period_start * 1000)
-    : null;
-  const periodEnd = subData.current_period_end ? new Date(subData.current_period_end * 1000) : null;
+  try {
+    switch (event.type) {
+      case "email.delivered":
+        await updateEmailStatus(event.data.email_id, "delivered", {
+          deliveredAt: new Date(event.created_at),
+        });
+        break;
 
-  // Update subscription
-  await db
-    .update(customerSubscriptions)
-    .set({
-      stripeSubscriptionId: subscription.id,
-      planId,
-      status: subscription.status,
-      currentPeriodStart: periodStart,
-      currentPeriodEnd: periodEnd,
-      cancelAtPeriodEnd: subscription.cancel_at_period_end,
-      canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
-      trialStart: subscription.trial_start ? new Date(subscription.trial_start * 1000) : null,
-      trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
-      updatedAt: new Date(),
-    })
-    .where(eq(customerSubscriptions.id, existing.id));
+      case "email.bounced": {
+        const { bounce } = event.data;
+        const details = `${bounce.type}/${bounce.subType}: ${bounce.message}`;
 
-  console.log(`Subscription updated for customer ${customerId}`);
-}
+        await updateEmailStatus(event.data.email_id, "bounced", { lastError: details });
 
-async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
-  const customerId = subscription.customer as string;
+        // Transient bounces (full mailbox, greylisting) may succeed later
+        if (bounce.type === "Permanent") {
+          await suppressRecipients(event.data.to, "bounce", details);
+        }
+        break;
+      }
 
-  await db
-    .update(customerSubscriptions)
-    .set({
-      status: "canceled",
-      canceledAt: new Date(),
-      updatedAt: new Date(),
-    })
-    .where(eq(customerSubscriptions.stripeCustomerId, customerId));
+      case "email.complained":
+        await updateEmailStatus(event.data.email_id, "complained");
+        await suppressRecipients(event.data.to, "complaint", "Marked as spam");
+        break;
 
-  console.log(`Subscription deleted for customer ${customerId}`);
-}
+      case "email.suppressed":
+        await updateEmailStatus(event.data.email_id, "suppressed", {
+          lastError: event.data.suppressed.message,
+        });
+        await suppressRecipients(event.data.to, "bounce", event.data.suppressed.message);
+        break;
 
-async function handleInvoicePaid(invoice: Stripe.Invoice) {
-  const customerId = invoice.customer as string;
+      case "email.failed":
+        await updateEmailStatus(event.data.email_id, "failed", {
+          lastError: event.data.failed.reason,
+        });
+        break;
 
-  // Find subscription
-  const [subscription] = await db
-    .select()
-    .from(customerSubscriptions)
-    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
-    .limit(1);
+      default:
+        console.log(`Unhandled Resend event type: ${event.type}`);
+    }
 
-  if (!subscription) {
-    return;
+    return c.json({ received: true });
+  } catch (error) {
+    console.error("Resend webhook handler error:", error);
+    return c.json({ error: "Webhook handler failed" }, 500);
   }
+});
 
-  // Record billing history (amount in cents)
-  const invoiceData = invoice as any;
-  await db.insert(billingHistory).values({
-    subscriptionId: subscription.id,
-    stripeInvoiceId: invoice.id ?? undefined,
-    amount: invoiceData.amount_paid ?? 0,
-    currency: (invoiceData.currency ?? "usd").toUpperCase(),
-    status: "paid",
-    invoiceDate: new Date((invoiceData.created ?? Date.now() / 1000) * 1000),
-    paidAt: invoiceData.status_transitions?.paid_at
-      ? new Date(invoiceData.status_transitions.paid_at * 1000)
-      : new Date(),
-    invoiceUrl: invoiceData.hosted_invoice_url ?? undefined,
-    invoicePdf: invoiceData.invoice_pdf ?? undefined,
-    description: `Invoice for subscription`,
-  });
-
-  console.log(`Invoice paid for customer ${customerId}`);
+async function updateEmailStatus(
+  providerMessageId: string,
+  status: string,
+  values: { deliveredAt?: Date; lastError?: string } = {},
+) {
+  await db
+    .update(emailOutbox)
+    .set({ status, ...values })
+    .where(eq(emailOutbox.providerMessageId, providerMessageId));
 }
 
-async function handleInvoiceFailed(invoice: Stripe.Invoice) {
-  const customerId = invoice.customer as string;
-
-  // Find subscription
-  const [subscription] = await db
-    .select()
-    .from(customerSubscriptions)
-    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
-    .limit(1);
-
-  if (!subscription) {
-    return;
+async function suppressRecipients(
+  recipients: string[],
+  reason: "bounce" | "complaint",
+  details: string,
+) {
+  for (const email of recipients) {
+    await suppressEmail(email, reason, details);
   }
-
-  // Record failed payment (amount in cents)
-  const invoiceData = invoice as any;
-  await db.insert(billingHistory).values({
-    subscriptionId: subscription.id,
-    stripeInvoiceId: invoice.id ?? undefined,
-    amount: invoiceData.amount_due ?? 0,
-    currency: (invoiceData.currency ?? "usd").toUpperCase(),
-    status: "failed",
-    invoiceDate: new Date((invoiceData.created ?? Date.now() / 1000) * 1000),
-    invoiceUrl: invoiceData.hosted_invoice_url ?? undefined,
-    invoicePdf: invoiceData.invoice_pdf ?? undefined,
-    description: `Failed payment for subscription`,
-  });
-
-  // Update subscription status
-  await db
-    .update(customerSubscriptions)
-    .set({
-      status: "past_due",
-      updatedAt: new Date(),
-    })
-    .where(eq(customerSubscriptions.id, subscription.id));
-
-  console.log(`Invoice failed for customer ${customerId}`);
 }
 
 export default webhooksRouter;
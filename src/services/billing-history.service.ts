@@ -0,0 +1,138 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+import { db } from "../db";
+import type { BillingHistory, CustomerSubscription, NewBillingHistory } from "../db/schema";
+import { billingHistory, customerSubscriptions } from "../db/schema";
+import {
+  creditNoteToBillingEntry,
+  getInvoiceAmountRefunded,
+  invoiceToBillingEntry,
+} from "../lib/billing-history";
+import { queueNfseIssue } from "./nfse.service";
+import { listCharges, listCreditNotes, listInvoices } from "./stripe.service";
+
+// Invoices can still be paid, voided or refunded after they are created, so each
+// run looks this far behind the previous one
+const RECONCILE_LOOKBACK_MS = 35 * 24 * 60 * 60 * 1000;
+
+export interface ReconcileResult {
+  invoices: number;
+  creditNotes: number;
+}
+
+/**
+ * Insert a billing history entry, or update the one recorded for the same Stripe invoice or credit note
+ */
+export async function upsertBillingEntry(entry: NewBillingHistory): Promise<BillingHistory> {
+  const [saved] = await db
+    .insert(billingHistory)
+    .values(entry)
+    .onConflictDoUpdate({
+      target:
+        entry.kind === "credit_note"
+          ? billingHistory.stripeCreditNoteId
+          : billingHistory.stripeInvoiceId,
+      set: entry,
+    })
+    .returning();
+
+  return saved!;
+}
+
+/**
+ * Backfill and correct the billing history of a subscription from Stripe
+ * The first run reads the customer's whole history; later ones only recent invoices and credit notes
+ */
+export async function reconcileBillingHistory(
+  subscription: CustomerSubscription,
+): Promise<ReconcileResult | null> {
+  if (!subscription.stripeCustomerId) {
+    return null;
+  }
+
+  const startedAt = new Date();
+  const since = subscription.billingReconciledAt
+    ? new Date(subscription.billingReconciledAt.getTime() - RECONCILE_LOOKBACK_MS)
+    : undefined;
+
+  const [invoices, creditNotes, charges] = await Promise.all([
+    listInvoices(subscription.stripeCustomerId, since),
+    listCreditNotes(subscription.stripeCustomerId, since),
+    listCharges(subscription.stripeCustomerId, since),
+  ]);
+
+  // Charges are paid after their invoice is created, so the same window covers them
+  const refunds = new Map<string, number>();
+  for (const charge of charges) {
+    if (charge.amount_refunded > 0) {
+      const paymentIntentId =
+        typeof charge.payment_intent === "string"
+          ? charge.payment_intent
+          : charge.payment_intent?.id;
+      refunds.set(paymentIntentId ?? charge.id, charge.amount_refunded);
+    }
+  }
+
+  let invoiceCount = 0;
+  for (const invoice of invoices) {
+    const entry = invoiceToBillingEntry(
+      invoice,
+      subscription.id,
+      getInvoiceAmountRefunded(invoice, refunds),
+    );
+    if (entry) {
+      // Invoices found paid here may have missed their webhook, and with it their note
+      await queueNfseIssue(await upsertBillingEntry(entry));
+      invoiceCount += 1;
+    }
+  }
+
+  for (const creditNote of creditNotes) {
+    await upsertBillingEntry(creditNoteToBillingEntry(creditNote, subscription.id));
+  }
+
+  await db
+    .update(customerSubscriptions)
+    .set({ billingReconciledAt: startedAt })
+    .where(eq(customerSubscriptions.id, subscription.id));
+
+  return { invoices: invoiceCount, creditNotes: creditNotes.length };
+}
+
+/**
+ * Reconcile the billing history of every Stripe customer, or of a single organization
+ * A failing customer is logged and does not stop the others; a single organization's error is thrown
+ */
+export async function reconcileAllBillingHistory(organizationId?: number): Promise<number> {
+  const subscriptions = await db
+    .select()
+    .from(customerSubscriptions)
+    .where(
+      and(
+        isNotNull(customerSubscriptions.stripeCustomerId),
+        organizationId !== undefined
+          ? eq(customerSubscriptions.organizationId, organizationId)
+          : undefined,
+      ),
+    );
+
+  let reconciled = 0;
+
+  for (const subscription of subscriptions) {
+    try {
+      const result = await reconcileBillingHistory(subscription);
+      if (result) {
+        reconciled += 1;
+      }
+    } catch (error) {
+      if (organizationId !== undefined) {
+        throw error;
+      }
+      console.error(
+        `Billing history reconciliation failed for organization ${subscription.organizationId}:`,
+        error,
+      );
+    }
+  }
+
+  return reconciled;
+}
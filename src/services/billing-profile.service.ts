@@ -0,0 +1,164 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import type { Organization, OrganizationBillingProfile } from "../db/schema";
+import { customerSubscriptions, organizationBillingProfiles, organizations } from "../db/schema";
+import { enqueueJob } from "../lib/jobs";
+import type { TaxId } from "../lib/tax-ids";
+import { getStripeTaxIdType } from "../lib/tax-ids";
+import { requeueNfseIssues } from "./nfse.service";
+import { updateCustomerBillingInfo } from "./stripe.service";
+
+export interface BillingProfileInput {
+  legalName?: string | null;
+  billingEmail?: string | null;
+  taxIds?: TaxId[];
+  address?: {
+    line1: string;
+    line2?: string | null;
+    city: string;
+    state?: string | null;
+    postalCode: string;
+  } | null;
+}
+
+/**
+ * Get the billing profile of an organization; null until one is saved
+ */
+export async function getBillingProfile(
+  organizationId: number,
+): Promise<OrganizationBillingProfile | null> {
+  const [profile] = await db
+    .select()
+    .from(organizationBillingProfiles)
+    .where(eq(organizationBillingProfiles.organizationId, organizationId))
+    .limit(1);
+
+  return profile ?? null;
+}
+
+/**
+ * Create or update the billing profile of an organization and queue its sync to Stripe
+ * Notes that failed or were never issued are queued again with the new details
+ * Fields left out are kept; tax ids must already be normalized
+ */
+export async function saveBillingProfile(
+  organizationId: number,
+  input: BillingProfileInput,
+): Promise<OrganizationBillingProfile> {
+  const values = {
+    ...(input.legalName !== undefined && { legalName: input.legalName }),
+    ...(input.billingEmail !== undefined && { billingEmail: input.billingEmail }),
+    ...(input.taxIds !== undefined && { taxIds: input.taxIds }),
+    ...(input.address !== undefined && {
+      addressLine1: input.address?.line1 ?? null,
+      addressLine2: input.address?.line2 ?? null,
+      addressCity: input.address?.city ?? null,
+      addressState: input.address?.state ?? null,
+      addressPostalCode: input.address?.postalCode ?? null,
+    }),
+  };
+
+  const [profile] = await db
+    .insert(organizationBillingProfiles)
+    .values({ organizationId, ...values })
+    .onConflictDoUpdate({
+      target: organizationBillingProfiles.organizationId,
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  await queueBillingProfileSync(organizationId);
+  await requeueNfseIssues(organizationId);
+
+  return profile!;
+}
+
+/**
+ * Queue pushing an organization's billing details to its Stripe customer
+ */
+export async function queueBillingProfileSync(organizationId: number): Promise<void> {
+  await enqueueJob("billing_profile.sync", { organizationId });
+}
+
+/**
+ * Push an organization's billing profile to its Stripe customer
+ * Does nothing until the organization has a customer; Stripe errors are thrown so the job retries
+ */
+export async function syncBillingProfileToStripe(organizationId: number): Promise<void> {
+  const [row] = await db
+    .select({
+      organization: organizations,
+      profile: organizationBillingProfiles,
+      stripeCustomerId: customerSubscriptions.stripeCustomerId,
+    })
+    .from(organizations)
+    .leftJoin(
+      organizationBillingProfiles,
+      eq(organizationBillingProfiles.organizationId, organizations.id),
+    )
+    .leftJoin(customerSubscriptions, eq(customerSubscriptions.organizationId, organizations.id))
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  if (!row?.profile || !row.stripeCustomerId) {
+    return;
+  }
+
+  const { organization, profile } = row;
+
+  const customer = await updateCustomerBillingInfo({
+    customerId: row.stripeCustomerId,
+    name: profile.legalName || organization.name,
+    email: profile.billingEmail,
+    address: profile.addressLine1
+      ? {
+          line1: profile.addressLine1,
+          line2: profile.addressLine2 ?? "",
+          city: profile.addressCity ?? "",
+          state: profile.addressState ?? "",
+          postal_code: profile.addressPostalCode ?? "",
+          country: organization.billingCountry ?? "",
+        }
+      : null,
+    taxIds: profile.taxIds.map((taxId) => ({
+      type: getStripeTaxIdType(taxId),
+      value: taxId.value,
+    })),
+    metadata: { organization_id: String(organizationId) },
+  });
+
+  if (customer) {
+    await db
+      .update(organizationBillingProfiles)
+      .set({ stripeSyncedAt: new Date() })
+      .where(eq(organizationBillingProfiles.id, profile.id));
+  }
+}
+
+/**
+ * Format a billing profile for API responses; organizations without one get an empty profile
+ */
+export function formatBillingProfile(
+  organization: Pick<Organization, "id" | "billingCountry">,
+  profile: OrganizationBillingProfile | null,
+) {
+  return {
+    organization_id: organization.id,
+    legal_name: profile?.legalName ?? null,
+    billing_email: profile?.billingEmail ?? null,
+    tax_ids: profile?.taxIds ?? [],
+    address: profile?.addressLine1
+      ? {
+          line1: profile.addressLine1,
+          line2: profile.addressLine2,
+          city: profile.addressCity,
+          state: profile.addressState,
+          postal_code: profile.addressPostalCode,
+          country: organization.billingCountry,
+        }
+      : null,
+    country: organization.billingCountry,
+    stripe_synced_at: profile?.stripeSyncedAt?.toISOString() ?? null,
+    updated_at: (profile?.updatedAt ?? profile?.createdAt)?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,409 @@
+import { and, eq, gt, lte, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import type { CustomerSubscription, SubscriptionPlan } from "../db/schema";
+import {
+  customerSubscriptions,
+  organizationMembers,
+  organizations,
+  projects,
+  subscriptionPlans,
+  teamInvitations,
+} from "../db/schema";
+import { recordActivity } from "../lib/audit";
+import type { PlanPrice } from "../lib/currency";
+import { findPlanPrice, getPriceIdColumns } from "../lib/currency";
+import type { FeatureFlags, PlanFeature } from "../lib/features";
+import { resolveFeatures } from "../lib/features";
+import type { SeatUsage } from "../lib/plan-limits";
+import { getReadOnlyReason, toSeatUsage } from "../lib/plan-limits";
+import { isTrialExpired } from "../lib/trials";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Subscription statuses that keep the paid plan limits
+const ENTITLED_STATUSES = ["active", "trialing", "past_due"];
+
+export const FREE_PLAN_NAME = "free";
+
+// Limits used when no free plan has been configured (matches the schema defaults)
+const DEFAULT_LIMITS = {
+  maxProjects: 3,
+  maxUsers: 1,
+  maxStorageGb: 1,
+};
+
+export interface EffectiveLimits {
+  planName: string | null;
+  maxProjects: number;
+  maxUsers: number;
+  maxStorageGb: number;
+}
+
+export interface OrganizationEntitlements extends EffectiveLimits {
+  subscriptionStatus: string | null;
+  maxAiCreditsMonthly: number;
+  aiFeaturesEnabled: string[];
+  features: FeatureFlags;
+  overrides: FeatureFlags;
+}
+
+export interface EntitlementSyncResult extends EffectiveLimits {
+  subscriptionStatus: string | null;
+  projectsCount: number;
+  membersCount: number;
+  readOnly: boolean;
+  readOnlyReason: string | null;
+}
+
+/**
+ * Get the plan used for organizations without an entitled subscription
+ */
+export async function getFreePlan(): Promise<SubscriptionPlan | null> {
+  const [plan] = await db
+    .select()
+    .from(subscriptionPlans)
+    .where(eq(subscriptionPlans.name, FREE_PLAN_NAME))
+    .limit(1);
+
+  return plan ?? null;
+}
+
+/**
+ * Find the plan a Stripe price belongs to, with its currency and interval
+ */
+export async function findPlanByPriceId(
+  priceId: string,
+): Promise<{ plan: SubscriptionPlan; price: PlanPrice } | null> {
+  const [plan] = await db
+    .select()
+    .from(subscriptionPlans)
+    .where(or(...getPriceIdColumns().map((column) => eq(subscriptionPlans[column], priceId))))
+    .limit(1);
+
+  const price = plan ? findPlanPrice(plan, priceId) : null;
+
+  return plan && price ? { plan, price } : null;
+}
+
+/**
+ * Resolve the plan an organization is currently entitled to
+ * Falls back to the free plan when the subscription is missing, not in good standing or an ended trial
+ */
+export async function resolveEffectivePlan(organizationId: number): Promise<{
+  subscription: CustomerSubscription | null;
+  plan: SubscriptionPlan | null;
+}> {
+  const [row] = await db
+    .select({
+      subscription: customerSubscriptions,
+      plan: subscriptionPlans,
+    })
+    .from(customerSubscriptions)
+    .leftJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id))
+    .where(eq(customerSubscriptions.organizationId, organizationId))
+    .limit(1);
+
+  const subscription = row?.subscription ?? null;
+
+  if (
+    subscription &&
+    row?.plan &&
+    ENTITLED_STATUSES.includes(subscription.status) &&
+    !isTrialExpired(subscription)
+  ) {
+    return { subscription, plan: row.plan };
+  }
+
+  return { subscription, plan: await getFreePlan() };
+}
+
+/**
+ * Get the effective limits for an organization
+ */
+export async function getEffectiveLimits(organizationId: number): Promise<EffectiveLimits> {
+  const { plan } = await resolveEffectivePlan(organizationId);
+  return limitsFromPlan(plan);
+}
+
+/**
+ * Resolve everything an organization is entitled to: plan limits and features with its overrides
+ * Returns null when the organization does not exist
+ */
+export async function getOrganizationEntitlements(
+  organizationId: number,
+): Promise<OrganizationEntitlements | null> {
+  const [org] = await db
+    .select({ featureOverrides: organizations.featureOverrides })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  if (!org) {
+    return null;
+  }
+
+  const { subscription, plan } = await resolveEffectivePlan(organizationId);
+
+  return {
+    ...limitsFromPlan(plan),
+    subscriptionStatus: subscription?.status ?? null,
+    maxAiCreditsMonthly: plan?.maxAiCreditsMonthly ?? 0,
+    aiFeaturesEnabled: plan?.aiFeaturesEnabled ?? [],
+    features: resolveFeatures(plan?.features, org.featureOverrides),
+    overrides: org.featureOverrides,
+  };
+}
+
+/**
+ * Check whether an organization's plan, or an override, grants a feature
+ */
+export async function hasFeature(organizationId: number, feature: PlanFeature): Promise<boolean> {
+  const entitlements = await getOrganizationEntitlements(organizationId);
+  return entitlements?.features[feature] === true;
+}
+
+function limitsFromPlan(plan: SubscriptionPlan | null): EffectiveLimits {
+  return {
+    planName: plan?.name ?? null,
+    maxProjects: plan?.maxProjects ?? DEFAULT_LIMITS.maxProjects,
+    maxUsers: plan?.maxUsers ?? DEFAULT_LIMITS.maxUsers,
+    maxStorageGb: plan?.maxStorageGb ?? DEFAULT_LIMITS.maxStorageGb,
+  };
+}
+
+/**
+ * Recompute an organization's limits from its subscription state
+ *
+ * Copies the plan limits onto the organization and flags it read-only when
+ * current usage exceeds them. Nothing is ever deleted: the flag is cleared
+ * again once usage is back within the limits or the plan is upgraded.
+ */
+export async function syncOrganizationEntitlements(
+  organizationId: number,
+): Promise<EntitlementSyncResult | null> {
+  const [org] = await db
+    .select()
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  if (!org) {
+    return null;
+  }
+
+  const { subscription, plan } = await resolveEffectivePlan(organizationId);
+  const limits = limitsFromPlan(plan);
+
+  const [projectCount] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(projects)
+    .where(eq(projects.organizationId, organizationId));
+  const seats = await countSeats(organizationId);
+
+  const projectsCount = Number(projectCount?.count ?? 0);
+  const membersCount = seats.members;
+
+  const readOnlyReason = getReadOnlyReason({ projectsCount, membersCount }, limits);
+  const readOnly = readOnlyReason !== null;
+
+  await db
+    .update(organizations)
+    .set({
+      planName: limits.planName,
+      subscriptionStatus: subscription?.status ?? null,
+      stripeSubscriptionId: subscription?.stripeSubscriptionId ?? org.stripeSubscriptionId,
+      stripeCustomerId: subscription?.stripeCustomerId ?? org.stripeCustomerId,
+      maxProjects: limits.maxProjects,
+      activeProjects: projectsCount,
+      readOnly,
+      readOnlyReason,
+      updatedAt: new Date(),
+    })
+    .where(eq(organizations.id, organizationId));
+
+  if (subscription) {
+    await db
+      .update(customerSubscriptions)
+      .set({
+        currentProjectsCount: projectsCount,
+        currentUsersCount: seats.members + seats.pendingInvitations,
+        updatedAt: new Date(),
+      })
+      .where(eq(customerSubscriptions.id, subscription.id));
+  }
+
+  if (readOnly !== org.readOnly) {
+    await recordActivity({
+      action: readOnly ? "organization.read_only" : "organization.writable",
+      actionType: "update",
+      description: readOnly
+        ? `Organization flagged read-only (${readOnlyReason})`
+        : "Organization back within plan limits",
+      organizationId,
+      metadata: {
+        plan_name: limits.planName,
+        max_projects: limits.maxProjects,
+        max_users: limits.maxUsers,
+        projects_count: projectsCount,
+        members_count: membersCount,
+      },
+    });
+  }
+
+  return {
+    ...limits,
+    subscriptionStatus: subscription?.status ?? null,
+    projectsCount,
+    membersCount,
+    readOnly,
+    readOnlyReason,
+  };
+}
+
+/**
+ * Move organizations whose trial ended without being paid for back to the free plan limits
+ * Stripe cancels these trials itself; this covers its events arriving late or not at all
+ * Returns the ids of the organizations that lost their trial plan
+ */
+export async function expireEndedTrials(): Promise<number[]> {
+  const ended = await db
+    .select({
+      organizationId: customerSubscriptions.organizationId,
+      trialEnd: customerSubscriptions.trialEnd,
+      planName: organizations.planName,
+    })
+    .from(customerSubscriptions)
+    .innerJoin(organizations, eq(customerSubscriptions.organizationId, organizations.id))
+    .where(
+      and(
+        eq(customerSubscriptions.status, "trialing"),
+        lte(customerSubscriptions.trialEnd, new Date()),
+      ),
+    );
+
+  const expired: number[] = [];
+
+  for (const row of ended) {
+    const result = await syncOrganizationEntitlements(row.organizationId);
+
+    // Already moved by an earlier run
+    if (!result || result.planName === row.planName) {
+      continue;
+    }
+
+    await recordActivity({
+      action: "subscription.trial_expired",
+      actionType: "update",
+      description: `Trial ended without payment; moved to ${result.planName ?? "default"} limits`,
+      organizationId: row.organizationId,
+      metadata: {
+        previous_plan_name: row.planName,
+        plan_name: result.planName,
+        trial_end: row.trialEnd?.toISOString(),
+      },
+    });
+    expired.push(row.organizationId);
+  }
+
+  return expired;
+}
+
+/**
+ * Count members and pending (unexpired) invitations of an organization
+ */
+async function countSeats(
+  organizationId: number,
+  executor: Pick<typeof db, "select"> = db,
+): Promise<{ members: number; pendingInvitations: number }> {
+  const [memberCount] = await executor
+    .select({ count: sql<number>`count(*)` })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.organizationId, organizationId));
+  const [invitationCount] = await executor
+    .select({ count: sql<number>`count(*)` })
+    .from(teamInvitations)
+    .where(
+      and(
+        eq(teamInvitations.organizationId, organizationId),
+        eq(teamInvitations.status, "pending"),
+        gt(teamInvitations.expiresAt, new Date()),
+      ),
+    );
+
+  return {
+    members: Number(memberCount?.count ?? 0),
+    pendingInvitations: Number(invitationCount?.count ?? 0),
+  };
+}
+
+/**
+ * Get seat usage of an organization
+ * Members and pending invitations both count against the plan's maxUsers
+ */
+export async function getSeatUsage(organizationId: number): Promise<SeatUsage> {
+  const { maxUsers } = await getEffectiveLimits(organizationId);
+  const { members, pendingInvitations } = await countSeats(organizationId);
+
+  return toSeatUsage(maxUsers, members, pendingInvitations);
+}
+
+/**
+ * Make a change that takes a seat, if the organization has room for it
+ *
+ * Seats are counted and taken in one transaction holding the organization's row lock,
+ * so concurrent invitations and accepts cannot go over the plan's maxUsers.
+ */
+export async function withSeatLock<T>(
+  organizationId: number,
+  hasRoom: (usage: SeatUsage) => boolean,
+  change: (tx: Transaction) => Promise<T>,
+): Promise<{ ok: true; value: T; usage: SeatUsage } | { ok: false; usage: SeatUsage }> {
+  const { maxUsers } = await getEffectiveLimits(organizationId);
+
+  return db.transaction(async (tx) => {
+    await tx
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, organizationId))
+      .for("update");
+
+    const { members, pendingInvitations } = await countSeats(organizationId, tx);
+    const usage = toSeatUsage(maxUsers, members, pendingInvitations);
+
+    if (!hasRoom(usage)) {
+      return { ok: false, usage };
+    }
+
+    return { ok: true, value: await change(tx), usage };
+  });
+}
+
+/**
+ * Check if an organization is flagged read-only for exceeding its plan limits, and why
+ */
+export async function getReadOnlyState(
+  organizationId: number,
+): Promise<{ readOnly: boolean; reason: string | null }> {
+  const [org] = await db
+    .select({ readOnly: organizations.readOnly, reason: organizations.readOnlyReason })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  return { readOnly: org?.readOnly ?? false, reason: org?.reason ?? null };
+}
+
+/**
+ * Recount seats and store them on the organization's subscription
+ * Call after members join or leave and after invitations change status
+ */
+export async function refreshSeatCount(organizationId: number): Promise<SeatUsage> {
+  const usage = await getSeatUsage(organizationId);
+
+  await db
+    .update(customerSubscriptions)
+    .set({ currentUsersCount: usage.used, updatedAt: new Date() })
+    .where(eq(customerSubscriptions.organizationId, organizationId));
+
+  return usage;
+}
@@ -1,3 +1,11 @@
+export * from "./billing-history.service";
+export * from "./billing-profile.service";
 export * from "./email.service";
+export * from "./entitlement.service";
+export * from "./invitation.service";
+export * from "./nfse.service";
+export * from "./rate-limit.service";
 export * from "./storage.service";
 export * from "./stripe.service";
+export * from "./stripe-events.service";
+export * from "./usage.service";
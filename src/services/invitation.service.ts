@@ -0,0 +1,25 @@
+import { and, eq, lt } from "drizzle-orm";
+import { db } from "../db";
+import type { TeamInvitation } from "../db/schema";
+import { teamInvitations } from "../db/schema";
+
+/**
+ * Mark pending invitations past their expiration date as expired
+ * Returns the expired invitations
+ */
+export async function expireStaleInvitations(organizationId?: number): Promise<TeamInvitation[]> {
+  const conditions = [
+    eq(teamInvitations.status, "pending"),
+    lt(teamInvitations.expiresAt, new Date()),
+  ];
+
+  if (organizationId) {
+    conditions.push(eq(teamInvitations.organizationId, organizationId));
+  }
+
+  return db
+    .update(teamInvitations)
+    .set({ status: "expired", updatedAt: new Date() })
+    .where(and(...conditions))
+    .returning();
+}
@@ -0,0 +1,345 @@
+import { and, eq, isNull, or } from "drizzle-orm";
+import { db } from "../db";
+import type { BillingHistory, NfseInvoice } from "../db/schema";
+import {
+  billingHistory,
+  customerSubscriptions,
+  nfseInvoices,
+  organizationBillingProfiles,
+  subscriptionPlans,
+} from "../db/schema";
+import { recordActivity } from "../lib/audit";
+import { getBackoffDelayMs } from "../lib/backoff";
+import { env } from "../lib/env";
+import { enqueueJob } from "../lib/jobs";
+import type { NfseBillingContact, NfseConfig, NfseRecord } from "../lib/nfse";
+import {
+  buildNfseRequest,
+  createNfse,
+  findIbgeCityCode,
+  getMissingNfseFields,
+  getNfse,
+  getNfseSkipReason,
+  isNfseInProgress,
+} from "../lib/nfse";
+import { getBrazilianDocument } from "../lib/tax-ids";
+
+// Municipalities take from minutes to hours; polling backs off up to hourly for about a day
+const NFSE_SYNC_BACKOFF = { baseMs: 60 * 1000, maxMs: 60 * 60 * 1000 };
+const NFSE_MAX_SYNC_ATTEMPTS = 30;
+
+function getNfseConfig(): NfseConfig | null {
+  return env.NFSE_API_KEY ? { baseUrl: env.NFSE_API_URL, apiKey: env.NFSE_API_KEY } : null;
+}
+
+/**
+ * Queue the issuance of a note for a paid BRL invoice
+ * Entries that must not get one (trials, zero amounts, other currencies) or already have one are ignored
+ * Returns whether a job was queued
+ */
+export async function queueNfseIssue(entry: BillingHistory): Promise<boolean> {
+  if (getNfseSkipReason(entry) || !getNfseConfig()) {
+    return false;
+  }
+
+  const [nfse] = await db
+    .select({ status: nfseInvoices.status, reference: nfseInvoices.reference })
+    .from(nfseInvoices)
+    .where(eq(nfseInvoices.billingHistoryId, entry.id))
+    .limit(1);
+
+  // Already accepted by the fiscal API
+  if (nfse?.reference && nfse.status !== "error") {
+    return false;
+  }
+
+  await enqueueJob(
+    "nfse.issue",
+    { billingHistoryId: entry.id },
+    { uniqueKey: `nfse.issue:${entry.id}` },
+  );
+
+  return true;
+}
+
+/**
+ * Queue the notes of an organization that failed or were never issued, e.g. once its billing data is fixed
+ * Returns the number of queued notes
+ */
+export async function requeueNfseIssues(organizationId: number): Promise<number> {
+  const rows = await db
+    .select({ entry: billingHistory })
+    .from(billingHistory)
+    .innerJoin(customerSubscriptions, eq(billingHistory.subscriptionId, customerSubscriptions.id))
+    .leftJoin(nfseInvoices, eq(nfseInvoices.billingHistoryId, billingHistory.id))
+    .where(
+      and(
+        eq(customerSubscriptions.organizationId, organizationId),
+        or(isNull(nfseInvoices.id), eq(nfseInvoices.status, "error")),
+      ),
+    );
+
+  let queued = 0;
+  for (const { entry } of rows) {
+    if (await queueNfseIssue(entry)) {
+      queued += 1;
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Get the billing details a note is issued to, from the organization's billing profile
+ */
+async function getBillingContact(organizationId: number): Promise<NfseBillingContact | null> {
+  const [profile] = await db
+    .select()
+    .from(organizationBillingProfiles)
+    .where(eq(organizationBillingProfiles.organizationId, organizationId))
+    .limit(1);
+
+  if (!profile) {
+    return null;
+  }
+
+  return {
+    name: profile.legalName,
+    document: getBrazilianDocument(profile.taxIds),
+    street: [profile.addressLine1, profile.addressLine2].filter(Boolean).join(", ") || null,
+    city: profile.addressCity,
+    state: profile.addressState,
+    postalCode: profile.addressPostalCode,
+  };
+}
+
+/**
+ * Store what the fiscal API reported about a note
+ */
+function fromNfseRecord(record: NfseRecord): Partial<NfseInvoice> {
+  return {
+    reference: record.reference,
+    status: record.status,
+    nfseNumber: record.nfse_number,
+    pdfUrl: record.pdf_url,
+    xmlUrl: record.xml_url ?? null,
+    errorMessage: record.error_message,
+    issuedAt: record.issued_at ? new Date(record.issued_at) : null,
+  };
+}
+
+/**
+ * Record a note that could not be issued; it is queued again when the billing profile is saved
+ */
+async function failNfse(
+  nfse: NfseInvoice,
+  errorMessage: string,
+  organizationId: number,
+): Promise<void> {
+  await db
+    .update(nfseInvoices)
+    .set({ status: "error", errorMessage })
+    .where(eq(nfseInvoices.id, nfse.id));
+
+  await recordActivity({
+    action: "billing.nfse_failed",
+    actionType: "update",
+    description: `NFS-e could not be issued: ${errorMessage}`,
+    organizationId,
+    metadata: { billing_history_id: nfse.billingHistoryId, nfse_invoice_id: nfse.id },
+  });
+}
+
+/**
+ * Issue the note of a paid BRL invoice through the fiscal API
+ * Throws on network and server errors so the job is retried; invalid data is recorded as an error
+ */
+export async function issueNfse(billingHistoryId: number): Promise<void> {
+  const config = getNfseConfig();
+  if (!config) {
+    console.warn("[DEV] NFS-e API not configured");
+    return;
+  }
+
+  const [row] = await db
+    .select({
+      entry: billingHistory,
+      organizationId: customerSubscriptions.organizationId,
+      planName: subscriptionPlans.displayName,
+    })
+    .from(billingHistory)
+    .innerJoin(customerSubscriptions, eq(billingHistory.subscriptionId, customerSubscriptions.id))
+    .leftJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id))
+    .where(eq(billingHistory.id, billingHistoryId))
+    .limit(1);
+
+  if (!row || getNfseSkipReason(row.entry)) {
+    return;
+  }
+
+  const { entry, organizationId } = row;
+
+  // Created before calling the fiscal API so a retry finds it
+  await db
+    .insert(nfseInvoices)
+    .values({ billingHistoryId: entry.id, organizationId, amount: entry.amount })
+    .onConflictDoNothing({ target: nfseInvoices.billingHistoryId });
+
+  const [nfse] = await db
+    .select()
+    .from(nfseInvoices)
+    .where(eq(nfseInvoices.billingHistoryId, entry.id))
+    .limit(1);
+
+  // Already accepted by the fiscal API; notes it rejected are issued again
+  if (!nfse || (nfse.reference && nfse.status !== "error")) {
+    return;
+  }
+
+  const contact = await getBillingContact(organizationId);
+  const missing = contact ? getMissingNfseFields(contact) : ["billing_profile"];
+
+  if (!contact || missing.length > 0) {
+    await failNfse(nfse, `Missing billing information: ${missing.join(", ")}`, organizationId);
+    return;
+  }
+
+  const city = await findIbgeCityCode(config, contact.state!, contact.city!);
+
+  if (!city.ok) {
+    if (city.retryable) {
+      throw new Error(`IBGE city lookup failed: ${city.error}`);
+    }
+    await failNfse(nfse, city.error, organizationId);
+    return;
+  }
+
+  if (city.data === null) {
+    await failNfse(nfse, `Unknown city ${contact.city}/${contact.state}`, organizationId);
+    return;
+  }
+
+  const result = await createNfse(
+    config,
+    buildNfseRequest({
+      contact,
+      cityCode: city.data,
+      amount: entry.amount,
+      serviceDescription: `Assinatura ${row.planName ?? "SaaS"} - fatura ${entry.invoiceNumber ?? entry.stripeInvoiceId}`,
+      externalReference: entry.stripeInvoiceId ?? `billing_history_${entry.id}`,
+      // Customers get the note from us, not from the fiscal API
+      notificationEmail: env.NFSE_ADMIN_EMAIL,
+    }),
+  );
+
+  if (!result.ok) {
+    if (result.retryable) {
+      await db
+        .update(nfseInvoices)
+        .set({ errorMessage: result.error })
+        .where(eq(nfseInvoices.id, nfse.id));
+      throw new Error(`NFS-e issuance failed: ${result.error}`);
+    }
+    await failNfse(nfse, result.error, organizationId);
+    return;
+  }
+
+  await db
+    .update(nfseInvoices)
+    .set({ ...fromNfseRecord(result.data), syncAttempts: 0 })
+    .where(eq(nfseInvoices.id, nfse.id));
+
+  await recordActivity({
+    action: "billing.nfse_requested",
+    actionType: "create",
+    description: `NFS-e requested for invoice ${entry.invoiceNumber ?? entry.stripeInvoiceId}`,
+    organizationId,
+    metadata: { billing_history_id: entry.id, reference: result.data.reference },
+  });
+
+  if (isNfseInProgress(result.data.status)) {
+    await enqueueJob(
+      "nfse.sync",
+      { nfseInvoiceId: nfse.id },
+      { delayMs: getBackoffDelayMs(1, NFSE_SYNC_BACKOFF) },
+    );
+  }
+}
+
+/**
+ * Refresh a note the municipality is still processing, polling again with backoff until it is done
+ */
+export async function syncNfse(nfseInvoiceId: number): Promise<void> {
+  const config = getNfseConfig();
+  if (!config) {
+    console.warn("[DEV] NFS-e API not configured");
+    return;
+  }
+
+  const [nfse] = await db
+    .select()
+    .from(nfseInvoices)
+    .where(eq(nfseInvoices.id, nfseInvoiceId))
+    .limit(1);
+
+  if (!nfse?.reference || !isNfseInProgress(nfse.status)) {
+    return;
+  }
+
+  const result = await getNfse(config, nfse.reference);
+
+  if (!result.ok) {
+    if (result.retryable) {
+      throw new Error(`NFS-e status check failed: ${result.error}`);
+    }
+    console.error(`NFS-e ${nfse.reference} status check failed: ${result.error}`);
+    return;
+  }
+
+  const syncAttempts = nfse.syncAttempts + 1;
+
+  await db
+    .update(nfseInvoices)
+    .set({ ...fromNfseRecord(result.data), syncAttempts })
+    .where(eq(nfseInvoices.id, nfse.id));
+
+  if (result.data.status === "error") {
+    await recordActivity({
+      action: "billing.nfse_failed",
+      actionType: "update",
+      description: `NFS-e ${nfse.reference} was rejected: ${result.data.error_message ?? "unknown error"}`,
+      organizationId: nfse.organizationId,
+      metadata: { billing_history_id: nfse.billingHistoryId, reference: nfse.reference },
+    });
+    return;
+  }
+
+  if (!isNfseInProgress(result.data.status)) {
+    return;
+  }
+
+  if (syncAttempts >= NFSE_MAX_SYNC_ATTEMPTS) {
+    console.warn(`NFS-e ${nfse.reference} still ${result.data.status}; stopped polling`);
+    return;
+  }
+
+  await enqueueJob(
+    "nfse.sync",
+    { nfseInvoiceId: nfse.id },
+    { delayMs: getBackoffDelayMs(syncAttempts + 1, NFSE_SYNC_BACKOFF) },
+  );
+}
+
+/**
+ * Format a note for API responses
+ */
+export function formatNfse(nfse: NfseInvoice) {
+  return {
+    status: nfse.status,
+    number: nfse.nfseNumber,
+    pdf_url: nfse.pdfUrl,
+    xml_url: nfse.xmlUrl,
+    error: nfse.status === "error" ? nfse.errorMessage : null,
+    issued_at: nfse.issuedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,37 @@
+import { RedisClient } from "bun";
+import { lte } from "drizzle-orm";
+import type { Store } from "hono-rate-limiter";
+import { db } from "../db";
+import { rateLimits } from "../db/schema";
+import { env } from "../lib/env";
+import { PostgresRateLimitStore, RedisRateLimitStore } from "../lib/rate-limit-store";
+
+let redisClient: RedisClient | null = null;
+
+/**
+ * Create the store configured by RATE_LIMIT_STORE
+ * Returns undefined for "memory", which keeps hono-rate-limiter's per-process store
+ */
+export function createRateLimitStore(): Store | undefined {
+  switch (env.RATE_LIMIT_STORE) {
+    case "postgres":
+      return new PostgresRateLimitStore(db);
+    case "redis":
+      redisClient ??= new RedisClient(env.REDIS_URL);
+      return new RedisRateLimitStore(redisClient);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Delete expired Postgres counters
+ */
+export async function pruneRateLimits(): Promise<number> {
+  const deleted = await db
+    .delete(rateLimits)
+    .where(lte(rateLimits.resetAt, new Date()))
+    .returning({ key: rateLimits.key });
+
+  return deleted.length;
+}
@@ -1,11 +1,17 @@
 import {
   DeleteObjectCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   PutObjectCommand,
   S3Client,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { and, eq, gt, lte, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import type { NewStoredFile, StoredFile } from "../db/schema";
+import { customerSubscriptions, files, organizations } from "../db/schema";
 import { env } from "../lib/env";
+import { getEffectiveLimits } from "./entitlement.service";
 
 // Initialize S3 client for Cloudflare R2
 const s3Client =
@@ -22,6 +28,33 @@ const s3Client =
 
 const bucketName = env.R2_BUCKET_NAME || "uploads";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// Presigned upload URLs are valid this long; their reservation lapses with them
+const UPLOAD_URL_EXPIRY_SECONDS = 3600;
+
+export type UploadResult =
+  | { ok: true; key: string; url: string }
+  | { ok: false; usage: StorageUsage };
+
+export type PresignedUploadResult =
+  | { ok: true; key: string; uploadUrl: string }
+  | { ok: false; usage: StorageUsage };
+
+export type ConfirmUploadResult =
+  | { ok: true; file: StoredFile }
+  | { ok: false; reason: "not_found" | "not_uploaded" | "expired" };
+
+export interface StorageUsage {
+  usedBytes: number;
+  limitBytes: number;
+  maxStorageGb: number;
+  fileCount: number;
+  folders: { folder: string; bytes: number; fileCount: number }[];
+}
+
 /**
  * Generate a unique file key
  */
@@ -33,8 +66,32 @@ function generateFileKey(folder: string, filename: string, userId?: number): str
   return `${folder}/${prefix}${timestamp}-${random}.${ext}`;
 }
 
+/**
+ * Helper to insert a pending file row, reserving its size against the organization's storage quota
+ * Returns the organization's usage instead when it has no room for the file
+ */
+async function reserveFile(
+  values: NewStoredFile,
+): Promise<{ ok: true } | { ok: false; usage: StorageUsage }> {
+  if (!values.organizationId) {
+    await db.insert(files).values(values);
+    return { ok: true };
+  }
+
+  const reserved = await withStorageLock(
+    values.organizationId,
+    values.sizeBytes ?? 0,
+    async (tx) => {
+      await tx.insert(files).values(values);
+    },
+  );
+
+  return reserved.ok ? { ok: true } : { ok: false, usage: reserved.usage };
+}
+
 /**
  * Upload a file to R2
+ * Organization uploads over the storage quota are rejected before anything is stored
  */
 export async function uploadFile(params: {
   file: Blob | Buffer;
@@ -42,7 +99,8 @@ export async function uploadFile(params: {
   folder: string;
   contentType: string;
   userId?: number;
-}): Promise<{ key: string; url: string } | null> {
+  organizationId?: number | null;
+}): Promise<UploadResult | null> {
   if (!s3Client) {
     console.warn("[DEV] R2 not configured");
     return null;
@@ -53,24 +111,59 @@ export async function uploadFile(params: {
   const body =
     params.file instanceof Blob ? Buffer.from(await params.file.arrayBuffer()) : params.file;
 
-  await s3Client.send(
-    new PutObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-      Body: body,
-      ContentType: params.contentType,
-    }),
-  );
+  // Held like a presigned upload, so the uploads.expire job cleans up if the upload never finishes
+  const reserved = await reserveFile({
+    key,
+    folder: params.folder,
+    filename: params.filename,
+    contentType: params.contentType,
+    sizeBytes: body.length,
+    status: "pending",
+    expiresAt: new Date(Date.now() + UPLOAD_URL_EXPIRY_SECONDS * 1000),
+    userId: params.userId ?? null,
+    organizationId: params.organizationId ?? null,
+  });
+
+  if (!reserved.ok) {
+    return reserved;
+  }
+
+  try {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+        Body: body,
+        ContentType: params.contentType,
+      }),
+    );
+  } catch (error) {
+    await db.delete(files).where(eq(files.key, key));
+    if (params.organizationId) {
+      await refreshStorageUsage(params.organizationId);
+    }
+    throw error;
+  }
+
+  await db
+    .update(files)
+    .set({ status: "uploaded", expiresAt: null, updatedAt: new Date() })
+    .where(eq(files.key, key));
+
+  if (params.organizationId) {
+    await refreshStorageUsage(params.organizationId);
+  }
 
   const url = env.R2_PUBLIC_URL
     ? `${env.R2_PUBLIC_URL}/${key}`
     : `${env.R2_ENDPOINT_URL}/${bucketName}/${key}`;
 
-  return { key, url };
+  return { ok: true, key, url };
 }
 
 /**
  * Delete a file from R2
+ * Releases the bytes charged to the owning organization
  */
 export async function deleteFile(key: string): Promise<boolean> {
   if (!s3Client) {
@@ -85,6 +178,12 @@ export async function deleteFile(key: string): Promise<boolean> {
         Key: key,
       }),
     );
+
+    const [released] = await db.delete(files).where(eq(files.key, key)).returning();
+    if (released?.organizationId) {
+      await refreshStorageUsage(released.organizationId);
+    }
+
     return true;
   } catch (error) {
     console.error("Failed to delete file:", error);
@@ -111,14 +210,17 @@ export async function getPresignedUrl(key: string, expiresIn = 3600): Promise<st
 
 /**
  * Get a presigned URL for uploading a file
+ * Organization uploads over the storage quota are rejected instead of signed
  */
 export async function getUploadPresignedUrl(params: {
   filename: string;
   folder: string;
   contentType: string;
+  size: number;
   userId?: number;
+  organizationId?: number | null;
   expiresIn?: number;
-}): Promise<{ key: string; uploadUrl: string } | null> {
+}): Promise<PresignedUploadResult | null> {
   if (!s3Client) {
     console.warn("[DEV] R2 not configured");
     return null;
@@ -130,13 +232,274 @@ export async function getUploadPresignedUrl(params: {
     Bucket: bucketName,
     Key: key,
     ContentType: params.contentType,
+    // Signed so the client cannot upload more than it was charged for
+    ContentLength: params.size,
   });
 
-  const uploadUrl = await getSignedUrl(s3Client, command, {
-    expiresIn: params.expiresIn || 3600,
+  const expiresIn = params.expiresIn || UPLOAD_URL_EXPIRY_SECONDS;
+  const uploadUrl = await getSignedUrl(s3Client, command, { expiresIn });
+
+  // The declared size is reserved until the upload is confirmed or the URL expires
+  const reserved = await reserveFile({
+    key,
+    folder: params.folder,
+    filename: params.filename,
+    contentType: params.contentType,
+    sizeBytes: params.size,
+    status: "pending",
+    expiresAt: new Date(Date.now() + expiresIn * 1000),
+    userId: params.userId ?? null,
+    organizationId: params.organizationId ?? null,
+  });
+
+  if (!reserved.ok) {
+    return reserved;
+  }
+
+  if (params.organizationId) {
+    await refreshStorageUsage(params.organizationId);
+  }
+
+  return { ok: true, key, uploadUrl };
+}
+
+/**
+ * Check if an S3 error means the object does not exist
+ */
+function isNotFoundError(error: unknown): boolean {
+  const s3Error = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return s3Error?.name === "NotFound" || s3Error?.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Confirm a presigned upload and charge the actual object size
+ * Fails when the object was never uploaded or the reservation expired; confirming twice is a no-op
+ */
+export async function confirmUpload(key: string): Promise<ConfirmUploadResult | null> {
+  if (!s3Client) {
+    console.warn("[DEV] R2 not configured");
+    return null;
+  }
+
+  const [file] = await db.select().from(files).where(eq(files.key, key)).limit(1);
+
+  if (!file) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  if (file.status === "uploaded") {
+    return { ok: true, file };
+  }
+
+  // The reserved quota was released; the object is removed by the uploads.expire job
+  if (file.expiresAt && file.expiresAt <= new Date()) {
+    return { ok: false, reason: "expired" };
+  }
+
+  let size: number | undefined;
+  try {
+    const head = await s3Client.send(
+      new HeadObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      }),
+    );
+    size = head.ContentLength;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return { ok: false, reason: "not_uploaded" };
+    }
+    throw error;
+  }
+
+  const [updated] = await db
+    .update(files)
+    .set({
+      sizeBytes: size ?? file.sizeBytes,
+      status: "uploaded",
+      expiresAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(files.id, file.id))
+    .returning();
+
+  if (file.organizationId) {
+    await refreshStorageUsage(file.organizationId);
+  }
+
+  return { ok: true, file: updated! };
+}
+
+/**
+ * Remove presigned uploads that were never confirmed before their URL expired
+ * Deletes objects uploaded without a confirmation too, then refreshes the affected organizations' usage
+ * Returns the number of removed uploads
+ */
+export async function expirePendingUploads(limit = 500): Promise<number> {
+  const expired = await db
+    .select()
+    .from(files)
+    .where(and(eq(files.status, "pending"), lte(files.expiresAt, new Date())))
+    .limit(limit);
+
+  const organizationIds = new Set<number>();
+
+  for (const file of expired) {
+    if (s3Client) {
+      try {
+        await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: file.key }));
+      } catch (error) {
+        // Keep the row so the next run retries the object
+        if (!isNotFoundError(error)) {
+          console.error(`Failed to delete expired upload ${file.key}:`, error);
+          continue;
+        }
+      }
+    }
+
+    await db.delete(files).where(eq(files.id, file.id));
+    if (file.organizationId) {
+      organizationIds.add(file.organizationId);
+    }
+  }
+
+  for (const organizationId of organizationIds) {
+    await refreshStorageUsage(organizationId);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Get file metadata by key
+ */
+export async function getFileByKey(key: string): Promise<StoredFile | null> {
+  const [file] = await db.select().from(files).where(eq(files.key, key)).limit(1);
+  return file ?? null;
+}
+
+/**
+ * Get storage usage of an organization, grouped by folder
+ * Pending presigned uploads count with their declared size until their URL expires
+ */
+export async function getStorageUsage(organizationId: number): Promise<StorageUsage> {
+  const { maxStorageGb } = await getEffectiveLimits(organizationId);
+  return sumStorageUsage(organizationId, maxStorageGb);
+}
+
+/**
+ * Helper to add up the bytes an organization stores against its storage limit
+ */
+async function sumStorageUsage(
+  organizationId: number,
+  maxStorageGb: number,
+  executor: Pick<typeof db, "select"> = db,
+): Promise<StorageUsage> {
+  const rows = await executor
+    .select({
+      folder: files.folder,
+      bytes: sql<number>`coalesce(sum(${files.sizeBytes}), 0)`,
+      fileCount: sql<number>`count(*)`,
+    })
+    .from(files)
+    .where(
+      and(
+        eq(files.organizationId, organizationId),
+        or(eq(files.status, "uploaded"), gt(files.expiresAt, new Date())),
+      ),
+    )
+    .groupBy(files.folder)
+    .orderBy(files.folder);
+
+  const folders = rows.map((r) => ({
+    folder: r.folder,
+    bytes: Number(r.bytes),
+    fileCount: Number(r.fileCount),
+  }));
+
+  return {
+    usedBytes: folders.reduce((sum, f) => sum + f.bytes, 0),
+    limitBytes: maxStorageGb * BYTES_PER_GB,
+    maxStorageGb,
+    fileCount: folders.reduce((sum, f) => sum + f.fileCount, 0),
+    folders,
+  };
+}
+
+/**
+ * Run a change if the organization can store the given number of additional bytes
+ * The organization row stays locked while checking, so concurrent uploads cannot all fit the same room
+ */
+export async function withStorageLock<T>(
+  organizationId: number,
+  bytes: number,
+  change: (tx: Transaction) => Promise<T>,
+): Promise<{ ok: true; value: T; usage: StorageUsage } | { ok: false; usage: StorageUsage }> {
+  const { maxStorageGb } = await getEffectiveLimits(organizationId);
+
+  return db.transaction(async (tx) => {
+    await tx
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, organizationId))
+      .for("update");
+
+    const usage = await sumStorageUsage(organizationId, maxStorageGb, tx);
+
+    if (usage.usedBytes + bytes > usage.limitBytes) {
+      return { ok: false, usage };
+    }
+
+    return { ok: true, value: await change(tx), usage };
   });
+}
+
+/**
+ * Store the organization's storage usage on its subscription (rounded up to whole GB)
+ */
+export async function refreshStorageUsage(organizationId: number): Promise<StorageUsage> {
+  const usage = await getStorageUsage(organizationId);
+
+  await db
+    .update(customerSubscriptions)
+    .set({
+      currentStorageGb: Math.ceil(usage.usedBytes / BYTES_PER_GB),
+      updatedAt: new Date(),
+    })
+    .where(eq(customerSubscriptions.organizationId, organizationId));
+
+  return usage;
+}
 
-  return { key, uploadUrl };
+/**
+ * Build the error body returned when an upload would exceed the storage quota
+ */
+export function storageQuotaError(usage: StorageUsage, requestedBytes: number) {
+  return {
+    detail: `Storage quota exceeded. Your plan allows ${usage.maxStorageGb} GB.`,
+    error: "storage_quota_exceeded",
+    max_storage_gb: usage.maxStorageGb,
+    limit_bytes: usage.limitBytes,
+    used_bytes: usage.usedBytes,
+    requested_bytes: requestedBytes,
+  };
+}
+
+/**
+ * Format storage usage for API responses
+ */
+export function formatStorageUsage(usage: StorageUsage) {
+  return {
+    used_bytes: usage.usedBytes,
+    limit_bytes: usage.limitBytes,
+    max_storage_gb: usage.maxStorageGb,
+    file_count: usage.fileCount,
+    folders: usage.folders.map((f) => ({
+      folder: f.folder,
+      bytes: f.bytes,
+      file_count: f.fileCount,
+    })),
+  };
 }
 
 // Allowed file types
@@ -0,0 +1,551 @@
+import { and, eq, gt, inArray, lt, ne, or, sql } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "../db";
+import type { StripeEvent } from "../db/schema";
+import {
+  billingHistory,
+  customerSubscriptions,
+  organizationMembers,
+  organizations,
+  stripeEvents,
+  subscriptionPlans,
+  users,
+} from "../db/schema";
+import { recordActivity } from "../lib/audit";
+import { invoiceToBillingEntry } from "../lib/billing-history";
+import { resolveLocale } from "../lib/i18n";
+import { toBillingInterval } from "../lib/plan-change";
+import {
+  getEventSubscriptionId,
+  isOrderedStripeEvent,
+  ORDERED_STRIPE_EVENT_TYPES,
+  STRIPE_EVENT_LEASE_MS,
+} from "../lib/stripe-events";
+import { dispatchWebhookEvent } from "../lib/webhooks";
+import { upsertBillingEntry } from "./billing-history.service";
+import { sendTrialEndingEmail } from "./email.service";
+import { findPlanByPriceId, syncOrganizationEntitlements } from "./entitlement.service";
+import { queueNfseIssue } from "./nfse.service";
+import { stripe } from "./stripe.service";
+
+/**
+ * Store a verified Stripe event
+ * Returns the existing record with `duplicate` set when Stripe sends the same event again
+ */
+export async function recordStripeEvent(
+  event: Stripe.Event,
+): Promise<{ record: StripeEvent; duplicate: boolean }> {
+  const [created] = await db
+    .insert(stripeEvents)
+    .values({
+      stripeEventId: event.id,
+      type: event.type,
+      stripeSubscriptionId: getEventSubscriptionId(event),
+      payload: event as unknown as Record<string, unknown>,
+      eventCreatedAt: new Date(event.created * 1000),
+    })
+    .onConflictDoNothing({ target: stripeEvents.stripeEventId })
+    .returning();
+
+  if (created) {
+    return { record: created, duplicate: false };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(stripeEvents)
+    .where(eq(stripeEvents.stripeEventId, event.id))
+    .limit(1);
+
+  return { record: existing!, duplicate: true };
+}
+
+/**
+ * Apply a stored event, unless it was handled already or is being handled elsewhere
+ * Subscription events older than one already applied to the same subscription are skipped
+ */
+export async function processStripeEvent(id: number): Promise<StripeEvent> {
+  const [claimed] = await db
+    .update(stripeEvents)
+    .set({ status: "processing", attempts: sql`${stripeEvents.attempts} + 1`, error: null })
+    .where(
+      and(
+        eq(stripeEvents.id, id),
+        or(
+          inArray(stripeEvents.status, ["pending", "failed"]),
+          and(
+            eq(stripeEvents.status, "processing"),
+            lt(stripeEvents.updatedAt, new Date(Date.now() - STRIPE_EVENT_LEASE_MS)),
+          ),
+        ),
+      ),
+    )
+    .returning();
+
+  if (!claimed) {
+    const [current] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id)).limit(1);
+    return current!;
+  }
+
+  try {
+    if (await isSuperseded(claimed)) {
+      return await finishStripeEvent(claimed.id, "skipped", "Superseded by a newer event");
+    }
+
+    await handleStripeEvent(claimed.payload as unknown as Stripe.Event);
+
+    return await finishStripeEvent(claimed.id, "processed");
+  } catch (error) {
+    console.error(`Stripe event ${claimed.stripeEventId} (${claimed.type}) failed:`, error);
+    return finishStripeEvent(
+      claimed.id,
+      "failed",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+async function isSuperseded(record: StripeEvent): Promise<boolean> {
+  if (!record.stripeSubscriptionId || !isOrderedStripeEvent(record.type)) {
+    return false;
+  }
+
+  const [newer] = await db
+    .select({ id: stripeEvents.id })
+    .from(stripeEvents)
+    .where(
+      and(
+        eq(stripeEvents.stripeSubscriptionId, record.stripeSubscriptionId),
+        inArray(stripeEvents.type, ORDERED_STRIPE_EVENT_TYPES),
+        eq(stripeEvents.status, "processed"),
+        gt(stripeEvents.eventCreatedAt, record.eventCreatedAt),
+        ne(stripeEvents.id, record.id),
+      ),
+    )
+    .limit(1);
+
+  return Boolean(newer);
+}
+
+async function finishStripeEvent(
+  id: number,
+  status: "processed" | "skipped" | "failed",
+  error: string | null = null,
+): Promise<StripeEvent> {
+  const [updated] = await db
+    .update(stripeEvents)
+    .set({ status, error, processedAt: status === "failed" ? null : new Date() })
+    .where(eq(stripeEvents.id, id))
+    .returning();
+
+  return updated!;
+}
+
+async function handleStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "checkout.session.completed":
+      await handleCheckoutComplete(event.data.object);
+      break;
+
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+      await handleSubscriptionUpdate(event.data.object);
+      break;
+
+    case "customer.subscription.deleted":
+      await handleSubscriptionDeleted(event.data.object);
+      break;
+
+    case "customer.subscription.trial_will_end":
+      await handleTrialWillEnd(event.data.object);
+      break;
+
+    case "invoice.paid":
+      await handleInvoicePaid(event.data.object);
+      break;
+
+    case "invoice.payment_failed":
+      await handleInvoiceFailed(event.data.object);
+      break;
+
+    case "charge.refunded":
+      await handleChargeRefunded(event.data.object);
+      break;
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Get the current period of a subscription
+ * Recent API versions only report it on the subscription items
+ */
+function getSubscriptionPeriod(subscription: Stripe.Subscription) {
+  const subData = subscription as any;
+  const item = subscription.items.data[0];
+  const start: number | undefined = subData.current_period_start ?? item?.current_period_start;
+  const end: number | undefined = subData.current_period_end ?? item?.current_period_end;
+
+  return {
+    periodStart: start ? new Date(start * 1000) : null,
+    periodEnd: end ? new Date(end * 1000) : null,
+  };
+}
+
+async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
+  if (!stripe) return;
+
+  const organizationId = session.metadata?.organization_id;
+  const planId = session.metadata?.plan_id;
+
+  if (!organizationId || !session.subscription) {
+    return;
+  }
+
+  // Get subscription details from Stripe
+  const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
+
+  const { periodStart, periodEnd } = getSubscriptionPeriod(subscription);
+
+  // Update local subscription record
+  await db
+    .update(customerSubscriptions)
+    .set({
+      stripeSubscriptionId: subscription.id,
+      planId: planId ? parseInt(planId, 10) : null,
+      status: subscription.status,
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+      billingInterval: toBillingInterval(subscription.items.data[0]?.price.recurring?.interval),
+      currency: subscription.currency,
+      trialStart: subscription.trial_start ? new Date(subscription.trial_start * 1000) : null,
+      trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+      ...(subscription.trial_start !== null && { trialUsed: true }),
+      updatedAt: new Date(),
+    })
+    .where(eq(customerSubscriptions.organizationId, parseInt(organizationId, 10)));
+
+  await recordActivity({
+    action: "subscription.activate",
+    actionType: "update",
+    description: `Subscription ${subscription.status} after checkout`,
+    organizationId: parseInt(organizationId, 10),
+    metadata: { stripe_subscription_id: subscription.id, plan_id: planId },
+  });
+
+  await syncOrganizationEntitlements(parseInt(organizationId, 10));
+
+  console.log(`Checkout complete for org ${organizationId}`);
+}
+
+async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
+  const customerId = subscription.customer as string;
+
+  // Find subscription by customer ID
+  const [existing] = await db
+    .select()
+    .from(customerSubscriptions)
+    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
+    .limit(1);
+
+  if (!existing) {
+    console.log(`No subscription found for customer ${customerId}`);
+    return;
+  }
+
+  // Get plan from price ID, in any currency
+  const priceId = subscription.items.data[0]?.price.id;
+  const match = priceId ? await findPlanByPriceId(priceId) : null;
+  const planId = match?.plan.id ?? null;
+
+  const { periodStart, periodEnd } = getSubscriptionPeriod(subscription);
+  const billingInterval = toBillingInterval(subscription.items.data[0]?.price.recurring?.interval);
+
+  // The scheduled change is done once the new plan applies or the schedule is gone
+  const scheduleDone = !subscription.schedule || planId === existing.scheduledPlanId;
+
+  // Update subscription
+  await db
+    .update(customerSubscriptions)
+    .set({
+      stripeSubscriptionId: subscription.id,
+      planId,
+      status: subscription.status,
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: periodEnd,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
+      trialStart: subscription.trial_start ? new Date(subscription.trial_start * 1000) : null,
+      trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+      trialUsed: existing.trialUsed || subscription.trial_start !== null,
+      billingInterval,
+      currency: subscription.currency,
+      ...(scheduleDone && {
+        scheduledPlanId: null,
+        scheduledInterval: null,
+        scheduledChangeAt: null,
+        stripeScheduleId: null,
+      }),
+      updatedAt: new Date(),
+    })
+    .where(eq(customerSubscriptions.id, existing.id));
+
+  if (existing.planId !== planId || existing.status !== subscription.status) {
+    await recordActivity({
+      action: "subscription.update",
+      actionType: "update",
+      description: `Subscription changed to ${subscription.status}`,
+      organizationId: existing.organizationId,
+      metadata: {
+        stripe_subscription_id: subscription.id,
+        previous_plan_id: existing.planId,
+        plan_id: planId,
+        previous_status: existing.status,
+        status: subscription.status,
+      },
+    });
+  }
+
+  await syncOrganizationEntitlements(existing.organizationId);
+
+  await dispatchWebhookEvent(
+    existing.organizationId,
+    existing.stripeSubscriptionId === subscription.id
+      ? "subscription.updated"
+      : "subscription.created",
+    {
+      subscription: {
+        id: subscription.id,
+        plan_id: planId,
+        status: subscription.status,
+        current_period_end: periodEnd?.toISOString() ?? null,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        trial_end: subscription.trial_end
+          ? new Date(subscription.trial_end * 1000).toISOString()
+          : null,
+      },
+    },
+  );
+
+  console.log(`Subscription updated for customer ${customerId}`);
+}
+
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+  const customerId = subscription.customer as string;
+
+  const canceled = await db
+    .update(customerSubscriptions)
+    .set({
+      status: "canceled",
+      canceledAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
+    .returning();
+
+  for (const sub of canceled) {
+    await recordActivity({
+      action: "subscription.delete",
+      actionType: "delete",
+      description: "Subscription ended",
+      organizationId: sub.organizationId,
+      metadata: { stripe_subscription_id: subscription.id },
+    });
+
+    // Falls back to the free plan limits, flagging over-limit orgs read-only
+    await syncOrganizationEntitlements(sub.organizationId);
+
+    await dispatchWebhookEvent(sub.organizationId, "subscription.canceled", {
+      subscription: { id: subscription.id, plan_id: sub.planId, status: "canceled" },
+    });
+  }
+
+  console.log(`Subscription deleted for customer ${customerId}`);
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  const customerId = invoice.customer as string;
+
+  // Find subscription
+  const [subscription] = await db
+    .select()
+    .from(customerSubscriptions)
+    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
+    .limit(1);
+
+  if (!subscription) {
+    return;
+  }
+
+  // Record billing history (amount in cents); a retried payment replaces the failed entry
+  const entry = invoiceToBillingEntry(invoice, subscription.id);
+  if (entry) {
+    const saved = await upsertBillingEntry({ ...entry, paidAt: entry.paidAt ?? new Date() });
+
+    // Brazilian service invoice for paid BRL invoices
+    await queueNfseIssue(saved);
+  }
+
+  console.log(`Invoice paid for customer ${customerId}`);
+}
+
+async function handleInvoiceFailed(invoice: Stripe.Invoice) {
+  const customerId = invoice.customer as string;
+
+  // Find subscription
+  const [subscription] = await db
+    .select()
+    .from(customerSubscriptions)
+    .where(eq(customerSubscriptions.stripeCustomerId, customerId))
+    .limit(1);
+
+  if (!subscription) {
+    return;
+  }
+
+  // Record failed payment (amount in cents); each retry updates the same entry
+  const entry = invoiceToBillingEntry(invoice, subscription.id);
+  if (entry) {
+    await upsertBillingEntry({ ...entry, status: "failed" });
+  }
+
+  // Update subscription status
+  await db
+    .update(customerSubscriptions)
+    .set({
+      status: "past_due",
+      updatedAt: new Date(),
+    })
+    .where(eq(customerSubscriptions.id, subscription.id));
+
+  console.log(`Invoice failed for customer ${customerId}`);
+}
+
+async function handleTrialWillEnd(subscription: Stripe.Subscription) {
+  const [existing] = await db
+    .select({
+      subscription: customerSubscriptions,
+      organization: organizations,
+      plan: subscriptionPlans,
+    })
+    .from(customerSubscriptions)
+    .innerJoin(organizations, eq(customerSubscriptions.organizationId, organizations.id))
+    .leftJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id))
+    .where(eq(customerSubscriptions.stripeCustomerId, subscription.customer as string))
+    .limit(1);
+
+  if (!existing || !subscription.trial_end) {
+    return;
+  }
+
+  const organizationId = existing.organization.id;
+  const trialEnd = new Date(subscription.trial_end * 1000);
+  const hasPaymentMethod = Boolean(subscription.default_payment_method);
+
+  // Remind whoever can add a payment method
+  const recipients = await db
+    .select({ email: users.email, name: users.name, locale: users.locale, country: users.country })
+    .from(organizationMembers)
+    .innerJoin(users, eq(organizationMembers.userId, users.id))
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        inArray(organizationMembers.role, ["owner", "admin"]),
+        eq(users.isActive, true),
+      ),
+    );
+
+  for (const recipient of recipients) {
+    await sendTrialEndingEmail(
+      recipient.email,
+      {
+        organizationName: existing.organization.name,
+        planName: existing.plan?.displayName ?? "paid",
+        trialEnd,
+        hasPaymentMethod,
+      },
+      recipient.name,
+      resolveLocale(recipient),
+    );
+  }
+
+  await recordActivity({
+    action: "subscription.trial_will_end",
+    actionType: "update",
+    description: `Trial ends on ${trialEnd.toISOString().slice(0, 10)}`,
+    organizationId,
+    metadata: {
+      stripe_subscription_id: subscription.id,
+      trial_end: trialEnd.toISOString(),
+      has_payment_method: hasPaymentMethod,
+      reminders_sent: recipients.length,
+    },
+  });
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  if (!stripe) return;
+
+  const paymentIntentId =
+    typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  // Charges no longer reference their invoice; find it through the invoice payment
+  const payments = await stripe.invoicePayments.list({
+    payment: { type: "payment_intent", payment_intent: paymentIntentId },
+    limit: 1,
+  });
+  const invoice = payments.data[0]?.invoice;
+  const invoiceId = typeof invoice === "string" ? invoice : invoice?.id;
+
+  if (!invoiceId) {
+    return;
+  }
+
+  const [entry] = await db
+    .select()
+    .from(billingHistory)
+    .where(eq(billingHistory.stripeInvoiceId, invoiceId))
+    .limit(1);
+
+  if (!entry) {
+    console.log(`No billing history for refunded invoice ${invoiceId}`);
+    return;
+  }
+
+  // Partial refunds keep the entry paid and record the refunded amount
+  await db
+    .update(billingHistory)
+    .set({
+      status: charge.refunded ? "refunded" : entry.status,
+      stripePaymentIntentId: paymentIntentId,
+      amountRefunded: charge.amount_refunded,
+    })
+    .where(eq(billingHistory.id, entry.id));
+
+  const [subscription] = await db
+    .select()
+    .from(customerSubscriptions)
+    .where(eq(customerSubscriptions.id, entry.subscriptionId))
+    .limit(1);
+
+  if (subscription) {
+    await recordActivity({
+      action: "billing.refund",
+      actionType: "update",
+      description: `Refunded ${charge.amount_refunded} ${charge.currency.toUpperCase()} of invoice ${invoiceId}`,
+      organizationId: subscription.organizationId,
+      metadata: {
+        stripe_invoice_id: invoiceId,
+        amount_refunded: charge.amount_refunded,
+        full_refund: charge.refunded,
+      },
+    });
+  }
+
+  console.log(`Charge refunded for invoice ${invoiceId}`);
+}
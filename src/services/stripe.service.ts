@@ -1,10 +1,18 @@
 import Stripe from "stripe";
 import { env } from "../lib/env";
+import type { BillingInterval } from "../lib/plan-change";
+
+const apiUrl = env.STRIPE_API_URL ? new URL(env.STRIPE_API_URL) : null;
 
 // Initialize Stripe client
 export const stripe = env.STRIPE_SECRET_KEY
   ? new Stripe(env.STRIPE_SECRET_KEY, {
       apiVersion: "2025-12-15.clover",
+      ...(apiUrl && {
+        host: apiUrl.hostname,
+        port: Number(apiUrl.port) || (apiUrl.protocol === "http:" ? 80 : 443),
+        protocol: apiUrl.protocol === "http:" ? "http" : "https",
+      }),
     })
   : null;
 
@@ -30,12 +38,14 @@ export async function createCustomer(params: {
 
 /**
  * Create a checkout session for subscription
+ * With trialDays, the card is collected now and first charged when the trial ends
  */
 export async function createCheckoutSession(params: {
   customerId: string;
   priceId: string;
   successUrl: string;
   cancelUrl: string;
+  trialDays?: number;
   metadata?: Record<string, string>;
 }): Promise<Stripe.Checkout.Session | null> {
   if (!stripe) {
@@ -53,12 +63,40 @@ export async function createCheckoutSession(params: {
         quantity: 1,
       },
     ],
+    ...(params.trialDays && {
+      subscription_data: { trial_period_days: params.trialDays, metadata: params.metadata },
+    }),
     success_url: params.successUrl,
     cancel_url: params.cancelUrl,
     metadata: params.metadata,
   });
 }
 
+/**
+ * Start a trial subscription without collecting a payment method
+ * Stripe cancels it when the trial ends unless a payment method was added in the meantime
+ */
+export async function createTrialSubscription(params: {
+  customerId: string;
+  priceId: string;
+  trialDays: number;
+  metadata?: Record<string, string>;
+}): Promise<Stripe.Subscription | null> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return null;
+  }
+
+  return stripe.subscriptions.create({
+    customer: params.customerId,
+    items: [{ price: params.priceId, quantity: 1 }],
+    trial_period_days: params.trialDays,
+    trial_settings: { end_behavior: { missing_payment_method: "cancel" } },
+    payment_settings: { save_default_payment_method: "on_subscription" },
+    metadata: params.metadata,
+  });
+}
+
 /**
  * Create a billing portal session
  */
@@ -143,39 +181,84 @@ export async function getCustomer(customerId: string): Promise<Stripe.Customer |
   return customer as Stripe.Customer;
 }
 
+// Upper bound on the objects read by one reconciliation listing
+const RECONCILE_LIST_LIMIT = 1000;
+
 /**
- * List invoices for a customer
+ * List invoices for a customer, with the payments that settled them
+ * Only invoices created at or after `createdAfter` when given
  */
-export async function listInvoices(customerId: string, limit = 10): Promise<Stripe.Invoice[]> {
+export async function listInvoices(
+  customerId: string,
+  createdAfter?: Date,
+): Promise<Stripe.Invoice[]> {
   if (!stripe) {
     console.warn("[DEV] Stripe not configured");
     return [];
   }
 
-  const invoices = await stripe.invoices.list({
-    customer: customerId,
-    limit,
-  });
+  return stripe.invoices
+    .list({
+      customer: customerId,
+      expand: ["data.payments"],
+      limit: 100,
+      ...(createdAfter && { created: { gte: Math.floor(createdAfter.getTime() / 1000) } }),
+    })
+    .autoPagingToArray({ limit: RECONCILE_LIST_LIMIT });
+}
+
+/**
+ * List credit notes issued to a customer
+ */
+export async function listCreditNotes(
+  customerId: string,
+  createdAfter?: Date,
+): Promise<Stripe.CreditNote[]> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return [];
+  }
 
-  return invoices.data;
+  return stripe.creditNotes
+    .list({
+      customer: customerId,
+      limit: 100,
+      ...(createdAfter && { created: { gte: Math.floor(createdAfter.getTime() / 1000) } }),
+    })
+    .autoPagingToArray({ limit: RECONCILE_LIST_LIMIT });
 }
 
 /**
- * Update Stripe customer with billing information
- * Used for Brazilian NFSE tax compliance and invoice generation
+ * List charges of a customer, including their refunded amounts
+ */
+export async function listCharges(
+  customerId: string,
+  createdAfter?: Date,
+): Promise<Stripe.Charge[]> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return [];
+  }
+
+  return stripe.charges
+    .list({
+      customer: customerId,
+      limit: 100,
+      ...(createdAfter && { created: { gte: Math.floor(createdAfter.getTime() / 1000) } }),
+    })
+    .autoPagingToArray({ limit: RECONCILE_LIST_LIMIT });
+}
+
+/**
+ * Update a Stripe customer with an organization's billing profile
+ * The customer's tax ids are replaced with the given ones; a null address is cleared
  */
 export async function updateCustomerBillingInfo(params: {
   customerId: string;
-  name?: string;
-  email?: string;
-  taxId?: string;
-  address?: {
-    line1?: string;
-    city?: string;
-    state?: string;
-    postal_code?: string;
-    country?: string;
-  };
+  name: string;
+  email?: string | null;
+  address: Stripe.AddressParam | null;
+  taxIds: { type: Stripe.CustomerCreateTaxIdParams.Type; value: string }[];
   metadata?: Record<string, string>;
 }): Promise<Stripe.Customer | null> {
   if (!stripe) {
@@ -183,32 +266,181 @@ export async function updateCustomerBillingInfo(params: {
     return null;
   }
 
-  const updateData: Stripe.CustomerUpdateParams = {};
+  const customer = await stripe.customers.update(params.customerId, {
+    name: params.name,
+    ...(params.email && { email: params.email }),
+    address: params.address ?? "",
+    metadata: params.metadata,
+  });
 
-  if (params.name) {
-    updateData.name = params.name;
+  const existing = await stripe.customers
+    .listTaxIds(params.customerId, { limit: 100 })
+    .autoPagingToArray({ limit: 100 });
+
+  const key = (taxId: { type: string; value: string }) => `${taxId.type}:${taxId.value}`;
+  const wanted = new Set(params.taxIds.map(key));
+  const current = new Set(existing.map(key));
+
+  for (const taxId of existing) {
+    if (!wanted.has(key(taxId))) {
+      await stripe.customers.deleteTaxId(params.customerId, taxId.id);
+    }
   }
 
-  if (params.email) {
-    updateData.email = params.email;
+  for (const taxId of params.taxIds) {
+    if (!current.has(key(taxId))) {
+      await stripe.customers.createTaxId(params.customerId, taxId);
+    }
   }
 
-  if (params.address) {
-    updateData.address = {
-      line1: params.address.line1 || "",
-      city: params.address.city || "",
-      state: params.address.state || "",
-      postal_code: params.address.postal_code || "",
-      country: params.address.country || "",
-    };
+  return customer;
+}
+
+/**
+ * Preview the invoice for switching a subscription to another price now
+ * Pass the same proration date to changeSubscriptionPrice to be charged the previewed amount
+ */
+export async function previewSubscriptionChange(params: {
+  subscriptionId: string;
+  priceId: string;
+  prorationDate: number;
+}): Promise<Stripe.Invoice | null> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return null;
   }
 
-  // Store tax ID and billing info in metadata for NFSE/invoice generation
-  updateData.metadata = {
-    ...params.metadata,
-    tax_id: params.taxId || "",
-    updated_at: new Date().toISOString(),
-  };
+  const subscription = await stripe.subscriptions.retrieve(params.subscriptionId);
+
+  return stripe.invoices.createPreview({
+    customer: subscription.customer as string,
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: subscription.items.data[0]?.id, price: params.priceId }],
+      proration_behavior: "always_invoice",
+      proration_date: params.prorationDate,
+    },
+  });
+}
 
-  return stripe.customers.update(params.customerId, updateData);
+/**
+ * Switch a subscription to another price now, invoicing the prorated difference
+ * A scheduled change is dropped once the price is updated; the switch stays pending until the invoice is paid
+ */
+export async function changeSubscriptionPrice(params: {
+  subscriptionId: string;
+  priceId: string;
+  prorationDate?: number;
+}): Promise<Stripe.Subscription | null> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return null;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(params.subscriptionId);
+
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    items: [{ id: subscription.items.data[0]?.id, price: params.priceId }],
+    proration_behavior: "always_invoice",
+    proration_date: params.prorationDate,
+    payment_behavior: "pending_if_incomplete",
+  });
+
+  // Released only after the update, so a failed update leaves the scheduled change in place
+  if (subscription.schedule) {
+    await stripe.subscriptionSchedules.release(
+      typeof subscription.schedule === "string" ? subscription.schedule : subscription.schedule.id,
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Switch a subscription to another price when its current period ends
+ */
+export async function scheduleSubscriptionPriceChange(params: {
+  subscriptionId: string;
+  priceId: string;
+  interval: BillingInterval;
+}): Promise<Stripe.SubscriptionSchedule | null> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return null;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(params.subscriptionId);
+
+  const scheduleId = subscription.schedule
+    ? typeof subscription.schedule === "string"
+      ? subscription.schedule
+      : subscription.schedule.id
+    : (await stripe.subscriptionSchedules.create({ from_subscription: subscription.id })).id;
+
+  const schedule = await stripe.subscriptionSchedules.retrieve(scheduleId);
+  const currentPhase = schedule.current_phase ?? schedule.phases[0];
+
+  if (!currentPhase) {
+    throw new Error(`Subscription schedule ${scheduleId} has no current phase`);
+  }
+
+  return stripe.subscriptionSchedules.update(scheduleId, {
+    end_behavior: "release",
+    proration_behavior: "none",
+    phases: [
+      {
+        items: subscription.items.data.map((item) => ({
+          price: item.price.id,
+          quantity: item.quantity,
+        })),
+        start_date: currentPhase.start_date,
+        end_date: currentPhase.end_date,
+      },
+      {
+        items: [{ price: params.priceId, quantity: 1 }],
+        duration: { interval: params.interval === "yearly" ? "year" : "month" },
+      },
+    ],
+  });
+}
+
+/**
+ * Drop a scheduled price change, keeping the subscription as it is
+ */
+export async function releaseSubscriptionSchedule(
+  scheduleId: string,
+): Promise<Stripe.SubscriptionSchedule | null> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return null;
+  }
+
+  return stripe.subscriptionSchedules.release(scheduleId);
+}
+
+/**
+ * Report metered usage to a Stripe billing meter
+ * The identifier makes retries of the same report count once
+ */
+export async function reportMeterEvent(params: {
+  eventName: string;
+  customerId: string;
+  value: number;
+  identifier: string;
+  timestamp: Date;
+}): Promise<Stripe.Billing.MeterEvent | null> {
+  if (!stripe) {
+    console.warn("[DEV] Stripe not configured");
+    return null;
+  }
+
+  return stripe.billing.meterEvents.create({
+    event_name: params.eventName,
+    identifier: params.identifier,
+    timestamp: Math.floor(params.timestamp.getTime() / 1000),
+    payload: {
+      stripe_customer_id: params.customerId,
+      value: String(params.value),
+    },
+  });
 }
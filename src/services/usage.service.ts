@@ -0,0 +1,357 @@
+import { and, eq, gte, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import type { UsageEvent } from "../db/schema";
+import { customerSubscriptions, organizations, usageEvents } from "../db/schema";
+import { env } from "../lib/env";
+import { enqueueJob } from "../lib/jobs";
+import type { AiFeature, UsagePeriod } from "../lib/usage";
+import { getUsagePeriod, splitOverage } from "../lib/usage";
+import { resolveEffectivePlan } from "./entitlement.service";
+import { reportMeterEvent } from "./stripe.service";
+
+export interface AiCreditUsage {
+  planName: string | null;
+  period: UsagePeriod;
+  limit: number;
+  used: number;
+  overage: number;
+  remaining: number;
+  overageEnabled: boolean;
+  featuresEnabled: string[];
+}
+
+export interface UsageBreakdown {
+  byFeature: { feature: string; quantity: number; overage: number; events: number }[];
+  byDay: { date: string; quantity: number; overage: number }[];
+}
+
+export type RecordUsageResult =
+  | { recorded: true; duplicate: boolean; event: UsageEvent; usage: AiCreditUsage }
+  | {
+      recorded: false;
+      reason: "feature_not_enabled" | "credit_limit_exceeded";
+      usage: AiCreditUsage;
+    };
+
+interface UsageAllowance {
+  planName: string | null;
+  period: UsagePeriod;
+  limit: number;
+  overageEnabled: boolean;
+  featuresEnabled: string[];
+}
+
+/**
+ * Get the AI credit allowance of an organization for the current period
+ * Overage is only allowed when the plan enables it and it can be reported to Stripe
+ */
+async function getAllowance(organizationId: number): Promise<UsageAllowance> {
+  const { subscription, plan } = await resolveEffectivePlan(organizationId);
+  const subscribed = Boolean(plan && subscription?.planId === plan.id);
+
+  return {
+    planName: plan?.name ?? null,
+    // The allowance restarts with the paid period; organizations on the free plan follow the calendar
+    period: getUsagePeriod(subscribed ? (subscription?.currentPeriodStart ?? null) : null),
+    limit: plan?.maxAiCreditsMonthly ?? 0,
+    overageEnabled: Boolean(
+      subscribed &&
+        plan?.aiOverageEnabled &&
+        env.STRIPE_AI_CREDITS_METER &&
+        subscription?.stripeCustomerId,
+    ),
+    featuresEnabled: plan?.aiFeaturesEnabled ?? [],
+  };
+}
+
+async function sumUsage(
+  organizationId: number,
+  period: UsagePeriod,
+  executor: Pick<typeof db, "select"> = db,
+): Promise<{ used: number; overage: number }> {
+  const [totals] = await executor
+    .select({
+      used: sql<number>`coalesce(sum(${usageEvents.quantity}), 0)`,
+      overage: sql<number>`coalesce(sum(${usageEvents.overageQuantity}), 0)`,
+    })
+    .from(usageEvents)
+    .where(
+      and(
+        eq(usageEvents.organizationId, organizationId),
+        gte(usageEvents.createdAt, period.start),
+        lt(usageEvents.createdAt, period.end),
+      ),
+    );
+
+  return { used: Number(totals?.used ?? 0), overage: Number(totals?.overage ?? 0) };
+}
+
+function toUsage(
+  allowance: UsageAllowance,
+  totals: { used: number; overage: number },
+): AiCreditUsage {
+  return {
+    ...allowance,
+    used: totals.used,
+    overage: totals.overage,
+    remaining: Math.max(allowance.limit - totals.used, 0),
+  };
+}
+
+/**
+ * Get the AI credits an organization used in the current period
+ */
+export async function getAiCreditUsage(organizationId: number): Promise<AiCreditUsage> {
+  const allowance = await getAllowance(organizationId);
+  return toUsage(allowance, await sumUsage(organizationId, allowance.period));
+}
+
+/**
+ * Record AI credits consumed by an organization
+ *
+ * Refuses features the plan does not include and credits beyond the monthly allowance,
+ * unless the plan bills overage. Calls with an idempotency key that was already recorded
+ * return the original event without counting it again.
+ */
+export async function recordUsage(params: {
+  organizationId: number;
+  feature: AiFeature;
+  quantity: number;
+  idempotencyKey: string;
+  projectId?: number | null;
+  userId?: number | null;
+  metadata?: Record<string, unknown>;
+}): Promise<RecordUsageResult> {
+  if (!Number.isInteger(params.quantity) || params.quantity <= 0) {
+    throw new Error(`Usage quantity must be a positive integer, got ${params.quantity}`);
+  }
+
+  const allowance = await getAllowance(params.organizationId);
+
+  const result = await db.transaction(async (tx): Promise<RecordUsageResult> => {
+    // Serialize an organization's usage so concurrent calls cannot overspend the allowance
+    await tx
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, params.organizationId))
+      .for("update");
+
+    const totals = await sumUsage(params.organizationId, allowance.period, tx);
+
+    const [existing] = await tx
+      .select()
+      .from(usageEvents)
+      .where(
+        and(
+          eq(usageEvents.organizationId, params.organizationId),
+          eq(usageEvents.idempotencyKey, params.idempotencyKey),
+        ),
+      )
+      .limit(1);
+
+    if (existing) {
+      return {
+        recorded: true,
+        duplicate: true,
+        event: existing,
+        usage: toUsage(allowance, totals),
+      };
+    }
+
+    if (!allowance.featuresEnabled.includes(params.feature)) {
+      return {
+        recorded: false,
+        reason: "feature_not_enabled",
+        usage: toUsage(allowance, totals),
+      };
+    }
+
+    const { overage } = splitOverage(totals.used, params.quantity, allowance.limit);
+
+    if (overage > 0 && !allowance.overageEnabled) {
+      return {
+        recorded: false,
+        reason: "credit_limit_exceeded",
+        usage: toUsage(allowance, totals),
+      };
+    }
+
+    const [event] = await tx
+      .insert(usageEvents)
+      .values({
+        organizationId: params.organizationId,
+        projectId: params.projectId ?? null,
+        userId: params.userId ?? null,
+        feature: params.feature,
+        quantity: params.quantity,
+        overageQuantity: overage,
+        idempotencyKey: params.idempotencyKey,
+        metadata: params.metadata ?? {},
+      })
+      .returning();
+
+    return {
+      recorded: true,
+      duplicate: false,
+      event: event!,
+      usage: toUsage(allowance, {
+        used: totals.used + params.quantity,
+        overage: totals.overage + overage,
+      }),
+    };
+  });
+
+  // Reported once the event is committed; the job retries when Stripe is unavailable
+  if (result.recorded && !result.duplicate && result.event.overageQuantity > 0) {
+    await enqueueJob("usage.report", { usageEventId: result.event.id });
+  }
+
+  return result;
+}
+
+/**
+ * Report the overage of a usage event to the Stripe AI credits meter
+ */
+export async function reportUsageOverage(usageEventId: number): Promise<void> {
+  const [event] = await db
+    .select()
+    .from(usageEvents)
+    .where(eq(usageEvents.id, usageEventId))
+    .limit(1);
+
+  if (!event || event.stripeReportedAt || event.overageQuantity <= 0) {
+    return;
+  }
+
+  if (!env.STRIPE_AI_CREDITS_METER) {
+    console.warn(
+      `AI credits meter not configured; overage of usage event ${event.id} not reported`,
+    );
+    return;
+  }
+
+  const [subscription] = await db
+    .select()
+    .from(customerSubscriptions)
+    .where(eq(customerSubscriptions.organizationId, event.organizationId))
+    .limit(1);
+
+  if (!subscription?.stripeCustomerId) {
+    console.warn(`Organization ${event.organizationId} has no Stripe customer to bill overage to`);
+    return;
+  }
+
+  const reported = await reportMeterEvent({
+    eventName: env.STRIPE_AI_CREDITS_METER,
+    customerId: subscription.stripeCustomerId,
+    value: event.overageQuantity,
+    identifier: `usage_event_${event.id}`,
+    timestamp: event.createdAt,
+  });
+
+  if (reported) {
+    await db
+      .update(usageEvents)
+      .set({ stripeReportedAt: new Date() })
+      .where(eq(usageEvents.id, event.id));
+  }
+}
+
+/**
+ * Break an organization's usage down by feature and by day (UTC)
+ */
+export async function getUsageBreakdown(
+  organizationId: number,
+  period: UsagePeriod,
+  projectId?: number,
+): Promise<UsageBreakdown> {
+  const conditions = [
+    eq(usageEvents.organizationId, organizationId),
+    gte(usageEvents.createdAt, period.start),
+    lt(usageEvents.createdAt, period.end),
+  ];
+  if (projectId !== undefined) {
+    conditions.push(eq(usageEvents.projectId, projectId));
+  }
+
+  const day = sql<string>`to_char(${usageEvents.createdAt} at time zone 'UTC', 'YYYY-MM-DD')`;
+
+  const byFeature = await db
+    .select({
+      feature: usageEvents.feature,
+      quantity: sql<number>`coalesce(sum(${usageEvents.quantity}), 0)`,
+      overage: sql<number>`coalesce(sum(${usageEvents.overageQuantity}), 0)`,
+      events: sql<number>`count(*)`,
+    })
+    .from(usageEvents)
+    .where(and(...conditions))
+    .groupBy(usageEvents.feature)
+    .orderBy(usageEvents.feature);
+
+  const byDay = await db
+    .select({
+      date: day,
+      quantity: sql<number>`coalesce(sum(${usageEvents.quantity}), 0)`,
+      overage: sql<number>`coalesce(sum(${usageEvents.overageQuantity}), 0)`,
+    })
+    .from(usageEvents)
+    .where(and(...conditions))
+    .groupBy(day)
+    .orderBy(day);
+
+  return {
+    byFeature: byFeature.map((row) => ({
+      feature: row.feature,
+      quantity: Number(row.quantity),
+      overage: Number(row.overage),
+      events: Number(row.events),
+    })),
+    byDay: byDay.map((row) => ({
+      date: row.date,
+      quantity: Number(row.quantity),
+      overage: Number(row.overage),
+    })),
+  };
+}
+
+/**
+ * Build the error body returned when usage cannot be recorded
+ */
+export function usageRejectedError(
+  result: Extract<RecordUsageResult, { recorded: false }>,
+  quantity: number,
+) {
+  if (result.reason === "feature_not_enabled") {
+    return {
+      detail: "This AI feature is not included in your plan. Upgrade your plan to use it.",
+      error: "upgrade_required",
+      features_enabled: result.usage.featuresEnabled,
+    };
+  }
+
+  return {
+    detail: `Your plan includes ${result.usage.limit} AI credits per month. Upgrade your plan for more.`,
+    error: "ai_credit_limit_exceeded",
+    limit: result.usage.limit,
+    used: result.usage.used,
+    requested: quantity,
+    resets_at: result.usage.period.end.toISOString(),
+  };
+}
+
+/**
+ * Format AI credit usage for API responses
+ */
+export function formatAiCreditUsage(usage: AiCreditUsage) {
+  return {
+    plan_name: usage.planName,
+    period_start: usage.period.start.toISOString(),
+    period_end: usage.period.end.toISOString(),
+    limit: usage.limit,
+    used: usage.used,
+    remaining: usage.remaining,
+    overage: usage.overage,
+    overage_enabled: usage.overageEnabled,
+    features_enabled: usage.featuresEnabled,
+  };
+}
@@ -0,0 +1,14 @@
+import { startJobWorker } from "./jobs/worker";
+import { env } from "./lib/env";
+
+// Standalone job worker: bun run worker
+const worker = startJobWorker({ concurrency: env.JOB_WORKER_CONCURRENCY });
+
+// Finish running jobs before exiting so deploys don't cut them off
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, async () => {
+    console.log(`Received ${signal}, shutting down job worker...`);
+    await worker.stop();
+    process.exit(0);
+  });
+}